@@ -13,6 +13,9 @@ import AdminPage from "@/pages/admin";
 import AdminLoginPage from "@/pages/admin-login";
 import EmployeePortalLoginPage from "@/pages/employee-portal-login";
 import EmployeeShiftsPage from "@/pages/employee-shifts";
+import EmployeeAbsencesPage from "@/pages/employee-absences";
+import EmployeeCorrectionsPage from "@/pages/employee-corrections";
+import ReportVerificationPage from "@/pages/report-verification";
 import { Loader2 } from "lucide-react";
 
 function ProtectedRoute({ 
@@ -55,6 +58,9 @@ function Router() {
       <Route path="/kiosk" component={KioskPage} />
       <Route path="/empleado" component={EmployeePortalLoginPage} />
       <Route path="/empleado/mis-fichajes" component={EmployeeShiftsPage} />
+      <Route path="/empleado/ausencias" component={EmployeeAbsencesPage} />
+      <Route path="/empleado/correcciones" component={EmployeeCorrectionsPage} />
+      <Route path="/verificar/:id" component={ReportVerificationPage} />
       <Route path="/admin/login" component={AdminLoginPage} />
       <Route path="/mobile">
         <ProtectedRoute allowedRoles={["employee", "manager", "admin"]}>
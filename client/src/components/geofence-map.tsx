@@ -0,0 +1,74 @@
+import type { Site } from "@shared/schema";
+
+interface GeofenceMapProps {
+  site: Pick<Site, "name" | "latitude" | "longitude" | "radiusMeters" | "polygon">;
+  punch: { latitude: number; longitude: number; accuracy?: number | null };
+  distanceMeters?: number | null;
+}
+
+const SIZE = 320;
+const PADDING = 24;
+const METERS_PER_DEGREE = 111320;
+
+// Schematic map drawn in metres around the site centre: no tile provider, so it renders under the production CSP
+export function GeofenceMap({ site, punch, distanceMeters }: GeofenceMapProps) {
+  const center = { lat: parseFloat(site.latitude), lng: parseFloat(site.longitude) };
+  const cosLat = Math.cos((center.lat * Math.PI) / 180);
+  const toXY = (lat: number, lng: number) => ({
+    x: (lng - center.lng) * METERS_PER_DEGREE * cosLat,
+    y: (lat - center.lat) * METERS_PER_DEGREE,
+  });
+
+  const polygon = site.polygon && site.polygon.length >= 3 ? site.polygon.map(([lat, lng]) => toXY(lat, lng)) : null;
+  const punchXY = toXY(punch.latitude, punch.longitude);
+
+  const extent = Math.max(
+    polygon ? Math.max(...polygon.map((p) => Math.max(Math.abs(p.x), Math.abs(p.y)))) : site.radiusMeters,
+    Math.abs(punchXY.x),
+    Math.abs(punchXY.y),
+    50
+  ) * 1.15;
+  const scale = (SIZE / 2 - PADDING) / extent;
+  const sx = (x: number) => SIZE / 2 + x * scale;
+  const sy = (y: number) => SIZE / 2 - y * scale;
+
+  const scaleBarMeters = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000].find((m) => m * scale >= 60) ?? 10000;
+  const osmUrl = `https://www.openstreetmap.org/?mlat=${punch.latitude}&mlon=${punch.longitude}#map=17/${punch.latitude}/${punch.longitude}`;
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full max-w-sm mx-auto rounded-md border bg-muted/30"
+        data-testid="geofence-map"
+      >
+        {polygon ? (
+          <polygon
+            points={polygon.map((p) => `${sx(p.x)},${sy(p.y)}`).join(" ")}
+            className="fill-green-500/15 stroke-green-600"
+            strokeWidth={2}
+          />
+        ) : (
+          <circle cx={sx(0)} cy={sy(0)} r={site.radiusMeters * scale} className="fill-green-500/15 stroke-green-600" strokeWidth={2} />
+        )}
+        <circle cx={sx(0)} cy={sy(0)} r={3} className="fill-green-700" />
+        {punch.accuracy ? (
+          <circle cx={sx(punchXY.x)} cy={sy(punchXY.y)} r={punch.accuracy * scale} className="fill-blue-500/10 stroke-blue-400" strokeDasharray="4 3" />
+        ) : null}
+        <line x1={sx(0)} y1={sy(0)} x2={sx(punchXY.x)} y2={sy(punchXY.y)} className="stroke-muted-foreground" strokeDasharray="3 3" />
+        <circle cx={sx(punchXY.x)} cy={sy(punchXY.y)} r={6} className="fill-red-600 stroke-white" strokeWidth={2} />
+        <line x1={PADDING} y1={SIZE - 12} x2={PADDING + scaleBarMeters * scale} y2={SIZE - 12} className="stroke-foreground" strokeWidth={2} />
+        <text x={PADDING} y={SIZE - 18} className="fill-foreground text-[10px]">{scaleBarMeters} m</text>
+      </svg>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {site.name}
+          {distanceMeters != null && distanceMeters > 0 ? ` — a ${distanceMeters} m de la zona` : " — dentro de la zona"}
+        </span>
+        <a href={osmUrl} target="_blank" rel="noopener noreferrer" className="text-primary underline" data-testid="link-geofence-osm">
+          Abrir mapa
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from "react";
+import QRCode from "qrcode";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, X, RefreshCw, Link2 } from "lucide-react";
+import { requestPairingCode, pollPairing, type KioskPairingCode } from "@/lib/kiosk-device";
+
+const PAIRING_POLL_INTERVAL = 5000;
+
+interface KioskPairingCardProps {
+  onPaired: (token: string, deviceName: string) => void;
+  onCancel: () => void;
+}
+
+export function KioskPairingCard({ onPaired, onCancel }: KioskPairingCardProps) {
+  const [pairing, setPairing] = useState<KioskPairingCode | null>(null);
+  const [qrSrc, setQrSrc] = useState<string | null>(null);
+  const [expired, setExpired] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = useCallback(async () => {
+    setPairing(null);
+    setQrSrc(null);
+    setExpired(false);
+    setError(null);
+    try {
+      const issued = await requestPairingCode();
+      setPairing(issued);
+      // Scanned with the admin's phone, the QR opens the approval dialog with the code already filled in
+      const approvalUrl = `${window.location.origin}/admin?pairKiosk=${encodeURIComponent(issued.code)}`;
+      setQrSrc(await QRCode.toDataURL(approvalUrl, { margin: 1, width: 220, errorCorrectionLevel: "M" }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "No se pudo generar el código de vinculación");
+    }
+  }, []);
+
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  useEffect(() => {
+    if (!pairing || expired) return;
+    let stopped = false;
+    const interval = setInterval(async () => {
+      try {
+        const result = await pollPairing(pairing.secret);
+        if (stopped) return;
+        if (result.status === "paired") {
+          onPaired(result.token, result.device.name);
+        } else if (result.status === "expired" || result.status === "delivered") {
+          setExpired(true);
+        }
+      } catch {
+        // Network blip while waiting; the next poll tries again
+      }
+    }, PAIRING_POLL_INTERVAL);
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [pairing, expired, onPaired]);
+
+  return (
+    <Card className="w-full max-w-sm sm:max-w-md border-card-border">
+      <CardHeader className="flex flex-row items-center justify-between pb-3 sm:pb-4 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Link2 className="h-7 w-7 text-primary shrink-0" />
+          <CardTitle className="text-lg sm:text-xl">Vincular este dispositivo</CardTitle>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onCancel} className="shrink-0" data-testid="button-kiosk-pairing-cancel">
+          <X className="h-5 w-5" />
+        </Button>
+      </CardHeader>
+      <CardContent className="flex flex-col items-center space-y-4 pb-6">
+        {error ? (
+          <>
+            <p className="text-sm text-destructive text-center">{error}</p>
+            <Button variant="outline" onClick={start} data-testid="button-kiosk-pairing-retry">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reintentar
+            </Button>
+          </>
+        ) : !pairing ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : expired ? (
+          <>
+            <p className="text-sm text-muted-foreground text-center">El código ha caducado sin ser aprobado.</p>
+            <Button variant="outline" onClick={start} data-testid="button-kiosk-pairing-renew">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Generar nuevo código
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground text-center">
+              Un administrador debe aprobar este código en Administración → Quioscos, o escanear el código QR.
+            </p>
+            <div className="text-3xl sm:text-4xl font-mono font-bold tracking-widest" data-testid="text-kiosk-pairing-code">
+              {pairing.code}
+            </div>
+            {qrSrc && <img src={qrSrc} alt="Código QR de vinculación" className="h-44 w-44" data-testid="img-kiosk-pairing-qr" />}
+            <p className="text-xs text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Esperando aprobación · caduca a las{" "}
+              {new Date(pairing.expiresAt).toLocaleTimeString("es-ES", { timeZone: "Europe/Madrid", hour: "2-digit", minute: "2-digit" })}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import type { Employee } from "@shared/schema";
+
+const manualPunchFormSchema = z.object({
+  employeeId: z.string().min(1, "Seleccione un empleado"),
+  type: z.enum(["IN", "OUT"], { required_error: "Seleccione el tipo" }),
+  timestamp: z.string().min(1, "La fecha/hora es obligatoria"),
+  reason: z.string().min(10, "El motivo debe tener al menos 10 caracteres"),
+});
+
+type ManualPunchFormData = z.infer<typeof manualPunchFormSchema>;
+
+interface ManualPunchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employees: Employee[];
+}
+
+export function ManualPunchDialog({ open, onOpenChange, employees }: ManualPunchDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ManualPunchFormData>({
+    resolver: zodResolver(manualPunchFormSchema),
+    defaultValues: {
+      employeeId: "",
+      type: undefined,
+      timestamp: "",
+      reason: "",
+    },
+  });
+
+  const manualPunchMutation = useMutation({
+    mutationFn: async (data: ManualPunchFormData) => {
+      return apiRequest("POST", "/api/punches/manual", {
+        ...data,
+        timestamp: new Date(data.timestamp).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/punches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      toast({
+        title: "Fichaje añadido",
+        description: "El fichaje manual se ha registrado con éxito",
+      });
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo añadir el fichaje",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeEmployees = employees.filter((e) => e.isActive);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Añadir fichaje olvidado</DialogTitle>
+          <DialogDescription>
+            Registra una entrada o salida que el empleado no llegó a fichar
+          </DialogDescription>
+        </DialogHeader>
+
+        <Alert className="bg-amber-50 border-amber-200 dark:bg-amber-950 dark:border-amber-800">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800 dark:text-amber-200">
+            El fichaje quedará marcado como manual en el informe para autoridades y en la exportación CSV, junto con el motivo.
+          </AlertDescription>
+        </Alert>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => manualPunchMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="employeeId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Empleado *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-manual-punch-employee">
+                        <SelectValue placeholder="Seleccione un empleado" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {activeEmployees.map((e) => (
+                        <SelectItem key={e.id} value={e.id}>{e.firstName} {e.lastName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-manual-punch-type">
+                          <SelectValue placeholder="Seleccione" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="IN">Entrada</SelectItem>
+                        <SelectItem value="OUT">Salida</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="timestamp"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fecha/hora *</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" data-testid="input-manual-punch-timestamp" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Motivo *</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Explique por qué se añade este fichaje (mín. 10 caracteres)"
+                      className="resize-none"
+                      rows={3}
+                      data-testid="input-manual-punch-reason"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-manual-punch"
+              >
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                disabled={manualPunchMutation.isPending}
+                data-testid="button-submit-manual-punch"
+              >
+                {manualPunchMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Guardando...
+                  </>
+                ) : (
+                  "Añadir fichaje"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+
+export function NotificationsBell() {
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications", { unread: true }],
+    refetchInterval: 60000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/notifications/${id}/read`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const count = notifications?.length || 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {count > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 h-4 min-w-4 px-1 rounded-full bg-red-600 text-[10px] font-bold text-white flex items-center justify-center"
+              data-testid="badge-notifications-count"
+            >
+              {count > 9 ? "9+" : count}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="px-4 py-3 border-b font-medium">Notificaciones</div>
+        <div className="max-h-96 overflow-y-auto">
+          {count === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">Sin notificaciones pendientes</p>
+          ) : (
+            notifications!.map((n) => (
+              <div key={n.id} className="px-4 py-3 border-b last:border-0 space-y-1" data-testid={`notification-${n.id}`}>
+                <p className="text-sm font-medium">{n.title}</p>
+                <p className="text-sm text-muted-foreground">{n.message}</p>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(n.createdAt).toLocaleString("es-ES", { timeZone: "Europe/Madrid" })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => readMutation.mutate(n.id)}
+                    disabled={readMutation.isPending}
+                    data-testid={`button-read-notification-${n.id}`}
+                  >
+                    Marcar como leída
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
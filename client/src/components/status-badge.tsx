@@ -1,5 +1,5 @@
 import { Badge } from "@/components/ui/badge";
-import { Clock, MapPin, AlertTriangle, CheckCircle, LogOut, Coffee } from "lucide-react";
+import { Clock, MapPin, AlertTriangle, CheckCircle, LogOut, Coffee, WifiOff } from "lucide-react";
 
 type StatusType = "IN" | "OUT" | "BREAK_START" | "BREAK_END" | "NEEDS_REVIEW" | "ACTIVE" | "INACTIVE";
 
@@ -73,10 +73,21 @@ interface GeoBadgeProps {
   needsReview?: boolean;
   latitude?: number | string | null;
   longitude?: number | string | null;
+  outsideGeofence?: boolean;
+  distanceMeters?: number | null;
 }
 
-export function GeoBadge({ hasLocation, needsReview, latitude, longitude }: GeoBadgeProps) {
-  if (needsReview) {
+export function GeoBadge({ hasLocation, needsReview, latitude, longitude, outsideGeofence, distanceMeters }: GeoBadgeProps) {
+  if (outsideGeofence) {
+    return (
+      <Badge variant="outline" className="gap-1 text-xs text-red-700 border-red-600" data-testid="badge-outside-geofence">
+        <AlertTriangle className="w-3 h-3" />
+        Fuera de zona{distanceMeters != null ? ` (${distanceMeters} m)` : ""}
+      </Badge>
+    );
+  }
+
+  if (needsReview && !hasLocation) {
     return (
       <Badge variant="destructive" className="gap-1 text-xs bg-red-600 text-white">
         <AlertTriangle className="w-3 h-3" />
@@ -121,6 +132,29 @@ export function GeoBadge({ hasLocation, needsReview, latitude, longitude }: GeoB
   return null;
 }
 
+interface OfflineBadgeProps {
+  receivedAt?: Date | string | null;
+  clockDriftSeconds?: number | null;
+}
+
+// Punches replayed by an offline kiosk: the gap shows how long after the signature the server got them
+export function OfflineBadge({ receivedAt, clockDriftSeconds }: OfflineBadgeProps) {
+  if (!receivedAt) return null;
+
+  const minutes = Math.round((clockDriftSeconds ?? 0) / 60);
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 text-xs text-amber-700 border-amber-500"
+      title={`Recibido ${new Date(receivedAt).toLocaleString("es-ES", { timeZone: "Europe/Madrid" })}`}
+      data-testid="badge-offline-punch"
+    >
+      <WifiOff className="w-3 h-3" />
+      Sin conexión{minutes !== 0 ? ` (${minutes > 0 ? "+" : ""}${minutes} min)` : ""}
+    </Badge>
+  );
+}
+
 interface TimeBadgeProps {
   time: Date | string;
   showRelative?: boolean;
@@ -1,17 +1,18 @@
 import { useState, useEffect } from "react";
 
-export const PAUSE_DURATION_MS = 20 * 60 * 1000;
+export const DEFAULT_PAUSE_MINUTES = 20;
 
-export function useCountdown(breakStartedAt?: string) {
+// durationMinutes is null when the break policy has no fixed length: no countdown is shown
+export function useCountdown(breakStartedAt?: string, durationMinutes: number | null = DEFAULT_PAUSE_MINUTES) {
   const [remaining, setRemaining] = useState<number | null>(null);
 
   useEffect(() => {
-    if (!breakStartedAt) {
+    if (!breakStartedAt || durationMinutes === null) {
       setRemaining(null);
       return;
     }
 
-    const endTime = new Date(breakStartedAt).getTime() + PAUSE_DURATION_MS;
+    const endTime = new Date(breakStartedAt).getTime() + durationMinutes * 60 * 1000;
 
     const tick = () => {
       const left = Math.max(0, endTime - Date.now());
@@ -21,7 +22,7 @@ export function useCountdown(breakStartedAt?: string) {
     tick();
     const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [breakStartedAt]);
+  }, [breakStartedAt, durationMinutes]);
 
   return remaining;
 }
@@ -32,3 +33,8 @@ export function formatCountdown(ms: number): string {
   const sec = totalSec % 60;
   return `${min.toString().padStart(2, "0")}:${sec.toString().padStart(2, "0")}`;
 }
+
+export function pauseLabel(durationMinutes: number | null | undefined): string {
+  if (durationMinutes === null) return "Pausa";
+  return `Pausa (${durationMinutes ?? DEFAULT_PAUSE_MINUTES} min)`;
+}
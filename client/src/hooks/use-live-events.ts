@@ -0,0 +1,57 @@
+import { useState, useEffect } from "react";
+import { queryClient, tryRefreshToken } from "@/lib/queryClient";
+
+const RECONNECT_DELAY_MS = 10_000;
+
+type LiveEventKind = "punch" | "pause" | "review" | "overtime";
+
+// Events only name what changed; the affected queries are refetched rather than patched in place
+const QUERIES_BY_KIND: Record<LiveEventKind, string[]> = {
+  punch: ["/api/admin/presence", "/api/punches", "/api/admin/stats"],
+  pause: ["/api/admin/presence", "/api/punches"],
+  review: ["/api/punches", "/api/punches/needs-review", "/api/correction-requests", "/api/admin/stats"],
+  overtime: ["/api/overtime-requests", "/api/hours-bank", "/api/notifications"],
+};
+
+// Returns whether the stream is open, so the dashboard can say it is live
+export function useLiveEvents(siteId?: string, enabled = true): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      source = new EventSource(siteId ? `/api/admin/events?siteId=${encodeURIComponent(siteId)}` : "/api/admin/events", { withCredentials: true });
+      source.onopen = () => setConnected(true);
+      for (const kind of Object.keys(QUERIES_BY_KIND) as LiveEventKind[]) {
+        source.addEventListener(kind, () => {
+          for (const queryKey of QUERIES_BY_KIND[kind]) {
+            queryClient.invalidateQueries({ queryKey: [queryKey] });
+          }
+        });
+      }
+      source.onerror = () => {
+        setConnected(false);
+        // A dropped connection is retried by the browser; a refused one (expired session) is closed for good
+        if (source?.readyState !== EventSource.CLOSED || stopped) return;
+        reconnectTimer = setTimeout(async () => {
+          await tryRefreshToken();
+          if (!stopped) connect();
+        }, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [siteId, enabled]);
+
+  return connected;
+}
@@ -1,8 +1,8 @@
 import { createContext, useContext, useState, useEffect, useCallback } from "react";
-import type { Employee } from "@shared/schema";
+import type { Employee, Permission } from "@shared/schema";
 
 interface AuthContextType {
-  user: (Employee & { source?: string; gestionUserId?: number }) | null;
+  user: (Employee & { source?: string; gestionUserId?: number; permissions?: Permission[] }) | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
@@ -15,7 +15,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<(Employee & { source?: string; gestionUserId?: number }) | null>(null);
+  const [user, setUser] = useState<(Employee & { source?: string; gestionUserId?: number; permissions?: Permission[] }) | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const refreshAuth = useCallback(async () => {
@@ -1,3 +1,5 @@
+import { breakMinutesBetween, type WorkTimePunch } from "@shared/work-time";
+
 /**
  * Compute duration in minutes between entry and exit timestamps
  * @param entryAt - Entry timestamp (IN punch)
@@ -39,6 +41,23 @@ export function computeDurationMinutes(
   return durationMinutes;
 }
 
+/**
+ * Compute worked minutes between entry and exit, deducting unpaid pauses
+ * @param punches - Punches of the same employee; BREAK_START/BREAK_END inside the pair are deducted
+ * @param breaksPaid - Whether the employee's break policy counts pauses as working time
+ * @returns Worked minutes, or null if invalid/ongoing
+ */
+export function computeWorkedMinutes(
+  entryAt: Date | string | null | undefined,
+  exitAt: Date | string | null | undefined,
+  punches: WorkTimePunch[],
+  breaksPaid: boolean
+): number | null {
+  const duration = computeDurationMinutes(entryAt, exitAt);
+  if (duration === null || breaksPaid) return duration;
+  return Math.max(0, duration - breakMinutesBetween(punches, entryAt!, exitAt!));
+}
+
 /**
  * Format duration in minutes to human-readable string
  * @param minutes - Duration in minutes (null for invalid/ongoing)
@@ -0,0 +1,33 @@
+const RETRY_WINDOW_MS = 2 * 60 * 1000;
+
+interface Attempt {
+  key: string;
+  body: string;
+  issuedAt: number;
+}
+
+const unanswered = new Map<string, Attempt>();
+
+// When a request never got an answer, repeating the same action shortly after resends it byte for byte under the
+// same Idempotency-Key: if the first one did reach the server, the stored response comes back instead of a second punch.
+// Any answer from the server, even an error, closes the attempt so the next tap starts afresh.
+export async function sendIdempotent(
+  action: string,
+  payload: unknown,
+  send: (key: string, body: string) => Promise<Response>,
+): Promise<Response> {
+  const now = Date.now();
+  const previous = unanswered.get(action);
+  const attempt = previous && now - previous.issuedAt < RETRY_WINDOW_MS
+    ? previous
+    : { key: crypto.randomUUID(), body: JSON.stringify(payload), issuedAt: now };
+
+  try {
+    const response = await send(attempt.key, attempt.body);
+    unanswered.delete(action);
+    return response;
+  } catch (error) {
+    unanswered.set(action, attempt);
+    throw error;
+  }
+}
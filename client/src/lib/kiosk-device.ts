@@ -0,0 +1,116 @@
+const KIOSK_TOKEN_KEY = "kiosk_device_token";
+
+export interface KioskPairingCode {
+  code: string;
+  secret: string;
+  expiresAt: string;
+}
+
+export type KioskPairingPoll =
+  | { status: "pending" | "approved" | "delivered" | "expired" }
+  | { status: "paired"; token: string; device: { id: string; name: string } };
+
+export interface KioskSession {
+  device: { id: string; name: string; siteId: string | null };
+  rotationDue: boolean;
+  serverTime: string;
+  clockSkewSeconds: number;
+}
+
+// The token only reaches the tablet through pairing; it is never typed or passed in a URL
+export function readDeviceToken(): string | null {
+  return localStorage.getItem(KIOSK_TOKEN_KEY);
+}
+
+export function storeDeviceToken(token: string): void {
+  localStorage.setItem(KIOSK_TOKEN_KEY, token);
+}
+
+export function forgetDeviceToken(): void {
+  localStorage.removeItem(KIOSK_TOKEN_KEY);
+}
+
+async function readError(response: Response): Promise<{ code?: string; message?: string }> {
+  const body = await response.json().catch(() => ({}));
+  return body.error || {};
+}
+
+export async function requestPairingCode(): Promise<KioskPairingCode> {
+  const response = await fetch("/api/kiosk/pairing", { method: "POST" });
+  if (!response.ok) {
+    const error = await readError(response);
+    throw new Error(error.message || "No se pudo generar el código de vinculación");
+  }
+  return response.json();
+}
+
+export async function pollPairing(secret: string): Promise<KioskPairingPoll> {
+  const response = await fetch("/api/kiosk/pairing/status", {
+    headers: { "X-PAIRING-SECRET": secret },
+  });
+  if (response.status === 404) {
+    return { status: "expired" };
+  }
+  if (!response.ok) {
+    const error = await readError(response);
+    throw new Error(error.message || "No se pudo consultar la vinculación");
+  }
+  return response.json();
+}
+
+// Battery and Network Information are Chromium-only and missing from the DOM typings
+interface KioskNavigator extends Navigator {
+  getBattery?: () => Promise<{ level: number; charging: boolean }>;
+  connection?: { type?: string; effectiveType?: string };
+}
+
+async function readDeviceState() {
+  const nav = navigator as KioskNavigator;
+  const battery = await nav.getBattery?.().catch(() => undefined);
+  return {
+    batteryLevel: battery ? Math.round(battery.level * 100) : null,
+    batteryCharging: battery ? battery.charging : null,
+    connectionType: nav.connection?.type ?? null,
+    effectiveType: nav.connection?.effectiveType ?? null,
+  };
+}
+
+// Doubles as the session check. null means the server no longer recognises the token (revoked or replaced):
+// the tablet has to be paired again
+export async function sendKioskHeartbeat(deviceToken: string, pendingPunches: number): Promise<KioskSession | null> {
+  const response = await fetch("/api/kiosk/heartbeat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-KIOSK-TOKEN": deviceToken,
+    },
+    body: JSON.stringify({
+      deviceTime: new Date().toISOString(),
+      appVersion: import.meta.env.VITE_APP_VERSION || "dev",
+      pendingPunches,
+      ...(await readDeviceState()),
+    }),
+  });
+  if (response.status === 403) {
+    const error = await readError(response);
+    if (error.code === "KIOSK_INVALID_TOKEN") return null;
+  }
+  if (!response.ok) {
+    const error = await readError(response);
+    throw new Error(error.message || "No se pudo comprobar el dispositivo");
+  }
+  return response.json();
+}
+
+export async function rotateDeviceToken(deviceToken: string): Promise<string> {
+  const response = await fetch("/api/kiosk/token/rotate", {
+    method: "POST",
+    headers: { "X-KIOSK-TOKEN": deviceToken },
+  });
+  if (!response.ok) {
+    const error = await readError(response);
+    throw new Error(error.message || "No se pudo renovar el token");
+  }
+  const { token } = await response.json();
+  return token;
+}
@@ -0,0 +1,74 @@
+import type { OfflineKioskPunch } from "@shared/schema";
+
+const QUEUE_KEY = "kiosk_offline_queue";
+const SYNC_BATCH = 200;
+
+export interface SyncOutcome {
+  sent: number;
+  flagged: number;
+  rejected: number;
+}
+
+interface SyncResult {
+  clientId: string;
+  status: "created" | "duplicate" | "rejected";
+  flagged?: boolean;
+}
+
+// The PIN travels with each queued punch because only the server can tell whose it is;
+// entries leave the device as soon as the server has answered for them
+export function readOfflineQueue(): OfflineKioskPunch[] {
+  try {
+    const stored = localStorage.getItem(QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOfflineQueue(items: OfflineKioskPunch[]): void {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(items));
+}
+
+export function enqueueOfflinePunch(punch: Omit<OfflineKioskPunch, "clientId" | "deviceTimestamp">): OfflineKioskPunch {
+  const queued: OfflineKioskPunch = {
+    ...punch,
+    clientId: crypto.randomUUID(),
+    deviceTimestamp: new Date().toISOString(),
+  };
+  writeOfflineQueue([...readOfflineQueue(), queued]);
+  return queued;
+}
+
+// fetch only rejects when the request never reached a server; HTTP errors resolve normally
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export async function syncOfflineQueue(deviceToken: string): Promise<SyncOutcome | null> {
+  const batch = readOfflineQueue().slice(0, SYNC_BATCH);
+  if (batch.length === 0) return null;
+
+  const response = await fetch("/api/kiosk/punches/sync", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-KIOSK-TOKEN": deviceToken,
+    },
+    body: JSON.stringify({ punches: batch }),
+  });
+  if (!response.ok) {
+    throw new Error(`Sincronización fallida (${response.status})`);
+  }
+
+  const { results }: { results: SyncResult[] } = await response.json();
+  const answered = new Set(results.map(r => r.clientId));
+  // Re-read so punches queued while the request was in flight are kept
+  writeOfflineQueue(readOfflineQueue().filter(p => !answered.has(p.clientId)));
+
+  return {
+    sent: results.filter(r => r.status !== "rejected").length,
+    flagged: results.filter(r => r.flagged).length,
+    rejected: results.filter(r => r.status === "rejected").length,
+  };
+}
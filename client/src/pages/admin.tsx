@@ -1,10 +1,12 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useAuth } from "@/lib/auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
-import { computeDurationMinutes, formatDuration } from "@/lib/duration";
+import { useLiveEvents } from "@/hooks/use-live-events";
+import { computeWorkedMinutes, formatDuration } from "@/lib/duration";
+import { formatDateES, formatDateTimeES } from "@/lib/timezone";
 import {
   SidebarProvider,
   SidebarTrigger,
@@ -23,7 +25,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { StatusBadge, GeoBadge, TimeBadge } from "@/components/status-badge";
+import { StatusBadge, GeoBadge, TimeBadge, OfflineBadge } from "@/components/status-badge";
 import {
   LayoutDashboard,
   Users,
@@ -43,13 +45,26 @@ import {
   ThumbsDown,
   Activity,
   Monitor,
-  Copy,
   Trash2,
   Power,
   Shield,
   RefreshCw,
   Link2,
   ExternalLink,
+  CalendarClock,
+  CalendarDays,
+  Plane,
+  PiggyBank,
+  Coffee,
+  MapPin,
+  FilePen,
+  Archive,
+  Scale,
+  Mail,
+  Send,
+  Radio,
+  KeyRound,
+  History,
 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
@@ -57,9 +72,12 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import type { Employee, Punch } from "@shared/schema";
+import type { Employee, Punch, WorkScheduleWithDays, Holiday, AbsenceType, AbsenceWithDetails, HoursBankEntry, BreakPolicy, Site, Permission, PortalCorrectionRequestWithDetails, ArchivedReport, LegalHoldWithDetails, ReportSubscriptionWithDetails, KioskTokenEventWithActor, KioskHeartbeat } from "@shared/schema";
 import { ExportDialog } from "@/components/export-dialog";
 import { CorrectionDialog } from "@/components/correction-dialog";
+import { ManualPunchDialog } from "@/components/manual-punch-dialog";
+import { NotificationsBell } from "@/components/notifications-bell";
+import { GeofenceMap } from "@/components/geofence-map";
 import { LOGO_SRC, APP_NAME } from "@/config/brand";
 
 interface DashboardStats {
@@ -69,6 +87,15 @@ interface DashboardStats {
   needsReview: number;
 }
 
+interface PresenceEntry {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  siteId: string | null;
+  status: "in" | "break" | "out";
+  since: string | null;
+}
+
 interface PunchWithEmployee extends Punch {
   employee: {
     id: string;
@@ -88,6 +115,7 @@ interface OvertimeRequestWithDetails {
   reviewerComment: string | null;
   createdAt: string;
   reviewedAt: string | null;
+  escalated: boolean;
   employee: {
     id: string;
     firstName: string;
@@ -200,12 +228,55 @@ interface KioskDevice {
   id: string;
   name: string;
   enabled: boolean;
+  siteId: string | null;
   createdAt: string;
   lastUsedAt: string | null;
-  token?: string;
+  lastHeartbeatAt: string | null;
+  tokenIssuedAt: string | null;
+  paired: boolean;
+  rotationDue: boolean;
+  lastHeartbeat: KioskHeartbeat | null;
+  health: {
+    status: "online" | "offline" | "unknown";
+    silentMinutes: number | null;
+    warnings: ("low_battery" | "clock_skew" | "pending_punches")[];
+  };
+}
+
+const KIOSK_HEALTH_LABELS: Record<KioskDevice["health"]["status"], string> = {
+  online: "En línea",
+  offline: "Sin conexión",
+  unknown: "Sin datos",
+};
+
+const KIOSK_WARNING_LABELS: Record<KioskDevice["health"]["warnings"][number], string> = {
+  low_battery: "Batería baja",
+  clock_skew: "Hora desajustada",
+  pending_punches: "Fichajes sin enviar",
+};
+
+function describeHeartbeat(heartbeat: KioskHeartbeat): string {
+  const parts = [`v${heartbeat.appVersion ?? "?"}`];
+  if (heartbeat.batteryLevel !== null) {
+    parts.push(`batería ${heartbeat.batteryLevel}%${heartbeat.batteryCharging ? " (cargando)" : ""}`);
+  }
+  if (heartbeat.connectionType || heartbeat.effectiveType) {
+    parts.push([heartbeat.connectionType, heartbeat.effectiveType].filter(Boolean).join(" "));
+  }
+  parts.push(`desfase ${heartbeat.clockSkewSeconds > 0 ? "+" : ""}${heartbeat.clockSkewSeconds} s`);
+  if (heartbeat.pendingPunches > 0) {
+    parts.push(`${heartbeat.pendingPunches} en cola`);
+  }
+  return parts.join(" · ");
 }
 
-function ReportsTab({ employees }: { employees: Employee[] }) {
+const KIOSK_TOKEN_EVENT_LABELS: Record<KioskTokenEventWithActor["event"], string> = {
+  paired: "Vinculado",
+  rotated: "Token renovado",
+  revoked: "Token revocado",
+};
+
+function ReportsTab({ employees, siteId }: { employees: Employee[]; siteId?: string }) {
   const { toast } = useToast();
   const [reportType, setReportType] = useState<"general" | "employee" | "authorities">("general");
   const [period, setPeriod] = useState<"month" | "week">("month");
@@ -247,6 +318,7 @@ function ReportsTab({ employees }: { employees: Employee[] }) {
         period,
         year: year.toString(),
         ...(period === "month" ? { month: month.toString() } : { week: week.toString() }),
+        ...(siteId ? { siteId } : {}),
       });
 
       const response = await fetch(`/api/reports/general?${params}`, {
@@ -298,6 +370,7 @@ function ReportsTab({ employees }: { employees: Employee[] }) {
       const params = new URLSearchParams({
         startDate,
         endDate,
+        ...(siteId ? { siteId } : {}),
       });
 
       const response = await fetch(`/api/reports/employee/${selectedEmployeeId}?${params}`, {
@@ -344,6 +417,7 @@ function ReportsTab({ employees }: { employees: Employee[] }) {
         ...(authScope === "month" ? { month: authMonth.toString() } : {}),
         ...(authEmployeeId && authEmployeeId !== "all" ? { employeeId: authEmployeeId } : {}),
         includeAnnexes: authIncludeAnnexes.toString(),
+        ...(siteId ? { siteId } : {}),
       });
 
       const response = await fetch(`/api/reports/authorities.pdf?${params}`, {
@@ -692,6 +766,10 @@ function ReportsTab({ employees }: { employees: Employee[] }) {
         </CardContent>
       </Card>
 
+      <ReportSubscriptionsCard siteId={siteId} />
+
+      <ArchivedReportsCard siteId={siteId} />
+
       <Card className="border-card-border">
         <CardHeader>
           <CardTitle>Contenido del Informe</CardTitle>
@@ -716,6 +794,416 @@ function ReportsTab({ employees }: { employees: Employee[] }) {
   );
 }
 
+type ArchivedReportRow = Omit<ArchivedReport, "storageKey"> & {
+  employee: { id: string; firstName: string; lastName: string } | null;
+  generatedBy: { id: string; firstName: string; lastName: string } | null;
+};
+
+const ARCHIVED_REPORT_LABELS: Record<string, string> = {
+  authorities: "Autoridades",
+  employee: "Empleado",
+};
+
+function ArchivedReportsCard({ siteId }: { siteId?: string }) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<"all" | "authorities" | "employee">("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data: reports, isLoading } = useQuery<ArchivedReportRow[]>({
+    queryKey: ["/api/reports/archive", { kind: kind === "all" ? undefined : kind, from: from || undefined, to: to || undefined, siteId }],
+  });
+
+  const handleDownload = async (report: ArchivedReportRow) => {
+    setDownloadingId(report.id);
+    try {
+      const response = await fetch(`/api/reports/archive/${report.id}/download`, { credentials: "include" });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Error al descargar el informe");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = report.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Error al descargar el informe",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Archivo de informes
+        </CardTitle>
+        <CardDescription>
+          Copias exactas de los informes oficiales generados; se descargan tal como se entregaron
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label>Tipo</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as typeof kind)}>
+              <SelectTrigger className="w-40" data-testid="select-archive-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                <SelectItem value="authorities">Autoridades</SelectItem>
+                <SelectItem value="employee">Empleado</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Desde</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" data-testid="input-archive-from" />
+          </div>
+          <div className="space-y-2">
+            <Label>Hasta</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" data-testid="input-archive-to" />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-muted/50 animate-pulse rounded-md" />
+            ))}
+          </div>
+        ) : reports && reports.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Tipo</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Período</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Empleado</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Generado</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Acciones</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reports.map((report) => (
+                  <tr key={report.id} className="border-b last:border-0" data-testid={`archived-report-row-${report.id}`}>
+                    <td className="py-3 px-4">
+                      <Badge variant="outline">{ARCHIVED_REPORT_LABELS[report.kind]}</Badge>
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {formatDateES(report.periodStart)} — {formatDateES(report.periodEnd)}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {report.employee ? `${report.employee.firstName} ${report.employee.lastName}` : "Todos"}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-muted-foreground">
+                      {formatDateTimeES(report.generatedAt)}
+                      {report.generatedBy && ` · ${report.generatedBy.firstName} ${report.generatedBy.lastName}`}
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(report)}
+                        disabled={downloadingId === report.id}
+                        data-testid={`button-download-archived-${report.id}`}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Descargar
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Archive className="h-12 w-12 mx-auto mb-3 text-muted-foreground/40" />
+            <p>Ningún informe archivado en este período</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const SUBSCRIPTION_KIND_LABELS: Record<string, string> = {
+  general: "Informe general",
+  authorities: "Autoridades",
+};
+
+const EMPTY_SUBSCRIPTION_FORM = { name: "", kind: "general" as "general" | "authorities", siteId: "all", recipients: "", includeAnnexes: true };
+
+function ReportSubscriptionsCard({ siteId }: { siteId?: string }) {
+  const { toast } = useToast();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_SUBSCRIPTION_FORM);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ subscriptions: ReportSubscriptionWithDetails[]; mailerConfigured: boolean }>({
+    queryKey: ["/api/reports/subscriptions", { siteId }],
+  });
+
+  const { data: sites } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/reports/subscriptions"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        kind: form.kind,
+        siteId: form.siteId === "all" ? null : form.siteId,
+        includeAnnexes: form.includeAnnexes,
+        recipients: form.recipients.split(/[\s,;]+/).filter(Boolean),
+      };
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/reports/subscriptions/${editingId}`, body)
+        : await apiRequest("POST", "/api/reports/subscriptions", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setShowDialog(false);
+      toast({ title: editingId ? "Suscripción actualizada" : "Suscripción creada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (subscription: ReportSubscriptionWithDetails) => {
+      const res = await apiRequest("PATCH", `/api/reports/subscriptions/${subscription.id}`, { enabled: !subscription.enabled });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/reports/subscriptions/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Suscripción eliminada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSendNow = async (subscription: ReportSubscriptionWithDetails) => {
+    setSendingId(subscription.id);
+    try {
+      const res = await apiRequest("POST", `/api/reports/subscriptions/${subscription.id}/send`);
+      const result = await res.json();
+      toast({ title: "Informe enviado", description: `${result.fileName} a ${subscription.recipients.length} destinatario(s)` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Error al enviar el informe",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingId(null);
+      invalidate();
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_SUBSCRIPTION_FORM);
+    setShowDialog(true);
+  };
+
+  const openEdit = (subscription: ReportSubscriptionWithDetails) => {
+    setEditingId(subscription.id);
+    setForm({
+      name: subscription.name,
+      kind: subscription.kind,
+      siteId: subscription.siteId ?? "all",
+      recipients: subscription.recipients.join(", "),
+      includeAnnexes: subscription.includeAnnexes,
+    });
+    setShowDialog(true);
+  };
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Envíos programados
+            </CardTitle>
+            <CardDescription>
+              El día 1 de cada mes se genera el informe del mes anterior y se envía por correo a los destinatarios
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} data-testid="button-add-report-subscription">
+            <Plus className="h-4 w-4 mr-2" />
+            Nueva suscripción
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {data && !data.mailerConfigured && (
+          <div className="flex items-center gap-2 p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-700 text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            El servidor no tiene SMTP configurado: las suscripciones se guardan pero no se envían
+          </div>
+        )}
+        {isLoading || !data ? (
+          <p className="text-muted-foreground">Cargando...</p>
+        ) : data.subscriptions.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No hay envíos programados</p>
+        ) : (
+          data.subscriptions.map((subscription) => (
+            <div key={subscription.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border" data-testid={`report-subscription-${subscription.id}`}>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-sm">{subscription.name}</p>
+                  <Badge variant="outline">{SUBSCRIPTION_KIND_LABELS[subscription.kind]}</Badge>
+                  {!subscription.enabled && <Badge variant="secondary">Pausada</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {subscription.site?.name ?? "Todos los centros"} · {subscription.recipients.join(", ")}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {subscription.lastSentAt ? `Último envío ${formatDateTimeES(subscription.lastSentAt)} (${subscription.lastPeriod})` : "Aún no enviado"}
+                </p>
+                {subscription.lastError && (
+                  <p className="text-xs text-destructive">Error en el último intento: {subscription.lastError}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSendNow(subscription)}
+                  disabled={!data.mailerConfigured || sendingId === subscription.id}
+                  data-testid={`button-send-subscription-${subscription.id}`}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  Enviar ahora
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => toggleMutation.mutate(subscription)} data-testid={`button-toggle-subscription-${subscription.id}`}>
+                  <Power className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => openEdit(subscription)} data-testid={`button-edit-subscription-${subscription.id}`}>
+                  <Settings className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(subscription.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-subscription-${subscription.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Editar suscripción" : "Nueva suscripción"}</DialogTitle>
+            <DialogDescription>
+              Se envía el PDF del mes cerrado; la primera entrega es el próximo día 1
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Nombre</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Informe mensual asesoría" data-testid="input-subscription-name" />
+            </div>
+            <div className="flex gap-4 flex-wrap">
+              <div className="space-y-1">
+                <Label>Informe</Label>
+                <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v as typeof form.kind })}>
+                  <SelectTrigger className="w-44" data-testid="select-subscription-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="general">Informe general</SelectItem>
+                    <SelectItem value="authorities">Para autoridades</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Centro</Label>
+                <Select value={form.siteId} onValueChange={(v) => setForm({ ...form, siteId: v })}>
+                  <SelectTrigger className="w-44" data-testid="select-subscription-site">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos los centros</SelectItem>
+                    {sites?.map((site) => (
+                      <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {form.kind === "authorities" && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="subscription-annexes"
+                  checked={form.includeAnnexes}
+                  onCheckedChange={(checked) => setForm({ ...form, includeAnnexes: checked === true })}
+                  data-testid="checkbox-subscription-annexes"
+                />
+                <Label htmlFor="subscription-annexes">Incluir anexos (eventos, correcciones y firmas)</Label>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Destinatarios (separados por comas)</Label>
+              <Textarea value={form.recipients} onChange={(e) => setForm({ ...form, recipients: e.target.value })} placeholder="rrhh@empresa.es, asesoria@gestoria.es" data-testid="input-subscription-recipients" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || !form.recipients.trim() || saveMutation.isPending}
+              data-testid="button-save-subscription"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
 interface CleanupCandidate {
   id: string;
   email: string;
@@ -727,6 +1215,9 @@ interface CleanupCandidate {
   lastPunchAt: string | null;
   protected: boolean;
   protectReason?: string;
+  legalHold: boolean;
+  retainedUntil: string | null;
+  retentionBlock: string | null;
 }
 
 interface PurgeResult {
@@ -802,8 +1293,9 @@ function LimpiezaTab() {
     });
   };
 
-  const selectableCount = candidates?.filter((c) => !c.protected).length || 0;
-  const allSelectableSelected = selectableCount > 0 && candidates?.filter((c) => !c.protected).every((c) => selectedIds.has(c.id));
+  const isSelectable = (c: CleanupCandidate) => !c.protected && !c.retentionBlock;
+  const selectableCount = candidates?.filter(isSelectable).length || 0;
+  const allSelectableSelected = selectableCount > 0 && candidates?.filter(isSelectable).every((c) => selectedIds.has(c.id));
 
   const toggleAll = () => {
     if (allSelectableSelected) {
@@ -811,7 +1303,7 @@ function LimpiezaTab() {
     } else {
       const ids = new Set<string>();
       candidates?.forEach((c) => {
-        if (!c.protected) ids.add(c.id);
+        if (isSelectable(c)) ids.add(c.id);
       });
       setSelectedIds(ids);
     }
@@ -882,7 +1374,7 @@ function LimpiezaTab() {
                   <div
                     key={candidate.id}
                     className={`flex items-center justify-between p-4 rounded-lg border ${
-                      candidate.protected ? "opacity-60 bg-muted/30" : "bg-card"
+                      !isSelectable(candidate) ? "opacity-60 bg-muted/30" : "bg-card"
                     }`}
                     data-testid={`cleanup-candidate-${candidate.id}`}
                   >
@@ -890,7 +1382,7 @@ function LimpiezaTab() {
                       <Checkbox
                         checked={selectedIds.has(candidate.id)}
                         onCheckedChange={() => toggleSelect(candidate.id)}
-                        disabled={candidate.protected}
+                        disabled={!isSelectable(candidate)}
                         data-testid={`checkbox-candidate-${candidate.id}`}
                       />
                       <Avatar className="h-9 w-9">
@@ -906,6 +1398,14 @@ function LimpiezaTab() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2 flex-wrap justify-end">
+                      {candidate.retentionBlock && (
+                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800" data-testid={`badge-retention-${candidate.id}`}>
+                          <Scale className="h-3 w-3 mr-1" />
+                          {candidate.legalHold
+                            ? "RETENCIÓN LEGAL"
+                            : `CONSERVAR HASTA ${formatDateES(candidate.retainedUntil!)}`}
+                        </Badge>
+                      )}
                       {candidate.protected && (
                         <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800" data-testid={`badge-protected-${candidate.id}`}>
                           <Shield className="h-3 w-3 mr-1" />
@@ -1030,10 +1530,10 @@ function LimpiezaTab() {
                 <Card className="border-destructive/50">
                   <CardContent className="pt-6 space-y-4">
                     <p className="text-sm text-destructive font-medium" data-testid="text-purge-warning">
-                      Esta acción es irreversible. Se eliminarán los empleados seleccionados y TODOS sus registros asociados, incluyendo fichajes y registros de auditoría.
+                      Esta acción es irreversible. Los empleados seleccionados se anonimizarán y se eliminarán sus datos no sellados (horarios, ausencias, horas extra, sesiones).
                     </p>
                     <p className="text-xs text-muted-foreground" data-testid="text-audit-note">
-                      Nota: Los registros de auditoría (audit_log) asociados a los empleados purgados serán eliminados de forma voluntaria.
+                      Nota: Los fichajes y el registro de auditoría están sellados en la cadena de integridad; se conservan anonimizados, sin firmas ni datos del dispositivo.
                     </p>
                     <div className="space-y-2">
                       <Label htmlFor="confirm-purge">Escriba PURGAR para confirmar</Label>
@@ -1094,54 +1594,2238 @@ function LimpiezaTab() {
                         </div>
                       ))}
                     </div>
-                  </CardContent>
-                </Card>
-              )}
-            </div>
-          )}
-        </CardContent>
-      </Card>
-    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const WEEKDAY_LABELS: Record<number, string> = {
+  1: "Lunes",
+  2: "Martes",
+  3: "Miércoles",
+  4: "Jueves",
+  5: "Viernes",
+  6: "Sábado",
+  7: "Domingo",
+};
+
+interface ScheduleDayForm {
+  weekday: number;
+  hours: string;
+  startTime: string;
+  endTime: string;
+}
+
+function buildScheduleForm(schedule: WorkScheduleWithDays | undefined): ScheduleDayForm[] {
+  return [1, 2, 3, 4, 5, 6, 7].map((weekday) => {
+    const day = schedule?.days.find((d) => d.weekday === weekday);
+    return {
+      weekday,
+      hours: day ? (day.expectedMinutes / 60).toString() : "0",
+      startTime: day?.startTime || "",
+      endTime: day?.endTime || "",
+    };
+  });
+}
+
+function SchedulesTab({ employees }: { employees: Employee[] }) {
+  const { toast } = useToast();
+  const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [dayForm, setDayForm] = useState<ScheduleDayForm[]>([]);
+
+  const { data: schedules, isLoading } = useQuery<WorkScheduleWithDays[]>({
+    queryKey: ["/api/schedules"],
+  });
+
+  const schedulesByEmployee = useMemo(() => {
+    const map = new Map<string, WorkScheduleWithDays>();
+    schedules?.forEach((s) => map.set(s.employeeId, s));
+    return map;
+  }, [schedules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const days = dayForm.map((d) => ({
+        weekday: d.weekday,
+        expectedMinutes: Math.round((parseFloat(d.hours.replace(",", ".")) || 0) * 60),
+        startTime: d.startTime || null,
+        endTime: d.endTime || null,
+      }));
+      const res = await apiRequest("PUT", `/api/employees/${editingEmployee!.id}/schedule`, { days });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+      setEditingEmployee(null);
+      toast({ title: "Horario guardado", description: "Las horas extra se calcularán con el nuevo horario" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (employeeId: string) => {
+      const res = await apiRequest("DELETE", `/api/employees/${employeeId}/schedule`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+      setEditingEmployee(null);
+      toast({ title: "Horario eliminado", description: "Se aplicará la jornada por defecto" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openEditor = (emp: Employee) => {
+    setDayForm(buildScheduleForm(schedulesByEmployee.get(emp.id)));
+    setEditingEmployee(emp);
+  };
+
+  const updateDay = (weekday: number, field: keyof Omit<ScheduleDayForm, "weekday">, value: string) => {
+    setDayForm((prev) => prev.map((d) => (d.weekday === weekday ? { ...d, [field]: value } : d)));
+  };
+
+  const formTotalMinutes = dayForm.reduce(
+    (sum, d) => sum + Math.round((parseFloat(d.hours.replace(",", ".")) || 0) * 60),
+    0
+  );
+  const activeEmployees = employees.filter((e) => e.isActive);
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader>
+        <CardTitle>Horarios de trabajo</CardTitle>
+        <CardDescription>
+          Jornada semanal por empleado. Sin horario se aplica la jornada por defecto del sistema.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted/50 animate-pulse rounded-md" />
+            ))}
+          </div>
+        ) : activeEmployees.length > 0 ? (
+          <div className="space-y-2">
+            {activeEmployees.map((emp) => {
+              const schedule = schedulesByEmployee.get(emp.id);
+              return (
+                <div
+                  key={emp.id}
+                  className="flex items-center justify-between p-4 rounded-lg border bg-card hover-elevate"
+                  data-testid={`schedule-row-${emp.id}`}
+                >
+                  <div>
+                    <p className="font-medium">
+                      {emp.firstName} {emp.lastName}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {schedule && schedule.weeklyMinutes !== null
+                        ? `${formatDuration(schedule.weeklyMinutes)} / semana`
+                        : "Jornada por defecto"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {schedule && (
+                      <Badge variant="outline" data-testid={`badge-schedule-source-${emp.id}`}>
+                        {schedule.source === "gestion" ? "Gestión" : "Manual"}
+                      </Badge>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => openEditor(emp)} data-testid={`button-edit-schedule-${emp.id}`}>
+                      <CalendarClock className="h-4 w-4 mr-2" />
+                      Editar
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">
+            <Users className="h-12 w-12 mx-auto mb-2 opacity-30" />
+            Ningún empleado
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingEmployee} onOpenChange={(open) => !open && setEditingEmployee(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              Horario de {editingEmployee?.firstName} {editingEmployee?.lastName}
+            </DialogTitle>
+            <DialogDescription>
+              Horas previstas por día. Un horario manual no se sobrescribe al sincronizar con Gestión.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {dayForm.map((d) => (
+              <div key={d.weekday} className="grid grid-cols-4 gap-2 items-center">
+                <Label className="text-sm">{WEEKDAY_LABELS[d.weekday]}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.25"
+                  value={d.hours}
+                  onChange={(e) => updateDay(d.weekday, "hours", e.target.value)}
+                  data-testid={`input-schedule-hours-${d.weekday}`}
+                />
+                <Input
+                  type="time"
+                  value={d.startTime}
+                  onChange={(e) => updateDay(d.weekday, "startTime", e.target.value)}
+                  data-testid={`input-schedule-start-${d.weekday}`}
+                />
+                <Input
+                  type="time"
+                  value={d.endTime}
+                  onChange={(e) => updateDay(d.weekday, "endTime", e.target.value)}
+                  data-testid={`input-schedule-end-${d.weekday}`}
+                />
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground pt-2" data-testid="text-schedule-total">
+              Total semanal: {formatDuration(formTotalMinutes)}
+            </p>
+          </div>
+          <DialogFooter className="gap-2">
+            {editingEmployee && schedulesByEmployee.has(editingEmployee.id) && (
+              <Button
+                variant="outline"
+                onClick={() => resetMutation.mutate(editingEmployee.id)}
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-schedule"
+              >
+                Usar jornada por defecto
+              </Button>
+            )}
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-schedule">
+              {saveMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+const HOLIDAY_SCOPE_LABELS: Record<string, string> = {
+  national: "Nacional",
+  regional: "Autonómico",
+  local: "Local",
+  closure: "Cierre del centro",
+};
+
+function HolidaysTab() {
+  const { toast } = useToast();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newScope, setNewScope] = useState("national");
+  const [importScope, setImportScope] = useState("regional");
+  const [newSiteId, setNewSiteId] = useState("all");
+  const [importSiteId, setImportSiteId] = useState("all");
+
+  const { data: holidays, isLoading } = useQuery<Holiday[]>({
+    queryKey: ["/api/holidays", { year }],
+  });
+
+  const { data: sites } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const siteSelectItems = (
+    <SelectContent>
+      <SelectItem value="all">Todos los centros</SelectItem>
+      {sites?.map((site) => (
+        <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/holidays", { date: newDate, name: newName, scope: newScope, siteId: newSiteId === "all" ? null : newSiteId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+      setNewDate("");
+      setNewName("");
+      toast({ title: "Festivo añadido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/holidays/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+      toast({ title: "Festivo eliminado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (ics: string) => {
+      const res = await apiRequest("POST", "/api/holidays/import", { ics, scope: importScope, siteId: importSiteId === "all" ? null : importSiteId });
+      return res.json();
+    },
+    onSuccess: (data: { parsed: number; created: number; skipped: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/holidays"] });
+      toast({
+        title: "Importación completada",
+        description: `${data.created} festivos añadidos, ${data.skipped} ya existían`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    importMutation.mutate(await file.text());
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardHeader>
+          <CardTitle>Añadir festivo o cierre</CardTitle>
+          <CardDescription>
+            Las horas trabajadas en un festivo cuentan íntegramente como horas extra; un festivo de centro solo se aplica a sus empleados
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-1">
+              <Label>Fecha</Label>
+              <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} data-testid="input-holiday-date" />
+            </div>
+            <div className="space-y-1">
+              <Label>Nombre</Label>
+              <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Fiesta de San Isidro" data-testid="input-holiday-name" />
+            </div>
+            <div className="space-y-1">
+              <Label>Ámbito</Label>
+              <Select value={newScope} onValueChange={setNewScope}>
+                <SelectTrigger data-testid="select-holiday-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(HOLIDAY_SCOPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Centro</Label>
+              <Select value={newSiteId} onValueChange={setNewSiteId}>
+                <SelectTrigger data-testid="select-holiday-site">
+                  <SelectValue />
+                </SelectTrigger>
+                {siteSelectItems}
+              </Select>
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!newDate || !newName || createMutation.isPending}
+              data-testid="button-add-holiday"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Añadir
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-end gap-3 pt-2 border-t">
+            <div className="space-y-1">
+              <Label>Importar iCal como</Label>
+              <Select value={importScope} onValueChange={setImportScope}>
+                <SelectTrigger className="w-48" data-testid="select-import-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(HOLIDAY_SCOPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Para</Label>
+              <Select value={importSiteId} onValueChange={setImportSiteId}>
+                <SelectTrigger className="w-48" data-testid="select-import-site">
+                  <SelectValue />
+                </SelectTrigger>
+                {siteSelectItems}
+              </Select>
+            </div>
+            <Input
+              type="file"
+              accept=".ics,text/calendar"
+              className="w-auto"
+              onChange={handleImportFile}
+              disabled={importMutation.isPending}
+              data-testid="input-holiday-ics"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border">
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle>Calendario {year}</CardTitle>
+            <CardDescription>{holidays?.length || 0} días festivos o de cierre</CardDescription>
+          </div>
+          <Select value={String(year)} onValueChange={(v) => setYear(parseInt(v, 10))}>
+            <SelectTrigger className="w-28" data-testid="select-holiday-year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[currentYear - 1, currentYear, currentYear + 1].map((y) => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted/50 animate-pulse rounded-md" />
+              ))}
+            </div>
+          ) : holidays && holidays.length > 0 ? (
+            <div className="space-y-2">
+              {holidays.map((h) => (
+                <div
+                  key={h.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                  data-testid={`holiday-row-${h.id}`}
+                >
+                  <div className="flex items-center gap-4">
+                    <span className="font-mono text-sm w-24">{h.date.split("-").reverse().join("/")}</span>
+                    <span className="font-medium">{h.name}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {h.siteId && (
+                      <Badge variant="secondary">{sites?.find((site) => site.id === h.siteId)?.name ?? "Centro"}</Badge>
+                    )}
+                    <Badge variant="outline">{HOLIDAY_SCOPE_LABELS[h.scope] || h.scope}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(h.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-holiday-${h.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-8 text-muted-foreground">
+              <CalendarDays className="h-12 w-12 mx-auto mb-2 opacity-30" />
+              Ningún festivo registrado
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const EMPTY_BREAK_POLICY_FORM = {
+  name: "",
+  durationMinutes: "20",
+  paid: true,
+  mandatoryAfterMinutes: "300",
+  maxBreaksPerDay: "1",
+  isDefault: false,
+};
+
+function optionalInt(value: string): number | null {
+  return value.trim() === "" ? null : parseInt(value, 10);
+}
+
+function BreakPoliciesTab({ employees }: { employees: Employee[] }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<BreakPolicy | "new" | null>(null);
+  const [form, setForm] = useState(EMPTY_BREAK_POLICY_FORM);
+
+  const { data: policies, isLoading } = useQuery<BreakPolicy[]>({
+    queryKey: ["/api/break-policies"],
+  });
+
+  const { data: sites } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const openEditor = (policy: BreakPolicy | "new") => {
+    setEditing(policy);
+    setForm(policy === "new" ? EMPTY_BREAK_POLICY_FORM : {
+      name: policy.name,
+      durationMinutes: policy.durationMinutes?.toString() ?? "",
+      paid: policy.paid,
+      mandatoryAfterMinutes: policy.mandatoryAfterMinutes?.toString() ?? "",
+      maxBreaksPerDay: policy.maxBreaksPerDay?.toString() ?? "",
+      isDefault: policy.isDefault,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        durationMinutes: optionalInt(form.durationMinutes),
+        paid: form.paid,
+        mandatoryAfterMinutes: optionalInt(form.mandatoryAfterMinutes),
+        maxBreaksPerDay: optionalInt(form.maxBreaksPerDay),
+        isDefault: form.isDefault,
+      };
+      const res = editing === "new"
+        ? await apiRequest("POST", "/api/break-policies", body)
+        : await apiRequest("PATCH", `/api/break-policies/${(editing as BreakPolicy).id}`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/break-policies"] });
+      setEditing(null);
+      toast({ title: "Política de pausa guardada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/break-policies/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/break-policies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      toast({ title: "Política de pausa eliminada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ employeeId, breakPolicyId }: { employeeId: string; breakPolicyId: string | null }) => {
+      const res = await apiRequest("PUT", `/api/employees/${employeeId}/break-policy`, { breakPolicyId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Política asignada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignSiteMutation = useMutation({
+    mutationFn: async ({ siteId, breakPolicyId }: { siteId: string; breakPolicyId: string | null }) => {
+      const res = await apiRequest("PUT", `/api/sites/${siteId}/break-policy`, { breakPolicyId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      toast({ title: "Política asignada al centro" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const describePolicy = (p: BreakPolicy) => [
+    p.durationMinutes !== null ? `${p.durationMinutes} min` : "Sin límite de duración",
+    p.paid ? "Retribuida" : "No retribuida",
+    p.mandatoryAfterMinutes !== null ? `Obligatoria tras ${formatDuration(p.mandatoryAfterMinutes)}` : "No obligatoria",
+    p.maxBreaksPerDay !== null ? `Máx. ${p.maxBreaksPerDay}/día` : "Sin máximo diario",
+  ].join(" · ");
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Coffee className="h-5 w-5" />
+                Políticas de pausa
+              </CardTitle>
+              <CardDescription>
+                Duración, retribución y obligatoriedad de las pausas según convenio
+              </CardDescription>
+            </div>
+            <Button onClick={() => openEditor("new")} data-testid="button-add-break-policy">
+              <Plus className="h-4 w-4 mr-2" />
+              Nueva política
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <div key={i} className="h-12 bg-muted/50 animate-pulse rounded-md" />
+              ))}
+            </div>
+          ) : policies && policies.length > 0 ? (
+            <div className="space-y-2">
+              {policies.map((p) => (
+                <div
+                  key={p.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                  data-testid={`break-policy-row-${p.id}`}
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{p.name}</span>
+                      {p.isDefault && <Badge variant="secondary">Predeterminada</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describePolicy(p)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(p)} data-testid={`button-edit-break-policy-${p.id}`}>
+                      Editar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(p.id)}
+                      disabled={p.isDefault || deleteMutation.isPending}
+                      data-testid={`button-delete-break-policy-${p.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-8 text-muted-foreground">
+              <Coffee className="h-12 w-12 mx-auto mb-2 opacity-30" />
+              Ninguna política definida: se aplica la pausa retribuida de 20 minutos
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {sites && sites.length > 0 && (
+        <Card className="border-card-border">
+          <CardHeader>
+            <CardTitle>Asignación por centro</CardTitle>
+            <CardDescription>Se aplica a los empleados del centro que no tienen política propia</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {sites.map((site) => (
+                <div
+                  key={site.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                  data-testid={`break-policy-site-${site.id}`}
+                >
+                  <span className="font-medium">{site.name}</span>
+                  <Select
+                    value={site.breakPolicyId ?? "default"}
+                    onValueChange={(v) => assignSiteMutation.mutate({ siteId: site.id, breakPolicyId: v === "default" ? null : v })}
+                    disabled={assignSiteMutation.isPending}
+                  >
+                    <SelectTrigger className="w-56" data-testid={`select-site-break-policy-${site.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Predeterminada</SelectItem>
+                      {policies?.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-card-border">
+        <CardHeader>
+          <CardTitle>Asignación por empleado</CardTitle>
+          <CardDescription>Los empleados sin política asignada usan la de su centro o, si no la tiene, la predeterminada</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {employees.map((emp) => (
+              <div
+                key={emp.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                data-testid={`break-policy-employee-${emp.id}`}
+              >
+                <span className="font-medium">{emp.firstName} {emp.lastName}</span>
+                <Select
+                  value={emp.breakPolicyId ?? "default"}
+                  onValueChange={(v) => assignMutation.mutate({ employeeId: emp.id, breakPolicyId: v === "default" ? null : v })}
+                  disabled={assignMutation.isPending}
+                >
+                  <SelectTrigger className="w-56" data-testid={`select-break-policy-${emp.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Según centro</SelectItem>
+                    {policies?.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Nueva política de pausa" : "Editar política de pausa"}</DialogTitle>
+            <DialogDescription>Deje un campo vacío para no aplicar ese límite</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Nombre</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Convenio hostelería" data-testid="input-break-policy-name" />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Duración (min)</Label>
+                <Input type="number" min={1} value={form.durationMinutes} onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })} data-testid="input-break-policy-duration" />
+              </div>
+              <div className="space-y-1">
+                <Label>Obligatoria tras (min)</Label>
+                <Input type="number" min={60} value={form.mandatoryAfterMinutes} onChange={(e) => setForm({ ...form, mandatoryAfterMinutes: e.target.value })} data-testid="input-break-policy-mandatory" />
+              </div>
+              <div className="space-y-1">
+                <Label>Máx. por día</Label>
+                <Input type="number" min={1} value={form.maxBreaksPerDay} onChange={(e) => setForm({ ...form, maxBreaksPerDay: e.target.value })} data-testid="input-break-policy-max" />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="break-policy-paid" checked={form.paid} onCheckedChange={(v) => setForm({ ...form, paid: v === true })} data-testid="checkbox-break-policy-paid" />
+              <Label htmlFor="break-policy-paid">Pausa retribuida (cuenta como tiempo de trabajo)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="break-policy-default" checked={form.isDefault} onCheckedChange={(v) => setForm({ ...form, isDefault: v === true })} data-testid="checkbox-break-policy-default" />
+              <Label htmlFor="break-policy-default">Política predeterminada</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancelar</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!form.name || saveMutation.isPending} data-testid="button-save-break-policy">
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const GEOFENCE_MODE_LABELS: Record<string, string> = {
+  off: "Sin control",
+  flag: "Marcar para revisión",
+  reject: "Rechazar fichaje",
+};
+
+const EMPTY_SITE_FORM = {
+  name: "",
+  address: "",
+  latitude: "",
+  longitude: "",
+  radiusMeters: "150",
+  polygon: "",
+  geofenceMode: "flag",
+  isActive: true,
+};
+
+// One "lat, lng" vertex per line
+function parsePolygon(text: string): [number, number][] | null {
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  if (lines.length === 0) return null;
+  return lines.map((line) => {
+    const [lat, lng] = line.split(/[,;\s]+/).map(Number);
+    return [lat, lng] as [number, number];
+  });
+}
+
+function SitesTab({ employees }: { employees: Employee[] }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Site | "new" | null>(null);
+  const [form, setForm] = useState(EMPTY_SITE_FORM);
+
+  const { data: sites, isLoading } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const openEditor = (site: Site | "new") => {
+    setEditing(site);
+    setForm(site === "new" ? EMPTY_SITE_FORM : {
+      name: site.name,
+      address: site.address ?? "",
+      latitude: site.latitude,
+      longitude: site.longitude,
+      radiusMeters: site.radiusMeters.toString(),
+      polygon: site.polygon?.map(([lat, lng]) => `${lat}, ${lng}`).join("\n") ?? "",
+      geofenceMode: site.geofenceMode,
+      isActive: site.isActive,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        address: form.address || null,
+        latitude: parseFloat(form.latitude),
+        longitude: parseFloat(form.longitude),
+        radiusMeters: parseInt(form.radiusMeters, 10),
+        polygon: parsePolygon(form.polygon),
+        geofenceMode: form.geofenceMode,
+        isActive: form.isActive,
+      };
+      const res = editing === "new"
+        ? await apiRequest("POST", "/api/sites", body)
+        : await apiRequest("PATCH", `/api/sites/${(editing as Site).id}`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      setEditing(null);
+      toast({ title: "Centro guardado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/sites/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Centro eliminado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ employeeId, siteId }: { employeeId: string; siteId: string | null }) => {
+      const res = await apiRequest("PUT", `/api/employees/${employeeId}/site`, { siteId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Centro asignado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Centros de trabajo
+              </CardTitle>
+              <CardDescription>
+                Zona de fichaje por radio o polígono; los fichajes móviles fuera de zona se marcan o se rechazan
+              </CardDescription>
+            </div>
+            <Button onClick={() => openEditor("new")} data-testid="button-add-site">
+              <Plus className="h-4 w-4 mr-2" />
+              Nuevo centro
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <div key={i} className="h-12 bg-muted/50 animate-pulse rounded-md" />
+              ))}
+            </div>
+          ) : sites && sites.length > 0 ? (
+            <div className="space-y-2">
+              {sites.map((site) => (
+                <div
+                  key={site.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                  data-testid={`site-row-${site.id}`}
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{site.name}</span>
+                      {!site.isActive && <Badge variant="secondary">Inactivo</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {site.address ? `${site.address} · ` : ""}
+                      {site.polygon ? `Polígono de ${site.polygon.length} vértices` : `Radio ${site.radiusMeters} m`}
+                      {" · "}
+                      {GEOFENCE_MODE_LABELS[site.geofenceMode]}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(site)} data-testid={`button-edit-site-${site.id}`}>
+                      Editar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(site.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-site-${site.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-8 text-muted-foreground">
+              <MapPin className="h-12 w-12 mx-auto mb-2 opacity-30" />
+              Ningún centro definido
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border">
+        <CardHeader>
+          <CardTitle>Asignación por empleado</CardTitle>
+          <CardDescription>Los fichajes móviles se validan contra la zona del centro asignado</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {employees.map((emp) => (
+              <div
+                key={emp.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card"
+                data-testid={`site-employee-${emp.id}`}
+              >
+                <span className="font-medium">{emp.firstName} {emp.lastName}</span>
+                <Select
+                  value={emp.siteId ?? "none"}
+                  onValueChange={(v) => assignMutation.mutate({ employeeId: emp.id, siteId: v === "none" ? null : v })}
+                  disabled={assignMutation.isPending}
+                >
+                  <SelectTrigger className="w-56" data-testid={`select-site-${emp.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin centro</SelectItem>
+                    {sites?.map((site) => (
+                      <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Nuevo centro" : "Editar centro"}</DialogTitle>
+            <DialogDescription>Si se indica un polígono, sustituye al radio</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Nombre</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} data-testid="input-site-name" />
+              </div>
+              <div className="space-y-1">
+                <Label>Dirección</Label>
+                <Input value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} data-testid="input-site-address" />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Latitud</Label>
+                <Input value={form.latitude} onChange={(e) => setForm({ ...form, latitude: e.target.value })} placeholder="40.416800" data-testid="input-site-latitude" />
+              </div>
+              <div className="space-y-1">
+                <Label>Longitud</Label>
+                <Input value={form.longitude} onChange={(e) => setForm({ ...form, longitude: e.target.value })} placeholder="-3.703800" data-testid="input-site-longitude" />
+              </div>
+              <div className="space-y-1">
+                <Label>Radio (m)</Label>
+                <Input type="number" min={10} value={form.radiusMeters} onChange={(e) => setForm({ ...form, radiusMeters: e.target.value })} data-testid="input-site-radius" />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Polígono (opcional, un vértice "lat, lng" por línea)</Label>
+              <Textarea rows={4} value={form.polygon} onChange={(e) => setForm({ ...form, polygon: e.target.value })} className="font-mono text-sm" data-testid="input-site-polygon" />
+            </div>
+            <div className="space-y-1">
+              <Label>Fichajes fuera de zona</Label>
+              <Select value={form.geofenceMode} onValueChange={(v) => setForm({ ...form, geofenceMode: v })}>
+                <SelectTrigger data-testid="select-site-geofence-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GEOFENCE_MODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="site-active" checked={form.isActive} onCheckedChange={(v) => setForm({ ...form, isActive: v === true })} data-testid="checkbox-site-active" />
+              <Label htmlFor="site-active">Centro activo</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name || !form.latitude || !form.longitude || saveMutation.isPending}
+              data-testid="button-save-site"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const ABSENCE_STATUS_LABELS: Record<string, string> = {
+  pending: "Pendiente",
+  approved: "Aprobada",
+  rejected: "Rechazada",
+  cancelled: "Cancelada",
+};
+
+function formatDateKey(dateKey: string): string {
+  return dateKey.split("-").reverse().join("/");
+}
+
+function AbsencesTab({ employees }: { employees: Employee[] }) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "approved" | "rejected" | "cancelled">("pending");
+  const [selected, setSelected] = useState<AbsenceWithDetails | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState({ employeeId: "", typeId: "", startDate: "", endDate: "", comment: "" });
+
+  const { data: absences, isLoading } = useQuery<AbsenceWithDetails[]>({
+    queryKey: ["/api/absences", statusFilter === "all" ? {} : { status: statusFilter }],
+  });
+
+  const { data: types } = useQuery<AbsenceType[]>({
+    queryKey: ["/api/absence-types"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status, comment }: { id: string; status: "approved" | "rejected"; comment: string }) => {
+      const res = await apiRequest("POST", `/api/absences/${id}/review`, { status, comment });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/absences"] });
+      setSelected(null);
+      setReviewComment("");
+      toast({ title: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/absences", {
+        ...form,
+        comment: form.comment || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/absences"] });
+      setShowCreate(false);
+      setForm({ employeeId: "", typeId: "", startDate: "", endDate: "", comment: "" });
+      toast({ title: "Ausencia registrada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Plane className="h-5 w-5" />
+                Ausencias y vacaciones
+              </CardTitle>
+              <CardDescription>
+                Valide las solicitudes del portal o registre ausencias directamente
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as typeof statusFilter)}>
+                <SelectTrigger className="w-40" data-testid="select-absence-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas</SelectItem>
+                  <SelectItem value="pending">Pendientes</SelectItem>
+                  <SelectItem value="approved">Aprobadas</SelectItem>
+                  <SelectItem value="rejected">Rechazadas</SelectItem>
+                  <SelectItem value="cancelled">Canceladas</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={() => setShowCreate(true)} data-testid="button-add-absence">
+                <Plus className="h-4 w-4 mr-2" />
+                Registrar ausencia
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted/50 animate-pulse rounded-md" />
+              ))}
+            </div>
+          ) : absences && absences.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Empleado</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Tipo</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Período</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Días</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Estado</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Acciones</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {absences.map((absence) => (
+                    <tr key={absence.id} className="border-b last:border-0" data-testid={`absence-row-${absence.id}`}>
+                      <td className="py-3 px-4 font-medium">
+                        {absence.employee.firstName} {absence.employee.lastName}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <span>{absence.type.name}</span>
+                          {!absence.type.paid && <Badge variant="outline" className="text-xs">No retribuida</Badge>}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 font-mono text-sm">
+                        {formatDateKey(absence.startDate)} – {formatDateKey(absence.endDate)}
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge variant="outline" className="font-mono">{absence.days}</Badge>
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge
+                          variant="outline"
+                          className={
+                            absence.status === "approved" ? "text-green-700 border-green-300" :
+                            absence.status === "rejected" ? "text-red-700 border-red-300" :
+                            absence.status === "pending" ? "text-amber-600 border-amber-300" : ""
+                          }
+                        >
+                          {ABSENCE_STATUS_LABELS[absence.status]}
+                        </Badge>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        {absence.status === "pending" ? (
+                          <Button size="sm" onClick={() => setSelected(absence)} data-testid={`button-review-absence-${absence.id}`}>
+                            Procesar
+                          </Button>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{absence.reviewerComment}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <Plane className="h-12 w-12 mx-auto mb-4 opacity-30" />
+              <p>Ninguna ausencia</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open) { setSelected(null); setReviewComment(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Procesar solicitud de ausencia</DialogTitle>
+            <DialogDescription>
+              {selected && `${selected.employee.firstName} ${selected.employee.lastName} — ${selected.type.name}, ${selected.days} días (${formatDateKey(selected.startDate)} – ${formatDateKey(selected.endDate)})`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected?.comment && (
+            <p className="text-sm text-muted-foreground border-l-2 pl-3">{selected.comment}</p>
+          )}
+          <div className="space-y-2">
+            <Label>Comentario (obligatorio)</Label>
+            <Textarea
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+              placeholder="Motivo de la decisión..."
+              data-testid="input-absence-review-comment"
+            />
+          </div>
+          <DialogFooter className="gap-2">
+            <Button
+              variant="destructive"
+              disabled={reviewComment.trim().length < 5 || reviewMutation.isPending}
+              onClick={() => selected && reviewMutation.mutate({ id: selected.id, status: "rejected", comment: reviewComment })}
+              data-testid="button-reject-absence"
+            >
+              <ThumbsDown className="h-4 w-4 mr-2" />
+              Rechazar
+            </Button>
+            <Button
+              disabled={reviewComment.trim().length < 5 || reviewMutation.isPending}
+              onClick={() => selected && reviewMutation.mutate({ id: selected.id, status: "approved", comment: reviewComment })}
+              data-testid="button-approve-absence"
+            >
+              <ThumbsUp className="h-4 w-4 mr-2" />
+              Aprobar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Registrar ausencia</DialogTitle>
+            <DialogDescription>
+              La ausencia queda aprobada directamente. Los fines de semana y festivos no se descuentan.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Empleado</Label>
+              <Select value={form.employeeId} onValueChange={(v) => setForm({ ...form, employeeId: v })}>
+                <SelectTrigger data-testid="select-absence-employee">
+                  <SelectValue placeholder="Seleccione un empleado" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((emp) => (
+                    <SelectItem key={emp.id} value={emp.id}>{emp.lastName}, {emp.firstName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={form.typeId} onValueChange={(v) => setForm({ ...form, typeId: v })}>
+                <SelectTrigger data-testid="select-absence-type">
+                  <SelectValue placeholder="Seleccione un tipo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {types?.filter((t) => t.isActive).map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Desde</Label>
+                <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} data-testid="input-absence-start" />
+              </div>
+              <div className="space-y-1">
+                <Label>Hasta</Label>
+                <Input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} data-testid="input-absence-end" />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Comentario</Label>
+              <Textarea value={form.comment} onChange={(e) => setForm({ ...form, comment: e.target.value })} data-testid="input-absence-comment" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!form.employeeId || !form.typeId || !form.startDate || !form.endDate || createMutation.isPending}
+              data-testid="button-save-absence"
+            >
+              Registrar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface HoursBankSummary {
+  balanceMinutes: number;
+  creditedMinutes: number;
+  usedMinutes: number;
+  expiredMinutes: number;
+  expiringSoon: { expiresOn: string; minutes: number }[];
+}
+
+interface HoursBankBalance extends HoursBankSummary {
+  employee: { id: string; firstName: string; lastName: string };
+}
+
+const HOURS_BANK_KIND_LABELS: Record<string, string> = {
+  credit: "Horas extra aprobadas",
+  time_off: "Descanso compensatorio",
+  payout: "Abono en nómina",
+  adjustment: "Ajuste",
+};
+
+type CorrectionRequestRow = PortalCorrectionRequestWithDetails & { escalated: boolean };
+
+function formatCorrectionTarget(request: CorrectionRequestRow): string {
+  const typeLabel = (type: string | null) => (type === "IN" ? "Entrada" : type === "OUT" ? "Salida" : "");
+  const requested = [
+    typeLabel(request.requestedType),
+    request.requestedTimestamp ? new Date(request.requestedTimestamp).toLocaleString("es-ES", { timeZone: "Europe/Madrid" }) : "",
+  ].filter(Boolean).join(" ");
+  if (request.kind === "missing_punch" || !request.punch) {
+    return requested;
+  }
+  const original = `${typeLabel(request.punch.type)} ${new Date(request.punch.timestamp).toLocaleString("es-ES", { timeZone: "Europe/Madrid" })}`;
+  return `${original} → ${requested}`;
+}
+
+function CorrectionRequestsCard({ siteId }: { siteId?: string }) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<CorrectionRequestRow | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+
+  const { data: requests, isLoading } = useQuery<CorrectionRequestRow[]>({
+    queryKey: ["/api/correction-requests", { status: "pending", siteId }],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status, comment }: { id: string; status: "approved" | "rejected"; comment: string }) => {
+      const res = await apiRequest("POST", `/api/correction-requests/${id}/review`, { status, comment });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/correction-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/punches"] });
+      setSelected(null);
+      setReviewComment("");
+      toast({ title: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FilePen className="h-5 w-5" />
+          Solicitudes de corrección
+        </CardTitle>
+        <CardDescription>
+          Correcciones y fichajes olvidados solicitados por los empleados desde el portal
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-muted/50 animate-pulse rounded-md" />
+            ))}
+          </div>
+        ) : requests && requests.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Empleado</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Solicitud</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Cambio</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Motivo</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Acciones</th>
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map((request) => (
+                  <tr key={request.id} className="border-b last:border-0" data-testid={`correction-request-row-${request.id}`}>
+                    <td className="py-3 px-4 font-medium">
+                      {request.employee.firstName} {request.employee.lastName}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex gap-1">
+                        <Badge variant="outline" className="text-xs">
+                          {request.kind === "missing_punch" ? "Fichaje olvidado" : "Corrección"}
+                        </Badge>
+                        {request.escalated && (
+                          <Badge variant="outline" className="text-red-600 border-red-300 text-xs" data-testid={`badge-escalated-correction-${request.id}`}>
+                            Escalado
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 font-mono text-sm">{formatCorrectionTarget(request)}</td>
+                    <td className="py-3 px-4 text-sm text-muted-foreground max-w-xs truncate">{request.reason}</td>
+                    <td className="py-3 px-4 text-right">
+                      <Button size="sm" onClick={() => setSelected(request)} data-testid={`button-review-correction-request-${request.id}`}>
+                        Procesar
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <FilePen className="h-12 w-12 mx-auto mb-4 opacity-30" />
+            <p>Ninguna solicitud de corrección pendiente</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open) { setSelected(null); setReviewComment(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Procesar solicitud de corrección</DialogTitle>
+            <DialogDescription>
+              {selected && `${selected.employee.firstName} ${selected.employee.lastName} — ${formatCorrectionTarget(selected)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <p className="text-sm text-muted-foreground border-l-2 pl-3">{selected.reason}</p>
+          )}
+          <div className="space-y-2">
+            <Label>Comentario (obligatorio)</Label>
+            <Textarea
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+              placeholder="Motivo de la decisión..."
+              data-testid="input-correction-request-review-comment"
+            />
+          </div>
+          <DialogFooter className="gap-2">
+            <Button
+              variant="destructive"
+              disabled={reviewComment.trim().length < 5 || reviewMutation.isPending}
+              onClick={() => selected && reviewMutation.mutate({ id: selected.id, status: "rejected", comment: reviewComment })}
+              data-testid="button-reject-correction-request"
+            >
+              <ThumbsDown className="h-4 w-4 mr-2" />
+              Rechazar
+            </Button>
+            <Button
+              disabled={reviewComment.trim().length < 5 || reviewMutation.isPending}
+              onClick={() => selected && reviewMutation.mutate({ id: selected.id, status: "approved", comment: reviewComment })}
+              data-testid="button-approve-correction-request"
+            >
+              <ThumbsUp className="h-4 w-4 mr-2" />
+              Aprobar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function formatSignedMinutes(minutes: number): string {
+  return `${minutes < 0 ? "-" : "+"}${formatDuration(Math.abs(minutes))}`;
+}
+
+function HoursBankTab({ employees }: { employees: Employee[] }) {
+  const { toast } = useToast();
+  const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
+  const [showEntryDialog, setShowEntryDialog] = useState(false);
+  const [form, setForm] = useState({ employeeId: "", kind: "time_off", hours: "", minutes: "", date: "", comment: "" });
+
+  const { data: balances, isLoading } = useQuery<HoursBankBalance[]>({
+    queryKey: ["/api/hours-bank"],
+  });
+
+  const { data: ledger } = useQuery<{ summary: HoursBankSummary; entries: HoursBankEntry[] }>({
+    queryKey: ["/api/hours-bank", selectedEmployeeId],
+    enabled: !!selectedEmployeeId,
+  });
+
+  const entryMutation = useMutation({
+    mutationFn: async () => {
+      const total = (parseInt(form.hours || "0", 10) * 60) + parseInt(form.minutes || "0", 10);
+      const res = await apiRequest("POST", "/api/hours-bank/entries", {
+        employeeId: form.employeeId,
+        kind: form.kind,
+        minutes: total,
+        date: form.date,
+        comment: form.comment,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hours-bank"] });
+      setShowEntryDialog(false);
+      setForm({ employeeId: "", kind: "time_off", hours: "", minutes: "", date: "", comment: "" });
+      toast({ title: "Movimiento registrado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selectedBalance = balances?.find((b) => b.employee.id === selectedEmployeeId);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <PiggyBank className="h-5 w-5" />
+                Bolsa de horas
+              </CardTitle>
+              <CardDescription>
+                Las horas extra aprobadas se acumulan aquí y se compensan con descanso o en nómina
+              </CardDescription>
+            </div>
+            <Button onClick={() => setShowEntryDialog(true)} data-testid="button-add-hours-bank-entry">
+              <Plus className="h-4 w-4 mr-2" />
+              Registrar movimiento
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted/50 animate-pulse rounded-md" />
+              ))}
+            </div>
+          ) : balances && balances.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Empleado</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Saldo</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Acumulado</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Compensado</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Caducado</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {balances.map((b) => (
+                    <tr key={b.employee.id} className="border-b last:border-0" data-testid={`hours-bank-row-${b.employee.id}`}>
+                      <td className="py-3 px-4 font-medium">{b.employee.firstName} {b.employee.lastName}</td>
+                      <td className="py-3 px-4">
+                        <Badge variant="outline" className="font-mono">{formatDuration(Math.max(0, b.balanceMinutes))}</Badge>
+                        {b.expiringSoon.length > 0 && (
+                          <Badge variant="outline" className="ml-2 text-amber-600 border-amber-300">
+                            Caduca {b.expiringSoon[0].expiresOn.split("-").reverse().join("/")}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 font-mono text-sm">{formatDuration(b.creditedMinutes)}</td>
+                      <td className="py-3 px-4 font-mono text-sm">{formatDuration(b.usedMinutes)}</td>
+                      <td className="py-3 px-4 font-mono text-sm text-muted-foreground">{formatDuration(b.expiredMinutes)}</td>
+                      <td className="py-3 px-4 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedEmployeeId(b.employee.id)}
+                          data-testid={`button-view-hours-bank-${b.employee.id}`}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          Movimientos
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <PiggyBank className="h-12 w-12 mx-auto mb-4 opacity-30" />
+              <p>Ninguna hora acumulada todavía</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEmployeeId} onOpenChange={(open) => !open && setSelectedEmployeeId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Movimientos — {selectedBalance?.employee.firstName} {selectedBalance?.employee.lastName}
+            </DialogTitle>
+            <DialogDescription>
+              Saldo actual: {ledger ? formatDuration(Math.max(0, ledger.summary.balanceMinutes)) : "—"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {ledger?.entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`hours-bank-entry-${entry.id}`}>
+                <div>
+                  <p className="font-medium text-sm">{HOURS_BANK_KIND_LABELS[entry.kind]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.date.split("-").reverse().join("/")}
+                    {entry.expiresOn && ` · caduca ${entry.expiresOn.split("-").reverse().join("/")}`}
+                    {entry.comment && ` · ${entry.comment}`}
+                  </p>
+                </div>
+                <span className={`font-mono text-sm ${entry.minutes < 0 ? "text-red-600" : "text-green-700"}`}>
+                  {formatSignedMinutes(entry.minutes)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showEntryDialog} onOpenChange={setShowEntryDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Registrar movimiento</DialogTitle>
+            <DialogDescription>
+              Descuente descanso compensatorio o abono en nómina, o corrija el saldo con un ajuste (admite negativo)
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Empleado</Label>
+              <Select value={form.employeeId} onValueChange={(v) => setForm({ ...form, employeeId: v })}>
+                <SelectTrigger data-testid="select-hours-bank-employee">
+                  <SelectValue placeholder="Seleccione un empleado" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((emp) => (
+                    <SelectItem key={emp.id} value={emp.id}>{emp.lastName}, {emp.firstName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v })}>
+                <SelectTrigger data-testid="select-hours-bank-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="time_off">{HOURS_BANK_KIND_LABELS.time_off}</SelectItem>
+                  <SelectItem value="payout">{HOURS_BANK_KIND_LABELS.payout}</SelectItem>
+                  <SelectItem value="adjustment">{HOURS_BANK_KIND_LABELS.adjustment}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Horas</Label>
+                <Input type="number" value={form.hours} onChange={(e) => setForm({ ...form, hours: e.target.value })} data-testid="input-hours-bank-hours" />
+              </div>
+              <div className="space-y-1">
+                <Label>Minutos</Label>
+                <Input type="number" value={form.minutes} onChange={(e) => setForm({ ...form, minutes: e.target.value })} data-testid="input-hours-bank-minutes" />
+              </div>
+              <div className="space-y-1">
+                <Label>Fecha</Label>
+                <Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} data-testid="input-hours-bank-date" />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Comentario (obligatorio)</Label>
+              <Textarea value={form.comment} onChange={(e) => setForm({ ...form, comment: e.target.value })} data-testid="input-hours-bank-comment" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => entryMutation.mutate()}
+              disabled={!form.employeeId || !form.date || form.comment.trim().length < 5 || (!form.hours && !form.minutes) || entryMutation.isPending}
+              data-testid="button-save-hours-bank-entry"
+            >
+              Registrar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface RetentionStatus {
+  policy: { years: number; anonymizeEnabled: boolean };
+  cutoff: string;
+  pending: { punches: number; employees: number };
+  holds: LegalHoldWithDetails[];
+}
+
+function RetencionTab({ employees }: { employees: Employee[] }) {
+  const { toast } = useToast();
+  const [showHoldDialog, setShowHoldDialog] = useState(false);
+  const [holdForm, setHoldForm] = useState({ employeeId: "", reason: "" });
+  const [releasingHold, setReleasingHold] = useState<LegalHoldWithDetails | null>(null);
+  const [releaseReason, setReleaseReason] = useState("");
+
+  const { data, isLoading } = useQuery<RetentionStatus>({
+    queryKey: ["/api/admin/retention"],
+  });
+
+  const holdMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/legal-holds", holdForm);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention"] });
+      setShowHoldDialog(false);
+      setHoldForm({ employeeId: "", reason: "" });
+      toast({ title: "Retención legal registrada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/legal-holds/${releasingHold!.id}/release`, { reason: releaseReason });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention"] });
+      setReleasingHold(null);
+      setReleaseReason("");
+      toast({ title: "Retención legal levantada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activeHolds = data?.holds.filter((h) => !h.releasedAt) ?? [];
+  const releasedHolds = data?.holds.filter((h) => h.releasedAt) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Conservación de registros
+          </CardTitle>
+          <CardDescription>
+            Los fichajes se conservan durante el plazo legal; pasado ese plazo se anonimizan en lugar de borrarse
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !data ? (
+            <p className="text-muted-foreground">Cargando...</p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Plazo de conservación</p>
+                <p className="font-medium" data-testid="text-retention-years">{data.policy.years} años</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Registros anteriores al</p>
+                <p className="font-medium" data-testid="text-retention-cutoff">{formatDateES(data.cutoff)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Pendientes de anonimizar</p>
+                <p className="font-medium" data-testid="text-retention-pending">
+                  {data.pending.punches} fichajes · {data.pending.employees} empleados
+                  {!data.policy.anonymizeEnabled && " (anonimización desactivada)"}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Retenciones legales</CardTitle>
+              <CardDescription>
+                Mientras esté activa, los registros del empleado no se purgan ni se anonimizan
+              </CardDescription>
+            </div>
+            <Button onClick={() => setShowHoldDialog(true)} data-testid="button-add-legal-hold">
+              <Plus className="h-4 w-4 mr-2" />
+              Nueva retención
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {activeHolds.length === 0 && releasedHolds.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No hay retenciones legales registradas</p>
+          ) : (
+            [...activeHolds, ...releasedHolds].map((hold) => (
+              <div key={hold.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border" data-testid={`legal-hold-${hold.id}`}>
+                <div>
+                  <p className="font-medium text-sm">{hold.employee.firstName} {hold.employee.lastName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {hold.reason} · {formatDateTimeES(hold.placedAt)}{hold.placedBy && ` por ${hold.placedBy.firstName} ${hold.placedBy.lastName}`}
+                  </p>
+                  {hold.releasedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Levantada {formatDateTimeES(hold.releasedAt)}
+                      {hold.releasedBy && ` por ${hold.releasedBy.firstName} ${hold.releasedBy.lastName}`}
+                      {hold.releaseReason && ` · ${hold.releaseReason}`}
+                    </p>
+                  )}
+                </div>
+                {hold.releasedAt ? (
+                  <Badge variant="secondary">Levantada</Badge>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">Activa</Badge>
+                    <Button variant="outline" size="sm" onClick={() => setReleasingHold(hold)} data-testid={`button-release-hold-${hold.id}`}>
+                      Levantar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showHoldDialog} onOpenChange={setShowHoldDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nueva retención legal</DialogTitle>
+            <DialogDescription>
+              Bloquea la purga y la anonimización de todos los registros del empleado hasta que se levante
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Empleado</Label>
+              <Select value={holdForm.employeeId} onValueChange={(v) => setHoldForm({ ...holdForm, employeeId: v })}>
+                <SelectTrigger data-testid="select-legal-hold-employee">
+                  <SelectValue placeholder="Seleccione un empleado" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((emp) => (
+                    <SelectItem key={emp.id} value={emp.id}>{emp.lastName}, {emp.firstName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Motivo (procedimiento, requerimiento...)</Label>
+              <Textarea value={holdForm.reason} onChange={(e) => setHoldForm({ ...holdForm, reason: e.target.value })} data-testid="input-legal-hold-reason" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => holdMutation.mutate()}
+              disabled={!holdForm.employeeId || holdForm.reason.trim().length < 5 || holdMutation.isPending}
+              data-testid="button-save-legal-hold"
+            >
+              Registrar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!releasingHold} onOpenChange={(open) => !open && setReleasingHold(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Levantar retención legal</DialogTitle>
+            <DialogDescription>
+              {releasingHold?.employee.firstName} {releasingHold?.employee.lastName} volverá a seguir el plazo de conservación ordinario
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Motivo</Label>
+            <Textarea value={releaseReason} onChange={(e) => setReleaseReason(e.target.value)} data-testid="input-release-hold-reason" />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => releaseMutation.mutate()}
+              disabled={releaseReason.trim().length < 5 || releaseMutation.isPending}
+              data-testid="button-confirm-release-hold"
+            >
+              Levantar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  "employees.view": "Ver empleados, horarios y ausencias",
+  "employees.manage": "Gestionar empleados y asignaciones",
+  "settings.manage": "Configurar pausas, centros, festivos y tipos de ausencia",
+  "punches.view": "Ver fichajes y horas extra",
+  "punches.review": "Revisar fichajes",
+  "punches.correct": "Corregir fichajes",
+  "punches.export": "Exportar fichajes (CSV)",
+  "overtime.review": "Aprobar horas extra",
+  "absences.manage": "Registrar y aprobar ausencias",
+  "hours_bank.manage": "Movimientos de bolsa de horas",
+  "reports.view": "Informes PDF",
+  "reports.authorities": "Informe para la Inspección de Trabajo",
+  "kiosk.manage": "Gestionar quioscos",
+  "cleanup.purge": "Purgar empleados",
+  "retention.manage": "Retención de registros y bloqueos legales",
+  "system.status": "Estado del sistema",
+  "roles.manage": "Gestionar permisos",
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  manager: "Responsable / RRHH",
+};
+
+interface RolePermissionsResponse {
+  permissions: Permission[];
+  roles: { role: string; permissions: Permission[]; isDefault: boolean; updatedAt: string | null }[];
+}
+
+function RolesTab() {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, Permission[]>>({});
+
+  const { data, isLoading } = useQuery<RolePermissionsResponse>({
+    queryKey: ["/api/roles/permissions"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ role, permissions }: { role: string; permissions: Permission[] }) => {
+      const res = await apiRequest("PUT", `/api/roles/${role}/permissions`, { permissions });
+      return res.json();
+    },
+    onSuccess: (_, { role }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles/permissions"] });
+      setDrafts(({ [role]: _saved, ...rest }) => rest);
+      toast({ title: "Permisos guardados", description: "Se aplican en la próxima petición de cada usuario" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-muted-foreground">Cargando...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Los administradores tienen siempre todos los permisos.
+      </p>
+      {data.roles.map(({ role, permissions, isDefault }) => {
+        const current = drafts[role] ?? permissions;
+        const toggle = (permission: Permission, checked: boolean) => {
+          setDrafts({
+            ...drafts,
+            [role]: checked ? [...current, permission] : current.filter((p) => p !== permission),
+          });
+        };
+
+        return (
+          <Card key={role} data-testid={`card-role-${role}`}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {ROLE_LABELS[role] ?? role}
+                {isDefault && <Badge variant="secondary">Por defecto</Badge>}
+              </CardTitle>
+              <CardDescription>{current.length} de {data.permissions.length} permisos</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {data.permissions.map((permission) => (
+                  <label key={permission} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={current.includes(permission)}
+                      onCheckedChange={(checked) => toggle(permission, checked === true)}
+                      data-testid={`checkbox-${role}-${permission}`}
+                    />
+                    <span>{PERMISSION_LABELS[permission]}</span>
+                    <span className="text-xs text-muted-foreground font-mono">{permission}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => saveMutation.mutate({ role, permissions: current })}
+                  disabled={!drafts[role] || saveMutation.isPending}
+                  data-testid={`button-save-role-${role}`}
+                >
+                  Guardar
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+const PRESENCE_GROUPS: { status: PresenceEntry["status"]; title: string; badgeClass: string }[] = [
+  { status: "in", title: "Presentes", badgeClass: "bg-success/10 text-success border-success/20" },
+  { status: "break", title: "En pausa", badgeClass: "bg-warning/10 text-warning border-warning/20" },
+  { status: "out", title: "Fuera", badgeClass: "bg-muted text-muted-foreground" },
+];
+
+function PresenceBoardCard({ siteId, live }: { siteId?: string; live: boolean }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Durations are counted on the client between events, so they advance without refetching
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: board, isLoading } = useQuery<PresenceEntry[]>({
+    queryKey: ["/api/admin/presence", { siteId }],
+  });
+
+  const describe = (entry: PresenceEntry) => {
+    if (!entry.since) return "Sin fichajes";
+    if (entry.status === "out") return `Salida ${formatDateTimeES(entry.since)}`;
+    const minutes = Math.floor((now - new Date(entry.since).getTime()) / 60000);
+    return entry.status === "break" ? `En pausa ${formatDuration(minutes)}` : `Trabajando ${formatDuration(minutes)}`;
+  };
+
+  return (
+    <Card className="shadow-sm border border-border/50">
+      <CardHeader className="border-b">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="h-9 w-9 rounded-lg bg-primary/10 flex items-center justify-center">
+              <Users className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Presencia</CardTitle>
+              <CardDescription>Quién está trabajando, en pausa o fuera</CardDescription>
+            </div>
+          </div>
+          <Badge variant="outline" className={live ? "text-success border-success/30" : "text-muted-foreground"} data-testid="badge-presence-live">
+            <Radio className="h-3 w-3 mr-1" />
+            {live ? "En directo" : "Sin conexión en directo"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-4">
+        {isLoading ? (
+          <div className="h-24 bg-muted/50 animate-pulse rounded-md" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {PRESENCE_GROUPS.map((group) => {
+              const entries = (board ?? []).filter((e) => e.status === group.status);
+              return (
+                <div key={group.status} data-testid={`presence-group-${group.status}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium">{group.title}</span>
+                    <Badge variant="outline" className={group.badgeClass}>{entries.length}</Badge>
+                  </div>
+                  {entries.length === 0 ? (
+                    <p className="text-xs text-muted-foreground py-2">Nadie</p>
+                  ) : (
+                    <div className="space-y-1 max-h-80 overflow-auto">
+                      {entries.map((entry) => (
+                        <div key={entry.employeeId} className="flex items-center gap-2 py-1.5 px-2 rounded-md bg-muted/30" data-testid={`presence-entry-${entry.employeeId}`}>
+                          <Avatar className="h-7 w-7">
+                            <AvatarFallback className="text-xs bg-primary/10 text-primary font-medium">
+                              {entry.firstName[0]}{entry.lastName[0]}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{entry.firstName} {entry.lastName}</p>
+                            <p className="text-xs text-muted-foreground">{describe(entry)}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
   );
 }
 
 export default function AdminPage() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
-  const [activeTab, setActiveTab] = useState<"dashboard" | "employees" | "punches" | "revision" | "overtime" | "estado" | "kiosks" | "reports" | "cleanup">("dashboard");
+  const [activeTab, setActiveTab] = useState<"dashboard" | "employees" | "punches" | "revision" | "overtime" | "schedules" | "breaks" | "sites" | "holidays" | "absences" | "hours-bank" | "estado" | "kiosks" | "reports" | "cleanup" | "retention" | "roles">("dashboard");
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showManualPunchDialog, setShowManualPunchDialog] = useState(false);
   const [selectedPunchForCorrection, setSelectedPunchForCorrection] = useState<PunchWithEmployee | null>(null);
+  const [selectedPunchForMap, setSelectedPunchForMap] = useState<PunchWithEmployee | null>(null);
   const [selectedOvertime, setSelectedOvertime] = useState<OvertimeRequestWithDetails | null>(null);
   const [overtimeComment, setOvertimeComment] = useState("");
   const [overtimeFilter, setOvertimeFilter] = useState<"all" | "pending" | "approved" | "rejected">("pending");
   const [showAddKioskDialog, setShowAddKioskDialog] = useState(false);
   const [newKioskName, setNewKioskName] = useState("");
-  const [newKioskToken, setNewKioskToken] = useState<string | null>(null);
+  const [newKioskSiteId, setNewKioskSiteId] = useState("none");
+  const [siteFilter, setSiteFilter] = useState("all");
+  const [kioskPairingCode, setKioskPairingCode] = useState("");
+  const [repairKiosk, setRepairKiosk] = useState<KioskDevice | null>(null);
+  const [kioskHistoryDevice, setKioskHistoryDevice] = useState<KioskDevice | null>(null);
+  const [kioskActivityDevice, setKioskActivityDevice] = useState<KioskDevice | null>(null);
+  const [exportingEmployeeId, setExportingEmployeeId] = useState<string | null>(null);
   const { toast } = useToast();
 
+  const handleDataExport = async (emp: Employee) => {
+    setExportingEmployeeId(emp.id);
+    try {
+      const response = await fetch(`/api/employees/${emp.id}/data-export`, { credentials: "include" });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Error al exportar los datos");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `datos-personales-${emp.lastName}-${emp.firstName}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Error al exportar los datos",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingEmployeeId(null);
+    }
+  };
+
+  const siteScope = siteFilter === "all" ? undefined : siteFilter;
+  const canViewPunches = user?.permissions?.includes("punches.view") ?? false;
+  const live = useLiveEvents(siteScope, canViewPunches);
+
   const { data: stats } = useQuery<DashboardStats>({
-    queryKey: ["/api/admin/stats"],
+    queryKey: ["/api/admin/stats", { siteId: siteScope }],
+    enabled: canViewPunches,
   });
 
   const { data: employees, isLoading: employeesLoading } = useQuery<Employee[]>({
     queryKey: ["/api/employees"],
   });
 
+  const { data: breakPolicies } = useQuery<BreakPolicy[]>({
+    queryKey: ["/api/break-policies"],
+  });
+
+  const { data: supervisorOptions } = useQuery<Pick<Employee, "id" | "firstName" | "lastName" | "role" | "siteId">[]>({
+    queryKey: ["/api/employees/supervisor-candidates"],
+  });
+
+  const supervisorMutation = useMutation({
+    mutationFn: async ({ employeeId, supervisorId }: { employeeId: string; supervisorId: string | null }) => {
+      const res = await apiRequest("PUT", `/api/employees/${employeeId}/supervisor`, { supervisorId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Responsable asignado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { data: sites } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const mapSite = sites?.find((s) => s.id === selectedPunchForMap?.siteId);
+
   const { data: recentPunches, isLoading: punchesLoading } = useQuery<PunchWithEmployee[]>({
-    queryKey: ["/api/punches", { limit: 20 }],
+    queryKey: ["/api/punches", { limit: 20, siteId: siteScope }],
   });
 
   const { data: flaggedPunches } = useQuery<PunchWithEmployee[]>({
-    queryKey: ["/api/punches", { needsReview: true }],
+    queryKey: ["/api/punches", { needsReview: true, siteId: siteScope }],
   });
 
   interface ReviewablePunch extends PunchWithEmployee {
     reviewed: boolean;
     corrected: boolean;
+    escalated: boolean;
   }
 
   const { data: reviewPunches, isLoading: reviewLoading } = useQuery<ReviewablePunch[]>({
-    queryKey: ["/api/punches/needs-review"],
+    queryKey: ["/api/punches/needs-review", { siteId: siteScope }],
   });
 
   const reviewMutation = useMutation({
@@ -1175,6 +3859,7 @@ export default function AdminPage() {
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/overtime-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/hours-bank"] });
       setSelectedOvertime(null);
       setOvertimeComment("");
       toast({
@@ -1196,22 +3881,86 @@ export default function AdminPage() {
   const { data: kioskDevices, isLoading: kiosksLoading } = useQuery<KioskDevice[]>({
     queryKey: ["/api/admin/kiosk-devices"],
     enabled: activeTab === "kiosks",
+    refetchInterval: 60000,
+  });
+
+  const { data: kioskHeartbeats, isLoading: kioskHeartbeatsLoading } = useQuery<KioskHeartbeat[]>({
+    queryKey: ["/api/admin/kiosk-devices", kioskActivityDevice?.id, "heartbeats"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/kiosk-devices/${kioskActivityDevice!.id}/heartbeats`);
+      return res.json();
+    },
+    enabled: !!kioskActivityDevice,
+  });
+
+  const offlineKiosks = kioskDevices?.filter(d => d.enabled && d.paired && d.health.status === "offline") ?? [];
+
+  const { data: kioskTokenEvents, isLoading: kioskTokenEventsLoading } = useQuery<KioskTokenEventWithActor[]>({
+    queryKey: ["/api/admin/kiosk-devices", kioskHistoryDevice?.id, "token-events"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/kiosk-devices/${kioskHistoryDevice!.id}/token-events`);
+      return res.json();
+    },
+    enabled: !!kioskHistoryDevice,
   });
 
-  const createKioskMutation = useMutation({
-    mutationFn: async (name: string) => {
-      const response = await apiRequest("POST", "/api/admin/kiosk-devices", { name });
+  // The QR shown by an unpaired kiosk lands here with its code, so approving is a matter of naming the device
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("pairKiosk");
+    if (!code || !user?.permissions?.includes("kiosk.manage")) return;
+    setActiveTab("kiosks");
+    setKioskPairingCode(code);
+    setShowAddKioskDialog(true);
+    window.history.replaceState({}, "", "/admin");
+  }, [user]);
+
+  const closeKioskPairingDialog = () => {
+    setShowAddKioskDialog(false);
+    setKioskPairingCode("");
+    setNewKioskName("");
+    setNewKioskSiteId("none");
+    setRepairKiosk(null);
+  };
+
+  const pairKioskMutation = useMutation({
+    mutationFn: async (data: { code: string; deviceId?: string; name?: string; siteId?: string | null }) => {
+      const response = await apiRequest("POST", "/api/admin/kiosk-devices/pair", data);
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosk-devices"] });
+      closeKioskPairingDialog();
+      toast({
+        title: "Quiosco vinculado",
+        description: "El dispositivo recibirá su token en unos segundos",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("404") || error.message.includes("409")
+          ? "El código no es válido, ha caducado o ya se ha utilizado"
+          : "No se pudo vincular el dispositivo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeKioskMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/admin/kiosk-devices/${id}/revoke`);
+    },
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosk-devices"] });
-      setNewKioskToken(data.token);
-      setNewKioskName("");
+      toast({
+        title: "Token revocado",
+        description: "El dispositivo dejará de poder fichar hasta que se vuelva a vincular",
+      });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "No se pudo crear el dispositivo",
+        description: "No se pudo revocar el token",
         variant: "destructive",
       });
     },
@@ -1237,6 +3986,26 @@ export default function AdminPage() {
     },
   });
 
+  const kioskSiteMutation = useMutation({
+    mutationFn: async ({ id, siteId }: { id: string; siteId: string | null }) => {
+      return apiRequest("PATCH", `/api/admin/kiosk-devices/${id}`, { siteId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kiosk-devices"] });
+      toast({
+        title: "Centro actualizado",
+        description: "Los fichajes del quiosco se asignarán a este centro",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo actualizar el dispositivo",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteKioskMutation = useMutation({
     mutationFn: async (id: string) => {
       return apiRequest("DELETE", `/api/admin/kiosk-devices/${id}`);
@@ -1263,14 +4032,16 @@ export default function AdminPage() {
       const response = await apiRequest("POST", "/api/admin/sync-monitors");
       return response.json();
     },
-    onSuccess: (data: { created: number; updated: number; linked: number; deactivated: number; errors: Array<{ monitorId?: number; email?: string; reason: string }> }) => {
+    onSuccess: (data: { created: number; updated: number; linked: number; deactivated: number; schedulesUpdated: number; errors: Array<{ monitorId?: number; email?: string; reason: string }> }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
       const parts: string[] = [];
       if (data.created > 0) parts.push(`${data.created} creados`);
       if (data.updated > 0) parts.push(`${data.updated} actualizados`);
       if (data.linked > 0) parts.push(`${data.linked} vinculados`);
       if (data.deactivated > 0) parts.push(`${data.deactivated} desactivados`);
+      if (data.schedulesUpdated > 0) parts.push(`${data.schedulesUpdated} horarios`);
       if (data.errors.length > 0) parts.push(`${data.errors.length} errores`);
       toast({
         title: "Sincronización completada",
@@ -1287,16 +4058,17 @@ export default function AdminPage() {
     },
   });
 
-  const copyKioskUrl = (deviceId: string) => {
-    if (newKioskToken) {
-      const url = `${window.location.origin}/kiosk?token=${newKioskToken}`;
-      navigator.clipboard.writeText(url);
-      toast({
-        title: "URL copiada",
-        description: "La URL del quiosco se ha copiado al portapapeles",
-      });
-    }
-  };
+  const breaksPaidFor = useMemo(() => {
+    const defaultPolicy = breakPolicies?.find((p) => p.isDefault);
+    return (employeeId: string) => {
+      const employee = employees?.find((e) => e.id === employeeId);
+      const sitePolicyId = sites?.find((s) => s.id === employee?.siteId)?.breakPolicyId;
+      const policy = breakPolicies?.find((p) => p.id === employee?.breakPolicyId)
+        ?? breakPolicies?.find((p) => p.id === sitePolicyId)
+        ?? defaultPolicy;
+      return policy?.paid ?? true;
+    };
+  }, [breakPolicies, employees, sites]);
 
   // Compute vacation durations by pairing IN→OUT punches per employee
   const punchDurations = useMemo(() => {
@@ -1331,7 +4103,7 @@ export default function AdminPage() {
         } else if (punch.type === "OUT") {
           if (currentEntry) {
             // Calculate duration for this vacation pair
-            const duration = computeDurationMinutes(currentEntry.timestamp, punch.timestamp);
+            const duration = computeWorkedMinutes(currentEntry.timestamp, punch.timestamp, sorted, breaksPaidFor(punch.employeeId));
             durationMap.set(punch.id, { duration, isInProgress: false });
             durationMap.set(currentEntry.id, { duration, isInProgress: false });
             currentEntry = null;
@@ -1347,7 +4119,7 @@ export default function AdminPage() {
     }
     
     return durationMap;
-  }, [recentPunches]);
+  }, [recentPunches, breaksPaidFor]);
 
   const handleLogout = async () => {
     await logout();
@@ -1361,19 +4133,27 @@ export default function AdminPage() {
     "--sidebar-width-icon": "3rem",
   } as React.CSSProperties;
 
-  const allMenuItems = [
-    { id: "dashboard", label: "Panel de control", icon: LayoutDashboard, accent: "section-accent-dashboard", description: "Vista general del sistema", adminOnly: false },
-    { id: "employees", label: "Empleados", icon: Users, accent: "section-accent-employees", description: "Gestionar personal", adminOnly: false },
-    { id: "punches", label: "Fichajes", icon: Clock, accent: "section-accent-punches", description: "Historial de fichajes", adminOnly: false },
-    { id: "revision", label: "Revisión", icon: ClipboardCheck, accent: "section-accent-revision", description: "Puntos pendientes de revisión", adminOnly: false },
-    { id: "overtime", label: "Horas Extra", icon: Timer, accent: "section-accent-overtime", description: "Solicitudes de horas extra", adminOnly: false },
-    { id: "reports", label: "Informes", icon: FileText, accent: "section-accent-reports", description: "PDF y exportaciones", adminOnly: false },
-    { id: "kiosks", label: "Quioscos", icon: Monitor, accent: "section-accent-dashboard", description: "Dispositivos de fichaje", adminOnly: true },
-    { id: "cleanup", label: "Limpieza", icon: Trash2, accent: "section-accent-dashboard", description: "Purgar empleados huérfanos", adminOnly: true },
-    { id: "estado", label: "Estado", icon: Activity, accent: "section-accent-dashboard", description: "Estado del sistema", adminOnly: true },
+  const allMenuItems: { id: string; label: string; icon: typeof LayoutDashboard; accent: string; description: string; permission?: Permission }[] = [
+    { id: "dashboard", label: "Panel de control", icon: LayoutDashboard, accent: "section-accent-dashboard", description: "Vista general del sistema" },
+    { id: "employees", label: "Empleados", icon: Users, accent: "section-accent-employees", description: "Gestionar personal", permission: "employees.view" },
+    { id: "punches", label: "Fichajes", icon: Clock, accent: "section-accent-punches", description: "Historial de fichajes", permission: "punches.view" },
+    { id: "revision", label: "Revisión", icon: ClipboardCheck, accent: "section-accent-revision", description: "Puntos pendientes de revisión", permission: "punches.view" },
+    { id: "overtime", label: "Horas Extra", icon: Timer, accent: "section-accent-overtime", description: "Solicitudes de horas extra", permission: "punches.view" },
+    { id: "schedules", label: "Horarios", icon: CalendarClock, accent: "section-accent-employees", description: "Jornada contratada por empleado", permission: "employees.view" },
+    { id: "breaks", label: "Pausas", icon: Coffee, accent: "section-accent-employees", description: "Políticas de pausa por convenio" },
+    { id: "sites", label: "Centros", icon: MapPin, accent: "section-accent-employees", description: "Centros de trabajo y zonas de fichaje" },
+    { id: "holidays", label: "Festivos", icon: CalendarDays, accent: "section-accent-employees", description: "Festivos y cierres del centro" },
+    { id: "absences", label: "Ausencias", icon: Plane, accent: "section-accent-overtime", description: "Vacaciones, permisos y bajas", permission: "employees.view" },
+    { id: "hours-bank", label: "Bolsa de horas", icon: PiggyBank, accent: "section-accent-overtime", description: "Horas extra acumuladas y compensadas", permission: "employees.view" },
+    { id: "reports", label: "Informes", icon: FileText, accent: "section-accent-reports", description: "PDF y exportaciones", permission: "reports.view" },
+    { id: "kiosks", label: "Quioscos", icon: Monitor, accent: "section-accent-dashboard", description: "Dispositivos de fichaje", permission: "kiosk.manage" },
+    { id: "cleanup", label: "Limpieza", icon: Trash2, accent: "section-accent-dashboard", description: "Purgar empleados huérfanos", permission: "cleanup.purge" },
+    { id: "retention", label: "Retención", icon: Scale, accent: "section-accent-dashboard", description: "Conservación de registros y retenciones legales", permission: "retention.manage" },
+    { id: "estado", label: "Estado", icon: Activity, accent: "section-accent-dashboard", description: "Estado del sistema", permission: "system.status" },
+    { id: "roles", label: "Permisos", icon: Shield, accent: "section-accent-dashboard", description: "Permisos por rol", permission: "roles.manage" },
   ];
 
-  const menuItems = allMenuItems.filter(item => !item.adminOnly || user?.role === "admin");
+  const menuItems = allMenuItems.filter(item => !item.permission || user?.permissions?.includes(item.permission));
 
   const currentMenuItem = menuItems.find((m) => m.id === activeTab);
 
@@ -1481,6 +4261,20 @@ export default function AdminPage() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {user?.role === "admin" && sites && sites.length > 0 && ["dashboard", "punches", "revision", "reports"].includes(activeTab) && (
+                <Select value={siteFilter} onValueChange={setSiteFilter}>
+                  <SelectTrigger className="w-48" data-testid="select-site-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos los centros</SelectItem>
+                    {sites.map((site) => (
+                      <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {canViewPunches && <NotificationsBell />}
               {activeTab === "employees" && (
                 <>
                   <Button 
@@ -1494,16 +4288,22 @@ export default function AdminPage() {
                   </Button>
                 </>
               )}
-              {activeTab === "reports" && (
+              {activeTab === "reports" && user?.permissions?.includes("punches.export") && (
                 <Button variant="outline" onClick={() => setShowExportDialog(true)} data-testid="button-export-csv">
                   <Download className="h-4 w-4 mr-2" />
                   Exportar CSV
                 </Button>
               )}
+              {activeTab === "punches" && user?.permissions?.includes("punches.correct") && (
+                <Button variant="outline" onClick={() => setShowManualPunchDialog(true)} data-testid="button-add-manual-punch">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Añadir fichaje
+                </Button>
+              )}
               {activeTab === "kiosks" && (
                 <Button onClick={() => setShowAddKioskDialog(true)} data-testid="button-add-kiosk">
                   <Plus className="h-4 w-4 mr-2" />
-                  Añadir quiosco
+                  Vincular quiosco
                 </Button>
               )}
             </div>
@@ -1574,6 +4374,8 @@ export default function AdminPage() {
                   </Card>
                 </div>
 
+                {canViewPunches && <PresenceBoardCard siteId={siteScope} live={live} />}
+
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   <Card className="shadow-sm border border-border/50">
                     <CardHeader className="border-b">
@@ -1723,12 +4525,39 @@ export default function AdminPage() {
                                 Gestión
                               </Badge>
                             ) : null}
+                            <Select
+                              value={emp.supervisorId ?? "none"}
+                              onValueChange={(value) => supervisorMutation.mutate({ employeeId: emp.id, supervisorId: value === "none" ? null : value })}
+                              disabled={supervisorMutation.isPending}
+                            >
+                              <SelectTrigger className="w-48" data-testid={`select-supervisor-${emp.id}`}>
+                                <SelectValue placeholder="Responsable" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">Sin responsable</SelectItem>
+                                {(supervisorOptions ?? []).filter((s) => s.id !== emp.id).map((s) => (
+                                  <SelectItem key={s.id} value={s.id}>{s.firstName} {s.lastName}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <Badge variant="outline" className="capitalize">
                               {emp.role}
                             </Badge>
                             <Badge variant={emp.isActive ? "default" : "secondary"}>
                               {emp.isActive ? "Activo" : "Inactivo"}
                             </Badge>
+                            {user?.permissions?.includes("employees.manage") && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Exportar datos personales (RGPD)"
+                                onClick={() => handleDataExport(emp)}
+                                disabled={exportingEmployeeId === emp.id}
+                                data-testid={`button-data-export-${emp.id}`}
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -1813,12 +4642,22 @@ export default function AdminPage() {
                                   needsReview={punch.needsReview}
                                   latitude={punch.latitude}
                                   longitude={punch.longitude}
+                                  outsideGeofence={punch.outsideGeofence}
+                                  distanceMeters={punch.geofenceDistanceMeters}
                                 />
                               </td>
                               <td className="py-3 px-4">
-                                <Badge variant="outline" className="text-xs capitalize">
-                                  {punch.source}
-                                </Badge>
+                                <div className="flex gap-1">
+                                  <Badge
+                                    variant="outline"
+                                    className={`text-xs capitalize ${punch.source === "manual" ? "text-amber-600 border-amber-300" : ""}`}
+                                    title={punch.manualReason ?? undefined}
+                                    data-testid={`badge-source-${punch.id}`}
+                                  >
+                                    {punch.source}
+                                  </Badge>
+                                  <OfflineBadge receivedAt={punch.receivedAt} clockDriftSeconds={punch.clockDriftSeconds} />
+                                </div>
                               </td>
                               <td className="py-3 px-4 text-right">
                                 <Button 
@@ -1854,7 +4693,7 @@ export default function AdminPage() {
                     Fichajes por Revisar
                   </CardTitle>
                   <CardDescription>
-                    Fichajes que requieren verificación manual (sin geolocalización)
+                    Fichajes que requieren verificación manual (sin geolocalización o fuera de zona)
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -1904,6 +4743,8 @@ export default function AdminPage() {
                                   needsReview={punch.needsReview}
                                   latitude={punch.latitude}
                                   longitude={punch.longitude}
+                                  outsideGeofence={punch.outsideGeofence}
+                                  distanceMeters={punch.geofenceDistanceMeters}
                                 />
                               </td>
                               <td className="py-3 px-4">
@@ -1924,6 +4765,12 @@ export default function AdminPage() {
                                       Pendiente
                                     </Badge>
                                   )}
+                                  <OfflineBadge receivedAt={punch.receivedAt} clockDriftSeconds={punch.clockDriftSeconds} />
+                                  {punch.escalated && (
+                                    <Badge variant="outline" className="text-red-600 border-red-300 text-xs" data-testid={`badge-escalated-${punch.id}`}>
+                                      Escalado
+                                    </Badge>
+                                  )}
                                 </div>
                               </td>
                               <td className="py-3 px-4 text-right">
@@ -1940,6 +4787,17 @@ export default function AdminPage() {
                                       Validar
                                     </Button>
                                   )}
+                                  {punch.siteId && punch.latitude && punch.longitude && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setSelectedPunchForMap(punch)}
+                                      data-testid={`button-map-review-${punch.id}`}
+                                    >
+                                      <MapPin className="h-4 w-4 mr-1" />
+                                      Mapa
+                                    </Button>
+                                  )}
                                   <Button 
                                     variant="ghost" 
                                     size="sm"
@@ -1967,6 +4825,8 @@ export default function AdminPage() {
               </Card>
             )}
 
+            {activeTab === "revision" && <CorrectionRequestsCard siteId={siteScope} />}
+
             {activeTab === "overtime" && (
               <Card className="border-card-border">
                 <CardHeader>
@@ -2045,6 +4905,11 @@ export default function AdminPage() {
                                     Pendiente
                                   </Badge>
                                 )}
+                                {request.escalated && (
+                                  <Badge variant="outline" className="ml-1 text-red-600 border-red-300" data-testid={`badge-overtime-escalated-${request.id}`}>
+                                    Escalado
+                                  </Badge>
+                                )}
                                 {request.status === "approved" && (
                                   <Badge className="bg-green-100 text-green-700">
                                     <ThumbsUp className="h-3 w-3 mr-1" />
@@ -2101,6 +4966,14 @@ export default function AdminPage() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
+                    {offlineKiosks.length > 0 && (
+                      <div className="flex items-center gap-2 p-3 mb-4 rounded-lg border border-destructive/50 text-destructive text-sm" data-testid="alert-kiosks-offline">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {offlineKiosks.length === 1
+                          ? `El quiosco "${offlineKiosks[0].name}" no da señales desde hace ${offlineKiosks[0].health.silentMinutes} min`
+                          : `${offlineKiosks.length} quioscos no dan señales: ${offlineKiosks.map(d => d.name).join(", ")}`}
+                      </div>
+                    )}
                     {kiosksLoading ? (
                       <p className="text-muted-foreground">Cargando...</p>
                     ) : kioskDevices && kioskDevices.length > 0 ? (
@@ -2121,12 +4994,104 @@ export default function AdminPage() {
                                     <> | Último uso: {new Date(device.lastUsedAt).toLocaleString("es-ES", { timeZone: "Europe/Madrid" })}</>
                                   )}
                                 </p>
+                                <p className="text-sm text-muted-foreground" data-testid={`text-kiosk-heartbeat-${device.id}`}>
+                                  {device.lastHeartbeatAt
+                                    ? <>Última conexión: {new Date(device.lastHeartbeatAt).toLocaleString("es-ES", { timeZone: "Europe/Madrid" })}</>
+                                    : "Sin conexiones registradas"}
+                                  {device.tokenIssuedAt && (
+                                    <> | Token emitido: {new Date(device.tokenIssuedAt).toLocaleDateString("es-ES", { timeZone: "Europe/Madrid" })}{device.rotationDue && " (renovación pendiente)"}</>
+                                  )}
+                                </p>
+                                {device.lastHeartbeat && (
+                                  <p className="text-xs text-muted-foreground" data-testid={`text-kiosk-state-${device.id}`}>
+                                    {describeHeartbeat(device.lastHeartbeat)}
+                                  </p>
+                                )}
+                                {device.health.warnings.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {device.health.warnings.map((warning) => (
+                                      <Badge key={warning} variant="outline" className="text-amber-600 border-amber-300">
+                                        {KIOSK_WARNING_LABELS[warning]}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                             </div>
                             <div className="flex items-center gap-2">
+                              <Select
+                                value={device.siteId ?? "none"}
+                                onValueChange={(value) => kioskSiteMutation.mutate({ id: device.id, siteId: value === "none" ? null : value })}
+                                disabled={kioskSiteMutation.isPending}
+                              >
+                                <SelectTrigger className="w-44" data-testid={`select-kiosk-site-${device.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Sin centro</SelectItem>
+                                  {sites?.map((site) => (
+                                    <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {device.paired && (
+                                <Badge
+                                  variant={device.health.status === "offline" ? "destructive" : device.health.status === "online" ? "default" : "secondary"}
+                                  data-testid={`badge-kiosk-health-${device.id}`}
+                                >
+                                  {KIOSK_HEALTH_LABELS[device.health.status]}
+                                </Badge>
+                              )}
+                              <Badge variant={device.paired ? "outline" : "destructive"}>
+                                {device.paired ? "Vinculado" : "Sin vincular"}
+                              </Badge>
                               <Badge variant={device.enabled ? "default" : "secondary"}>
                                 {device.enabled ? "Activo" : "Inactivo"}
                               </Badge>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Volver a vincular"
+                                onClick={() => {
+                                  setRepairKiosk(device);
+                                  setShowAddKioskDialog(true);
+                                }}
+                                data-testid={`button-repair-kiosk-${device.id}`}
+                              >
+                                <Link2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Revocar token"
+                                onClick={() => {
+                                  if (confirm(`¿Revocar el token de "${device.name}"? El quiosco dejará de poder fichar hasta que se vuelva a vincular.`)) {
+                                    revokeKioskMutation.mutate(device.id);
+                                  }
+                                }}
+                                disabled={!device.paired || revokeKioskMutation.isPending}
+                                data-testid={`button-revoke-kiosk-${device.id}`}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Historial del token"
+                                onClick={() => setKioskHistoryDevice(device)}
+                                data-testid={`button-history-kiosk-${device.id}`}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Señales de las últimas 24 h"
+                                onClick={() => setKioskActivityDevice(device)}
+                                data-testid={`button-activity-kiosk-${device.id}`}
+                              >
+                                <Activity className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -2161,9 +5126,25 @@ export default function AdminPage() {
 
             {activeTab === "cleanup" && <LimpiezaTab />}
 
+            {activeTab === "retention" && <RetencionTab employees={employees || []} />}
+
+            {activeTab === "roles" && <RolesTab />}
+
             {activeTab === "estado" && <EstadoTab />}
 
-            {activeTab === "reports" && <ReportsTab employees={employees || []} />}
+            {activeTab === "reports" && <ReportsTab employees={employees || []} siteId={siteScope} />}
+
+            {activeTab === "schedules" && <SchedulesTab employees={employees || []} />}
+
+            {activeTab === "breaks" && <BreakPoliciesTab employees={employees || []} />}
+
+            {activeTab === "sites" && <SitesTab employees={employees || []} />}
+
+            {activeTab === "holidays" && <HolidaysTab />}
+
+            {activeTab === "absences" && <AbsencesTab employees={employees || []} />}
+
+            {activeTab === "hours-bank" && <HoursBankTab employees={employees || []} />}
           </main>
         </div>
       </div>
@@ -2174,6 +5155,38 @@ export default function AdminPage() {
         employees={employees || []}
       />
 
+      <ManualPunchDialog
+        open={showManualPunchDialog}
+        onOpenChange={setShowManualPunchDialog}
+        employees={employees || []}
+      />
+
+      <Dialog open={!!selectedPunchForMap} onOpenChange={(open) => !open && setSelectedPunchForMap(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Posición del fichaje — {selectedPunchForMap?.employee.firstName} {selectedPunchForMap?.employee.lastName}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedPunchForMap && new Date(selectedPunchForMap.timestamp).toLocaleString("es-ES", { timeZone: "Europe/Madrid" })}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedPunchForMap && mapSite ? (
+            <GeofenceMap
+              site={mapSite}
+              punch={{
+                latitude: parseFloat(selectedPunchForMap.latitude!),
+                longitude: parseFloat(selectedPunchForMap.longitude!),
+                accuracy: selectedPunchForMap.accuracy ? parseFloat(selectedPunchForMap.accuracy) : null,
+              }}
+              distanceMeters={selectedPunchForMap.geofenceDistanceMeters}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">El centro de este fichaje ya no existe</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <CorrectionDialog
         open={!!selectedPunchForCorrection}
         onOpenChange={(open) => !open && setSelectedPunchForCorrection(null)}
@@ -2245,88 +5258,138 @@ export default function AdminPage() {
         </DialogContent>
       </Dialog>
 
-      <Dialog 
-        open={showAddKioskDialog} 
+      <Dialog
+        open={showAddKioskDialog}
         onOpenChange={(open) => {
-          setShowAddKioskDialog(open);
-          if (!open) {
-            setNewKioskName("");
-            setNewKioskToken(null);
-          }
+          if (!open) closeKioskPairingDialog();
         }}
       >
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              {newKioskToken ? "Quiosco creado" : "Añadir dispositivo quiosco"}
+              {repairKiosk ? `Volver a vincular "${repairKiosk.name}"` : "Vincular dispositivo quiosco"}
             </DialogTitle>
             <DialogDescription>
-              {newKioskToken 
-                ? "Guarde esta URL - no se mostrará de nuevo"
-                : "Registre un nuevo terminal para fichar"
-              }
+              Abra el modo quiosco en el dispositivo, pulse "Vincular" e introduzca aquí el código que aparece en pantalla
             </DialogDescription>
           </DialogHeader>
-          {!newKioskToken ? (
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="kiosk-name">Nombre del dispositivo</Label>
-                <Input
-                  id="kiosk-name"
-                  value={newKioskName}
-                  onChange={(e) => setNewKioskName(e.target.value)}
-                  placeholder="Ej: Recepción principal"
-                  data-testid="input-kiosk-name"
-                />
-              </div>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-pairing-code">Código de vinculación</Label>
+              <Input
+                id="kiosk-pairing-code"
+                value={kioskPairingCode}
+                onChange={(e) => setKioskPairingCode(e.target.value.toUpperCase())}
+                placeholder="XXXX-XXXX"
+                className="font-mono tracking-widest"
+                data-testid="input-kiosk-pairing-code"
+              />
             </div>
-          ) : (
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label>URL del quiosco</Label>
-                <div className="flex gap-2">
+            {!repairKiosk && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="kiosk-name">Nombre del dispositivo</Label>
                   <Input
-                    readOnly
-                    value={`${window.location.origin}/kiosk?token=${newKioskToken}`}
-                    className="font-mono text-xs"
-                    data-testid="input-kiosk-url"
+                    id="kiosk-name"
+                    value={newKioskName}
+                    onChange={(e) => setNewKioskName(e.target.value)}
+                    placeholder="Ej: Recepción principal"
+                    data-testid="input-kiosk-name"
                   />
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => copyKioskUrl("")}
-                    data-testid="button-copy-kiosk-url"
-                  >
-                    <Copy className="h-4 w-4" />
-                  </Button>
                 </div>
-              </div>
+                <div className="space-y-2">
+                  <Label>Centro</Label>
+                  <Select value={newKioskSiteId} onValueChange={setNewKioskSiteId}>
+                    <SelectTrigger data-testid="select-kiosk-site">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sin centro</SelectItem>
+                      {sites?.map((site) => (
+                        <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            {repairKiosk?.paired && (
               <p className="text-sm text-muted-foreground">
-                Abra esta URL en el navegador del dispositivo quiosco. El token será guardado automáticamente.
+                El token actual del dispositivo seguirá funcionando hasta que el quiosco recoja el nuevo.
               </p>
-            </div>
-          )}
+            )}
+          </div>
           <DialogFooter>
-            {!newKioskToken ? (
-              <>
-                <Button variant="outline" onClick={() => setShowAddKioskDialog(false)}>
-                  Cancelar
-                </Button>
-                <Button
-                  onClick={() => createKioskMutation.mutate(newKioskName)}
-                  disabled={!newKioskName.trim() || createKioskMutation.isPending}
-                  data-testid="button-create-kiosk"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Crear quiosco
-                </Button>
-              </>
+            <Button variant="outline" onClick={closeKioskPairingDialog}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => pairKioskMutation.mutate(repairKiosk
+                ? { code: kioskPairingCode, deviceId: repairKiosk.id }
+                : { code: kioskPairingCode, name: newKioskName, siteId: newKioskSiteId === "none" ? null : newKioskSiteId })}
+              disabled={!kioskPairingCode.trim() || (!repairKiosk && !newKioskName.trim()) || pairKioskMutation.isPending}
+              data-testid="button-pair-kiosk"
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              Vincular
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!kioskHistoryDevice} onOpenChange={(open) => !open && setKioskHistoryDevice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historial del token</DialogTitle>
+            <DialogDescription>{kioskHistoryDevice?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="py-2 max-h-80 overflow-y-auto">
+            {kioskTokenEventsLoading ? (
+              <p className="text-muted-foreground">Cargando...</p>
+            ) : kioskTokenEvents && kioskTokenEvents.length > 0 ? (
+              <div className="space-y-2">
+                {kioskTokenEvents.map((event) => (
+                  <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg text-sm" data-testid={`kiosk-token-event-${event.id}`}>
+                    <div>
+                      <p className="font-medium">{KIOSK_TOKEN_EVENT_LABELS[event.event]}</p>
+                      <p className="text-muted-foreground">
+                        {event.actor ? `${event.actor.firstName} ${event.actor.lastName}` : "Automático"}
+                        {event.ipAddress && <> · {event.ipAddress}</>}
+                        {event.tokenFingerprint && <> · <span className="font-mono">{event.tokenFingerprint}</span></>}
+                      </p>
+                    </div>
+                    <span className="text-muted-foreground">{formatDateTimeES(event.createdAt)}</span>
+                  </div>
+                ))}
+              </div>
             ) : (
-              <Button onClick={() => setShowAddKioskDialog(false)} data-testid="button-close-kiosk-dialog">
-                Cerrar
-              </Button>
+              <p className="text-muted-foreground text-center py-6">Sin eventos registrados</p>
             )}
-          </DialogFooter>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <Dialog open={!!kioskActivityDevice} onOpenChange={(open) => !open && setKioskActivityDevice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Señales de las últimas 24 h</DialogTitle>
+            <DialogDescription>{kioskActivityDevice?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="py-2 max-h-80 overflow-y-auto">
+            {kioskHeartbeatsLoading ? (
+              <p className="text-muted-foreground">Cargando...</p>
+            ) : kioskHeartbeats && kioskHeartbeats.length > 0 ? (
+              <div className="space-y-1">
+                {kioskHeartbeats.map((heartbeat) => (
+                  <div key={heartbeat.id} className="flex items-center justify-between gap-3 px-3 py-2 border rounded text-xs" data-testid={`kiosk-heartbeat-${heartbeat.id}`}>
+                    <span className="text-muted-foreground">{describeHeartbeat(heartbeat)}</span>
+                    <span className="shrink-0">{formatDateTimeES(heartbeat.createdAt)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-center py-6">Sin señales en las últimas 24 horas</p>
+            )}
+          </div>
         </DialogContent>
       </Dialog>
     </SidebarProvider>
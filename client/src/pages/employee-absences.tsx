@@ -0,0 +1,338 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { LOGO_SRC, APP_NAME } from "@/config/brand";
+import { ArrowLeft, Clock, Plane, Send, AlertCircle, PiggyBank } from "lucide-react";
+import type { Absence, AbsenceType, HoursBankEntry } from "@shared/schema";
+
+interface AbsenceBalance {
+  typeId: string;
+  typeName: string;
+  year: number;
+  allowanceDays: number | null;
+  usedDays: number;
+  pendingDays: number;
+  remainingDays: number | null;
+}
+
+interface MyAbsence extends Absence {
+  type: { id: string; code: string; name: string; paid: boolean };
+}
+
+interface HoursBankResponse {
+  summary: {
+    balanceMinutes: number;
+    creditedMinutes: number;
+    usedMinutes: number;
+    expiredMinutes: number;
+    expiringSoon: { expiresOn: string; minutes: number }[];
+  };
+  entries: Omit<HoursBankEntry, "createdById" | "overtimeRequestId">[];
+}
+
+interface AbsencesResponse {
+  absences: MyAbsence[];
+  balances: AbsenceBalance[];
+  year: number;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: "text-amber-600 border-amber-300 bg-amber-50" },
+  approved: { label: "Aprobada", className: "text-green-600 border-green-300 bg-green-50" },
+  rejected: { label: "Rechazada", className: "text-red-600 border-red-300 bg-red-50" },
+  cancelled: { label: "Cancelada", className: "text-slate-500 border-slate-300 bg-slate-50" },
+};
+
+function formatDateKey(dateKey: string): string {
+  return dateKey.split("-").reverse().join("/");
+}
+
+function formatMinutes(minutes: number): string {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : ""}${Math.floor(abs / 60)}h ${(abs % 60).toString().padStart(2, "0")}m`;
+}
+
+async function fetchPortal<T>(url: string, onUnauthorized: () => void): Promise<T> {
+  const res = await fetch(url, { credentials: "include" });
+  if (res.status === 401) {
+    onUnauthorized();
+    throw new Error("Sesión expirada");
+  }
+  if (!res.ok) {
+    throw new Error("Error al cargar ausencias");
+  }
+  return res.json();
+}
+
+export default function EmployeeAbsencesPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+  const year = new Date().getFullYear();
+  const [form, setForm] = useState({ typeId: "", startDate: "", endDate: "", comment: "" });
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const res = await fetch("/api/auth/employee/me", { credentials: "include" });
+        if (!res.ok) {
+          setLocation("/empleado");
+          return;
+        }
+        setIsAuthenticated(true);
+      } catch {
+        setLocation("/empleado");
+      } finally {
+        setIsCheckingAuth(false);
+      }
+    };
+    checkAuth();
+  }, [setLocation]);
+
+  const redirectToLogin = () => setLocation("/empleado");
+
+  const { data, isLoading, error } = useQuery<AbsencesResponse>({
+    queryKey: ["meAbsences", year],
+    queryFn: () => fetchPortal<AbsencesResponse>(`/api/me/absences?year=${year}`, redirectToLogin),
+    enabled: isAuthenticated,
+    staleTime: 60000,
+  });
+
+  const { data: types } = useQuery<AbsenceType[]>({
+    queryKey: ["meAbsenceTypes"],
+    queryFn: () => fetchPortal<AbsenceType[]>("/api/me/absence-types", redirectToLogin),
+    enabled: isAuthenticated,
+    staleTime: 60000,
+  });
+
+  const { data: hoursBank } = useQuery<HoursBankResponse>({
+    queryKey: ["meHoursBank"],
+    queryFn: () => fetchPortal<HoursBankResponse>("/api/me/hours-bank", redirectToLogin),
+    enabled: isAuthenticated,
+    staleTime: 60000,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/me/absences", {
+        ...form,
+        comment: form.comment || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["meAbsences"] });
+      setForm({ typeId: "", startDate: "", endDate: "", comment: "" });
+      toast({ title: "Solicitud enviada", description: "Su responsable la revisará en breve" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/me/absences/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["meAbsences"] });
+      toast({ title: "Solicitud cancelada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isCheckingAuth) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[var(--bg-app)]">
+        <Clock className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-app)] flex flex-col">
+      <header className="bg-[#0f172a] text-white px-4 py-3 flex items-center justify-between sticky top-0 z-10">
+        <div className="flex items-center gap-3">
+          <img src={LOGO_SRC} alt={APP_NAME} className="h-8 w-auto" data-testid="img-logo-absences" />
+          <h1 className="text-lg font-semibold leading-tight" data-testid="text-title">Mis Ausencias</h1>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setLocation("/empleado/mis-fichajes")}
+          className="text-blue-200/70 hover:text-white hover:bg-white/10"
+          data-testid="button-back-shifts"
+        >
+          <ArrowLeft className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Mis fichajes</span>
+        </Button>
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm" data-testid="text-error">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            Error al cargar las ausencias. Inténtelo de nuevo.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {isLoading
+            ? [1, 2].map((i) => <Skeleton key={i} className="h-20 w-full" />)
+            : data?.balances.filter((b) => b.allowanceDays !== null).map((b) => (
+                <Card key={b.typeId} className="border-[var(--border-subtle)]" data-testid={`card-balance-${b.typeId}`}>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-slate-500">{b.typeName} {b.year}</p>
+                    <p className="text-2xl font-bold text-slate-800">
+                      {b.remainingDays} <span className="text-sm font-normal text-slate-500">de {b.allowanceDays} días</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {b.usedDays} disfrutados · {b.pendingDays} pendientes
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+        </div>
+
+        {hoursBank && hoursBank.entries.length > 0 && (
+          <Card className="border-blue-200 bg-blue-50/50" data-testid="card-hours-bank">
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-blue-700">
+                  <PiggyBank className="h-5 w-5" />
+                  <span className="font-medium">Bolsa de horas</span>
+                </div>
+                <span className="text-lg font-bold text-blue-800" data-testid="text-hours-bank-balance">
+                  {formatMinutes(Math.max(0, hoursBank.summary.balanceMinutes))}
+                </span>
+              </div>
+              {hoursBank.summary.expiringSoon.map((lot) => (
+                <p key={lot.expiresOn} className="text-xs text-amber-700">
+                  {formatMinutes(lot.minutes)} caducan el {formatDateKey(lot.expiresOn)}
+                </p>
+              ))}
+              <ul className="space-y-1 text-sm text-slate-700">
+                {hoursBank.entries.slice(0, 5).map((entry) => (
+                  <li key={entry.id} className="flex justify-between">
+                    <span>{formatDateKey(entry.date)}{entry.comment && ` — ${entry.comment}`}</span>
+                    <span className={entry.minutes < 0 ? "text-red-600" : "text-green-700"}>
+                      {entry.minutes > 0 && "+"}{formatMinutes(entry.minutes)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-[var(--border-subtle)]">
+          <CardHeader>
+            <CardTitle className="text-base">Nueva solicitud</CardTitle>
+            <CardDescription>Los fines de semana y festivos no se descuentan del saldo</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={form.typeId} onValueChange={(v) => setForm({ ...form, typeId: v })}>
+                <SelectTrigger className="bg-white" data-testid="select-absence-type">
+                  <SelectValue placeholder="Seleccione un tipo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {types?.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Desde</Label>
+                <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} data-testid="input-absence-start" />
+              </div>
+              <div className="space-y-1">
+                <Label>Hasta</Label>
+                <Input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} data-testid="input-absence-end" />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Comentario</Label>
+              <Textarea value={form.comment} onChange={(e) => setForm({ ...form, comment: e.target.value })} data-testid="input-absence-comment" />
+            </div>
+            <Button
+              className="w-full sm:w-auto gap-2"
+              onClick={() => requestMutation.mutate()}
+              disabled={!form.typeId || !form.startDate || !form.endDate || requestMutation.isPending}
+              data-testid="button-request-absence"
+            >
+              <Send className="h-4 w-4" />
+              Enviar solicitud
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-[var(--border-subtle)]">
+          <CardHeader>
+            <CardTitle className="text-base">Solicitudes {year}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+              </div>
+            ) : data?.absences && data.absences.length > 0 ? (
+              <div className="space-y-2">
+                {data.absences.map((a) => (
+                  <div key={a.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-white" data-testid={`row-absence-${a.id}`}>
+                    <div>
+                      <p className="font-medium text-slate-800">{a.type.name}</p>
+                      <p className="text-sm text-slate-500">
+                        {formatDateKey(a.startDate)} – {formatDateKey(a.endDate)} · {a.days} días
+                      </p>
+                      {a.reviewerComment && <p className="text-xs text-slate-500 mt-1">{a.reviewerComment}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={STATUS_LABELS[a.status].className}>
+                        {STATUS_LABELS[a.status].label}
+                      </Badge>
+                      {a.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelMutation.mutate(a.id)}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-absence-${a.id}`}
+                        >
+                          Cancelar
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-slate-500">
+                <Plane className="h-12 w-12 mx-auto mb-3 text-slate-300" />
+                <p>Ninguna solicitud este año</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
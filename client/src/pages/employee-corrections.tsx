@@ -0,0 +1,303 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTimeES } from "@/lib/timezone";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { LOGO_SRC, APP_NAME } from "@/config/brand";
+import { ArrowLeft, Clock, Send, AlertCircle, FilePen } from "lucide-react";
+import type { PortalCorrectionRequest } from "@shared/schema";
+
+type PunchType = "IN" | "OUT";
+
+interface MyCorrectionRequest extends Omit<PortalCorrectionRequest, "reviewerId"> {
+  punch: { type: PunchType; timestamp: string } | null;
+}
+
+interface CorrectionRequestsResponse {
+  requests: MyCorrectionRequest[];
+  punches: { id: string; type: PunchType; timestamp: string }[];
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: "text-amber-600 border-amber-300 bg-amber-50" },
+  approved: { label: "Aprobada", className: "text-green-600 border-green-300 bg-green-50" },
+  rejected: { label: "Rechazada", className: "text-red-600 border-red-300 bg-red-50" },
+  cancelled: { label: "Cancelada", className: "text-slate-500 border-slate-300 bg-slate-50" },
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  IN: "Entrada",
+  OUT: "Salida",
+};
+
+const EMPTY_FORM = { kind: "correction" as "correction" | "missing_punch", punchId: "", requestedType: "", requestedTimestamp: "", reason: "" };
+
+async function fetchPortal<T>(url: string, onUnauthorized: () => void): Promise<T> {
+  const res = await fetch(url, { credentials: "include" });
+  if (res.status === 401) {
+    onUnauthorized();
+    throw new Error("Sesión expirada");
+  }
+  if (!res.ok) {
+    throw new Error("Error al cargar solicitudes");
+  }
+  return res.json();
+}
+
+export default function EmployeeCorrectionsPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const res = await fetch("/api/auth/employee/me", { credentials: "include" });
+        if (!res.ok) {
+          setLocation("/empleado");
+          return;
+        }
+        setIsAuthenticated(true);
+      } catch {
+        setLocation("/empleado");
+      } finally {
+        setIsCheckingAuth(false);
+      }
+    };
+    checkAuth();
+  }, [setLocation]);
+
+  const redirectToLogin = () => setLocation("/empleado");
+
+  const { data, isLoading, error } = useQuery<CorrectionRequestsResponse>({
+    queryKey: ["meCorrectionRequests"],
+    queryFn: () => fetchPortal<CorrectionRequestsResponse>("/api/me/correction-requests", redirectToLogin),
+    enabled: isAuthenticated,
+    staleTime: 60000,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/me/correction-requests", {
+        kind: form.kind,
+        punchId: form.kind === "correction" ? form.punchId : undefined,
+        requestedType: form.requestedType || undefined,
+        requestedTimestamp: form.requestedTimestamp ? new Date(form.requestedTimestamp).toISOString() : undefined,
+        reason: form.reason,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["meCorrectionRequests"] });
+      setForm(EMPTY_FORM);
+      toast({ title: "Solicitud enviada", description: "Su responsable la revisará en breve" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/me/correction-requests/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["meCorrectionRequests"] });
+      toast({ title: "Solicitud cancelada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = form.reason.trim().length >= 10 && (
+    form.kind === "correction"
+      ? !!form.punchId && (!!form.requestedTimestamp || !!form.requestedType)
+      : !!form.requestedType && !!form.requestedTimestamp
+  );
+
+  if (isCheckingAuth) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[var(--bg-app)]">
+        <Clock className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-app)] flex flex-col">
+      <header className="bg-[#0f172a] text-white px-4 py-3 flex items-center justify-between sticky top-0 z-10">
+        <div className="flex items-center gap-3">
+          <img src={LOGO_SRC} alt={APP_NAME} className="h-8 w-auto" data-testid="img-logo-corrections" />
+          <h1 className="text-lg font-semibold leading-tight" data-testid="text-title">Correcciones</h1>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setLocation("/empleado/mis-fichajes")}
+          className="text-blue-200/70 hover:text-white hover:bg-white/10"
+          data-testid="button-back-shifts"
+        >
+          <ArrowLeft className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Mis fichajes</span>
+        </Button>
+      </header>
+
+      <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm" data-testid="text-error">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            Error al cargar las solicitudes. Inténtelo de nuevo.
+          </div>
+        )}
+
+        <Card className="border-[var(--border-subtle)]">
+          <CardHeader>
+            <CardTitle className="text-base">Nueva solicitud</CardTitle>
+            <CardDescription>El fichaje original se conserva; su responsable aprobará o rechazará el cambio</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label>Tipo de solicitud</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(v) => setForm({ ...EMPTY_FORM, kind: v as typeof form.kind, reason: form.reason })}
+              >
+                <SelectTrigger className="bg-white" data-testid="select-correction-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="correction">Corregir un fichaje</SelectItem>
+                  <SelectItem value="missing_punch">Añadir un fichaje olvidado</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.kind === "correction" && (
+              <div className="space-y-1">
+                <Label>Fichaje</Label>
+                <Select value={form.punchId} onValueChange={(v) => setForm({ ...form, punchId: v })}>
+                  <SelectTrigger className="bg-white" data-testid="select-correction-punch">
+                    <SelectValue placeholder="Seleccione un fichaje" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {data?.punches.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {formatDateTimeES(p.timestamp)} · {TYPE_LABELS[p.type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>{form.kind === "correction" ? "Nuevo tipo (opcional)" : "Tipo"}</Label>
+                <Select value={form.requestedType} onValueChange={(v) => setForm({ ...form, requestedType: v })}>
+                  <SelectTrigger className="bg-white" data-testid="select-correction-type">
+                    <SelectValue placeholder="Seleccione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="IN">Entrada</SelectItem>
+                    <SelectItem value="OUT">Salida</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{form.kind === "correction" ? "Nueva fecha/hora" : "Fecha/hora"}</Label>
+                <Input
+                  type="datetime-local"
+                  value={form.requestedTimestamp}
+                  onChange={(e) => setForm({ ...form, requestedTimestamp: e.target.value })}
+                  data-testid="input-correction-timestamp"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Motivo</Label>
+              <Textarea
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="Explique qué ocurrió (mínimo 10 caracteres)"
+                data-testid="input-correction-reason"
+              />
+            </div>
+            <Button
+              className="w-full sm:w-auto gap-2"
+              onClick={() => requestMutation.mutate()}
+              disabled={!canSubmit || requestMutation.isPending}
+              data-testid="button-request-correction"
+            >
+              <Send className="h-4 w-4" />
+              Enviar solicitud
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-[var(--border-subtle)]">
+          <CardHeader>
+            <CardTitle className="text-base">Mis solicitudes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+              </div>
+            ) : data?.requests && data.requests.length > 0 ? (
+              <div className="space-y-2">
+                {data.requests.map((r) => (
+                  <div key={r.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-white" data-testid={`row-correction-request-${r.id}`}>
+                    <div>
+                      <p className="font-medium text-slate-800">
+                        {r.kind === "missing_punch" ? "Fichaje olvidado" : "Corrección de fichaje"}
+                      </p>
+                      <p className="text-sm text-slate-500">
+                        {r.kind === "correction" && r.punch && `${TYPE_LABELS[r.punch.type]} ${formatDateTimeES(r.punch.timestamp)} → `}
+                        {r.requestedType ? TYPE_LABELS[r.requestedType] : ""} {r.requestedTimestamp ? formatDateTimeES(r.requestedTimestamp) : ""}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">{r.reason}</p>
+                      {r.reviewerComment && <p className="text-xs text-slate-500 mt-1">Respuesta: {r.reviewerComment}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={STATUS_LABELS[r.status].className}>
+                        {STATUS_LABELS[r.status].label}
+                      </Badge>
+                      {r.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelMutation.mutate(r.id)}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-correction-request-${r.id}`}
+                        >
+                          Cancelar
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-slate-500">
+                <FilePen className="h-12 w-12 mx-auto mb-3 text-slate-300" />
+                <p>Ninguna solicitud de corrección</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
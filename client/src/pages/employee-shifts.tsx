@@ -9,7 +9,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { LOGO_SRC, APP_NAME } from "@/config/brand";
-import { LogOut, FileDown, FileSpreadsheet, Clock, Calendar, Timer, AlertCircle } from "lucide-react";
+import { LogOut, FileDown, FileSpreadsheet, Clock, Calendar, Timer, AlertCircle, Plane, FilePen, FileArchive } from "lucide-react";
 
 interface ShiftEntry {
   date: string;
@@ -19,10 +19,27 @@ interface ShiftEntry {
   clockOutTime: string | null;
   durationMin: number | null;
   status: "OK" | "INCOMPLETE";
+  holiday?: string | null;
+}
+
+interface HolidayEntry {
+  date: string;
+  name: string;
+  scope: string;
+}
+
+interface AbsenceEntry {
+  id: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  type: string;
 }
 
 interface ShiftsResponse {
   shifts: ShiftEntry[];
+  holidays?: HolidayEntry[];
+  absences?: AbsenceEntry[];
   period: { from: string; to: string };
 }
 
@@ -157,16 +174,48 @@ export default function EmployeeShiftsPage() {
             )}
           </div>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleLogout}
-          className="text-blue-200/70 hover:text-white hover:bg-white/10"
-          data-testid="button-logout"
-        >
-          <LogOut className="h-4 w-4 sm:mr-2" />
-          <span className="hidden sm:inline">Cerrar sesión</span>
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLocation("/empleado/ausencias")}
+            className="text-blue-200/70 hover:text-white hover:bg-white/10"
+            data-testid="button-absences"
+          >
+            <Plane className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Ausencias</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLocation("/empleado/correcciones")}
+            className="text-blue-200/70 hover:text-white hover:bg-white/10"
+            data-testid="button-corrections"
+          >
+            <FilePen className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Correcciones</span>
+          </Button>
+          <a href="/api/me/data-export" title="Descargar todos mis datos (RGPD)" data-testid="link-data-export">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-blue-200/70 hover:text-white hover:bg-white/10"
+            >
+              <FileArchive className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Mis datos</span>
+            </Button>
+          </a>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleLogout}
+            className="text-blue-200/70 hover:text-white hover:bg-white/10"
+            data-testid="button-logout"
+          >
+            <LogOut className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Cerrar sesión</span>
+          </Button>
+        </div>
       </header>
 
       <main className="flex-1 p-4 max-w-4xl mx-auto w-full space-y-4 pb-24 sm:pb-4">
@@ -211,6 +260,44 @@ export default function EmployeeShiftsPage() {
           </div>
         )}
 
+        {data?.holidays && data.holidays.length > 0 && (
+          <Card className="border-blue-200 bg-blue-50/50" data-testid="card-holidays">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 text-blue-700 mb-2">
+                <Calendar className="h-4 w-4" />
+                <span className="font-medium text-sm">Festivos del período</span>
+              </div>
+              <ul className="space-y-1 text-sm text-slate-700">
+                {data.holidays.map((h) => (
+                  <li key={`${h.date}-${h.name}`} data-testid={`text-holiday-${h.date}`}>
+                    <span className="font-medium">{h.date.split("-").reverse().join("/")}</span> — {h.name}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {data?.absences && data.absences.length > 0 && (
+          <Card className="border-violet-200 bg-violet-50/50" data-testid="card-absences">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 text-violet-700 mb-2">
+                <Plane className="h-4 w-4" />
+                <span className="font-medium text-sm">Ausencias del período</span>
+              </div>
+              <ul className="space-y-1 text-sm text-slate-700">
+                {data.absences.map((a) => (
+                  <li key={a.id} data-testid={`text-absence-${a.id}`}>
+                    <span className="font-medium">
+                      {a.startDate.split("-").reverse().join("/")} – {a.endDate.split("-").reverse().join("/")}
+                    </span> — {a.type} ({a.days} días)
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="space-y-3">
             {[...Array(5)].map((_, i) => (
@@ -239,11 +326,18 @@ export default function EmployeeShiftsPage() {
                       <span className="font-semibold text-slate-800 text-base" data-testid={`text-date-${idx}`}>
                         {shift.date}
                       </span>
-                      {shift.status === "INCOMPLETE" && (
-                        <Badge variant="outline" className="text-amber-600 border-amber-300 bg-amber-50 text-xs">
-                          Incompleto
-                        </Badge>
-                      )}
+                      <div className="flex gap-1">
+                        {shift.holiday && (
+                          <Badge variant="outline" className="text-blue-600 border-blue-300 bg-blue-50 text-xs" data-testid={`badge-holiday-${idx}`}>
+                            Festivo
+                          </Badge>
+                        )}
+                        {shift.status === "INCOMPLETE" && (
+                          <Badge variant="outline" className="text-amber-600 border-amber-300 bg-amber-50 text-xs">
+                            Incompleto
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                     <div className="grid grid-cols-3 gap-2 text-sm">
                       <div>
@@ -285,7 +379,14 @@ export default function EmployeeShiftsPage() {
                   <TableBody>
                     {data.shifts.map((shift, idx) => (
                       <TableRow key={idx} data-testid={`row-shift-${idx}`}>
-                        <TableCell className="font-medium" data-testid={`text-table-date-${idx}`}>{shift.date}</TableCell>
+                        <TableCell className="font-medium" data-testid={`text-table-date-${idx}`}>
+                          {shift.date}
+                          {shift.holiday && (
+                            <Badge variant="outline" className="ml-2 text-blue-600 border-blue-300 bg-blue-50" title={shift.holiday}>
+                              Festivo
+                            </Badge>
+                          )}
+                        </TableCell>
                         <TableCell data-testid={`text-table-clockin-${idx}`}>{shift.clockInTime || "—"}</TableCell>
                         <TableCell data-testid={`text-table-clockout-${idx}`}>{shift.clockOutTime || "—"}</TableCell>
                         <TableCell data-testid={`text-table-duration-${idx}`}>
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { useLocation, useSearch } from "wouter";
+import { useLocation } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,33 +7,43 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { PunchButton } from "@/components/punch-button";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
-import { useCountdown, formatCountdown } from "@/hooks/use-countdown";
-import { X, Delete, Loader2, AlertTriangle, Coffee, Play } from "lucide-react";
+import { useCountdown, formatCountdown, pauseLabel } from "@/hooks/use-countdown";
+import { X, Delete, Loader2, AlertTriangle, Coffee, Play, WifiOff, Link2 } from "lucide-react";
 import type { Employee, PunchRequest } from "@shared/schema";
 import { LOGO_SRC, APP_NAME } from "@/config/brand";
+import { enqueueOfflinePunch, isNetworkError, readOfflineQueue, syncOfflineQueue } from "@/lib/offline-queue";
+import { sendIdempotent } from "@/lib/idempotency";
+import { readDeviceToken, storeDeviceToken, forgetDeviceToken, sendKioskHeartbeat, rotateDeviceToken } from "@/lib/kiosk-device";
+import { KioskPairingCard } from "@/components/kiosk-pairing-card";
 
 const IDLE_TIMEOUT = 30000;
-const KIOSK_TOKEN_KEY = "kiosk_device_token";
+const OFFLINE_SYNC_INTERVAL = 30000;
+const HEARTBEAT_INTERVAL = 60000;
 
 interface PauseStatus {
   status: "OFF" | "ON" | "BREAK";
   breakStartedAt?: string;
   pauseAlreadyTaken?: boolean;
+  breakDurationMinutes?: number | null;
 }
 
 export default function KioskPage() {
   const [, setLocation] = useLocation();
-  const searchString = useSearch();
   const { toast } = useToast();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [pin, setPin] = useState("");
   const [employee, setEmployee] = useState<Employee | null>(null);
   const [kioskToken, setKioskToken] = useState<string | null>(null);
-  const [deviceToken, setDeviceToken] = useState<string | null>(null);
+  const [deviceToken, setDeviceToken] = useState<string | null>(() => readDeviceToken());
+  const [pairingOpen, setPairingOpen] = useState(false);
   const [lastPunchType, setLastPunchType] = useState<"IN" | "OUT" | null>(null);
   const [pauseStatus, setPauseStatus] = useState<PauseStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Set when the PIN could not be checked for lack of network; the punch is queued and the server verifies it later
+  const [offlineSession, setOfflineSession] = useState(false);
+  const [pendingCount, setPendingCount] = useState(() => readOfflineQueue().length);
   const authenticatedPinRef = useRef<string>("");
+  const syncingRef = useRef(false);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -42,40 +52,98 @@ export default function KioskPage() {
     return () => clearInterval(timer);
   }, []);
 
+  const handleDeviceRevoked = useCallback(() => {
+    forgetDeviceToken();
+    setDeviceToken(null);
+    toast({
+      title: "Dispositivo desvinculado",
+      description: "El token de este quiosco ya no es válido. Pulse «Vincular» para vincularlo de nuevo.",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const handlePaired = useCallback((token: string, deviceName: string) => {
+    storeDeviceToken(token);
+    setDeviceToken(token);
+    setPairingOpen(false);
+    toast({ title: "Dispositivo vinculado", description: deviceName });
+  }, [toast]);
+
+  // Keeps the kiosk marked as online, confirms the token is still accepted and renews it when due;
+  // a network error just waits for the next beat
   useEffect(() => {
-    const params = new URLSearchParams(searchString);
-    const tokenFromUrl = params.get("token");
-    
-    if (tokenFromUrl) {
-      localStorage.setItem(KIOSK_TOKEN_KEY, tokenFromUrl);
-      setDeviceToken(tokenFromUrl);
-      window.history.replaceState({}, "", "/kiosk");
-    } else {
-      const stored = localStorage.getItem(KIOSK_TOKEN_KEY);
-      if (stored) {
-        setDeviceToken(stored);
+    if (!deviceToken) return;
+    const heartbeat = async () => {
+      try {
+        const session = await sendKioskHeartbeat(deviceToken, readOfflineQueue().length);
+        if (!session) {
+          handleDeviceRevoked();
+          return;
+        }
+        if (session.rotationDue) {
+          const rotated = await rotateDeviceToken(deviceToken);
+          storeDeviceToken(rotated);
+          setDeviceToken(rotated);
+        }
+      } catch {
+        // Offline or server busy; the current token keeps working until the next check
       }
-    }
-  }, [searchString]);
+    };
+    heartbeat();
+    const interval = setInterval(heartbeat, HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [deviceToken, handleDeviceRevoked]);
 
   useEffect(() => {
-    if (employee) {
+    if (employee || offlineSession) {
       const timeout = setTimeout(() => {
         resetKiosk();
       }, IDLE_TIMEOUT);
       return () => clearTimeout(timeout);
     }
-  }, [employee, pauseStatus]);
+  }, [employee, offlineSession, pauseStatus]);
 
   const resetKiosk = useCallback(() => {
     setEmployee(null);
     setKioskToken(null);
     setLastPunchType(null);
     setPauseStatus(null);
+    setOfflineSession(false);
     setPin("");
     authenticatedPinRef.current = "";
   }, []);
 
+  const syncOfflinePunches = useCallback(async () => {
+    if (!deviceToken || syncingRef.current || readOfflineQueue().length === 0) return;
+    syncingRef.current = true;
+    try {
+      const outcome = await syncOfflineQueue(deviceToken);
+      if (outcome && (outcome.sent > 0 || outcome.rejected > 0)) {
+        toast({
+          title: "Fichajes sin conexión enviados",
+          description: outcome.rejected > 0
+            ? `${outcome.sent} enviados, ${outcome.rejected} rechazados (PIN no válido o empleado inactivo)`
+            : `${outcome.sent} enviados${outcome.flagged > 0 ? `, ${outcome.flagged} pendientes de revisión` : ""}`,
+        });
+      }
+    } catch {
+      // Still offline or the server is busy; the queue is kept for the next attempt
+    } finally {
+      syncingRef.current = false;
+      setPendingCount(readOfflineQueue().length);
+    }
+  }, [deviceToken, toast]);
+
+  useEffect(() => {
+    syncOfflinePunches();
+    const interval = setInterval(syncOfflinePunches, OFFLINE_SYNC_INTERVAL);
+    window.addEventListener("online", syncOfflinePunches);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", syncOfflinePunches);
+    };
+  }, [syncOfflinePunches]);
+
   const fetchPauseStatus = useCallback(async (token: string) => {
     try {
       const res = await fetch("/api/pause/status", {
@@ -123,6 +191,11 @@ export default function KioskPage() {
       authenticatedPinRef.current = pinValue;
       await fetchPauseStatus(data.token);
     } catch (error) {
+      if (deviceToken && isNetworkError(error)) {
+        authenticatedPinRef.current = pinValue;
+        setOfflineSession(true);
+        return;
+      }
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "PIN inválido",
@@ -138,27 +211,41 @@ export default function KioskPage() {
   const punchMutation = useMutation({
     mutationFn: async (data: PunchRequest) => {
       if (deviceToken) {
-        const response = await fetch("/api/kiosk/punch", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-KIOSK-TOKEN": deviceToken,
-          },
-          body: JSON.stringify({
-            pin: authenticatedPinRef.current,
-            type: data.type,
-            latitude: data.latitude,
-            longitude: data.longitude,
-            accuracy: data.accuracy,
-            signatureData: data.signatureData,
-          }),
-        });
+        const punch = {
+          pin: authenticatedPinRef.current,
+          type: data.type,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          accuracy: data.accuracy,
+          signatureData: data.signatureData,
+        };
+        let response: Response;
+        try {
+          response = await sendIdempotent(`kiosk-punch:${data.type}:${punch.pin}`, punch, (key, body) => fetch("/api/kiosk/punch", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": key,
+              "X-KIOSK-TOKEN": deviceToken,
+            },
+            body,
+          }));
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          enqueueOfflinePunch(punch);
+          setPendingCount(readOfflineQueue().length);
+          return { type: data.type, queued: true };
+        }
 
         if (!response.ok) {
           if (response.status === 429) {
             throw new Error("Demasiados intentos. Inténtelo de nuevo más tarde.");
           }
           if (response.status === 403) {
+            const error = await response.json().catch(() => ({}));
+            if (error.error?.code === "KIOSK_INVALID_TOKEN") {
+              handleDeviceRevoked();
+            }
             throw new Error("Token de dispositivo inválido o deshabilitado. Contacte al administrador.");
           }
           if (response.status === 503) {
@@ -172,14 +259,15 @@ export default function KioskPage() {
       } else {
         if (!kioskToken) throw new Error("No autenticado");
         
-        const response = await fetch("/api/punches", {
+        const response = await sendIdempotent(`punch:${data.type}:${kioskToken}`, data, (key, body) => fetch("/api/punches", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            "Idempotency-Key": key,
             Authorization: `Bearer ${kioskToken}`,
           },
-          body: JSON.stringify(data),
-        });
+          body,
+        }));
 
         if (!response.ok) {
           if (response.status === 429) {
@@ -199,7 +287,9 @@ export default function KioskPage() {
     onSuccess: (data) => {
       toast({
         title: data.type === "IN" ? "Entrada registrada" : "Salida registrada",
-        description: `Fichaje confirmado con firma`,
+        description: data.queued
+          ? "Sin conexión: el fichaje se enviará automáticamente al recuperar la red"
+          : `Fichaje confirmado con firma`,
       });
 
       setTimeout(resetKiosk, 3000);
@@ -216,14 +306,15 @@ export default function KioskPage() {
   const pauseStartMutation = useMutation({
     mutationFn: async () => {
       if (!kioskToken) throw new Error("No autenticado");
-      const res = await fetch("/api/pause/start", {
+      const res = await sendIdempotent(`pause:start:${kioskToken}`, { source: "kiosk" }, (key, body) => fetch("/api/pause/start", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           Authorization: `Bearer ${kioskToken}`,
         },
-        body: JSON.stringify({ source: "kiosk" }),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json().catch(() => ({}));
         throw new Error(error.message || "Error al iniciar pausa");
@@ -231,7 +322,12 @@ export default function KioskPage() {
       return res.json();
     },
     onSuccess: () => {
-      toast({ title: "Pausa iniciada", description: "Descanso de 20 minutos en curso" });
+      toast({
+        title: "Pausa iniciada",
+        description: pauseStatus?.breakDurationMinutes === null
+          ? "Descanso en curso"
+          : `Descanso de ${pauseStatus?.breakDurationMinutes ?? 20} minutos en curso`,
+      });
       setTimeout(resetKiosk, 3000);
     },
     onError: (error) => {
@@ -246,14 +342,15 @@ export default function KioskPage() {
   const pauseEndMutation = useMutation({
     mutationFn: async () => {
       if (!kioskToken) throw new Error("No autenticado");
-      const res = await fetch("/api/pause/end", {
+      const res = await sendIdempotent(`pause:end:${kioskToken}`, { source: "kiosk" }, (key, body) => fetch("/api/pause/end", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           Authorization: `Bearer ${kioskToken}`,
         },
-        body: JSON.stringify({ source: "kiosk" }),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json().catch(() => ({}));
         throw new Error(error.message || "Error al finalizar pausa");
@@ -290,7 +387,7 @@ export default function KioskPage() {
   const employeeStatus = pauseStatus?.status ?? (lastPunchType === "IN" ? "ON" : "OFF");
   const nextPunchType: "IN" | "OUT" = employeeStatus === "OFF" ? "IN" : "OUT";
   const initials = employee ? `${employee.firstName?.[0] || ""}${employee.lastName?.[0] || ""}`.toUpperCase() : "";
-  const countdown = useCountdown(pauseStatus?.breakStartedAt);
+  const countdown = useCountdown(pauseStatus?.breakStartedAt, pauseStatus?.breakDurationMinutes);
 
   useEffect(() => {
     if (countdown !== null && countdown <= 0 && kioskToken) {
@@ -327,7 +424,54 @@ export default function KioskPage() {
       </header>
 
       <main className="flex-1 flex items-center justify-center p-4 sm:p-8">
-        {!employee ? (
+        {pairingOpen ? (
+          <KioskPairingCard onPaired={handlePaired} onCancel={() => setPairingOpen(false)} />
+        ) : offlineSession ? (
+          <Card className="w-full max-w-sm sm:max-w-lg border-card-border">
+            <CardHeader className="flex flex-row items-center justify-between pb-3 sm:pb-4 gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <WifiOff className="h-8 w-8 text-amber-600 shrink-0" />
+                <div className="min-w-0">
+                  <CardTitle className="text-lg sm:text-2xl">Sin conexión</CardTitle>
+                  <p className="text-sm text-muted-foreground">El PIN se comprobará al recuperar la red</p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={resetKiosk}
+                className="shrink-0"
+                data-testid="button-kiosk-offline-cancel"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </Button>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center py-6 sm:py-8 space-y-4 sm:space-y-6">
+              <p className="text-base sm:text-lg text-muted-foreground text-center px-2" data-testid="text-kiosk-offline">
+                Indique si registra su entrada o su salida
+              </p>
+              <div className="flex flex-wrap justify-center gap-6">
+                <PunchButton
+                  type="IN"
+                  onPunch={punchMutation.mutateAsync}
+                  source="kiosk"
+                  disabled={punchMutation.isPending}
+                  size="large"
+                />
+                <PunchButton
+                  type="OUT"
+                  onPunch={punchMutation.mutateAsync}
+                  source="kiosk"
+                  disabled={punchMutation.isPending}
+                  size="large"
+                />
+              </div>
+              <p className="text-xs sm:text-sm text-muted-foreground">
+                Retorno automático en 30 segundos
+              </p>
+            </CardContent>
+          </Card>
+        ) : !employee ? (
           <Card className="w-full max-w-sm sm:max-w-md border-card-border">
             <CardHeader className="text-center pb-3 sm:pb-4">
               <CardTitle className="text-lg sm:text-xl">Ingrese su código PIN</CardTitle>
@@ -472,7 +616,7 @@ export default function KioskPage() {
                       ) : (
                         <Coffee className="h-5 w-5 mr-2" />
                       )}
-                      Pausa (20 min)
+                      {pauseLabel(pauseStatus?.breakDurationMinutes)}
                     </Button>
                   )}
                 </>
@@ -487,7 +631,13 @@ export default function KioskPage() {
       </main>
 
       <footer className="border-t bg-card px-4 sm:px-6 py-2 sm:py-3 flex items-center justify-between">
-        <div className="text-xs text-muted-foreground">
+        <div className="text-xs text-muted-foreground flex items-center gap-3">
+          {pendingCount > 0 && (
+            <span className="flex items-center gap-1 text-amber-600" data-testid="text-kiosk-pending-sync">
+              <WifiOff className="h-3 w-3" />
+              {pendingCount} {pendingCount === 1 ? "fichaje pendiente" : "fichajes pendientes"} de envío
+            </span>
+          )}
           {!deviceToken && (
             <span className="flex items-center gap-1">
               <AlertTriangle className="h-3 w-3" />
@@ -495,6 +645,18 @@ export default function KioskPage() {
               <span className="sm:hidden">Sin token</span>
             </span>
           )}
+          {!deviceToken && !pairingOpen && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setPairingOpen(true)}
+              data-testid="button-kiosk-pair"
+            >
+              <Link2 className="h-3 w-3 mr-1" />
+              Vincular
+            </Button>
+          )}
         </div>
         <Button 
           variant="ghost"
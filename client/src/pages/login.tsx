@@ -5,10 +5,11 @@ import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Delete, Users, Coffee, Play } from "lucide-react";
-import { useCountdown, formatCountdown } from "@/hooks/use-countdown";
+import { useCountdown, formatCountdown, pauseLabel } from "@/hooks/use-countdown";
 import { LOGO_SRC, APP_NAME } from "@/config/brand";
 import { useMutation } from "@tanstack/react-query";
 import { PunchButton } from "@/components/punch-button";
+import { sendIdempotent } from "@/lib/idempotency";
 
 interface KioskEmployee {
   id: string;
@@ -20,6 +21,7 @@ interface PauseStatus {
   status: "OFF" | "ON" | "BREAK";
   breakStartedAt?: string;
   pauseAlreadyTaken?: boolean;
+  breakDurationMinutes?: number | null;
 }
 
 export default function LoginPage() {
@@ -109,14 +111,15 @@ export default function LoginPage() {
     mutationFn: async (data: { type: "IN" | "OUT"; latitude?: number; longitude?: number; accuracy?: number; source: "mobile" | "kiosk"; signatureData: string }) => {
       if (!kioskToken) throw new Error("No autorizado");
       
-      const response = await fetch("/api/punches", {
+      const response = await sendIdempotent(`punch:${data.type}:${kioskToken}`, data, (key, body) => fetch("/api/punches", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           Authorization: `Bearer ${kioskToken}`,
         },
-        body: JSON.stringify(data),
-      });
+        body,
+      }));
       
       if (!response.ok) {
         const error = await response.json();
@@ -144,14 +147,15 @@ export default function LoginPage() {
   const pauseStartMutation = useMutation({
     mutationFn: async () => {
       if (!kioskToken) throw new Error("No autenticado");
-      const res = await fetch("/api/pause/start", {
+      const res = await sendIdempotent(`pause:start:${kioskToken}`, { source: "kiosk" }, (key, body) => fetch("/api/pause/start", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           Authorization: `Bearer ${kioskToken}`,
         },
-        body: JSON.stringify({ source: "kiosk" }),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json().catch(() => ({}));
         throw new Error(error.message || "Error al iniciar pausa");
@@ -159,7 +163,12 @@ export default function LoginPage() {
       return res.json();
     },
     onSuccess: () => {
-      toast({ title: "Pausa iniciada", description: "Descanso de 20 minutos en curso" });
+      toast({
+        title: "Pausa iniciada",
+        description: pauseStatus?.breakDurationMinutes === null
+          ? "Descanso en curso"
+          : `Descanso de ${pauseStatus?.breakDurationMinutes ?? 20} minutos en curso`,
+      });
       setTimeout(resetKiosk, 3000);
     },
     onError: (error) => {
@@ -174,14 +183,15 @@ export default function LoginPage() {
   const pauseEndMutation = useMutation({
     mutationFn: async () => {
       if (!kioskToken) throw new Error("No autenticado");
-      const res = await fetch("/api/pause/end", {
+      const res = await sendIdempotent(`pause:end:${kioskToken}`, { source: "kiosk" }, (key, body) => fetch("/api/pause/end", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           Authorization: `Bearer ${kioskToken}`,
         },
-        body: JSON.stringify({ source: "kiosk" }),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json().catch(() => ({}));
         throw new Error(error.message || "Error al finalizar pausa");
@@ -202,7 +212,7 @@ export default function LoginPage() {
   });
 
   const employeeStatus = pauseStatus?.status ?? (lastPunchType === "IN" ? "ON" : "OFF");
-  const countdown = useCountdown(pauseStatus?.breakStartedAt);
+  const countdown = useCountdown(pauseStatus?.breakStartedAt, pauseStatus?.breakDurationMinutes);
 
   useEffect(() => {
     if (countdown !== null && countdown <= 0 && kioskToken) {
@@ -400,7 +410,7 @@ export default function LoginPage() {
                       ) : (
                         <Coffee className="h-5 w-5 mr-2" />
                       )}
-                      Pausa (20 min)
+                      {pauseLabel(pauseStatus?.breakDurationMinutes)}
                     </Button>
                   )}
                 </>
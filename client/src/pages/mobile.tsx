@@ -12,8 +12,9 @@ import { LogOut, Clock, History, User, Timer, Coffee, Play } from "lucide-react"
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import type { Punch, PunchRequest } from "@shared/schema";
-import { computeDurationMinutes, formatDuration } from "@/lib/duration";
-import { useCountdown, formatCountdown } from "@/hooks/use-countdown";
+import { computeWorkedMinutes, formatDuration } from "@/lib/duration";
+import { sendIdempotent } from "@/lib/idempotency";
+import { useCountdown, formatCountdown, pauseLabel } from "@/hooks/use-countdown";
 
 interface PunchWithEmployee extends Punch {
   employee?: {
@@ -25,6 +26,25 @@ interface PunchWithEmployee extends Punch {
 interface PauseStatus {
   status: "OFF" | "ON" | "BREAK";
   breakStartedAt?: string;
+  pauseAlreadyTaken?: boolean;
+  breakDurationMinutes?: number | null;
+  breakPaid?: boolean;
+}
+
+// Pauses are checked against the site zone like punches, but a missing position does not block them
+function currentPosition(): Promise<{ latitude?: number; longitude?: number; accuracy?: number }> {
+  if (!("geolocation" in navigator)) return Promise.resolve({});
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({
+        latitude: Math.round(pos.coords.latitude * 10000) / 10000,
+        longitude: Math.round(pos.coords.longitude * 10000) / 10000,
+        accuracy: Math.round(pos.coords.accuracy * 100) / 100,
+      }),
+      () => resolve({}),
+      { enableHighAccuracy: false, timeout: 5000, maximumAge: 60000 }
+    );
+  });
 }
 
 export default function MobilePage() {
@@ -46,7 +66,7 @@ export default function MobilePage() {
   const employeeStatus = pauseStatus?.status ?? "OFF";
   const nextPunchType: "IN" | "OUT" = employeeStatus === "OFF" ? "IN" : "OUT";
 
-  const countdown = useCountdown(pauseStatus?.breakStartedAt);
+  const countdown = useCountdown(pauseStatus?.breakStartedAt, pauseStatus?.breakDurationMinutes);
 
   useEffect(() => {
     if (countdown !== null && countdown <= 0) {
@@ -64,15 +84,16 @@ export default function MobilePage() {
   const punchMutation = useMutation({
     mutationFn: async (data: PunchRequest) => {
       const token = localStorage.getItem("employeeToken");
-      const res = await fetch("/api/punches", {
+      const res = await sendIdempotent(`punch:${data.type}`, data, (key, body) => fetch("/api/punches", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         credentials: "include",
-        body: JSON.stringify(data),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Fallo al fichar");
@@ -87,15 +108,17 @@ export default function MobilePage() {
   const pauseStartMutation = useMutation({
     mutationFn: async () => {
       const token = localStorage.getItem("employeeToken");
-      const res = await fetch("/api/pause/start", {
+      const position = await currentPosition();
+      const res = await sendIdempotent("pause:start", { source: "mobile", ...position }, (key, body) => fetch("/api/pause/start", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         credentials: "include",
-        body: JSON.stringify({ source: "mobile" }),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Error al iniciar pausa");
@@ -104,7 +127,12 @@ export default function MobilePage() {
     },
     onSuccess: () => {
       invalidatePauseQueries();
-      toast({ title: "Pausa iniciada", description: "20 minutos de descanso" });
+      toast({
+        title: "Pausa iniciada",
+        description: pauseStatus?.breakDurationMinutes === null
+          ? "Descanso en curso"
+          : `${pauseStatus?.breakDurationMinutes ?? 20} minutos de descanso`,
+      });
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -114,15 +142,17 @@ export default function MobilePage() {
   const pauseEndMutation = useMutation({
     mutationFn: async () => {
       const token = localStorage.getItem("employeeToken");
-      const res = await fetch("/api/pause/end", {
+      const position = await currentPosition();
+      const res = await sendIdempotent("pause:end", { source: "mobile", ...position }, (key, body) => fetch("/api/pause/end", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": key,
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         credentials: "include",
-        body: JSON.stringify({}),
-      });
+        body,
+      }));
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.message || "Error al finalizar pausa");
@@ -145,6 +175,8 @@ export default function MobilePage() {
 
   const initials = user ? `${user.firstName?.[0] || ""}${user.lastName?.[0] || ""}`.toUpperCase() : "?";
 
+  const breaksPaid = pauseStatus?.breakPaid ?? true;
+
   const { punchDurations, totalMinutes, hasCompletedVacations } = useMemo(() => {
     const durationMap = new Map<string, { duration: number | null; isInProgress: boolean }>();
     let totalMins = 0;
@@ -168,7 +200,7 @@ export default function MobilePage() {
         currentEntry = punch;
       } else if (punch.type === "OUT") {
         if (currentEntry) {
-          const duration = computeDurationMinutes(currentEntry.timestamp, punch.timestamp);
+          const duration = computeWorkedMinutes(currentEntry.timestamp, punch.timestamp, sorted, breaksPaid);
           durationMap.set(punch.id, { duration, isInProgress: false });
           durationMap.set(currentEntry.id, { duration, isInProgress: false });
           if (duration !== null && duration >= 0) {
@@ -185,7 +217,7 @@ export default function MobilePage() {
     }
     
     return { punchDurations: durationMap, totalMinutes: totalMins, hasCompletedVacations: completedCount > 0 };
-  }, [punches]);
+  }, [punches, breaksPaid]);
 
   return (
     <div className="min-h-screen bg-bg-app flex flex-col">
@@ -264,7 +296,7 @@ export default function MobilePage() {
               disabled={punchMutation.isPending}
               size="large"
             />
-            {employeeStatus === "ON" && (
+            {employeeStatus === "ON" && !pauseStatus?.pauseAlreadyTaken && (
               <Button
                 onClick={() => pauseStartMutation.mutate()}
                 disabled={pauseStartMutation.isPending}
@@ -273,7 +305,7 @@ export default function MobilePage() {
                 data-testid="button-pause-start"
               >
                 <Coffee className="h-4 w-4 mr-2" />
-                Pausa (20 min)
+                {pauseLabel(pauseStatus?.breakDurationMinutes)}
               </Button>
             )}
           </div>
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDateES, formatDateTimeES } from "@/lib/timezone";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LOGO_SRC, APP_NAME } from "@/config/brand";
+import { AlertCircle, CheckCircle2, ShieldCheck, XCircle } from "lucide-react";
+
+interface ReportVerification {
+  id: string;
+  scope: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  siteName: string | null;
+  datasetHash: string;
+  pdfSha256: string;
+  chainSeq: number | null;
+  chainHash: string | null;
+  matches: boolean | null;
+}
+
+async function fetchVerification(id: string, sha256?: string): Promise<ReportVerification> {
+  const query = sha256 ? `?sha256=${sha256}` : "";
+  const res = await fetch(`/api/public/reports/${encodeURIComponent(id)}${query}`);
+  if (res.status === 404) {
+    throw new Error("Este informe no figura en el registro del sistema");
+  }
+  if (!res.ok) {
+    throw new Error("No se pudo verificar el informe");
+  }
+  return res.json();
+}
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export default function ReportVerificationPage({ params }: { params: { id: string } }) {
+  const [presentedHash, setPresentedHash] = useState<string | undefined>();
+  const [isHashing, setIsHashing] = useState(false);
+
+  const { data, isLoading, error } = useQuery<ReportVerification>({
+    queryKey: ["publicReport", params.id, presentedHash],
+    queryFn: () => fetchVerification(params.id, presentedHash),
+    retry: false,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsHashing(true);
+    try {
+      setPresentedHash(await sha256Hex(file));
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-app)] flex flex-col">
+      <header className="bg-[#0f172a] text-white px-4 py-3 flex items-center gap-3">
+        <img src={LOGO_SRC} alt={APP_NAME} className="h-8 w-auto" data-testid="img-logo-verification" />
+        <h1 className="text-lg font-semibold leading-tight" data-testid="text-title">Verificación de informe</h1>
+      </header>
+
+      <main className="flex-1 p-4 max-w-2xl mx-auto w-full space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm" data-testid="text-error">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error instanceof Error ? error.message : "No se pudo verificar el informe"}
+          </div>
+        )}
+
+        {isLoading && !data ? (
+          <Skeleton className="h-48 w-full" />
+        ) : data ? (
+          <>
+            <Card className="border-[var(--border-subtle)]">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5 text-green-600" />
+                  Informe registrado
+                </CardTitle>
+                <CardDescription>Este documento fue generado por el sistema de registro horario</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p><span className="font-medium">ID documento:</span> <span className="font-mono text-xs">{data.id}</span></p>
+                <p><span className="font-medium">Período:</span> {formatDateES(data.periodStart)} — {formatDateES(data.periodEnd)}</p>
+                <p><span className="font-medium">Generado:</span> {formatDateTimeES(data.generatedAt)}</p>
+                {data.siteName && <p><span className="font-medium">Centro:</span> {data.siteName}</p>}
+                <p className="break-all"><span className="font-medium">Hash del dataset:</span> <span className="font-mono text-xs">{data.datasetHash}</span></p>
+                {data.chainHash && (
+                  <p className="break-all">
+                    <span className="font-medium">Cabeza de la cadena:</span>{" "}
+                    <span className="font-mono text-xs">#{data.chainSeq} {data.chainHash}</span>
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-[var(--border-subtle)]">
+              <CardHeader>
+                <CardTitle className="text-base">Comprobar un PDF</CardTitle>
+                <CardDescription>El archivo se analiza en su navegador; no se envía al servidor</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="report-file">Informe en PDF</Label>
+                  <Input
+                    id="report-file"
+                    type="file"
+                    accept="application/pdf"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    disabled={isHashing}
+                    data-testid="input-report-file"
+                  />
+                </div>
+                {data.matches === true && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 border border-green-200 text-green-700 text-sm" data-testid="text-match">
+                    <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+                    El PDF coincide exactamente con el informe generado por el sistema
+                  </div>
+                )}
+                {data.matches === false && (
+                  <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm" data-testid="text-mismatch">
+                    <XCircle className="h-4 w-4 flex-shrink-0" />
+                    El PDF no coincide: ha sido modificado o corresponde a otro informe
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'schedule_update'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'schedule_update';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS work_schedules (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id varchar NOT NULL UNIQUE REFERENCES employees(id),
+  weekly_minutes integer,
+  source text NOT NULL DEFAULT 'manual',
+  updated_by_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS work_schedule_days (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id varchar NOT NULL REFERENCES work_schedules(id) ON DELETE CASCADE,
+  weekday integer NOT NULL,
+  expected_minutes integer NOT NULL DEFAULT 0,
+  start_time varchar(5),
+  end_time varchar(5)
+);
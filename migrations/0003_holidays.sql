@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS holidays (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  date varchar(10) NOT NULL,
+  name text NOT NULL,
+  scope text NOT NULL DEFAULT 'national',
+  created_by_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS holidays_date_idx ON holidays (date);
@@ -0,0 +1,58 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'absence_create'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'absence_create';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'absence_review'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'absence_review';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'absence_status') THEN
+    CREATE TYPE absence_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS absence_types (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  paid boolean NOT NULL DEFAULT true,
+  annual_allowance_days integer,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS absences (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id varchar NOT NULL REFERENCES employees(id),
+  type_id varchar NOT NULL REFERENCES absence_types(id),
+  start_date varchar(10) NOT NULL,
+  end_date varchar(10) NOT NULL,
+  days integer NOT NULL,
+  comment text,
+  status absence_status NOT NULL DEFAULT 'pending',
+  reviewer_id varchar REFERENCES employees(id),
+  reviewer_comment text,
+  created_at timestamp NOT NULL DEFAULT now(),
+  reviewed_at timestamp
+);
+
+CREATE INDEX IF NOT EXISTS absences_employee_dates_idx ON absences (employee_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS absences_status_idx ON absences (status);
+
+INSERT INTO absence_types (code, name, paid, annual_allowance_days) VALUES
+  ('vacaciones', 'Vacaciones', true, 22),
+  ('asuntos_propios', 'Asuntos propios', true, 2),
+  ('baja_medica', 'Baja médica', true, NULL),
+  ('permiso_retribuido', 'Permiso retribuido', true, NULL),
+  ('permiso_no_retribuido', 'Permiso no retribuido', false, NULL)
+ON CONFLICT (code) DO NOTHING;
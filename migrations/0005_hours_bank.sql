@@ -0,0 +1,44 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'hours_bank_entry'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'hours_bank_entry';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'hours_bank_entry_kind') THEN
+    CREATE TYPE hours_bank_entry_kind AS ENUM ('credit', 'time_off', 'payout', 'adjustment');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS hours_bank_entries (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id varchar NOT NULL REFERENCES employees(id),
+  kind hours_bank_entry_kind NOT NULL,
+  minutes integer NOT NULL,
+  date varchar(10) NOT NULL,
+  expires_on varchar(10),
+  overtime_request_id varchar UNIQUE REFERENCES overtime_requests(id),
+  comment text,
+  created_by_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS hours_bank_entries_employee_idx ON hours_bank_entries (employee_id, date);
+
+-- Credit overtime approved before the hours bank existed, using the default four-month expiry
+INSERT INTO hours_bank_entries (employee_id, kind, minutes, date, expires_on, overtime_request_id, comment, created_by_id)
+SELECT
+  o.employee_id,
+  'credit',
+  o.minutes,
+  to_char((o.date AT TIME ZONE 'UTC' AT TIME ZONE 'Europe/Madrid')::date, 'YYYY-MM-DD'),
+  to_char((o.date AT TIME ZONE 'UTC' AT TIME ZONE 'Europe/Madrid')::date + interval '4 months', 'YYYY-MM-DD'),
+  o.id,
+  o.reviewer_comment,
+  o.reviewer_id
+FROM overtime_requests o
+WHERE o.status = 'approved'
+ON CONFLICT (overtime_request_id) DO NOTHING;
@@ -0,0 +1,24 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'auto_clockout'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'auto_clockout';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id varchar REFERENCES employees(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  target_type text,
+  target_id varchar,
+  read_at timestamp,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx ON notifications (recipient_id, read_at);
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS break_policies (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  duration_minutes integer,
+  paid boolean NOT NULL DEFAULT true,
+  mandatory_after_minutes integer,
+  max_breaks_per_day integer,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS break_policy_id varchar REFERENCES break_policies(id) ON DELETE SET NULL;
+
+-- Keep the previous behaviour (one paid 20-minute pause, mandatory after 5h) as the default policy
+INSERT INTO break_policies (name, duration_minutes, paid, mandatory_after_minutes, max_breaks_per_day, is_default)
+SELECT 'Pausa estándar', 20, true, 300, 1, true
+WHERE NOT EXISTS (SELECT 1 FROM break_policies WHERE is_default = true);
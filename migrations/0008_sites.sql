@@ -0,0 +1,26 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'geofence_mode') THEN
+    CREATE TYPE geofence_mode AS ENUM ('off', 'flag', 'reject');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS sites (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  address text,
+  latitude numeric(9, 6) NOT NULL,
+  longitude numeric(9, 6) NOT NULL,
+  radius_meters integer NOT NULL DEFAULT 150,
+  polygon jsonb,
+  geofence_mode geofence_mode NOT NULL DEFAULT 'flag',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS site_id varchar REFERENCES sites(id) ON DELETE SET NULL;
+
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS site_id varchar REFERENCES sites(id) ON DELETE SET NULL;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS geofence_distance_meters integer;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS outside_geofence boolean NOT NULL DEFAULT false;
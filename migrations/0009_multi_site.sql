@@ -0,0 +1 @@
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS site_id varchar REFERENCES sites(id) ON DELETE SET NULL;
@@ -0,0 +1,16 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'permissions_update'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'permissions_update';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role role PRIMARY KEY,
+  permissions jsonb NOT NULL,
+  updated_at timestamp NOT NULL DEFAULT now()
+);
@@ -0,0 +1 @@
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS supervisor_id varchar REFERENCES employees(id) ON DELETE SET NULL;
@@ -0,0 +1,42 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'correction_request'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'correction_request';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'correction_request_review'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'correction_request_review';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'correction_request_kind') THEN
+    CREATE TYPE correction_request_kind AS ENUM ('correction', 'missing_punch');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'correction_request_status') THEN
+    CREATE TYPE correction_request_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS correction_requests (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id varchar NOT NULL REFERENCES employees(id),
+  kind correction_request_kind NOT NULL,
+  punch_id varchar REFERENCES punches(id),
+  requested_type punch_type,
+  requested_timestamp timestamp,
+  reason text NOT NULL,
+  status correction_request_status NOT NULL DEFAULT 'pending',
+  reviewer_id varchar REFERENCES employees(id),
+  reviewer_comment text,
+  correction_id varchar REFERENCES punch_corrections(id),
+  created_at timestamp NOT NULL DEFAULT now(),
+  reviewed_at timestamp
+);
@@ -0,0 +1,13 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'manual_punch'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'manual_punch';
+  END IF;
+END $$;
+
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS manual_reason text;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS created_by_id varchar REFERENCES employees(id) ON DELETE SET NULL;
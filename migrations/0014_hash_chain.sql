@@ -0,0 +1,9 @@
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS chain_seq integer;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS prev_hash text;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS hash text;
+CREATE UNIQUE INDEX IF NOT EXISTS punches_chain_seq_unique ON punches (chain_seq);
+
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS chain_seq integer;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS prev_hash text;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS hash text;
+CREATE UNIQUE INDEX IF NOT EXISTS audit_log_chain_seq_unique ON audit_log (chain_seq);
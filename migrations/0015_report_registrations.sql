@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS report_registrations (
+  id varchar PRIMARY KEY,
+  scope text NOT NULL,
+  period_start timestamp NOT NULL,
+  period_end timestamp NOT NULL,
+  employee_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  site_id varchar REFERENCES sites(id) ON DELETE SET NULL,
+  dataset_hash text NOT NULL,
+  pdf_sha256 text NOT NULL,
+  chain_seq integer,
+  chain_hash text,
+  generated_by_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  generated_at timestamp NOT NULL DEFAULT now()
+);
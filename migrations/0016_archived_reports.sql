@@ -0,0 +1,22 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'archived_report_kind') THEN
+    CREATE TYPE archived_report_kind AS ENUM ('authorities', 'employee');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS archived_reports (
+  id varchar PRIMARY KEY,
+  kind archived_report_kind NOT NULL,
+  period_start timestamp NOT NULL,
+  period_end timestamp NOT NULL,
+  employee_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  site_id varchar REFERENCES sites(id) ON DELETE SET NULL,
+  file_name text NOT NULL,
+  storage_backend text NOT NULL,
+  storage_key text NOT NULL,
+  sha256 text NOT NULL,
+  byte_size integer NOT NULL,
+  generated_by_id varchar REFERENCES employees(id) ON DELETE SET NULL,
+  generated_at timestamp NOT NULL DEFAULT now()
+);
@@ -0,0 +1,42 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'legal_hold'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'legal_hold';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'legal_hold_release'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'legal_hold_release';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'anonymize'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'anonymize';
+  END IF;
+END $$;
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS anonymized_at timestamp;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS anonymized_at timestamp;
+
+CREATE TABLE IF NOT EXISTS legal_holds (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id varchar NOT NULL REFERENCES employees(id),
+  reason text NOT NULL,
+  placed_by_id varchar NOT NULL REFERENCES employees(id),
+  placed_at timestamp NOT NULL DEFAULT now(),
+  released_by_id varchar REFERENCES employees(id),
+  released_at timestamp,
+  release_reason text
+);
+
+CREATE INDEX IF NOT EXISTS legal_holds_employee_idx ON legal_holds (employee_id);
@@ -0,0 +1,22 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'report_subscription_kind') THEN
+    CREATE TYPE report_subscription_kind AS ENUM ('general', 'authorities');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS report_subscriptions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind report_subscription_kind NOT NULL,
+  site_id varchar REFERENCES sites(id) ON DELETE CASCADE,
+  include_annexes boolean NOT NULL DEFAULT true,
+  recipients jsonb NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  created_by_id varchar NOT NULL REFERENCES employees(id),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now(),
+  last_period text,
+  last_sent_at timestamp,
+  last_error text
+);
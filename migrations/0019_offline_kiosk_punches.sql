@@ -0,0 +1,6 @@
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS client_id varchar;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS device_timestamp timestamp;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS received_at timestamp;
+ALTER TABLE punches ADD COLUMN IF NOT EXISTS clock_drift_seconds integer;
+
+CREATE UNIQUE INDEX IF NOT EXISTS punches_client_id_unique ON punches (client_id);
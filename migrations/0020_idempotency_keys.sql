@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL,
+  key text NOT NULL,
+  request_hash text NOT NULL,
+  status_code integer,
+  response_body jsonb,
+  created_at timestamp NOT NULL DEFAULT now(),
+  expires_at timestamp NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idempotency_keys_scope_key_unique ON idempotency_keys (scope, key);
+CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at_idx ON idempotency_keys (expires_at);
@@ -0,0 +1,40 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'kiosk_token_event') THEN
+    CREATE TYPE kiosk_token_event AS ENUM ('paired', 'rotated', 'revoked');
+  END IF;
+END $$;
+
+ALTER TABLE kiosk_devices ALTER COLUMN token_hash DROP NOT NULL;
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS token_issued_at timestamp;
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS previous_token_hash text;
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS previous_token_valid_until timestamp;
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS last_heartbeat_at timestamp;
+
+CREATE TABLE IF NOT EXISTS kiosk_pairings (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  secret_hash text NOT NULL,
+  device_id varchar REFERENCES kiosk_devices(id) ON DELETE CASCADE,
+  approved_by_id varchar REFERENCES employees(id),
+  approved_at timestamp,
+  delivered_at timestamp,
+  ip_address text,
+  expires_at timestamp NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS kiosk_pairings_code_unique ON kiosk_pairings (code);
+CREATE UNIQUE INDEX IF NOT EXISTS kiosk_pairings_secret_hash_unique ON kiosk_pairings (secret_hash);
+
+CREATE TABLE IF NOT EXISTS kiosk_token_events (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id varchar NOT NULL REFERENCES kiosk_devices(id) ON DELETE CASCADE,
+  event kiosk_token_event NOT NULL,
+  actor_id varchar REFERENCES employees(id),
+  token_fingerprint text,
+  ip_address text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS kiosk_token_events_device_idx ON kiosk_token_events (device_id);
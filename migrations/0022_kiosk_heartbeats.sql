@@ -0,0 +1,18 @@
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS offline_alerted_at timestamp;
+
+CREATE TABLE IF NOT EXISTS kiosk_heartbeats (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id varchar NOT NULL REFERENCES kiosk_devices(id) ON DELETE CASCADE,
+  app_version text,
+  battery_level integer,
+  battery_charging boolean,
+  connection_type text,
+  effective_type text,
+  pending_punches integer NOT NULL DEFAULT 0,
+  clock_skew_seconds integer NOT NULL,
+  ip_address text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS kiosk_heartbeats_device_created_idx ON kiosk_heartbeats (device_id, created_at);
+CREATE INDEX IF NOT EXISTS kiosk_heartbeats_created_idx ON kiosk_heartbeats (created_at);
@@ -0,0 +1 @@
+ALTER TABLE legal_holds ALTER COLUMN placed_by_id DROP NOT NULL;
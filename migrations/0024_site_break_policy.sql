@@ -0,0 +1 @@
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS break_policy_id varchar REFERENCES break_policies(id) ON DELETE SET NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE holidays ADD COLUMN IF NOT EXISTS site_id varchar REFERENCES sites(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS holidays_site_id_idx ON holidays (site_id);
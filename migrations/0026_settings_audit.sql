@@ -0,0 +1,10 @@
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'audit_action' AND e.enumlabel = 'settings_update'
+  ) THEN
+    ALTER TYPE audit_action ADD VALUE 'settings_update';
+  END IF;
+END $$;
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { countAbsenceDays, computeAbsenceBalance, listDateKeys, weekdayOfDateKey, workingWeekdaysFor } from "./absences";
+
+const MON_FRI = new Set([1, 2, 3, 4, 5]);
+
+describe("listDateKeys", () => {
+  it("liste les jours inclusivement, y compris sur un changement de mois", () => {
+    expect(listDateKeys("2026-01-30", "2026-02-02")).toEqual([
+      "2026-01-30", "2026-01-31", "2026-02-01", "2026-02-02",
+    ]);
+  });
+
+  it("retourne une liste vide si la fin précède le début", () => {
+    expect(listDateKeys("2026-02-02", "2026-02-01")).toEqual([]);
+  });
+});
+
+describe("weekdayOfDateKey", () => {
+  it("retourne le jour ISO (lundi = 1, dimanche = 7)", () => {
+    expect(weekdayOfDateKey("2026-01-19")).toBe(1);
+    expect(weekdayOfDateKey("2026-01-25")).toBe(7);
+  });
+});
+
+describe("countAbsenceDays", () => {
+  it("exclut les week-ends", () => {
+    // Monday 19 to Sunday 25 January 2026
+    expect(countAbsenceDays("2026-01-19", "2026-01-25", MON_FRI, new Set())).toBe(5);
+  });
+
+  it("exclut les jours fériés", () => {
+    expect(countAbsenceDays("2026-01-05", "2026-01-09", MON_FRI, new Set(["2026-01-06"]))).toBe(4);
+  });
+
+  it("respecte les jours travaillés de l'horaire", () => {
+    const workingDays = workingWeekdaysFor({
+      id: "s", employeeId: "e", weeklyMinutes: 960, source: "manual", updatedById: null,
+      createdAt: new Date(), updatedAt: new Date(),
+      days: [
+        { id: "d1", scheduleId: "s", weekday: 6, expectedMinutes: 480, startTime: null, endTime: null },
+        { id: "d2", scheduleId: "s", weekday: 7, expectedMinutes: 480, startTime: null, endTime: null },
+      ],
+    });
+    expect(countAbsenceDays("2026-01-19", "2026-01-25", workingDays, new Set())).toBe(2);
+  });
+});
+
+describe("computeAbsenceBalance", () => {
+  const vacaciones = { id: "vac", name: "Vacaciones", annualAllowanceDays: 22 };
+
+  it("calcule les jours utilisés, en attente et restants de l'année", () => {
+    const balance = computeAbsenceBalance(vacaciones, 2026, [
+      { typeId: "vac", startDate: "2026-03-02", days: 5, status: "approved" },
+      { typeId: "vac", startDate: "2026-08-03", days: 10, status: "pending" },
+      { typeId: "vac", startDate: "2026-09-01", days: 3, status: "rejected" },
+      { typeId: "vac", startDate: "2025-12-22", days: 4, status: "approved" },
+      { typeId: "other", startDate: "2026-04-01", days: 2, status: "approved" },
+    ]);
+    expect(balance.usedDays).toBe(5);
+    expect(balance.pendingDays).toBe(10);
+    expect(balance.remainingDays).toBe(7);
+  });
+
+  it("n'a pas de solde restant pour un type sans plafond", () => {
+    const balance = computeAbsenceBalance({ id: "baja", name: "Baja médica", annualAllowanceDays: null }, 2026, []);
+    expect(balance.remainingDays).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import type { WorkScheduleWithDays } from "@shared/schema";
+import { WORKING_WEEKDAYS } from "./schedules";
+
+export interface AbsenceBalance {
+  typeId: string;
+  typeName: string;
+  year: number;
+  allowanceDays: number | null;
+  usedDays: number;
+  pendingDays: number;
+  remainingDays: number | null;
+}
+
+const MAX_RANGE_DAYS = 366;
+
+export function weekdayOfDateKey(dateKey: string): number {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const day = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+export function listDateKeys(startKey: string, endKey: string): string[] {
+  const [y, m, d] = startKey.split("-").map(Number);
+  const keys: string[] = [];
+  for (let i = 0; i < MAX_RANGE_DAYS; i++) {
+    const key = new Date(Date.UTC(y, m - 1, d + i)).toISOString().slice(0, 10);
+    if (key > endKey) break;
+    keys.push(key);
+  }
+  return keys;
+}
+
+export function workingWeekdaysFor(schedule: WorkScheduleWithDays | undefined): Set<number> {
+  const scheduled = schedule?.days.filter(d => d.expectedMinutes > 0).map(d => d.weekday) ?? [];
+  return new Set(scheduled.length > 0 ? scheduled : WORKING_WEEKDAYS);
+}
+
+// Absences are counted in working days: weekends (per schedule) and holidays are not consumed
+export function countAbsenceDays(
+  startKey: string,
+  endKey: string,
+  workingWeekdays: Set<number>,
+  holidayDates: Set<string>
+): number {
+  return listDateKeys(startKey, endKey).filter(
+    key => workingWeekdays.has(weekdayOfDateKey(key)) && !holidayDates.has(key)
+  ).length;
+}
+
+export function computeAbsenceBalance(
+  type: { id: string; name: string; annualAllowanceDays: number | null },
+  year: number,
+  absences: { typeId: string; startDate: string; days: number; status: string }[]
+): AbsenceBalance {
+  let usedDays = 0;
+  let pendingDays = 0;
+
+  for (const a of absences) {
+    if (a.typeId !== type.id || !a.startDate.startsWith(`${year}-`)) continue;
+    if (a.status === "approved") usedDays += a.days;
+    else if (a.status === "pending") pendingDays += a.days;
+  }
+
+  return {
+    typeId: type.id,
+    typeName: type.name,
+    year,
+    allowanceDays: type.annualAllowanceDays,
+    usedDays,
+    pendingDays,
+    remainingDays: type.annualAllowanceDays !== null ? type.annualAllowanceDays - usedDays - pendingDays : null,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { canHandleApproval, createsSupervisorCycle, isEscalated, notificationRecipients, resolveEscalationPolicy, supervisorCandidates } from "./approval-routing";
+
+describe("canHandleApproval", () => {
+  const manager = { id: "m1", role: "manager" };
+
+  it("réserve les éléments d'une équipe à son responsable", () => {
+    expect(canHandleApproval(manager, { supervisorId: "m1" })).toBe(true);
+    expect(canHandleApproval(manager, { supervisorId: "m2" })).toBe(false);
+    expect(canHandleApproval({ id: "a1", role: "admin" }, { supervisorId: "m2" })).toBe(true);
+  });
+
+  it("laisse les employés sans responsable à tous les managers", () => {
+    expect(canHandleApproval(manager, { supervisorId: null })).toBe(true);
+  });
+});
+
+describe("isEscalated", () => {
+  it("escalade après le délai configuré", () => {
+    const policy = resolveEscalationPolicy({ APPROVAL_ESCALATION_HOURS: "24" } as NodeJS.ProcessEnv);
+    const submitted = new Date("2026-03-02T08:00:00Z");
+    expect(isEscalated(submitted, new Date("2026-03-03T07:59:00Z"), policy)).toBe(false);
+    expect(isEscalated(submitted, new Date("2026-03-03T08:00:00Z"), policy)).toBe(true);
+  });
+
+  it("désactive l'escalade avec un délai nul", () => {
+    const policy = resolveEscalationPolicy({ APPROVAL_ESCALATION_HOURS: "0" } as NodeJS.ProcessEnv);
+    expect(isEscalated(new Date("2020-01-01T00:00:00Z"), new Date(), policy)).toBe(false);
+  });
+});
+
+describe("createsSupervisorCycle", () => {
+  it("détecte une boucle dans la hiérarchie", () => {
+    const supervisorOf = new Map<string, string | null>([["a", null], ["b", "a"], ["c", "b"]]);
+    expect(createsSupervisorCycle("a", "c", supervisorOf)).toBe(true);
+    expect(createsSupervisorCycle("c", "a", supervisorOf)).toBe(false);
+  });
+});
+
+describe("notificationRecipients", () => {
+  const staff = [
+    { id: "a1", role: "admin", siteId: null, isActive: true },
+    { id: "m1", role: "manager", siteId: "s1", isActive: true },
+    { id: "m2", role: "manager", siteId: "s2", isActive: true },
+    { id: "m3", role: "manager", siteId: "s1", isActive: false },
+  ];
+
+  it("prévient le responsable direct en priorité", () => {
+    expect(notificationRecipients({ supervisorId: "m2", siteId: "s1" }, staff)).toEqual(["m2"]);
+  });
+
+  it("sinon les managers actifs du centre, sans ceux des autres centres", () => {
+    expect(notificationRecipients({ supervisorId: null, siteId: "s1" }, staff)).toEqual(["m1"]);
+  });
+
+  it("se rabat sur les administrateurs sans centre ni manager", () => {
+    expect(notificationRecipients({ supervisorId: null, siteId: null }, staff)).toEqual(["a1"]);
+    expect(notificationRecipients({ supervisorId: "m3", siteId: "s3" }, staff)).toEqual(["a1"]);
+  });
+});
+
+describe("supervisorCandidates", () => {
+  it("propose les administrateurs et managers de Gestion, mais ni les employés ni les inactifs", () => {
+    const staff = [
+      { id: "e1", role: "employee", siteId: "s1", isActive: true, gestionUserId: null },
+      { id: "m1", role: "manager", siteId: "s1", isActive: true, gestionUserId: null },
+      { id: "g1", role: "manager", siteId: null, isActive: true, gestionUserId: "rrhh-7" },
+      { id: "g2", role: "admin", siteId: null, isActive: true, gestionUserId: "admin-1" },
+      { id: "g3", role: "manager", siteId: null, isActive: false, gestionUserId: "rrhh-8" },
+    ];
+    expect(supervisorCandidates(staff).map(s => s.id)).toEqual(["m1", "g1", "g2"]);
+  });
+});
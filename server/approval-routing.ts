@@ -0,0 +1,68 @@
+export interface EscalationPolicy {
+  enabled: boolean;
+  escalateAfterMinutes: number;
+}
+
+export function resolveEscalationPolicy(env: NodeJS.ProcessEnv = process.env): EscalationPolicy {
+  const hours = parseFloat(env.APPROVAL_ESCALATION_HOURS || "48");
+  return {
+    enabled: hours > 0,
+    escalateAfterMinutes: Math.round(hours * 60),
+  };
+}
+
+// Admins handle everything; a manager handles their direct reports and anyone without a supervisor
+export function canHandleApproval(
+  actor: { id: string; role: string },
+  subject: { supervisorId: string | null }
+): boolean {
+  return actor.role === "admin" || !subject.supervisorId || subject.supervisorId === actor.id;
+}
+
+export function isEscalated(submittedAt: Date, now: Date, policy: EscalationPolicy): boolean {
+  return policy.enabled && now.getTime() - submittedAt.getTime() >= policy.escalateAfterMinutes * 60000;
+}
+
+// Walks up from the proposed supervisor: reaching the employee means the assignment would loop
+export function createsSupervisorCycle(
+  employeeId: string,
+  supervisorId: string,
+  supervisorOf: Map<string, string | null>
+): boolean {
+  const seen = new Set<string>();
+  let current: string | null | undefined = supervisorId;
+  while (current) {
+    if (current === employeeId) return true;
+    if (seen.has(current)) return false;
+    seen.add(current);
+    current = supervisorOf.get(current);
+  }
+  return false;
+}
+
+type StaffMember = { id: string; role: string; siteId: string | null; isActive: boolean };
+
+// Anyone active with an admin or manager role can lead a team, including the Gestión admins and RRHH
+// managers that only exist here as proxy rows and are therefore missing from the employee list
+export function supervisorCandidates<T extends StaffMember>(staff: T[]): T[] {
+  return staff.filter(s => s.isActive && s.role !== "employee");
+}
+
+// Who is told about something that needs a manager's eye: the supervisor, otherwise the managers of the
+// employee's centre, otherwise the admins. One notification row each, so each recipient reads their own
+export function notificationRecipients(
+  subject: { supervisorId: string | null; siteId: string | null },
+  staff: StaffMember[]
+): string[] {
+  const active = staff.filter(s => s.isActive);
+  if (subject.supervisorId && active.some(s => s.id === subject.supervisorId)) {
+    return [subject.supervisorId];
+  }
+  const siteManagers = subject.siteId
+    ? active.filter(s => s.role === "manager" && s.siteId === subject.siteId)
+    : [];
+  if (siteManagers.length > 0) {
+    return siteManagers.map(s => s.id);
+  }
+  return active.filter(s => s.role === "admin").map(s => s.id);
+}
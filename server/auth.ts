@@ -2,7 +2,8 @@ import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
-import type { Employee } from "@shared/schema";
+import type { Employee, Permission } from "@shared/schema";
+import { resolvePermissions, hasPermission } from "./permissions";
 
 const isProd = process.env.NODE_ENV === "production";
 
@@ -326,6 +327,28 @@ export async function authenticateAdminManager(
   next();
 }
 
+export async function getEmployeePermissions(employee: Employee): Promise<Permission[]> {
+  const configured = await storage.getRolePermissions(employee.role);
+  return resolvePermissions(employee.role, configured?.permissions);
+}
+
+// Chained after authenticateAdminManager: the role must also be granted this permission
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.employee) {
+      res.status(401).json({ message: "No autenticado" });
+      return;
+    }
+
+    const granted = await getEmployeePermissions(req.employee);
+    if (!hasPermission(granted, permission)) {
+      res.status(403).json({ message: "No tiene permiso para realizar esta acción", permission });
+      return;
+    }
+    next();
+  };
+}
+
 export async function authenticateEmployee(
   req: Request,
   res: Response,
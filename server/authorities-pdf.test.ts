@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { isAuthoritiesReportPunch, processPunches, type RawPunch } from "./authorities-pdf";
+
+const employee = { id: "e1", firstName: "Ana", lastName: "Ruiz" };
+
+function punch(id: string, type: string, timestamp: string, source: string, isAuto = false): RawPunch {
+  return {
+    id,
+    employeeId: "e1",
+    type,
+    timestamp: new Date(timestamp),
+    latitude: null,
+    longitude: null,
+    accuracy: null,
+    signatureData: null,
+    signatureSha256: null,
+    signatureSignedAt: null,
+    source,
+    isAuto,
+    employee,
+  };
+}
+
+describe("isAuthoritiesReportPunch", () => {
+  it("garde les sorties automatiques du système mais pas ses autres pointages", () => {
+    expect(isAuthoritiesReportPunch({ source: "kiosk", type: "IN", isAuto: false })).toBe(true);
+    expect(isAuthoritiesReportPunch({ source: "system", type: "OUT", isAuto: true })).toBe(true);
+    expect(isAuthoritiesReportPunch({ source: "system", type: "BREAK_END", isAuto: true })).toBe(false);
+    expect(isAuthoritiesReportPunch({ source: "mobile", type: "IN", isAuto: false })).toBe(false);
+  });
+});
+
+describe("processPunches", () => {
+  it("signale une journée fermée par le cron comme sortie automatique et non sans sortie", () => {
+    const punches = [
+      punch("p1", "IN", "2026-03-02T08:00:00Z", "kiosk"),
+      punch("p2", "OUT", "2026-03-02T16:00:00Z", "system", true),
+    ].filter(isAuthoritiesReportPunch);
+
+    const [section] = processPunches(punches, []);
+    const [day] = section.days;
+    expect(day.incidencias).toContain("Salida automática");
+    expect(day.incidencias).not.toContain("Sin salida");
+    expect(day.hasSinSalida).toBe(false);
+  });
+
+  it("n'applique une fête locale qu'aux employés de son centre", () => {
+    const punches = [punch("p1", "IN", "2026-03-02T08:00:00Z", "kiosk"), punch("p2", "OUT", "2026-03-02T16:00:00Z", "kiosk")];
+    const holidays = [
+      { dateKey: "2026-03-02", name: "San Isidro", siteId: "madrid" },
+      { dateKey: "2026-03-03", name: "Cierre general", siteId: null },
+    ];
+
+    const [inSite] = processPunches(punches, [], holidays, [], {}, undefined, { e1: "madrid" });
+    expect(inSite.days.map(d => d.holidayName)).toEqual(["San Isidro", "Cierre general"]);
+
+    const [elsewhere] = processPunches(punches, [], holidays, [], {}, undefined, { e1: "sevilla" });
+    expect(elsewhere.days.map(d => d.holidayName)).toEqual([null, "Cierre general"]);
+  });
+});
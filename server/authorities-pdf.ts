@@ -1,4 +1,5 @@
 import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
 import { PassThrough } from "stream";
 import * as fs from "fs";
 import * as path from "path";
@@ -11,6 +12,10 @@ import {
   formatDateTimeES,
   toSpainDateKey,
 } from "./timezone";
+import { breakMinutesBetween } from "@shared/work-time";
+import { breakIncidents, DEFAULT_BREAK_RULES, type BreakRules } from "./break-policies";
+import { appliesToSite } from "./holidays";
+import type { ChainHead } from "./hash-chain";
 
 let cachedLogoBuffer: Buffer | null = null;
 let logoLoadAttempted = false;
@@ -53,6 +58,10 @@ const COLORS = {
   correctionYes: "#d97706",
   pauseOk: "#15803d",
   pauseMissing: "#b91c1c",
+  holiday: "#1d4ed8",
+  holidayBg: "#eff6ff",
+  absence: "#6d28d9",
+  absenceBg: "#f5f3ff",
 };
 
 const MONTH_NAMES = [
@@ -73,6 +82,11 @@ export interface RawPunch {
   signatureSignedAt: Date | string | null;
   source: string | null;
   isAuto: boolean | null;
+  manualReason?: string | null;
+  manualAuthorName?: string | null;
+  // Set when the timestamp/type above already include a correction
+  originalTimestamp?: Date | string;
+  corrected?: boolean;
   employee: {
     id: string;
     firstName: string;
@@ -93,6 +107,20 @@ export interface CorrectionRecord {
   employeeName: string;
 }
 
+export interface HolidayInfo {
+  dateKey: string;
+  name: string;
+  // Set for a site's own holidays, which only mark the days of that site's employees
+  siteId?: string | null;
+}
+
+export interface AbsenceInfo {
+  employeeId: string;
+  employeeName: string;
+  dateKey: string;
+  name: string;
+}
+
 export interface AuthoritiesReportOptions {
   scope: "month" | "year";
   year: number;
@@ -103,6 +131,31 @@ export interface AuthoritiesReportOptions {
   periodEnd: Date;
   punches: RawPunch[];
   corrections: CorrectionRecord[];
+  holidays?: HolidayInfo[];
+  absences?: AbsenceInfo[];
+  // Per-employee break rules; employees without an entry use defaultBreakRules
+  breakRules?: Record<string, BreakRules>;
+  defaultBreakRules?: BreakRules;
+  // When set, employees are grouped by centre and each centre starts on its own page
+  employeeSites?: Record<string, SiteHeader>;
+  // Site of each employee, to tell which local holidays they observe
+  employeeSiteIds?: Record<string, string | null>;
+  // Last sealed punch at generation time; lets an inspector check later that no earlier record changed
+  chainHead?: ChainHead | null;
+  // Registered reports pass their id and public verification link, which is printed as a QR code on the cover
+  documentId?: string;
+  verificationUrl?: string;
+}
+
+export interface AuthoritiesReport {
+  pdf: Buffer;
+  documentId: string;
+  datasetHash: string;
+}
+
+export interface SiteHeader {
+  name: string;
+  address: string | null;
 }
 
 interface DayRecord {
@@ -116,6 +169,9 @@ interface DayRecord {
   incidencias: string[];
   hasCorrection: boolean;
   hasSinSalida: boolean;
+  hasPunches: boolean;
+  holidayName: string | null;
+  absenceName: string | null;
 }
 
 interface EmployeeSection {
@@ -141,22 +197,55 @@ function hasPunchSignature(punch: RawPunch): boolean {
   return !!(punch.signatureSha256 || punch.signatureData || punch.signatureSignedAt);
 }
 
-function processPunches(
+// Kiosk and manual punches make up the record; of the system ones only the cron's automatic exits are kept,
+// so a day it closed reads as "Salida automática" instead of "Sin salida"
+export function isAuthoritiesReportPunch(punch: Pick<RawPunch, "source" | "type" | "isAuto">): boolean {
+  if (punch.source === "kiosk" || punch.source === "manual") return true;
+  return punch.source === "system" && punch.type === "OUT" && !!punch.isAuto;
+}
+
+export function processPunches(
   punches: RawPunch[],
-  corrections: CorrectionRecord[]
+  corrections: CorrectionRecord[],
+  holidays: HolidayInfo[] = [],
+  absences: AbsenceInfo[] = [],
+  breakRules: Record<string, BreakRules> = {},
+  defaultBreakRules: BreakRules = DEFAULT_BREAK_RULES,
+  employeeSiteIds: Record<string, string | null> = {}
 ): EmployeeSection[] {
   const correctionsByPunchId = new Set<string>();
   for (const c of corrections) {
     correctionsByPunchId.add(c.originalPunchId);
   }
 
+  const holidayMapsBySite = new Map<string, Map<string, string>>();
+  const holidaysForSite = (siteId: string | null): Map<string, string> => {
+    const cached = holidayMapsBySite.get(siteId ?? "");
+    if (cached) return cached;
+    const holidayByDate = new Map<string, string>();
+    for (const h of holidays.filter(h => appliesToSite(h, siteId))) {
+      const existing = holidayByDate.get(h.dateKey);
+      holidayByDate.set(h.dateKey, existing ? `${existing} / ${h.name}` : h.name);
+    }
+    holidayMapsBySite.set(siteId ?? "", holidayByDate);
+    return holidayByDate;
+  };
+
+  const absencesByEmployee = new Map<string, Map<string, string>>();
+  for (const a of absences) {
+    if (!absencesByEmployee.has(a.employeeId)) {
+      absencesByEmployee.set(a.employeeId, new Map());
+    }
+    absencesByEmployee.get(a.employeeId)!.set(a.dateKey, a.name);
+  }
+
   const employeeMap = new Map<
     string,
     {
       name: string;
       dayMap: Map<
         string,
-        { inPunches: RawPunch[]; outPunches: RawPunch[]; hasBreak: boolean; hasFirma: boolean; punchIds: string[] }
+        { inPunches: RawPunch[]; outPunches: RawPunch[]; breakPunches: RawPunch[]; breakCount: number; hasFirma: boolean; punchIds: string[] }
       >;
     }
   >();
@@ -177,7 +266,7 @@ function processPunches(
     const dateKey = toSpainDateKey(ts);
 
     if (!emp.dayMap.has(dateKey)) {
-      emp.dayMap.set(dateKey, { inPunches: [], outPunches: [], hasBreak: false, hasFirma: false, punchIds: [] });
+      emp.dayMap.set(dateKey, { inPunches: [], outPunches: [], breakPunches: [], breakCount: 0, hasFirma: false, punchIds: [] });
     }
 
     const day = emp.dayMap.get(dateKey)!;
@@ -187,7 +276,10 @@ function processPunches(
     }
 
     if (punch.type === "BREAK_START") {
-      day.hasBreak = true;
+      day.breakCount++;
+      day.breakPunches.push(punch);
+    } else if (punch.type === "BREAK_END") {
+      day.breakPunches.push(punch);
     } else if (punch.type === "IN") {
       day.inPunches.push(punch);
     } else if (punch.type === "OUT") {
@@ -195,6 +287,12 @@ function processPunches(
     }
   }
 
+  for (const a of absences) {
+    if (!employeeMap.has(a.employeeId)) {
+      employeeMap.set(a.employeeId, { name: a.employeeName, dayMap: new Map() });
+    }
+  }
+
   const sections: EmployeeSection[] = [];
 
   const sortedEmployees = Array.from(employeeMap.entries()).sort((a, b) =>
@@ -204,6 +302,9 @@ function processPunches(
   for (const [empId, empData] of sortedEmployees) {
     const days: DayRecord[] = [];
     let empTotalMinutes = 0;
+    const absenceByDate = absencesByEmployee.get(empId) ?? new Map<string, string>();
+    const holidayByDate = holidaysForSite(employeeSiteIds[empId] ?? null);
+    const rules = breakRules[empId] ?? defaultBreakRules;
 
     const sortedDays = Array.from(empData.dayMap.entries()).sort((a, b) =>
       a[0].localeCompare(b[0])
@@ -248,7 +349,8 @@ function processPunches(
           const inTime = ensureDateUTC(pair.inP.timestamp)!.getTime();
           const outTime = ensureDateUTC(pair.outP.timestamp)!.getTime();
           const diff = Math.floor((outTime - inTime) / 60000);
-          if (diff >= 0) totalMinutes += diff;
+          const unpaidBreak = rules.paid ? 0 : breakMinutesBetween(dayData.breakPunches, pair.inP.timestamp, pair.outP.timestamp);
+          if (diff >= 0) totalMinutes += Math.max(0, diff - unpaidBreak);
         } else if (pair.inP && !pair.outP) {
           incidencias.push("Sin salida");
           hasSinSalida = true;
@@ -263,10 +365,14 @@ function processPunches(
       if (dayData.outPunches.length > 1) {
         incidencias.push("Doble salida");
       }
-
-      if (totalMinutes >= 300 && !dayData.hasBreak) {
-        incidencias.push("Sin pausa (+5h)");
+      if (dayData.outPunches.some(p => p.isAuto && p.source === "system")) {
+        incidencias.push("Salida automática");
       }
+      if ([...dayData.inPunches, ...dayData.outPunches].some(p => p.source === "manual")) {
+        incidencias.push("Fichaje manual");
+      }
+
+      incidencias.push(...breakIncidents(totalMinutes, dayData.breakCount, rules));
 
       const horaInicio =
         dayData.inPunches.length > 0
@@ -287,14 +393,39 @@ function processPunches(
         horaFin,
         totalMinutes,
         totalFormatted: formatDurationHHMM(totalMinutes),
-        pauseTaken: dayData.hasBreak,
+        pauseTaken: dayData.breakCount > 0,
         hasFirma: dayData.hasFirma,
         incidencias,
         hasCorrection,
         hasSinSalida,
+        hasPunches: true,
+        holidayName: holidayByDate.get(dateKey) ?? null,
+        absenceName: absenceByDate.get(dateKey) ?? null,
       });
     }
 
+    // Holidays and absences without punches get their own row so they don't read as missing days
+    const markedDates = new Set([...Array.from(holidayByDate.keys()), ...Array.from(absenceByDate.keys())]);
+    for (const dateKey of Array.from(markedDates)) {
+      if (empData.dayMap.has(dateKey)) continue;
+      days.push({
+        dateKey,
+        horaInicio: "—",
+        horaFin: "—",
+        totalMinutes: 0,
+        totalFormatted: formatDurationHHMM(0),
+        pauseTaken: false,
+        hasFirma: false,
+        incidencias: [],
+        hasCorrection: false,
+        hasSinSalida: false,
+        hasPunches: false,
+        holidayName: holidayByDate.get(dateKey) ?? null,
+        absenceName: absenceByDate.get(dateKey) ?? null,
+      });
+    }
+    days.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
     sections.push({
       employeeId: empId,
       fullName: empData.name,
@@ -318,6 +449,8 @@ function computeDatasetHash(sections: EmployeeSection[]): string {
         pause: d.pauseTaken,
         issues: d.incidencias,
         corrected: d.hasCorrection,
+        ...(d.holidayName ? { holiday: d.holidayName } : {}),
+        ...(d.absenceName ? { absence: d.absenceName } : {}),
       })),
       totalMinutes: s.totalMinutes,
     }))
@@ -327,7 +460,12 @@ function computeDatasetHash(sections: EmployeeSection[]): string {
 
 export async function generateAuthoritiesPDF(
   options: AuthoritiesReportOptions
-): Promise<Buffer> {
+): Promise<AuthoritiesReport> {
+  const qrBuffer = options.verificationUrl
+    ? await QRCode.toBuffer(options.verificationUrl, { type: "png", margin: 1, width: 240, errorCorrectionLevel: "M" })
+    : null;
+  const documentId = options.documentId ?? crypto.randomUUID();
+
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({
       size: "A4",
@@ -339,7 +477,7 @@ export async function generateAuthoritiesPDF(
     const buffers: Buffer[] = [];
     const passThrough = new PassThrough();
     passThrough.on("data", (chunk) => buffers.push(chunk));
-    passThrough.on("end", () => resolve(Buffer.concat(buffers)));
+    passThrough.on("end", () => resolve({ pdf: Buffer.concat(buffers), documentId, datasetHash }));
     passThrough.on("error", reject);
     doc.pipe(passThrough);
 
@@ -347,8 +485,15 @@ export async function generateAuthoritiesPDF(
     const marginLeft = doc.page.margins.left;
     const logoBuffer = getLogoBuffer();
 
-    const sections = processPunches(options.punches, options.corrections);
-    const documentId = crypto.randomUUID();
+    const sections = processPunches(
+      options.punches,
+      options.corrections,
+      options.holidays,
+      options.absences,
+      options.breakRules,
+      options.defaultBreakRules,
+      options.employeeSiteIds
+    );
     const datasetHash = computeDatasetHash(sections);
 
     const subtitle =
@@ -366,22 +511,47 @@ export async function generateAuthoritiesPDF(
       periodEnd: options.periodEnd,
       documentId,
       datasetHash,
+      chainHead: options.chainHead ?? null,
+      verification: qrBuffer && options.verificationUrl ? { qrBuffer, url: options.verificationUrl } : null,
       totalEmployees: sections.length,
-      totalDays: sections.reduce((sum, s) => sum + s.days.length, 0),
+      totalDays: sections.reduce((sum, s) => sum + s.days.filter((d) => d.hasPunches).length, 0),
     });
 
     const pageBottom = doc.page.height - doc.page.margins.bottom - 40;
     let currentY = pageBottom;
 
+    const employeeSites = options.employeeSites;
+    const centreLabelFor = (employeeId: string): string | undefined => {
+      if (!employeeSites) return undefined;
+      const site = employeeSites[employeeId];
+      if (!site) return "Centro: sin asignar";
+      return site.address ? `Centro: ${site.name} — ${site.address}` : `Centro: ${site.name}`;
+    };
+    if (employeeSites) {
+      // Stable sort keeps the alphabetical employee order inside each centre; unassigned employees go last
+      sections.sort((a, b) => {
+        const siteA = employeeSites[a.employeeId]?.name;
+        const siteB = employeeSites[b.employeeId]?.name;
+        if (siteA === siteB) return 0;
+        if (siteA === undefined) return 1;
+        if (siteB === undefined) return -1;
+        return siteA.localeCompare(siteB, "es");
+      });
+    }
+
+    let currentCentre: string | undefined;
     for (let si = 0; si < sections.length; si++) {
       const section = sections[si];
       const minRowsToShow = Math.min(section.days.length, 3);
       const estimatedHeight = 36 + 18 + 18 + (minRowsToShow * 20) + 30 + 14;
       const spaceLeft = pageBottom - currentY;
+      const centreLabel = centreLabelFor(section.employeeId);
+      const centreChanged = si > 0 && centreLabel !== currentCentre;
+      currentCentre = centreLabel;
 
-      if (si === 0 || spaceLeft < estimatedHeight) {
+      if (si === 0 || centreChanged || spaceLeft < estimatedHeight) {
         doc.addPage();
-        currentY = drawEmployeeSection(doc, section, pageWidth, marginLeft, logoBuffer, true);
+        currentY = drawEmployeeSection(doc, section, pageWidth, marginLeft, logoBuffer, true, undefined, centreLabel);
       } else {
         currentY = drawEmployeeSection(doc, section, pageWidth, marginLeft, logoBuffer, false, currentY);
       }
@@ -400,6 +570,12 @@ export async function generateAuthoritiesPDF(
         doc.addPage();
         drawAnnexB(doc, options.corrections, pageWidth, marginLeft, logoBuffer);
       }
+
+      const manualPunches = inOutPunches.filter((p) => p.source === "manual");
+      if (manualPunches.length > 0) {
+        doc.addPage();
+        drawAnnexC(doc, manualPunches, pageWidth, marginLeft, logoBuffer);
+      }
     }
 
     const totalPages = doc.bufferedPageRange().count;
@@ -473,6 +649,8 @@ interface CoverOptions {
   periodEnd: Date;
   documentId: string;
   datasetHash: string;
+  chainHead: ChainHead | null;
+  verification: { qrBuffer: Buffer; url: string } | null;
   totalEmployees: number;
   totalDays: number;
 }
@@ -575,6 +753,37 @@ function drawCoverPage(doc: typeof PDFDocument.prototype, opts: CoverOptions) {
     .fontSize(5)
     .font("Courier")
     .text(opts.datasetHash, opts.marginLeft + 80, y + 10);
+  y += 22;
+
+  doc
+    .fontSize(7)
+    .font("Helvetica-Bold")
+    .fillColor(COLORS.textMuted)
+    .text("Cabeza de la cadena de fichajes:", opts.marginLeft + 80, y);
+  doc
+    .fontSize(5)
+    .font("Courier")
+    .text(
+      opts.chainHead ? `#${opts.chainHead.chainSeq} ${opts.chainHead.hash}` : "—",
+      opts.marginLeft + 80,
+      y + 10
+    );
+
+  if (opts.verification) {
+    y += 30;
+    const qrSize = 90;
+    doc.image(opts.verification.qrBuffer, opts.marginLeft + opts.pageWidth / 2 - qrSize / 2, y, { width: qrSize, height: qrSize });
+    y += qrSize + 6;
+    doc
+      .fontSize(7)
+      .font("Helvetica-Bold")
+      .fillColor(COLORS.textMuted)
+      .text("Verifique la autenticidad de este informe en:", opts.marginLeft, y, { width: opts.pageWidth, align: "center" });
+    doc
+      .fontSize(6)
+      .font("Courier")
+      .text(opts.verification.url, opts.marginLeft, y + 10, { width: opts.pageWidth, align: "center" });
+  }
 }
 
 function drawEmployeeSection(
@@ -584,7 +793,8 @@ function drawEmployeeSection(
   marginLeft: number,
   logoBuffer: Buffer | null,
   isNewPage: boolean,
-  startY?: number
+  startY?: number,
+  centreLabel?: string
 ): number {
   let y: number;
 
@@ -596,6 +806,14 @@ function drawEmployeeSection(
       marginLeft,
       logoBuffer
     );
+    if (centreLabel) {
+      doc
+        .fontSize(10)
+        .font("Helvetica-Bold")
+        .fillColor(COLORS.textSecondary)
+        .text(centreLabel, marginLeft, y + 2, { width: pageWidth });
+      y += 18;
+    }
   } else {
     y = startY! + 8;
     doc
@@ -664,6 +882,10 @@ function drawEmployeeSection(
     const hasIssue = day.hasSinSalida || day.incidencias.length > 0;
     const rowColor = hasIssue
       ? COLORS.incidenciaBg
+      : day.absenceName
+      ? COLORS.absenceBg
+      : day.holidayName
+      ? COLORS.holidayBg
       : i % 2 === 0
       ? COLORS.zebraLight
       : COLORS.zebraWhite;
@@ -713,22 +935,35 @@ function drawEmployeeSection(
     doc
       .font("Helvetica-Bold")
       .fillColor(day.hasFirma ? COLORS.navyMedium : COLORS.textMuted)
-      .text(day.hasFirma ? "Sí" : "No", x, textY, { width: colWidths.firma - 8, align: "center" });
+      .text(day.hasPunches ? (day.hasFirma ? "Sí" : "No") : "—", x, textY, { width: colWidths.firma - 8, align: "center" });
     x += colWidths.firma;
 
-    const incText = day.incidencias.length > 0 ? day.incidencias.join(", ") : "—";
-    doc
-      .fillColor(day.incidencias.length > 0 ? COLORS.incidencia : COLORS.textMuted)
-      .fontSize(6.5)
-      .font(day.incidencias.length > 0 ? "Helvetica-Bold" : "Helvetica")
-      .text(incText, x, textY + 1, { width: colWidths.incidencias - 8 });
+    const dayMarkers = [
+      day.holidayName ? `Festivo: ${day.holidayName}` : null,
+      day.absenceName ? `Ausencia: ${day.absenceName}` : null,
+    ].filter(Boolean).join(" · ");
+    if (dayMarkers && day.incidencias.length === 0) {
+      doc
+        .fillColor(day.absenceName ? COLORS.absence : COLORS.holiday)
+        .fontSize(6.5)
+        .font("Helvetica-Bold")
+        .text(dayMarkers, x, textY + 1, { width: colWidths.incidencias - 8 });
+    } else {
+      const incText = day.incidencias.length > 0 ? day.incidencias.join(", ") : "—";
+      const prefix = dayMarkers ? `${dayMarkers} · ` : "";
+      doc
+        .fillColor(day.incidencias.length > 0 ? COLORS.incidencia : COLORS.textMuted)
+        .fontSize(6.5)
+        .font(day.incidencias.length > 0 ? "Helvetica-Bold" : "Helvetica")
+        .text(prefix + incText, x, textY + 1, { width: colWidths.incidencias - 8 });
+    }
     x += colWidths.incidencias;
 
     doc
       .fontSize(7.5)
       .font("Helvetica-Bold")
       .fillColor(day.hasCorrection ? COLORS.correctionYes : COLORS.textMuted)
-      .text(day.hasCorrection ? "Sí" : "No", x, textY, {
+      .text(day.hasPunches ? (day.hasCorrection ? "Sí" : "No") : "—", x, textY, {
         width: colWidths.correcciones - 8,
         align: "center",
       });
@@ -878,10 +1113,13 @@ function drawAnnexA(
     doc.text(formatDateES(punch.timestamp), x, textY, { width: colWidths.fecha - 8 });
     x += colWidths.fecha;
 
-    doc.text(formatTimeES(punch.timestamp), x, textY, { width: colWidths.hora - 8 });
+    doc
+      .fillColor(punch.corrected ? COLORS.correctionYes : COLORS.textPrimary)
+      .text(formatTimeES(punch.timestamp), x, textY, { width: colWidths.hora - 8 });
     x += colWidths.hora;
 
     doc
+      .fillColor(COLORS.textPrimary)
       .font("Helvetica-Bold")
       .text(punch.type === "IN" ? "Entrada" : "Salida", x, textY, {
         width: colWidths.tipo - 8,
@@ -920,10 +1158,18 @@ function drawAnnexA(
       .text(hasSig ? "Sí" : "No", x, textY, { width: colWidths.firma - 8, align: "center" });
     x += colWidths.firma;
 
+    const isManual = punch.source === "manual";
+    const sourceLabel = isManual ? "manual (Anexo C)" : punch.source || "—";
+    const isCorrected = !!punch.corrected && !!punch.originalTimestamp;
     doc
-      .font("Helvetica")
-      .fillColor(COLORS.textSecondary)
-      .text(punch.source || "—", x, textY, { width: colWidths.fuente - 8 });
+      .font(isManual || isCorrected ? "Helvetica-Bold" : "Helvetica")
+      .fillColor(isManual || isCorrected ? COLORS.correctionYes : COLORS.textSecondary)
+      .text(
+        isCorrected ? `${isManual ? "manual" : sourceLabel} · orig. ${formatTimeES(punch.originalTimestamp!)}` : sourceLabel,
+        x,
+        textY,
+        { width: colWidths.fuente - 8 }
+      );
 
     y += ROW_HEIGHT;
   }
@@ -1010,3 +1256,77 @@ function drawAnnexB(
   }
 }
 
+// Retroactive punches entered by an admin have no original event behind them, so they are listed apart with their justification
+function drawAnnexC(
+  doc: typeof PDFDocument.prototype,
+  punches: RawPunch[],
+  pageWidth: number,
+  marginLeft: number,
+  logoBuffer: Buffer | null
+) {
+  let y = drawSmallHeader(
+    doc,
+    "Anexo C — Fichajes manuales",
+    pageWidth,
+    marginLeft,
+    logoBuffer
+  );
+
+  doc
+    .fontSize(10)
+    .font("Helvetica-Bold")
+    .fillColor(COLORS.navyDark)
+    .text("Anexo C: Fichajes añadidos manualmente en el período", marginLeft, y);
+  y += 16;
+
+  const sorted = [...punches].sort(
+    (a, b) => ensureDateUTC(a.timestamp)!.getTime() - ensureDateUTC(b.timestamp)!.getTime()
+  );
+
+  const ROW_HEIGHT = 33;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const punch = sorted[i];
+
+    if (y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom - 40) {
+      doc.addPage();
+      y = drawSmallHeader(
+        doc,
+        "Anexo C — Fichajes manuales (cont.)",
+        pageWidth,
+        marginLeft,
+        logoBuffer
+      );
+    }
+
+    const rowColor = i % 2 === 0 ? COLORS.zebraLight : COLORS.zebraWhite;
+    doc.rect(marginLeft, y, pageWidth, ROW_HEIGHT).fill(rowColor);
+    doc
+      .rect(marginLeft, y, pageWidth, ROW_HEIGHT)
+      .strokeColor(COLORS.borderRow)
+      .lineWidth(0.5)
+      .stroke();
+
+    const col1 = marginLeft + 6;
+    const col2 = marginLeft + pageWidth / 2;
+    let textY = y + 5;
+
+    doc.fontSize(7).font("Helvetica-Bold").fillColor(COLORS.textPrimary);
+    doc.text(`Empleado: ${punch.employee.lastName}, ${punch.employee.firstName}`, col1, textY);
+    doc.font("Helvetica").fillColor(COLORS.textSecondary);
+    doc.text(`Autor: ${punch.manualAuthorName || "—"}`, col2, textY);
+    textY += 11;
+
+    doc.fontSize(6.5).fillColor(COLORS.textPrimary);
+    doc.text(
+      `Fichaje: ${formatDateTimeES(punch.timestamp)} (${punch.type === "IN" ? "Entrada" : "Salida"})`,
+      col1,
+      textY
+    );
+    doc
+      .fillColor(COLORS.textSecondary)
+      .text(`Motivo: ${punch.manualReason || "—"}`, col2, textY, { width: pageWidth / 2 - 12 });
+
+    y += ROW_HEIGHT;
+  }
+}
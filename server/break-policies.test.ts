@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { breakAutoCloseAt, breakIncidents, canStartBreak, DEFAULT_BREAK_RULES, resolveBreakPolicy } from "./break-policies";
+
+describe("resolveBreakPolicy", () => {
+  const policies = [
+    { id: "default", isDefault: true },
+    { id: "hosteleria", isDefault: false },
+    { id: "oficina", isDefault: false },
+  ];
+
+  it("préfère la politique de l'employé, puis celle du centre, puis la politique par défaut", () => {
+    expect(resolveBreakPolicy(policies, "oficina", "hosteleria")?.id).toBe("oficina");
+    expect(resolveBreakPolicy(policies, null, "hosteleria")?.id).toBe("hosteleria");
+    expect(resolveBreakPolicy(policies, null, null)?.id).toBe("default");
+  });
+
+  it("ignore une politique introuvable et retombe sur le niveau suivant", () => {
+    expect(resolveBreakPolicy(policies, "supprimee", "hosteleria")?.id).toBe("hosteleria");
+    expect(resolveBreakPolicy(policies, null, "supprimee")?.id).toBe("default");
+    expect(resolveBreakPolicy([], null, null)).toBeUndefined();
+  });
+});
+
+describe("breakAutoCloseAt", () => {
+  it("ferme la pause après la durée de la politique", () => {
+    const start = new Date("2026-03-03T10:00:00Z");
+    expect(breakAutoCloseAt(start, { ...DEFAULT_BREAK_RULES, durationMinutes: 30 })?.toISOString())
+      .toBe("2026-03-03T10:30:00.000Z");
+  });
+
+  it("ne ferme pas automatiquement sans durée", () => {
+    expect(breakAutoCloseAt(new Date(), { ...DEFAULT_BREAK_RULES, durationMinutes: null })).toBeNull();
+  });
+});
+
+describe("canStartBreak", () => {
+  it("limite le nombre de pauses par jour", () => {
+    const rules = { ...DEFAULT_BREAK_RULES, maxBreaksPerDay: 2 };
+    expect(canStartBreak(1, rules)).toBe(true);
+    expect(canStartBreak(2, rules)).toBe(false);
+    expect(canStartBreak(5, { ...rules, maxBreaksPerDay: null })).toBe(true);
+  });
+});
+
+describe("breakIncidents", () => {
+  it("signale l'absence de pause au-delà du seuil obligatoire", () => {
+    expect(breakIncidents(300, 0, DEFAULT_BREAK_RULES)).toEqual(["Sin pausa (+5h)"]);
+    expect(breakIncidents(299, 0, DEFAULT_BREAK_RULES)).toEqual([]);
+    expect(breakIncidents(400, 0, { ...DEFAULT_BREAK_RULES, mandatoryAfterMinutes: 390 })).toEqual(["Sin pausa (+6h30)"]);
+  });
+
+  it("signale les pauses au-delà du maximum autorisé", () => {
+    expect(breakIncidents(480, 2, DEFAULT_BREAK_RULES)).toEqual(["Pausas excedidas"]);
+  });
+});
@@ -0,0 +1,62 @@
+import type { BreakPolicy } from "@shared/schema";
+
+export type BreakRules = Pick<BreakPolicy, "durationMinutes" | "paid" | "mandatoryAfterMinutes" | "maxBreaksPerDay">;
+
+// Behaviour before break policies existed: one paid 20-minute pause, mandatory after 5 hours
+export const DEFAULT_BREAK_RULES: BreakRules = {
+  durationMinutes: 20,
+  paid: true,
+  mandatoryAfterMinutes: 300,
+  maxBreaksPerDay: 1,
+};
+
+// The employee's own policy wins over their site's, and the site's over the default
+export function resolveBreakPolicy<T extends Pick<BreakPolicy, "id" | "isDefault">>(
+  policies: T[],
+  employeePolicyId: string | null | undefined,
+  sitePolicyId: string | null | undefined
+): T | undefined {
+  return (employeePolicyId ? policies.find(p => p.id === employeePolicyId) : undefined)
+    ?? (sitePolicyId ? policies.find(p => p.id === sitePolicyId) : undefined)
+    ?? policies.find(p => p.isDefault);
+}
+
+export function toBreakRules(policy: BreakPolicy | undefined): BreakRules {
+  if (!policy) {
+    return DEFAULT_BREAK_RULES;
+  }
+  return {
+    durationMinutes: policy.durationMinutes,
+    paid: policy.paid,
+    mandatoryAfterMinutes: policy.mandatoryAfterMinutes,
+    maxBreaksPerDay: policy.maxBreaksPerDay,
+  };
+}
+
+export function breakAutoCloseAt(breakStart: Date, rules: BreakRules): Date | null {
+  if (rules.durationMinutes === null) {
+    return null;
+  }
+  return new Date(breakStart.getTime() + rules.durationMinutes * 60000);
+}
+
+export function canStartBreak(breaksTakenToday: number, rules: BreakRules): boolean {
+  return rules.maxBreaksPerDay === null || breaksTakenToday < rules.maxBreaksPerDay;
+}
+
+function formatThreshold(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m === 0 ? `+${h}h` : `+${h}h${m.toString().padStart(2, "0")}`;
+}
+
+export function breakIncidents(workedMinutes: number, breakCount: number, rules: BreakRules): string[] {
+  const incidents: string[] = [];
+  if (rules.mandatoryAfterMinutes !== null && workedMinutes >= rules.mandatoryAfterMinutes && breakCount === 0) {
+    incidents.push(`Sin pausa (${formatThreshold(rules.mandatoryAfterMinutes)})`);
+  }
+  if (rules.maxBreaksPerDay !== null && breakCount > rules.maxBreaksPerDay) {
+    incidents.push("Pausas excedidas");
+  }
+  return incidents;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { detectForgottenClockout, resolveClockoutPolicy } from "./clockout-policy";
+
+const policy = { enabled: true, maxShiftMinutes: 12 * 60, graceMinutes: 60 };
+const inAt = new Date("2026-03-03T07:00:00Z");
+
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+describe("resolveClockoutPolicy", () => {
+  it("applique les valeurs par défaut", () => {
+    expect(resolveClockoutPolicy({})).toEqual({ enabled: true, maxShiftMinutes: 720, graceMinutes: 60 });
+  });
+
+  it("lit la configuration depuis l'environnement", () => {
+    const result = resolveClockoutPolicy({
+      FORGOTTEN_CLOCKOUT_ENABLED: "false",
+      FORGOTTEN_CLOCKOUT_MAX_HOURS: "10.5",
+      FORGOTTEN_CLOCKOUT_GRACE_MINUTES: "30",
+    });
+    expect(result).toEqual({ enabled: false, maxShiftMinutes: 630, graceMinutes: 30 });
+  });
+});
+
+describe("detectForgottenClockout", () => {
+  it("ne fait rien pendant le délai de grâce après la fin prévue", () => {
+    const shift = { inAt, lastPunchAt: inAt, scheduledEnd: at("2026-03-03T15:00:00Z"), expectedMinutes: 480 };
+    expect(detectForgottenClockout(shift, at("2026-03-03T15:30:00Z"), policy)).toBeNull();
+  });
+
+  it("ferme à l'heure de fin prévue une fois le délai de grâce écoulé", () => {
+    const shift = { inAt, lastPunchAt: inAt, scheduledEnd: at("2026-03-03T15:00:00Z"), expectedMinutes: 480 };
+    const result = detectForgottenClockout(shift, at("2026-03-03T16:00:00Z"), policy);
+    expect(result).toEqual({ closeAt: at("2026-03-03T15:00:00Z"), reason: "scheduled_end" });
+  });
+
+  it("ferme après la durée attendue quand la durée maximale est dépassée sans horaire", () => {
+    const shift = { inAt, lastPunchAt: inAt, scheduledEnd: null, expectedMinutes: 480 };
+    expect(detectForgottenClockout(shift, at("2026-03-03T18:00:00Z"), policy)).toBeNull();
+    const result = detectForgottenClockout(shift, at("2026-03-03T19:00:00Z"), policy);
+    expect(result).toEqual({ closeAt: at("2026-03-03T15:00:00Z"), reason: "max_duration" });
+  });
+
+  it("ne place jamais la sortie avant le dernier pointage", () => {
+    const shift = { inAt, lastPunchAt: at("2026-03-03T16:30:00Z"), scheduledEnd: null, expectedMinutes: 480 };
+    const result = detectForgottenClockout(shift, at("2026-03-03T19:00:00Z"), policy);
+    expect(result?.closeAt).toEqual(at("2026-03-03T16:30:00Z"));
+  });
+});
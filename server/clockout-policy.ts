@@ -0,0 +1,42 @@
+export interface ClockoutPolicy {
+  enabled: boolean;
+  maxShiftMinutes: number;
+  graceMinutes: number;
+}
+
+export interface ForgottenClockout {
+  closeAt: Date;
+  reason: "scheduled_end" | "max_duration";
+}
+
+export function resolveClockoutPolicy(env: NodeJS.ProcessEnv = process.env): ClockoutPolicy {
+  return {
+    enabled: (env.FORGOTTEN_CLOCKOUT_ENABLED || "true").toLowerCase() !== "false",
+    maxShiftMinutes: Math.round(parseFloat(env.FORGOTTEN_CLOCKOUT_MAX_HOURS || "12") * 60),
+    graceMinutes: parseInt(env.FORGOTTEN_CLOCKOUT_GRACE_MINUTES || "60", 10),
+  };
+}
+
+// The system OUT is placed at the scheduled end when known, otherwise after the expected
+// working day; it never precedes the employee's last punch and never exceeds the max duration
+export function detectForgottenClockout(
+  shift: { inAt: Date; lastPunchAt: Date; scheduledEnd: Date | null; expectedMinutes: number },
+  now: Date,
+  policy: ClockoutPolicy
+): ForgottenClockout | null {
+  const inMs = shift.inAt.getTime();
+  const maxEndMs = inMs + policy.maxShiftMinutes * 60000;
+  const clamp = (ms: number) => new Date(Math.min(Math.max(ms, shift.lastPunchAt.getTime()), maxEndMs));
+
+  const scheduledEndMs = shift.scheduledEnd?.getTime();
+  if (scheduledEndMs !== undefined && scheduledEndMs > inMs && now.getTime() >= scheduledEndMs + policy.graceMinutes * 60000) {
+    return { closeAt: clamp(scheduledEndMs), reason: "scheduled_end" };
+  }
+
+  if (now.getTime() >= maxEndMs) {
+    const expectedMinutes = shift.expectedMinutes > 0 ? shift.expectedMinutes : policy.maxShiftMinutes;
+    return { closeAt: clamp(inMs + expectedMinutes * 60000), reason: "max_duration" };
+  }
+
+  return null;
+}
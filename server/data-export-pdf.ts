@@ -0,0 +1,164 @@
+import PDFDocument from "pdfkit";
+import { PassThrough } from "stream";
+import { formatDateES, formatTimeES, formatDateTimeES } from "./timezone";
+import type { DataSubjectExport } from "./data-export";
+
+const COLORS = {
+  navyDark: "#0f172a",
+  textPrimary: "#0f172a",
+  textSecondary: "#374151",
+  textMuted: "#6b7280",
+  zebraLight: "#dce5f0",
+  borderLight: "#94a3b8",
+  headerBg: "#e8f0f8",
+};
+
+const PUNCH_TYPE_LABELS: Record<string, string> = {
+  IN: "Entrada",
+  OUT: "Salida",
+  BREAK_START: "Inicio pausa",
+  BREAK_END: "Fin pausa",
+};
+
+const PUNCH_COLUMNS = [
+  { header: "Fecha", width: 70 },
+  { header: "Hora", width: 45 },
+  { header: "Tipo", width: 75 },
+  { header: "Origen", width: 60 },
+  { header: "Ubicación", width: 150 },
+  { header: "Firma", width: 40 },
+  { header: "Revisión", width: 83 },
+];
+
+// A readable companion to datos.json: profile, what is stored per category, and every punch
+export async function generateDataExportSummaryPDF(data: DataSubjectExport, signatureCount: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      layout: "portrait",
+      margins: { top: 40, bottom: 40, left: 36, right: 36 },
+      bufferPages: true,
+    });
+
+    const buffers: Buffer[] = [];
+    const passThrough = new PassThrough();
+    passThrough.on("data", (chunk) => buffers.push(chunk));
+    passThrough.on("end", () => resolve(Buffer.concat(buffers)));
+    passThrough.on("error", reject);
+    doc.pipe(passThrough);
+
+    const pageWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const marginLeft = doc.page.margins.left;
+    const pageBottom = doc.page.height - doc.page.margins.bottom - 30;
+    const { employee } = data;
+
+    let y = doc.page.margins.top;
+    doc.fontSize(16).font("Helvetica-Bold").fillColor(COLORS.navyDark)
+      .text("CRONOS FICHAJES", marginLeft, y, { width: pageWidth, align: "center" });
+    y += 22;
+    doc.fontSize(12).font("Helvetica-Bold").fillColor(COLORS.textPrimary)
+      .text("Informe de datos personales (art. 15 RGPD)", marginLeft, y, { width: pageWidth, align: "center" });
+    y += 28;
+
+    const infoItems = [
+      { label: "Titular:", value: `${employee.firstName} ${employee.lastName}` },
+      { label: "Email:", value: employee.email },
+      { label: "Rol:", value: employee.role },
+      { label: "Estado:", value: employee.isActive ? "Activo" : "Inactivo" },
+      { label: "Alta en el sistema:", value: formatDateES(employee.createdAt) },
+      { label: "Generado:", value: formatDateTimeES(data.generatedAt) },
+      { label: "Solicitado por:", value: data.requestedBy === "employee" ? "El propio empleado" : "Administración" },
+    ];
+    for (const item of infoItems) {
+      doc.fontSize(10).font("Helvetica-Bold").fillColor(COLORS.textPrimary)
+        .text(item.label, marginLeft + 40, y, { continued: true, width: 140 });
+      doc.font("Helvetica").fillColor(COLORS.textSecondary).text(` ${item.value}`);
+      y += 16;
+    }
+
+    y += 14;
+    doc.fontSize(11).font("Helvetica-Bold").fillColor(COLORS.textPrimary).text("Datos incluidos", marginLeft, y);
+    y += 18;
+    const categories = [
+      ["Fichajes (con geolocalización)", data.punches.length],
+      ["Firmas (firmas/*.png)", signatureCount],
+      ["Correcciones de fichajes", data.corrections.length],
+      ["Revisiones de fichajes", data.reviews.length],
+      ["Solicitudes de corrección", data.correctionRequests.length],
+      ["Solicitudes de horas extra", data.overtimeRequests.length],
+      ["Ausencias", data.absences.length],
+      ["Registros de auditoría", data.auditEntries.length],
+    ] as const;
+    for (const [label, count] of categories) {
+      doc.fontSize(9).font("Helvetica").fillColor(COLORS.textSecondary).text(label, marginLeft + 40, y);
+      doc.text(String(count), marginLeft + 300, y, { width: 60, align: "right" });
+      y += 14;
+    }
+
+    y += 10;
+    doc.fontSize(8).font("Helvetica").fillColor(COLORS.textMuted).text(
+      "El detalle completo de cada categoría figura en datos.json, incluido en el mismo archivo.",
+      marginLeft, y, { width: pageWidth }
+    );
+
+    const reviewedIds = new Set(data.reviews.map(r => r.punchId));
+    const correctedIds = new Set(data.corrections.map(c => c.originalPunchId));
+    const drawHeaderRow = (top: number): number => {
+      doc.rect(marginLeft, top, pageWidth, 16).fill(COLORS.headerBg);
+      let x = marginLeft;
+      for (const col of PUNCH_COLUMNS) {
+        doc.fontSize(7).font("Helvetica-Bold").fillColor(COLORS.textPrimary).text(col.header, x + 3, top + 5, { width: col.width - 6 });
+        x += col.width;
+      }
+      return top + 16;
+    };
+
+    if (data.punches.length > 0) {
+      doc.addPage();
+      y = doc.page.margins.top;
+      doc.fontSize(11).font("Helvetica-Bold").fillColor(COLORS.textPrimary).text("Fichajes", marginLeft, y);
+      y = drawHeaderRow(y + 18);
+
+      data.punches.forEach((punch, index) => {
+        if (y + 14 > pageBottom) {
+          doc.addPage();
+          y = drawHeaderRow(doc.page.margins.top);
+        }
+        if (index % 2 === 1) {
+          doc.rect(marginLeft, y, pageWidth, 14).fill(COLORS.zebraLight);
+        }
+        const review = correctedIds.has(punch.id) ? "Corregido" : reviewedIds.has(punch.id) ? "Revisado" : "—";
+        const cells = [
+          formatDateES(punch.timestamp),
+          formatTimeES(punch.timestamp),
+          PUNCH_TYPE_LABELS[punch.type] ?? punch.type,
+          punch.source,
+          punch.latitude && punch.longitude ? `${punch.latitude}, ${punch.longitude}` : "—",
+          punch.signatureSha256 || punch.signatureData || punch.signatureUrl ? "Sí" : "No",
+          review,
+        ];
+        let x = marginLeft;
+        cells.forEach((cell, i) => {
+          doc.fontSize(7).font("Helvetica").fillColor(COLORS.textSecondary).text(cell, x + 3, y + 4, { width: PUNCH_COLUMNS[i].width - 6, lineBreak: false });
+          x += PUNCH_COLUMNS[i].width;
+        });
+        y += 14;
+      });
+    }
+
+    const totalPages = doc.bufferedPageRange().count;
+    for (let i = 0; i < totalPages; i++) {
+      doc.switchToPage(i);
+      // The footer sits inside the bottom margin; lifting it keeps pdfkit from opening a new page
+      doc.page.margins.bottom = 0;
+      const footerY = doc.page.height - 28;
+      doc.moveTo(marginLeft, footerY - 6).lineTo(marginLeft + pageWidth, footerY - 6)
+        .strokeColor(COLORS.borderLight).lineWidth(0.75).stroke();
+      doc.fontSize(7).font("Helvetica").fillColor(COLORS.textSecondary)
+        .text("CronosFichajes.es", marginLeft, footerY, { width: pageWidth / 2, align: "left" });
+      doc.text(`Página ${i + 1} de ${totalPages}`, marginLeft + pageWidth / 2, footerY, { width: pageWidth / 2, align: "right" });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import type { Employee, Punch } from "@shared/schema";
+import { buildDataExportZip, decodeSignatureData, employeeProfile, type DataSubjectExport } from "./data-export";
+
+const employee = {
+  id: "e1",
+  email: "ana@example.com",
+  password: "$2b$10$hash",
+  firstName: "Ana",
+  lastName: "García",
+  role: "employee",
+  pin: "123456",
+  isActive: true,
+  monitorId: null,
+  gestionUserId: null,
+  syncDisabled: false,
+  breakPolicyId: null,
+  siteId: null,
+  supervisorId: null,
+  createdAt: new Date("2025-01-10T08:00:00Z"),
+  anonymizedAt: null,
+} as Employee;
+
+function punch(id: string, signatureData: string | null): Punch {
+  return {
+    id,
+    employeeId: "e1",
+    type: "IN",
+    timestamp: new Date("2026-03-02T08:00:00Z"),
+    latitude: "40.4168",
+    longitude: "-3.7038",
+    signatureData,
+    signatureUrl: null,
+    signatureSha256: null,
+    source: "mobile",
+  } as Punch;
+}
+
+function exportOf(punches: Punch[]): DataSubjectExport {
+  return {
+    generatedAt: new Date("2026-03-05T10:00:00Z"),
+    requestedBy: "employee",
+    employee,
+    punches,
+    corrections: [],
+    reviews: [],
+    correctionRequests: [],
+    overtimeRequests: [],
+    absences: [],
+    auditEntries: [],
+  };
+}
+
+describe("employeeProfile", () => {
+  it("n'exporte ni le mot de passe ni le PIN", () => {
+    const profile = employeeProfile(employee);
+    expect(profile).not.toHaveProperty("password");
+    expect(profile).not.toHaveProperty("pin");
+    expect(profile.email).toBe("ana@example.com");
+  });
+});
+
+describe("decodeSignatureData", () => {
+  it("décode une signature en data URL", () => {
+    expect(decodeSignatureData("data:image/png;base64,iVBORw0K")?.subarray(0, 4).toString("hex")).toBe("89504e47");
+    expect(decodeSignatureData(null)).toBeNull();
+  });
+});
+
+describe("buildDataExportZip", () => {
+  it("regroupe le JSON, le résumé PDF et les signatures", async () => {
+    const signature = { punchId: "p1", image: Buffer.from("png") };
+    const zip = await JSZip.loadAsync(await buildDataExportZip(exportOf([punch("p1", "data:image/png;base64,cG5n"), punch("p2", null)]), [signature]));
+
+    expect(Object.keys(zip.files).sort()).toEqual(["datos.json", "firmas/", "firmas/p1.png", "resumen.pdf"]);
+    expect((await zip.file("resumen.pdf")!.async("nodebuffer")).subarray(0, 4).toString()).toBe("%PDF");
+
+    const json = JSON.parse(await zip.file("datos.json")!.async("string"));
+    expect(json.employee).not.toHaveProperty("password");
+    expect(json.punches[0]).not.toHaveProperty("signatureData");
+    expect(json.punches.map((p: { signatureFile: string | null }) => p.signatureFile)).toEqual(["firmas/p1.png", null]);
+    expect(json.punches[0].latitude).toBe("40.4168");
+  });
+});
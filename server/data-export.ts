@@ -0,0 +1,92 @@
+import JSZip from "jszip";
+import type {
+  Employee, Punch, PunchCorrection, PunchReview, OvertimeRequest, PortalCorrectionRequest, Absence, AuditLog,
+} from "@shared/schema";
+import { isSpacesConfigured, downloadFile } from "./spaces";
+import { generateDataExportSummaryPDF } from "./data-export-pdf";
+import { logError } from "./logger";
+
+// Everything stored about one employee (art. 15 and 20 GDPR); audit entries are those they made or that target them
+export interface DataSubjectExport {
+  generatedAt: Date;
+  requestedBy: "employee" | "admin";
+  employee: Employee;
+  punches: Punch[];
+  corrections: PunchCorrection[];
+  reviews: PunchReview[];
+  correctionRequests: PortalCorrectionRequest[];
+  overtimeRequests: OvertimeRequest[];
+  absences: Absence[];
+  auditEntries: AuditLog[];
+}
+
+export interface ExportedSignature {
+  punchId: string;
+  image: Buffer;
+}
+
+export function signatureFileName(punchId: string): string {
+  return `firmas/${punchId}.png`;
+}
+
+export function decodeSignatureData(signatureData: string | null): Buffer | null {
+  if (!signatureData) return null;
+  const base64 = signatureData.replace(/^data:image\/\w+;base64,/, "");
+  const image = Buffer.from(base64, "base64");
+  return image.length > 0 ? image : null;
+}
+
+// Credentials are not personal data the employee can use, and exposing their hashes would only weaken them
+export function employeeProfile(employee: Employee): Omit<Employee, "password" | "pin"> {
+  const { password: _password, pin: _pin, ...profile } = employee;
+  return profile;
+}
+
+// Spaces holds the signature image of kiosk punches; mobile punches keep it inline as a data URL
+export async function collectSignatures(punches: Punch[]): Promise<ExportedSignature[]> {
+  const signatures: ExportedSignature[] = [];
+  for (const punch of punches) {
+    let image: Buffer | null = null;
+    if (punch.signatureUrl && isSpacesConfigured()) {
+      image = await downloadFile(punch.signatureUrl).catch((error) => {
+        logError(`[DATA-EXPORT] Firma no disponible: ${punch.signatureUrl}`, error);
+        return null;
+      });
+    }
+    image = image ?? decodeSignatureData(punch.signatureData);
+    if (image) {
+      signatures.push({ punchId: punch.id, image });
+    }
+  }
+  return signatures;
+}
+
+export function serializeDataExport(data: DataSubjectExport, signatures: ExportedSignature[]) {
+  const exported = new Set(signatures.map(s => s.punchId));
+  return {
+    generatedAt: data.generatedAt.toISOString(),
+    requestedBy: data.requestedBy,
+    employee: employeeProfile(data.employee),
+    // The base64 signature moves to its own PNG; the JSON only keeps the pointer and the hash
+    punches: data.punches.map(({ signatureData: _signatureData, ...punch }) => ({
+      ...punch,
+      signatureFile: exported.has(punch.id) ? signatureFileName(punch.id) : null,
+    })),
+    corrections: data.corrections,
+    reviews: data.reviews,
+    correctionRequests: data.correctionRequests,
+    overtimeRequests: data.overtimeRequests,
+    absences: data.absences,
+    auditEntries: data.auditEntries,
+  };
+}
+
+export async function buildDataExportZip(data: DataSubjectExport, signatures: ExportedSignature[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("datos.json", JSON.stringify(serializeDataExport(data, signatures), null, 2));
+  zip.file("resumen.pdf", await generateDataExportSummaryPDF(data, signatures.length));
+  for (const signature of signatures) {
+    zip.file(signatureFileName(signature.punchId), signature.image);
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
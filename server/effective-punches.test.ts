@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { applyCorrections, isWithin } from "./effective-punches";
+
+const punch = (id: string, type: string, iso: string) => ({ id, type, timestamp: new Date(iso) });
+
+describe("applyCorrections", () => {
+  it("laisse intacts les pointages sans correction", () => {
+    const [p] = applyCorrections([punch("p1", "IN", "2026-03-02T08:00:00Z")], []);
+    expect(p.timestamp.toISOString()).toBe("2026-03-02T08:00:00.000Z");
+    expect(p.corrected).toBe(false);
+    expect(p.originalType).toBe("IN");
+  });
+
+  it("retient la dernière correction pour chaque champ", () => {
+    const [p] = applyCorrections([punch("p1", "OUT", "2026-03-02T17:00:00Z")], [
+      { originalPunchId: "p1", newTimestamp: new Date("2026-03-02T19:00:00Z"), newType: null, createdAt: new Date("2026-03-04T10:00:00Z") },
+      { originalPunchId: "p1", newTimestamp: new Date("2026-03-02T18:00:00Z"), newType: null, createdAt: new Date("2026-03-03T10:00:00Z") },
+    ]);
+    expect(p.timestamp.toISOString()).toBe("2026-03-02T19:00:00.000Z");
+    expect(p.originalTimestamp.toISOString()).toBe("2026-03-02T17:00:00.000Z");
+    expect(p.corrected).toBe(true);
+  });
+
+  it("ne change que le type quand la correction ne porte pas d'heure", () => {
+    const [p, other] = applyCorrections(
+      [punch("p1", "IN", "2026-03-02T17:00:00Z"), punch("p2", "IN", "2026-03-02T08:00:00Z")],
+      [{ originalPunchId: "p1", newTimestamp: null, newType: "OUT", createdAt: new Date("2026-03-03T10:00:00Z") }]
+    );
+    expect(p.type).toBe("OUT");
+    expect(p.timestamp.toISOString()).toBe("2026-03-02T17:00:00.000Z");
+    expect(other.corrected).toBe(false);
+  });
+});
+
+describe("isWithin", () => {
+  it("inclut les bornes de la période", () => {
+    const start = new Date("2026-03-01T00:00:00Z");
+    const end = new Date("2026-03-31T23:59:59.999Z");
+    expect(isWithin(punch("p1", "IN", "2026-03-01T00:00:00Z"), start, end)).toBe(true);
+    expect(isWithin(punch("p1", "IN", "2026-04-01T00:00:00Z"), start, end)).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+export interface PunchCorrectionLike {
+  originalPunchId: string;
+  newTimestamp: Date | null;
+  newType: string | null;
+  createdAt: Date;
+}
+
+export interface CorrectablePunch {
+  id: string;
+  type: string;
+  timestamp: Date;
+}
+
+export type EffectivePunch<T extends CorrectablePunch> = T & {
+  originalTimestamp: Date;
+  originalType: T["type"];
+  corrected: boolean;
+};
+
+// Corrections are applied oldest first, so each field takes the value of the latest correction that set it
+export function applyCorrections<T extends CorrectablePunch>(
+  punches: T[],
+  corrections: PunchCorrectionLike[]
+): EffectivePunch<T>[] {
+  const byPunch = new Map<string, PunchCorrectionLike[]>();
+  for (const c of corrections) {
+    const list = byPunch.get(c.originalPunchId);
+    if (list) {
+      list.push(c);
+    } else {
+      byPunch.set(c.originalPunchId, [c]);
+    }
+  }
+
+  return punches.map((punch) => {
+    const list = byPunch.get(punch.id);
+    let timestamp = punch.timestamp;
+    let type = punch.type;
+    if (list) {
+      for (const c of [...list].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+        if (c.newTimestamp) timestamp = c.newTimestamp;
+        if (c.newType) type = c.newType;
+      }
+    }
+    return {
+      ...punch,
+      timestamp,
+      type: type as T["type"],
+      originalTimestamp: punch.timestamp,
+      originalType: punch.type,
+      corrected: !!list,
+    };
+  });
+}
+
+export function isWithin(punch: CorrectablePunch, startDate: Date, endDate: Date): boolean {
+  const at = punch.timestamp.getTime();
+  return at >= startDate.getTime() && at <= endDate.getTime();
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { evaluateGeofence, haversineMeters, isInsidePolygon } from "./geofence";
+
+const circleSite = { latitude: "40.416800", longitude: "-3.703800", radiusMeters: 100, polygon: null };
+
+const square: [number, number][] = [
+  [40.4160, -3.7050],
+  [40.4160, -3.7030],
+  [40.4175, -3.7030],
+  [40.4175, -3.7050],
+];
+
+describe("haversineMeters", () => {
+  it("calcule la distance entre deux points", () => {
+    const d = haversineMeters({ latitude: 40.4168, longitude: -3.7038 }, { latitude: 40.4258, longitude: -3.7038 });
+    expect(d).toBeGreaterThan(995);
+    expect(d).toBeLessThan(1005);
+  });
+});
+
+describe("evaluateGeofence", () => {
+  it("accepte un pointage dans le rayon du site", () => {
+    const result = evaluateGeofence({ latitude: 40.4172, longitude: -3.7038 }, circleSite);
+    expect(result).toEqual({ inside: true, distanceMeters: 0 });
+  });
+
+  it("mesure la distance au bord du cercle hors zone", () => {
+    const result = evaluateGeofence({ latitude: 40.4258, longitude: -3.7038 }, circleSite);
+    expect(result.inside).toBe(false);
+    expect(result.distanceMeters).toBeGreaterThan(895);
+    expect(result.distanceMeters).toBeLessThan(905);
+  });
+
+  it("tient compte de la précision GPS dans la limite autorisée", () => {
+    const point = { latitude: 40.4182, longitude: -3.7038 };
+    expect(evaluateGeofence(point, circleSite, 80).inside).toBe(true);
+    expect(evaluateGeofence(point, circleSite, 10).inside).toBe(false);
+  });
+
+  it("utilise le polygone quand il est défini", () => {
+    const site = { ...circleSite, polygon: square };
+    expect(isInsidePolygon({ latitude: 40.4170, longitude: -3.7040 }, square)).toBe(true);
+    expect(evaluateGeofence({ latitude: 40.4170, longitude: -3.7040 }, site)).toEqual({ inside: true, distanceMeters: 0 });
+
+    const outside = evaluateGeofence({ latitude: 40.4170, longitude: -3.7018 }, site);
+    expect(outside.inside).toBe(false);
+    expect(outside.distanceMeters).toBeGreaterThan(95);
+    expect(outside.distanceMeters).toBeLessThan(110);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Site } from "@shared/schema";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceResult {
+  inside: boolean;
+  // 0 when inside, otherwise metres to the closest point of the zone
+  distanceMeters: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// GPS accuracy is only trusted up to this radius when deciding whether a punch is inside the zone
+export const MAX_ACCURACY_TOLERANCE_METERS = 100;
+
+function toRad(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+export function haversineMeters(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// Local equirectangular projection around the origin; accurate enough at the scale of a work site
+function project(point: GeoPoint, origin: GeoPoint): { x: number; y: number } {
+  return {
+    x: toRad(point.longitude - origin.longitude) * Math.cos(toRad(origin.latitude)) * EARTH_RADIUS_METERS,
+    y: toRad(point.latitude - origin.latitude) * EARTH_RADIUS_METERS,
+  };
+}
+
+export function isInsidePolygon(point: GeoPoint, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    const crosses =
+      latI > point.latitude !== latJ > point.latitude &&
+      point.longitude < ((lonJ - lonI) * (point.latitude - latI)) / (latJ - latI) + lonI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function distanceToPolygonEdge(point: GeoPoint, polygon: [number, number][]): number {
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = project({ latitude: polygon[j][0], longitude: polygon[j][1] }, point);
+    const b = project({ latitude: polygon[i][0], longitude: polygon[i][1] }, point);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    min = Math.min(min, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return min;
+}
+
+export function evaluateGeofence(
+  point: GeoPoint,
+  site: Pick<Site, "latitude" | "longitude" | "radiusMeters" | "polygon">,
+  accuracyMeters: number = 0
+): GeofenceResult {
+  const tolerance = Math.min(Math.max(accuracyMeters, 0), MAX_ACCURACY_TOLERANCE_METERS);
+
+  let distance: number;
+  if (site.polygon && site.polygon.length >= 3) {
+    distance = isInsidePolygon(point, site.polygon) ? 0 : distanceToPolygonEdge(point, site.polygon);
+  } else {
+    const center = { latitude: parseFloat(site.latitude), longitude: parseFloat(site.longitude) };
+    distance = Math.max(0, haversineMeters(point, center) - site.radiusMeters);
+  }
+
+  return { inside: distance <= tolerance, distanceMeters: Math.round(distance) };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { GENESIS_HASH, computeChainHash, verifyChainSegment, auditChainFields } from "./hash-chain";
+
+function entry(id: string, details: string) {
+  return {
+    id,
+    action: "create",
+    actorId: "e1",
+    targetType: "punch",
+    targetId: `p-${id}`,
+    details,
+    ipAddress: "10.0.0.1",
+    createdAt: new Date("2026-03-02T08:00:00Z"),
+  };
+}
+
+function seal(entries: ReturnType<typeof entry>[]) {
+  let prevHash = GENESIS_HASH;
+  return entries.map((e, i) => {
+    const hash = computeChainHash(prevHash, auditChainFields(e));
+    const row = { ...e, chainSeq: i + 1, prevHash, hash };
+    prevHash = hash;
+    return row;
+  });
+}
+
+describe("computeChainHash", () => {
+  it("dépend du maillon précédent", () => {
+    const fields = auditChainFields(entry("a", "{}"));
+    expect(computeChainHash(GENESIS_HASH, fields)).not.toBe(computeChainHash("f".repeat(64), fields));
+  });
+});
+
+describe("verifyChainSegment", () => {
+  it("valide une chaîne intacte", () => {
+    const rows = seal([entry("a", "{}"), entry("b", "{}"), entry("c", "{}")]);
+    const result = verifyChainSegment(rows, auditChainFields);
+    expect(result.breaks).toEqual([]);
+    expect(result.lastHash).toBe(rows[2].hash);
+  });
+
+  it("signale une ligne modifiée", () => {
+    const rows = seal([entry("a", "{}"), entry("b", "{}")]);
+    rows[0].details = '{"edited":true}';
+    expect(verifyChainSegment(rows, auditChainFields).breaks).toEqual([{ id: "a", chainSeq: 1, kind: "altered" }]);
+  });
+
+  it("signale une ligne supprimée", () => {
+    const rows = seal([entry("a", "{}"), entry("b", "{}"), entry("c", "{}")]);
+    const result = verifyChainSegment([rows[0], rows[2]], auditChainFields);
+    expect(result.breaks).toEqual([{ id: "c", chainSeq: 3, kind: "gap" }]);
+  });
+
+  it("reprend la vérification depuis la page précédente", () => {
+    const rows = seal([entry("a", "{}"), entry("b", "{}")]);
+    const first = verifyChainSegment(rows.slice(0, 1), auditChainFields);
+    expect(verifyChainSegment(rows.slice(1), auditChainFields, first.lastHash).breaks).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export type ChainName = "punches" | "audit_log";
+
+// pg_advisory_xact_lock keys; one per chain so sealing punches never waits on audit entries
+export const CHAIN_LOCK_KEYS: Record<ChainName, number> = {
+  punches: 51000001,
+  audit_log: 51000002,
+};
+
+type ChainValue = string | number | boolean | Date | null | undefined;
+
+export interface ChainedRow {
+  id: string;
+  chainSeq: number | null;
+  prevHash: string | null;
+  hash: string | null;
+}
+
+export interface ChainBreak {
+  id: string;
+  chainSeq: number;
+  // altered: the row no longer matches its own hash; gap: it does not follow the row sealed before it
+  kind: "altered" | "gap";
+}
+
+export interface ChainHead {
+  chainSeq: number;
+  hash: string;
+}
+
+export interface ChainVerification {
+  chain: ChainName;
+  checked: number;
+  unsealed: number;
+  head: ChainHead | null;
+  breaks: ChainBreak[];
+}
+
+// Only fields that never change after insert are sealed; signatures, review flags and
+// foreign keys nulled by ON DELETE SET NULL are filled in or cleared later by design
+export function punchChainFields(p: {
+  id: string;
+  employeeId: string;
+  type: string;
+  timestamp: Date;
+  latitude: string | null;
+  longitude: string | null;
+  accuracy: string | null;
+  source: string;
+  isAuto: boolean | null;
+  manualReason: string | null;
+}): ChainValue[] {
+  return [p.id, p.employeeId, p.type, p.timestamp, p.latitude, p.longitude, p.accuracy, p.source, p.isAuto, p.manualReason];
+}
+
+export function auditChainFields(a: {
+  id: string;
+  action: string;
+  actorId: string;
+  targetType: string;
+  targetId: string;
+  details: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+}): ChainValue[] {
+  return [a.id, a.action, a.actorId, a.targetType, a.targetId, a.details, a.ipAddress, a.createdAt];
+}
+
+export function computeChainHash(prevHash: string, fields: ChainValue[]): string {
+  const canonical = JSON.stringify([
+    prevHash,
+    ...fields.map((v) => (v instanceof Date ? v.toISOString() : v ?? null)),
+  ]);
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+// Rows must be sorted by chainSeq; previousHash is the hash of the row sealed just before the first one
+export function verifyChainSegment<T extends ChainedRow>(
+  rows: T[],
+  fieldsOf: (row: T) => ChainValue[],
+  previousHash: string = GENESIS_HASH
+): { breaks: ChainBreak[]; lastHash: string } {
+  const breaks: ChainBreak[] = [];
+  let expectedPrev = previousHash;
+
+  for (const row of rows) {
+    if (row.chainSeq === null || row.hash === null || row.prevHash === null) continue;
+
+    if (row.prevHash !== expectedPrev) {
+      breaks.push({ id: row.id, chainSeq: row.chainSeq, kind: "gap" });
+    }
+    if (computeChainHash(row.prevHash, fieldsOf(row)) !== row.hash) {
+      breaks.push({ id: row.id, chainSeq: row.chainSeq, kind: "altered" });
+    }
+    expectedPrev = row.hash;
+  }
+
+  return { breaks, lastHash: expectedPrev };
+}
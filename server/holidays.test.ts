@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { appliesToSite, parseICalHolidays } from "./holidays";
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20260101",
+  "DTEND;VALUE=DATE:20260102",
+  "SUMMARY:Año Nuevo",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20260502",
+  "SUMMARY:Fiesta de la Comunidad",
+  "  de Madrid",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20260810",
+  "DTEND;VALUE=DATE:20260813",
+  "SUMMARY:Cierre del centro",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("parseICalHolidays", () => {
+  it("extrait les jours fériés d'un calendrier iCal", () => {
+    const result = parseICalHolidays(ICS);
+    expect(result[0]).toEqual({ date: "2026-01-01", name: "Año Nuevo" });
+  });
+
+  it("gère les lignes repliées", () => {
+    const result = parseICalHolidays(ICS);
+    expect(result.find(h => h.date === "2026-05-02")?.name).toBe("Fiesta de la Comunidad de Madrid");
+  });
+
+  it("développe les événements sur plusieurs jours (DTEND exclusif)", () => {
+    const result = parseICalHolidays(ICS).filter(h => h.name === "Cierre del centro");
+    expect(result.map(h => h.date)).toEqual(["2026-08-10", "2026-08-11", "2026-08-12"]);
+  });
+
+  it("convertit les horodatages UTC en date espagnole", () => {
+    const ics = "BEGIN:VEVENT\nDTSTART:20261011T230000Z\nSUMMARY:Fiesta Nacional\nEND:VEVENT";
+    expect(parseICalHolidays(ics)).toEqual([{ date: "2026-10-12", name: "Fiesta Nacional" }]);
+  });
+
+  it("ignore les événements sans date ou sans titre", () => {
+    const ics = "BEGIN:VEVENT\nSUMMARY:Sin fecha\nEND:VEVENT\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20260101\nEND:VEVENT";
+    expect(parseICalHolidays(ics)).toEqual([]);
+  });
+});
+
+describe("appliesToSite", () => {
+  it("applique les fêtes sans centre à tout le monde", () => {
+    expect(appliesToSite({ siteId: null }, "s1")).toBe(true);
+    expect(appliesToSite({ siteId: null }, null)).toBe(true);
+  });
+
+  it("réserve une fête locale aux employés de son centre", () => {
+    expect(appliesToSite({ siteId: "s1" }, "s1")).toBe(true);
+    expect(appliesToSite({ siteId: "s1" }, "s2")).toBe(false);
+    expect(appliesToSite({ siteId: "s1" }, null)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { toSpainDateKey } from "./timezone";
+
+export interface ParsedHoliday {
+  date: string;
+  name: string;
+}
+
+const MAX_EVENT_DAYS = 31;
+
+// A holiday without a site is observed everywhere; a site's own holidays only by employees of that site
+export function appliesToSite(holiday: { siteId?: string | null }, siteId: string | null | undefined): boolean {
+  return !holiday.siteId || holiday.siteId === siteId;
+}
+
+function unfoldLines(ics: string): string[] {
+  return ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+function parseICalDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, m, d, time, hh, mm, ss, utc] = match;
+  if (time && utc) {
+    return toSpainDateKey(new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)));
+  }
+  return `${y}-${m}-${d}`;
+}
+
+function addDays(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// DTEND is exclusive for all-day events, so a single holiday has DTEND = DTSTART + 1
+export function parseICalHolidays(ics: string): ParsedHoliday[] {
+  const results = new Map<string, ParsedHoliday>();
+  let current: { start?: string; end?: string; allDayEnd?: boolean; name?: string } | null = null;
+
+  for (const line of unfoldLines(ics)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).toUpperCase();
+    const value = line.slice(separator + 1).trim();
+    const property = key.split(";")[0];
+
+    if (property === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      current = {};
+    } else if (property === "END" && value.toUpperCase() === "VEVENT") {
+      if (current?.start && current.name) {
+        let last = current.start;
+        if (current.end && current.end > current.start) {
+          last = current.allDayEnd ? addDays(current.end, -1) : current.end;
+        }
+        let date = current.start;
+        for (let i = 0; i < MAX_EVENT_DAYS && date <= last; i++) {
+          results.set(`${date}|${current.name}`, { date, name: current.name });
+          date = addDays(date, 1);
+        }
+      }
+      current = null;
+    } else if (current) {
+      if (property === "DTSTART") {
+        current.start = parseICalDate(value) ?? undefined;
+      } else if (property === "DTEND") {
+        current.end = parseICalDate(value) ?? undefined;
+        current.allDayEnd = /^\d{8}$/.test(value);
+      } else if (property === "SUMMARY") {
+        current.name = unescapeText(value) || undefined;
+      }
+    }
+  }
+
+  return Array.from(results.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
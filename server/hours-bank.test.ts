@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { addMonthsToDateKey, computeHoursBank, resolveCreditExpiry } from "./hours-bank";
+
+describe("addMonthsToDateKey", () => {
+  it("ajoute des mois en restant sur le dernier jour du mois si nécessaire", () => {
+    expect(addMonthsToDateKey("2026-03-15", 4)).toBe("2026-07-15");
+    expect(addMonthsToDateKey("2026-10-31", 4)).toBe("2027-02-28");
+  });
+
+  it("ne fixe pas d'expiration si la durée est nulle", () => {
+    expect(resolveCreditExpiry("2026-03-15", 0)).toBeNull();
+  });
+});
+
+describe("computeHoursBank", () => {
+  it("cumule les crédits et déduit les repos compensatoires", () => {
+    const summary = computeHoursBank([
+      { minutes: 120, date: "2026-03-02", expiresOn: null },
+      { minutes: 60, date: "2026-03-05", expiresOn: null },
+      { minutes: -90, date: "2026-03-10", expiresOn: null },
+    ], "2026-03-20");
+    expect(summary.creditedMinutes).toBe(180);
+    expect(summary.usedMinutes).toBe(90);
+    expect(summary.balanceMinutes).toBe(90);
+    expect(summary.expiredMinutes).toBe(0);
+  });
+
+  it("fait expirer le solde non utilisé après la date limite", () => {
+    const summary = computeHoursBank([
+      { minutes: 120, date: "2026-01-10", expiresOn: "2026-05-10" },
+      { minutes: -30, date: "2026-02-01", expiresOn: null },
+      { minutes: 60, date: "2026-04-01", expiresOn: "2026-08-01" },
+    ], "2026-06-01");
+    expect(summary.expiredMinutes).toBe(90);
+    expect(summary.balanceMinutes).toBe(60);
+  });
+
+  it("consomme d'abord les crédits les plus proches de l'expiration", () => {
+    const summary = computeHoursBank([
+      { minutes: 60, date: "2026-04-01", expiresOn: "2026-08-01" },
+      { minutes: 60, date: "2026-01-10", expiresOn: "2026-05-10" },
+      { minutes: -60, date: "2026-04-15", expiresOn: null },
+    ], "2026-06-01");
+    expect(summary.expiredMinutes).toBe(0);
+    expect(summary.balanceMinutes).toBe(60);
+  });
+
+  it("signale les crédits qui expirent bientôt", () => {
+    const summary = computeHoursBank([
+      { minutes: 45, date: "2026-02-10", expiresOn: "2026-06-10" },
+    ], "2026-06-01");
+    expect(summary.expiringSoon).toEqual([{ expiresOn: "2026-06-10", minutes: 45 }]);
+  });
+
+  it("impute un ajustement négatif sur les crédits suivants", () => {
+    const summary = computeHoursBank([
+      { minutes: -30, date: "2026-01-05", expiresOn: null },
+      { minutes: 60, date: "2026-01-10", expiresOn: "2026-05-10" },
+    ], "2026-06-01");
+    expect(summary.expiredMinutes).toBe(30);
+    expect(summary.balanceMinutes).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+export interface HoursBankSummary {
+  balanceMinutes: number;
+  creditedMinutes: number;
+  usedMinutes: number;
+  expiredMinutes: number;
+  expiringSoon: { expiresOn: string; minutes: number }[];
+}
+
+interface LedgerEntry {
+  minutes: number;
+  date: string;
+  expiresOn: string | null;
+}
+
+interface Lot {
+  expiresOn: string | null;
+  remaining: number;
+}
+
+export function addMonthsToDateKey(dateKey: string, months: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + months, Math.min(d, lastDay))).toISOString().slice(0, 10);
+}
+
+// Spanish law requires overtime compensated with rest to be taken within four months
+export function resolveCreditExpiry(dateKey: string, expiryMonths: number): string | null {
+  return expiryMonths > 0 ? addMonthsToDateKey(dateKey, expiryMonths) : null;
+}
+
+function expireLots(lots: Lot[], beforeKey: string): number {
+  let expired = 0;
+  for (const lot of lots) {
+    if (lot.expiresOn !== null && lot.expiresOn < beforeKey && lot.remaining > 0) {
+      expired += lot.remaining;
+      lot.remaining = 0;
+    }
+  }
+  return expired;
+}
+
+// Debits consume the credits closest to expiry first; whatever is left unused past its expiry date is lost
+export function computeHoursBank(entries: LedgerEntry[], todayKey: string, warnDays: number = 30): HoursBankSummary {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date) || b.minutes - a.minutes);
+  const lots: Lot[] = [];
+  let creditedMinutes = 0;
+  let usedMinutes = 0;
+  let expiredMinutes = 0;
+  let deficit = 0;
+
+  for (const entry of sorted) {
+    expiredMinutes += expireLots(lots, entry.date);
+
+    if (entry.minutes > 0) {
+      creditedMinutes += entry.minutes;
+      const covered = Math.min(deficit, entry.minutes);
+      deficit -= covered;
+      lots.push({ expiresOn: entry.expiresOn, remaining: entry.minutes - covered });
+      continue;
+    }
+
+    let toConsume = -entry.minutes;
+    usedMinutes += toConsume;
+    const byExpiry = lots
+      .filter(l => l.remaining > 0)
+      .sort((a, b) => (a.expiresOn ?? "9999-12-31").localeCompare(b.expiresOn ?? "9999-12-31"));
+    for (const lot of byExpiry) {
+      const taken = Math.min(lot.remaining, toConsume);
+      lot.remaining -= taken;
+      toConsume -= taken;
+      if (toConsume === 0) break;
+    }
+    deficit += toConsume;
+  }
+
+  expiredMinutes += expireLots(lots, todayKey);
+
+  const warnUntil = new Date(Date.UTC(+todayKey.slice(0, 4), +todayKey.slice(5, 7) - 1, +todayKey.slice(8, 10) + warnDays))
+    .toISOString().slice(0, 10);
+  const expiringSoon = lots
+    .filter(l => l.remaining > 0 && l.expiresOn !== null && l.expiresOn <= warnUntil)
+    .map(l => ({ expiresOn: l.expiresOn as string, minutes: l.remaining }))
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+
+  return {
+    balanceMinutes: lots.reduce((sum, l) => sum + l.remaining, 0) - deficit,
+    creditedMinutes,
+    usedMinutes,
+    expiredMinutes,
+    expiringSoon,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { decideIdempotentRetry, fingerprintRequest, idempotencyExpiry, isReplayableStatus, isValidIdempotencyKey, resolveIdempotencyPolicy } from "./idempotency";
+
+const now = new Date("2026-03-02T08:00:00Z");
+const later = new Date("2026-03-03T08:00:00Z");
+
+describe("resolveIdempotencyPolicy", () => {
+  it("conserve les réponses 24 h par défaut", () => {
+    expect(resolveIdempotencyPolicy({})).toEqual({ ttlHours: 24 });
+    expect(resolveIdempotencyPolicy({ IDEMPOTENCY_TTL_HOURS: "0" })).toEqual({ ttlHours: 24 });
+    expect(idempotencyExpiry(now, { ttlHours: 24 })).toEqual(later);
+  });
+});
+
+describe("isValidIdempotencyKey", () => {
+  it("accepte un UUID et refuse une clé vide ou avec espaces", () => {
+    expect(isValidIdempotencyKey("3f1c2a9e-8b7d-4c1e-9a2b-1f0e3d4c5b6a")).toBe(true);
+    expect(isValidIdempotencyKey("")).toBe(false);
+    expect(isValidIdempotencyKey("une clé")).toBe(false);
+  });
+});
+
+describe("decideIdempotentRetry", () => {
+  const hash = fingerprintRequest("POST", "/api/punches", { type: "IN" });
+
+  it("rejoue la réponse d'une requête identique terminée", () => {
+    expect(decideIdempotentRetry({ requestHash: hash, statusCode: 201, expiresAt: later }, hash, now)).toBe("replay");
+  });
+
+  it("signale une requête encore en cours", () => {
+    expect(decideIdempotentRetry({ requestHash: hash, statusCode: null, expiresAt: later }, hash, now)).toBe("in_progress");
+  });
+
+  it("refuse une clé réutilisée avec un autre corps", () => {
+    const other = fingerprintRequest("POST", "/api/punches", { type: "OUT" });
+    expect(decideIdempotentRetry({ requestHash: hash, statusCode: 201, expiresAt: later }, other, now)).toBe("mismatch");
+  });
+
+  it("ignore une clé expirée", () => {
+    expect(decideIdempotentRetry({ requestHash: hash, statusCode: 201, expiresAt: now }, hash, now)).toBe("expired");
+  });
+});
+
+describe("isReplayableStatus", () => {
+  it("ne conserve pas les erreurs serveur", () => {
+    expect(isReplayableStatus(400)).toBe(true);
+    expect(isReplayableStatus(503)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { createHash } from "crypto";
+import type { IdempotencyKey } from "@shared/schema";
+
+export interface IdempotencyPolicy {
+  ttlHours: number;
+}
+
+export type IdempotencyDecision = "replay" | "in_progress" | "mismatch" | "expired";
+
+export function resolveIdempotencyPolicy(env: NodeJS.ProcessEnv = process.env): IdempotencyPolicy {
+  const hours = parseInt(env.IDEMPOTENCY_TTL_HOURS || "24", 10);
+  return { ttlHours: Number.isFinite(hours) && hours > 0 ? hours : 24 };
+}
+
+export function idempotencyExpiry(now: Date, policy: IdempotencyPolicy): Date {
+  return new Date(now.getTime() + policy.ttlHours * 60 * 60 * 1000);
+}
+
+// Clients send a UUID, but any short printable token is accepted so other integrations can bring their own
+export function isValidIdempotencyKey(key: string): boolean {
+  return /^[\x21-\x7e]{1,255}$/.test(key);
+}
+
+export function fingerprintRequest(method: string, path: string, body: unknown): string {
+  return createHash("sha256")
+    .update(`${method.toUpperCase()} ${path}\n${JSON.stringify(body ?? null)}`)
+    .digest("hex");
+}
+
+// A key reused with a different body is a client bug, not a retry, so it is refused rather than replayed
+export function decideIdempotentRetry(
+  stored: Pick<IdempotencyKey, "requestHash" | "statusCode" | "expiresAt">,
+  requestHash: string,
+  now: Date
+): IdempotencyDecision {
+  if (stored.expiresAt <= now) {
+    return "expired";
+  }
+  if (stored.requestHash !== requestHash) {
+    return "mismatch";
+  }
+  return stored.statusCode === null ? "in_progress" : "replay";
+}
+
+// Server errors are not stored: the punch was not created, so the retry must be allowed to try again
+export function isReplayableStatus(statusCode: number): boolean {
+  return statusCode < 500;
+}
@@ -9,14 +9,33 @@ import cors from "cors";
 import cookieParser from "cookie-parser";
 import { logger, logInfo, logError } from "./logger";
 import { ApiError } from "./errors";
-import { initSpaces, isSpacesConfigured } from "./spaces";
-import { verifyTimezoneSupport } from "./timezone";
+import { initSpaces, isSpacesConfigured, deleteFile } from "./spaces";
+import { verifyTimezoneSupport, formatDateES, formatTimeES } from "./timezone";
+import { resolveClockoutPolicy, detectForgottenClockout } from "./clockout-policy";
+import { resolveScheduledEnd, resolveExpectedDailyMinutes } from "./schedules";
+import { toBreakRules, breakAutoCloseAt } from "./break-policies";
+import { resolveEscalationPolicy, isEscalated, notificationRecipients } from "./approval-routing";
+import { resolveRetentionPolicy, retentionCutoff, anonymizedIdentity } from "./retention";
+import { isMailerConfigured } from "./mailer";
+import { previousMonth, periodKey, isSubscriptionDue } from "./report-schedule";
+import { deliverReportSubscription } from "./reports";
+import { publishPunchEvent } from "./live-events";
+import { resolveKioskHealthPolicy, isOfflineAlertDue } from "./kiosk-health";
+import { getEmployeePermissions } from "./auth";
 import { storage } from "./storage";
+import type { Employee } from "@shared/schema";
 import { pool } from "./db";
 
 let pauseCronStarted = false;
+let clockoutCronStarted = false;
+let escalationCronStarted = false;
+let retentionCronStarted = false;
+let reportSubscriptionCronStarted = false;
 let monitorSyncStarted = false;
 let noncePurgeStarted = false;
+let idempotencyPurgeStarted = false;
+let kioskPairingPurgeStarted = false;
+let kioskHealthCronStarted = false;
 
 const tzCheck = verifyTimezoneSupport();
 if (tzCheck.ok) {
@@ -142,8 +161,8 @@ app.use(
   cors({
     origin: corsOrigin,
     credentials: true,
-    allowedHeaders: ["Content-Type", "Authorization", "X-KIOSK-TOKEN"],
-    exposedHeaders: ["Content-Disposition"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-KIOSK-TOKEN", "Idempotency-Key"],
+    exposedHeaders: ["Content-Disposition", "Idempotent-Replayed"],
   })
 );
 
@@ -216,7 +235,6 @@ export const cookieOptions = {
 
   if (!pauseCronStarted) {
     pauseCronStarted = true;
-    const PAUSE_DURATION_MS = 20 * 60 * 1000;
 
     setInterval(async () => {
       try {
@@ -225,19 +243,20 @@ export const cookieOptions = {
         let closed = 0;
 
         for (const brk of openBreaks) {
-          const startTime = new Date(brk.timestamp).getTime();
-          if (now >= startTime + PAUSE_DURATION_MS) {
+          const rules = toBreakRules(await storage.getBreakPolicyForEmployee(brk.employeeId));
+          const endTimestamp = breakAutoCloseAt(new Date(brk.timestamp), rules);
+          if (endTimestamp && now >= endTimestamp.getTime()) {
             const lastPunch = await storage.getLastPunchByEmployee(brk.employeeId);
             if (!lastPunch || lastPunch.type !== "BREAK_START") {
               continue;
             }
 
-            const endTimestamp = new Date(startTime + PAUSE_DURATION_MS);
             const punch = await storage.createPunch({
               employeeId: brk.employeeId,
               type: "BREAK_END",
               timestamp: endTimestamp,
               source: "system",
+              siteId: brk.siteId,
               isAuto: true,
             });
 
@@ -246,9 +265,12 @@ export const cookieOptions = {
               actorId: brk.employeeId,
               targetType: "punch",
               targetId: punch.id,
-              details: JSON.stringify({ type: "BREAK_END", mode: "auto", startId: brk.id, durationMin: 20 }),
+              details: JSON.stringify({ type: "BREAK_END", mode: "auto", startId: brk.id, durationMin: rules.durationMinutes }),
             });
 
+            const employee = await storage.getEmployee(brk.employeeId);
+            publishPunchEvent(punch, { siteId: employee?.siteId ?? null });
+
             closed++;
           }
         }
@@ -264,6 +286,258 @@ export const cookieOptions = {
     logInfo("[PAUSE-CRON] Cron de pausas iniciado (intervalo: 60s)");
   }
 
+  const clockoutPolicy = resolveClockoutPolicy();
+  if (!clockoutCronStarted && clockoutPolicy.enabled) {
+    clockoutCronStarted = true;
+    const CLOCKOUT_INTERVAL_MS = 5 * 60 * 1000;
+    const fallbackDailyMinutes = parseInt(process.env.EXPECTED_DAILY_MINUTES || "480", 10);
+
+    setInterval(async () => {
+      try {
+        const openShifts = await storage.getOpenShifts();
+        const now = new Date();
+        let closed = 0;
+        let staff: Employee[] | undefined;
+
+        for (const inPunch of openShifts) {
+          const inAt = new Date(inPunch.timestamp);
+          const [schedule, lastPunch] = await Promise.all([
+            storage.getWorkScheduleByEmployee(inPunch.employeeId),
+            storage.getLastPunchByEmployee(inPunch.employeeId),
+          ]);
+          if (!lastPunch || lastPunch.type === "OUT") {
+            continue;
+          }
+
+          const decision = detectForgottenClockout({
+            inAt,
+            lastPunchAt: new Date(lastPunch.timestamp),
+            scheduledEnd: resolveScheduledEnd(schedule, inAt),
+            expectedMinutes: resolveExpectedDailyMinutes(schedule, inAt, fallbackDailyMinutes),
+          }, now, clockoutPolicy);
+          if (!decision) {
+            continue;
+          }
+
+          const punch = await storage.createPunch({
+            employeeId: inPunch.employeeId,
+            type: "OUT",
+            timestamp: decision.closeAt,
+            source: "system",
+            siteId: inPunch.siteId,
+            isAuto: true,
+            needsReview: true,
+          });
+
+          const employee = await storage.getEmployee(inPunch.employeeId);
+          const employeeName = employee ? `${employee.firstName} ${employee.lastName}` : inPunch.employeeId;
+          publishPunchEvent(punch, { siteId: employee?.siteId ?? null });
+
+          await storage.createAuditLog({
+            action: "auto_clockout",
+            actorId: inPunch.employeeId,
+            targetType: "punch",
+            targetId: punch.id,
+            details: JSON.stringify({
+              inPunchId: inPunch.id,
+              reason: decision.reason,
+              closeAt: decision.closeAt.toISOString(),
+              openMinutes: Math.floor((now.getTime() - inAt.getTime()) / 60000),
+              policy: clockoutPolicy,
+            }),
+          });
+
+          staff ??= await storage.getAllEmployees();
+          const recipients = notificationRecipients({ supervisorId: employee?.supervisorId ?? null, siteId: employee?.siteId ?? null }, staff);
+          for (const recipientId of recipients) {
+            await storage.createNotification({
+              recipientId,
+              kind: "auto_clockout",
+              title: "Salida automática pendiente de revisión",
+              message: `${employeeName} no fichó la salida del ${formatDateES(inAt)}. Se ha registrado una salida a las ${formatTimeES(decision.closeAt)}.`,
+              targetType: "punch",
+              targetId: punch.id,
+            });
+          }
+
+          closed++;
+        }
+
+        if (closed > 0) {
+          logInfo(`[CLOCKOUT-CRON] Auto-closed ${closed} shifts`);
+        }
+      } catch (error) {
+        logError("[CLOCKOUT-CRON] Error", error);
+      }
+    }, CLOCKOUT_INTERVAL_MS);
+
+    logInfo("[CLOCKOUT-CRON] Cron de salidas olvidadas iniciado (intervalo: 5min)", { ...clockoutPolicy });
+  }
+
+  const escalationPolicy = resolveEscalationPolicy();
+  if (!escalationCronStarted && escalationPolicy.enabled) {
+    escalationCronStarted = true;
+    const ESCALATION_INTERVAL_MS = 15 * 60 * 1000;
+
+    setInterval(async () => {
+      try {
+        const now = new Date();
+        const [pendingOvertime, flaggedPunches, pendingCorrections, allEmployees] = await Promise.all([
+          storage.getOvertimeRequests({ status: "pending", limit: 1000 }),
+          storage.getPunchesNeedingReview(),
+          storage.getCorrectionRequests({ status: "pending", limit: 1000 }),
+          storage.getAllEmployees(),
+        ]);
+        const admins = allEmployees.filter(e => e.role === "admin" && e.isActive);
+
+        // Only items routed to a supervisor escalate: unassigned ones are already visible to everyone
+        const overdue = [
+          ...pendingOvertime
+            .filter(r => r.employee.supervisorId && isEscalated(r.createdAt, now, escalationPolicy))
+            .map(r => ({
+              kind: "overtime_escalated",
+              targetType: "overtime_request",
+              targetId: r.id,
+              message: `La solicitud de horas extra de ${r.employee.firstName} ${r.employee.lastName} del ${formatDateES(r.date)} sigue pendiente.`,
+            })),
+          ...flaggedPunches
+            .filter(p => p.employee.supervisorId && !p.reviewed && !p.corrected && isEscalated(p.timestamp, now, escalationPolicy))
+            .map(p => ({
+              kind: "review_escalated",
+              targetType: "punch",
+              targetId: p.id,
+              message: `El fichaje de ${p.employee.firstName} ${p.employee.lastName} del ${formatDateES(p.timestamp)} a las ${formatTimeES(p.timestamp)} sigue sin revisar.`,
+            })),
+          ...pendingCorrections
+            .filter(r => r.employee.supervisorId && isEscalated(r.createdAt, now, escalationPolicy))
+            .map(r => ({
+              kind: "correction_request_escalated",
+              targetType: "correction_request",
+              targetId: r.id,
+              message: `La solicitud de corrección de ${r.employee.firstName} ${r.employee.lastName} del ${formatDateES(r.createdAt)} sigue pendiente.`,
+            })),
+        ];
+
+        let escalated = 0;
+        for (const item of overdue) {
+          if (await storage.getNotificationByTarget(item.kind, item.targetId)) {
+            continue;
+          }
+          for (const admin of admins) {
+            await storage.createNotification({
+              recipientId: admin.id,
+              kind: item.kind,
+              title: "Aprobación escalada",
+              message: item.message,
+              targetType: item.targetType,
+              targetId: item.targetId,
+            });
+          }
+          escalated++;
+        }
+
+        if (escalated > 0) {
+          logInfo(`[ESCALATION-CRON] Escalated ${escalated} pending approvals`);
+        }
+      } catch (error) {
+        logError("[ESCALATION-CRON] Error", error);
+      }
+    }, ESCALATION_INTERVAL_MS);
+
+    logInfo("[ESCALATION-CRON] Cron de escalado iniciado (intervalo: 15min)", { ...escalationPolicy });
+  }
+
+  const retentionPolicy = resolveRetentionPolicy();
+  if (!retentionCronStarted && retentionPolicy.anonymizeEnabled) {
+    retentionCronStarted = true;
+    const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+    const RETENTION_BATCH = 500;
+
+    const runRetention = async () => {
+      try {
+        const cutoff = retentionCutoff(new Date(), retentionPolicy);
+
+        let anonymizedPunches = 0;
+        let batch: { id: string; signatureUrl: string | null }[];
+        do {
+          batch = await storage.anonymizeExpiredPunches(cutoff, RETENTION_BATCH);
+          anonymizedPunches += batch.length;
+          for (const punch of batch) {
+            if (!punch.signatureUrl || !isSpacesConfigured()) continue;
+            // The row no longer points at the image, so a failed delete only leaves an orphan object
+            await deleteFile(punch.signatureUrl).catch((error) => logError(`[RETENTION-CRON] Firma no eliminada: ${punch.signatureUrl}`, error));
+          }
+        } while (batch.length === RETENTION_BATCH);
+
+        const dueEmployees = await storage.getEmployeesDueForAnonymization(cutoff);
+        for (const emp of dueEmployees) {
+          const anonymized = await storage.anonymizeEmployee(emp.id, anonymizedIdentity(emp.id));
+          if (!anonymized) continue;
+
+          await storage.createAuditLog({
+            action: "anonymize",
+            actorId: emp.id,
+            targetType: "employee",
+            targetId: emp.id,
+            details: JSON.stringify({ mode: "auto", cutoff: cutoff.toISOString(), retentionYears: retentionPolicy.years }),
+          });
+        }
+
+        if (anonymizedPunches > 0 || dueEmployees.length > 0) {
+          logInfo(`[RETENTION-CRON] Anonymized ${anonymizedPunches} punches and ${dueEmployees.length} employees`, { cutoff: cutoff.toISOString() });
+        }
+      } catch (error) {
+        logError("[RETENTION-CRON] Error", error);
+      }
+    };
+
+    setTimeout(runRetention, 60_000);
+    setInterval(runRetention, RETENTION_INTERVAL_MS);
+    logInfo("[RETENTION-CRON] Cron de anonimización iniciado (intervalo: 24h)", { ...retentionPolicy });
+  }
+
+  if (!reportSubscriptionCronStarted && isMailerConfigured()) {
+    reportSubscriptionCronStarted = true;
+    const REPORT_SUBSCRIPTION_INTERVAL_MS = 60 * 60 * 1000;
+
+    const runReportSubscriptions = async () => {
+      try {
+        const now = new Date();
+        const period = previousMonth(now);
+        const due = (await storage.getReportSubscriptions({ enabledOnly: true })).filter(s => isSubscriptionDue(s, now));
+
+        let sent = 0;
+        for (const subscription of due) {
+          try {
+            await deliverReportSubscription(subscription, period, subscription.createdById, "schedule");
+            await storage.recordReportSubscriptionRun(subscription.id, { period: periodKey(period), error: null });
+            sent++;
+          } catch (error) {
+            // Recorded on the subscription for the admin to see; the next run retries the same month
+            const message = error instanceof Error ? error.message : String(error);
+            await storage.recordReportSubscriptionRun(subscription.id, { period: periodKey(period), error: message });
+            logError(`[REPORT-SUBSCRIPTION-CRON] Delivery failed for ${subscription.id}`, error);
+          }
+        }
+
+        if (sent > 0) {
+          logInfo(`[REPORT-SUBSCRIPTION-CRON] Sent ${sent} scheduled reports`, { period: periodKey(period) });
+        }
+      } catch (error) {
+        logError("[REPORT-SUBSCRIPTION-CRON] Error", error);
+      }
+    };
+
+    setTimeout(runReportSubscriptions, 60_000);
+    setInterval(runReportSubscriptions, REPORT_SUBSCRIPTION_INTERVAL_MS);
+    logInfo("[REPORT-SUBSCRIPTION-CRON] Cron de envío de informes iniciado (intervalo: 1h)");
+  }
+
+  // Seals rows written before the hash chain existed, then anything a crash left unsealed
+  storage.sealHashChains()
+    .then(() => logInfo("[HASH-CHAIN] Cadenas de integridad selladas"))
+    .catch((error) => logError("[HASH-CHAIN] Error al sellar las cadenas", error));
+
   if (!monitorSyncStarted) {
     monitorSyncStarted = true;
     const { syncMonitorsToEmployees, getLastSyncStatus, setLastSyncStatus } = await import("./monitor-sync");
@@ -305,6 +579,114 @@ export const cookieOptions = {
     logInfo("[NONCE-PURGE] Purge de nonces iniciada (intervalo: 1h)");
   }
 
+  if (!idempotencyPurgeStarted) {
+    idempotencyPurgeStarted = true;
+    const IDEMPOTENCY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+    const purgeExpiredIdempotencyKeys = async () => {
+      try {
+        const result = await pool.query(
+          `DELETE FROM idempotency_keys WHERE expires_at < NOW()`
+        );
+        if (result.rowCount && result.rowCount > 0) {
+          logInfo(`[IDEMPOTENCY-PURGE] Purged ${result.rowCount} expired idempotency keys`);
+        }
+      } catch (error) {
+        logError("[IDEMPOTENCY-PURGE] Error", error);
+      }
+    };
+
+    purgeExpiredIdempotencyKeys();
+    setInterval(purgeExpiredIdempotencyKeys, IDEMPOTENCY_PURGE_INTERVAL_MS);
+    logInfo("[IDEMPOTENCY-PURGE] Purge de claves de idempotencia iniciada (intervalo: 1h)");
+  }
+
+  if (!kioskPairingPurgeStarted) {
+    kioskPairingPurgeStarted = true;
+    const KIOSK_PAIRING_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+    // Delivered pairings are kept as the trace of who approved each device; only codes nobody approved are dropped
+    const purgeExpiredKioskPairings = async () => {
+      try {
+        const result = await pool.query(
+          `DELETE FROM kiosk_pairings WHERE device_id IS NULL AND expires_at < NOW()`
+        );
+        if (result.rowCount && result.rowCount > 0) {
+          logInfo(`[KIOSK-PAIRING-PURGE] Purged ${result.rowCount} expired pairing codes`);
+        }
+      } catch (error) {
+        logError("[KIOSK-PAIRING-PURGE] Error", error);
+      }
+    };
+
+    purgeExpiredKioskPairings();
+    setInterval(purgeExpiredKioskPairings, KIOSK_PAIRING_PURGE_INTERVAL_MS);
+    logInfo("[KIOSK-PAIRING-PURGE] Purge de códigos de vinculación iniciada (intervalo: 1h)");
+  }
+
+  if (!kioskHealthCronStarted) {
+    kioskHealthCronStarted = true;
+    const kioskHealthPolicy = resolveKioskHealthPolicy();
+    const KIOSK_HEALTH_INTERVAL_MS = 5 * 60 * 1000;
+    const KIOSK_HEARTBEAT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+    setInterval(async () => {
+      try {
+        const now = new Date();
+        const silent = (await storage.getAllKioskDevices()).filter(d => isOfflineAlertDue(d, now, kioskHealthPolicy));
+        if (silent.length === 0) return;
+
+        // Whoever can manage kiosks is told; managers only about kiosks of their own site
+        const staff = (await storage.getAllEmployees()).filter(e => e.isActive && e.role !== "employee");
+        const recipients = [];
+        for (const e of staff) {
+          if ((await getEmployeePermissions(e)).includes("kiosk.manage")) {
+            recipients.push(e);
+          }
+        }
+
+        for (const device of silent) {
+          for (const recipient of recipients) {
+            if (recipient.role !== "admin" && device.siteId && recipient.siteId && recipient.siteId !== device.siteId) {
+              continue;
+            }
+            await storage.createNotification({
+              recipientId: recipient.id,
+              kind: "kiosk_offline",
+              title: "Quiosco sin conexión",
+              message: `El quiosco "${device.name}" no da señales desde el ${formatDateES(device.lastHeartbeatAt!)} a las ${formatTimeES(device.lastHeartbeatAt!)}.`,
+              targetType: "kiosk_device",
+              targetId: device.id,
+            });
+          }
+          await storage.markKioskOfflineAlerted(device.id);
+        }
+
+        logInfo(`[KIOSK-HEALTH] ${silent.length} kiosks reported offline`, { deviceIds: silent.map(d => d.id) });
+      } catch (error) {
+        logError("[KIOSK-HEALTH] Error", error);
+      }
+    }, KIOSK_HEALTH_INTERVAL_MS);
+
+    const purgeOldKioskHeartbeats = async () => {
+      try {
+        const result = await pool.query(
+          `DELETE FROM kiosk_heartbeats WHERE created_at < NOW() - make_interval(days => $1)`,
+          [kioskHealthPolicy.retentionDays]
+        );
+        if (result.rowCount && result.rowCount > 0) {
+          logInfo(`[KIOSK-HEARTBEAT-PURGE] Purged ${result.rowCount} old kiosk heartbeats`);
+        }
+      } catch (error) {
+        logError("[KIOSK-HEARTBEAT-PURGE] Error", error);
+      }
+    };
+
+    purgeOldKioskHeartbeats();
+    setInterval(purgeOldKioskHeartbeats, KIOSK_HEARTBEAT_PURGE_INTERVAL_MS);
+    logInfo("[KIOSK-HEALTH] Cron de estado de quioscos iniciado (intervalo: 5min)", { ...kioskHealthPolicy });
+  }
+
   const port = parseInt(process.env.PORT || "5000", 10);
   httpServer.listen(
     {
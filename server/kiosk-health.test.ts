@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { clockSkewSeconds, isOfflineAlertDue, kioskHealthOf, resolveKioskHealthPolicy } from "./kiosk-health";
+
+const now = new Date("2026-03-02T08:00:00Z");
+const policy = { offlineAfterMinutes: 15, retentionDays: 7, maxClockSkewMinutes: 5 };
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+const reading = { batteryLevel: 80, batteryCharging: false, clockSkewSeconds: 2, pendingPunches: 0 };
+
+describe("resolveKioskHealthPolicy", () => {
+  it("considère un quiosque hors ligne après 15 minutes par défaut", () => {
+    expect(resolveKioskHealthPolicy({})).toEqual(policy);
+    expect(resolveKioskHealthPolicy({ KIOSK_OFFLINE_AFTER_MINUTES: "0", KIOSK_OFFLINE_MAX_DRIFT_MINUTES: "2" })).toEqual({ ...policy, maxClockSkewMinutes: 2 });
+  });
+});
+
+describe("clockSkewSeconds", () => {
+  it("est positif quand l'horloge de la tablette avance", () => {
+    expect(clockSkewSeconds(new Date("2026-03-02T08:01:30Z"), now)).toBe(90);
+    expect(clockSkewSeconds(new Date("2026-03-02T07:59:00Z"), now)).toBe(-60);
+  });
+});
+
+describe("kioskHealthOf", () => {
+  it("distingue en ligne, hors ligne et jamais vu", () => {
+    expect(kioskHealthOf({ lastHeartbeatAt: minutesAgo(1) }, reading, now, policy)).toEqual({ status: "online", silentMinutes: 1, warnings: [] });
+    expect(kioskHealthOf({ lastHeartbeatAt: minutesAgo(20) }, reading, now, policy).status).toBe("offline");
+    expect(kioskHealthOf({ lastHeartbeatAt: null }, undefined, now, policy)).toEqual({ status: "unknown", silentMinutes: null, warnings: [] });
+  });
+
+  it("signale batterie faible hors charge, horloge décalée et fichages en attente", () => {
+    const health = kioskHealthOf({ lastHeartbeatAt: minutesAgo(1) }, { batteryLevel: 15, batteryCharging: false, clockSkewSeconds: -400, pendingPunches: 3 }, now, policy);
+    expect(health.warnings).toEqual(["low_battery", "clock_skew", "pending_punches"]);
+    expect(kioskHealthOf({ lastHeartbeatAt: minutesAgo(1) }, { ...reading, batteryLevel: 15, batteryCharging: true }, now, policy).warnings).toEqual([]);
+  });
+});
+
+describe("isOfflineAlertDue", () => {
+  const device = { enabled: true, tokenHash: "hash", lastHeartbeatAt: minutesAgo(20), offlineAlertedAt: null };
+
+  it("alerte une seule fois pour un quiosque en service devenu silencieux", () => {
+    expect(isOfflineAlertDue(device, now, policy)).toBe(true);
+    expect(isOfflineAlertDue({ ...device, offlineAlertedAt: minutesAgo(1) }, now, policy)).toBe(false);
+    expect(isOfflineAlertDue({ ...device, lastHeartbeatAt: minutesAgo(5) }, now, policy)).toBe(false);
+  });
+
+  it("ignore les quiosques désactivés, non appairés ou jamais connectés", () => {
+    expect(isOfflineAlertDue({ ...device, enabled: false }, now, policy)).toBe(false);
+    expect(isOfflineAlertDue({ ...device, tokenHash: null }, now, policy)).toBe(false);
+    expect(isOfflineAlertDue({ ...device, lastHeartbeatAt: null }, now, policy)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import type { KioskDevice, KioskHeartbeat } from "@shared/schema";
+
+export const LOW_BATTERY_PERCENT = 20;
+
+export type KioskHealthStatus = "online" | "offline" | "unknown";
+export type KioskHealthWarning = "low_battery" | "clock_skew" | "pending_punches";
+
+export interface KioskHealthPolicy {
+  offlineAfterMinutes: number;
+  retentionDays: number;
+  // Same tolerance as offline punches: a clock further off than this gets its queued punches sent to review
+  maxClockSkewMinutes: number;
+}
+
+export interface KioskHealth {
+  status: KioskHealthStatus;
+  silentMinutes: number | null;
+  warnings: KioskHealthWarning[];
+}
+
+type HeartbeatReading = Pick<KioskHeartbeat, "batteryLevel" | "batteryCharging" | "clockSkewSeconds" | "pendingPunches">;
+
+export function resolveKioskHealthPolicy(env: NodeJS.ProcessEnv = process.env): KioskHealthPolicy {
+  const offline = parseInt(env.KIOSK_OFFLINE_AFTER_MINUTES || "15", 10);
+  const retention = parseInt(env.KIOSK_HEARTBEAT_RETENTION_DAYS || "7", 10);
+  const drift = parseInt(env.KIOSK_OFFLINE_MAX_DRIFT_MINUTES || "5", 10);
+  return {
+    offlineAfterMinutes: Number.isFinite(offline) && offline > 0 ? offline : 15,
+    retentionDays: Number.isFinite(retention) && retention > 0 ? retention : 7,
+    maxClockSkewMinutes: Number.isFinite(drift) && drift >= 0 ? drift : 5,
+  };
+}
+
+export function clockSkewSeconds(deviceTime: Date, receivedAt: Date): number {
+  return Math.round((deviceTime.getTime() - receivedAt.getTime()) / 1000);
+}
+
+// A device that never sent a heartbeat is "unknown" rather than offline: it may simply predate heartbeats
+export function kioskHealthOf(
+  device: Pick<KioskDevice, "lastHeartbeatAt">,
+  heartbeat: HeartbeatReading | undefined,
+  now: Date,
+  policy: KioskHealthPolicy
+): KioskHealth {
+  if (!device.lastHeartbeatAt) {
+    return { status: "unknown", silentMinutes: null, warnings: [] };
+  }
+
+  const silentMinutes = Math.floor((now.getTime() - device.lastHeartbeatAt.getTime()) / 60000);
+  const warnings: KioskHealthWarning[] = [];
+  if (heartbeat) {
+    if (heartbeat.batteryLevel !== null && heartbeat.batteryLevel <= LOW_BATTERY_PERCENT && !heartbeat.batteryCharging) {
+      warnings.push("low_battery");
+    }
+    if (Math.abs(heartbeat.clockSkewSeconds) > policy.maxClockSkewMinutes * 60) {
+      warnings.push("clock_skew");
+    }
+    if (heartbeat.pendingPunches > 0) {
+      warnings.push("pending_punches");
+    }
+  }
+
+  return {
+    status: silentMinutes >= policy.offlineAfterMinutes ? "offline" : "online",
+    silentMinutes,
+    warnings,
+  };
+}
+
+// Only kiosks in service raise alerts: a disabled or unpaired device is expected to be silent
+export function isOfflineAlertDue(
+  device: Pick<KioskDevice, "enabled" | "tokenHash" | "lastHeartbeatAt" | "offlineAlertedAt">,
+  now: Date,
+  policy: KioskHealthPolicy
+): boolean {
+  if (!device.enabled || !device.tokenHash || !device.lastHeartbeatAt || device.offlineAlertedAt) {
+    return false;
+  }
+  return now.getTime() - device.lastHeartbeatAt.getTime() >= policy.offlineAfterMinutes * 60 * 1000;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { formatPairingCode, generatePairingCode, graceUntil, isRotationDue, normalizePairingCode, pairingExpiry, pairingStatus, resolveKioskTokenPolicy } from "./kiosk-pairing";
+
+const now = new Date("2026-03-02T08:00:00Z");
+const policy = { rotationDays: 30, graceMinutes: 60 };
+
+describe("resolveKioskTokenPolicy", () => {
+  it("renouvelle tous les 30 jours avec une heure de grâce par défaut", () => {
+    expect(resolveKioskTokenPolicy({})).toEqual(policy);
+    expect(resolveKioskTokenPolicy({ KIOSK_TOKEN_ROTATION_DAYS: "0", KIOSK_TOKEN_GRACE_MINUTES: "-5" })).toEqual(policy);
+    expect(resolveKioskTokenPolicy({ KIOSK_TOKEN_ROTATION_DAYS: "7", KIOSK_TOKEN_GRACE_MINUTES: "0" })).toEqual({ rotationDays: 7, graceMinutes: 0 });
+  });
+});
+
+describe("generatePairingCode", () => {
+  it("produit huit caractères sans lettres ni chiffres ambigus", () => {
+    const code = generatePairingCode();
+    expect(code).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+    expect(generatePairingCode(() => 0)).toBe("AAAAAAAA");
+  });
+});
+
+describe("normalizePairingCode", () => {
+  it("accepte le code tel qu'affiché ou saisi en minuscules", () => {
+    expect(normalizePairingCode("abcd-efgh")).toBe("ABCDEFGH");
+    expect(normalizePairingCode(" AbCd EfGh ")).toBe("ABCDEFGH");
+    expect(formatPairingCode("ABCDEFGH")).toBe("ABCD-EFGH");
+  });
+});
+
+describe("pairingStatus", () => {
+  const expiresAt = pairingExpiry(now);
+
+  it("reste en attente jusqu'à l'expiration du code", () => {
+    expect(pairingStatus({ deviceId: null, deliveredAt: null, expiresAt }, now)).toBe("pending");
+    expect(pairingStatus({ deviceId: null, deliveredAt: null, expiresAt }, expiresAt)).toBe("expired");
+  });
+
+  it("laisse récupérer un code approuvé même après expiration, une seule fois", () => {
+    const later = new Date(expiresAt.getTime() + 60_000);
+    expect(pairingStatus({ deviceId: "k1", deliveredAt: null, expiresAt }, later)).toBe("approved");
+    expect(pairingStatus({ deviceId: "k1", deliveredAt: later, expiresAt }, later)).toBe("delivered");
+  });
+});
+
+describe("isRotationDue", () => {
+  it("demande un renouvellement après la période ou sans date d'émission", () => {
+    expect(isRotationDue(new Date("2026-02-20T08:00:00Z"), now, policy)).toBe(false);
+    expect(isRotationDue(new Date("2026-01-31T08:00:00Z"), now, policy)).toBe(true);
+    expect(isRotationDue(null, now, policy)).toBe(true);
+  });
+
+  it("garde l'ancien jeton valable pendant la période de grâce", () => {
+    expect(graceUntil(now, policy)).toEqual(new Date("2026-03-02T09:00:00Z"));
+  });
+});
@@ -0,0 +1,73 @@
+import { randomInt } from "crypto";
+import type { KioskPairing } from "@shared/schema";
+
+// No 0/O, 1/I/L: the code is read off a tablet screen and typed by hand
+const PAIRING_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const PAIRING_CODE_LENGTH = 8;
+
+export const PAIRING_TTL_MINUTES = 10;
+
+export type PairingStatus = "pending" | "approved" | "delivered" | "expired";
+
+export interface KioskTokenPolicy {
+  rotationDays: number;
+  // How long the token being replaced keeps working, so a rotation answer lost on the way does not lock the kiosk out
+  graceMinutes: number;
+}
+
+export function resolveKioskTokenPolicy(env: NodeJS.ProcessEnv = process.env): KioskTokenPolicy {
+  const days = parseInt(env.KIOSK_TOKEN_ROTATION_DAYS || "30", 10);
+  const grace = parseInt(env.KIOSK_TOKEN_GRACE_MINUTES || "60", 10);
+  return {
+    rotationDays: Number.isFinite(days) && days > 0 ? days : 30,
+    graceMinutes: Number.isFinite(grace) && grace >= 0 ? grace : 60,
+  };
+}
+
+export function generatePairingCode(pick: (max: number) => number = randomInt): string {
+  let code = "";
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_ALPHABET[pick(PAIRING_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Accepts the code as shown (ABCD-EFGH) or typed loosely (abcd efgh)
+export function normalizePairingCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function formatPairingCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+export function pairingExpiry(now: Date): Date {
+  return new Date(now.getTime() + PAIRING_TTL_MINUTES * 60 * 1000);
+}
+
+// An approved pairing stays collectable after the code expires: the admin may approve in the last seconds
+export function pairingStatus(pairing: Pick<KioskPairing, "deviceId" | "deliveredAt" | "expiresAt">, now: Date): PairingStatus {
+  if (pairing.deliveredAt) {
+    return "delivered";
+  }
+  if (pairing.deviceId) {
+    return "approved";
+  }
+  return pairing.expiresAt <= now ? "expired" : "pending";
+}
+
+export function isRotationDue(tokenIssuedAt: Date | null, now: Date, policy: KioskTokenPolicy): boolean {
+  if (!tokenIssuedAt) {
+    return true;
+  }
+  return now.getTime() - tokenIssuedAt.getTime() >= policy.rotationDays * 24 * 60 * 60 * 1000;
+}
+
+export function graceUntil(now: Date, policy: KioskTokenPolicy): Date {
+  return new Date(now.getTime() + policy.graceMinutes * 60 * 1000);
+}
+
+// Enough of the token hash to tell issued tokens apart in the history without making it usable
+export function tokenFingerprint(tokenHash: string): string {
+  return tokenHash.slice(0, 8);
+}
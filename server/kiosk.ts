@@ -20,65 +20,69 @@ export function generateKioskToken(): string {
   return randomBytes(32).toString("hex");
 }
 
-export async function authenticateKiosk(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
-  const token = req.headers["x-kiosk-token"];
+// lastUsedAt tracks real use (punches); housekeeping calls such as heartbeats authenticate without touching it
+function kioskAuthentication(recordUse: boolean) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = req.headers["x-kiosk-token"];
 
-  if (!token || typeof token !== "string") {
-    logInfo("Kiosk auth failed: missing token", { ip: req.ip });
-    res.status(403).json({
-      error: {
-        code: "KIOSK_REQUIRED",
-        message: "Token de quiosco requerido",
-      },
-    });
-    return;
-  }
-
-  try {
-    const tokenHash = hashToken(token);
-    const device = await storage.getKioskDeviceByTokenHash(tokenHash);
-
-    if (!device) {
-      logInfo("Kiosk auth failed: invalid token", { ip: req.ip });
+    if (!token || typeof token !== "string") {
+      logInfo("Kiosk auth failed: missing token", { ip: req.ip });
       res.status(403).json({
         error: {
-          code: "KIOSK_INVALID_TOKEN",
-          message: "Token de quiosco inválido",
+          code: "KIOSK_REQUIRED",
+          message: "Token de quiosco requerido",
         },
       });
       return;
     }
 
-    if (!device.enabled) {
-      logInfo("Kiosk auth failed: device disabled", { deviceId: device.id, ip: req.ip });
-      res.status(403).json({
+    try {
+      const tokenHash = hashToken(token);
+      const device = await storage.getKioskDeviceByTokenHash(tokenHash);
+
+      if (!device) {
+        logInfo("Kiosk auth failed: invalid token", { ip: req.ip });
+        res.status(403).json({
+          error: {
+            code: "KIOSK_INVALID_TOKEN",
+            message: "Token de quiosco inválido",
+          },
+        });
+        return;
+      }
+
+      if (!device.enabled) {
+        logInfo("Kiosk auth failed: device disabled", { deviceId: device.id, ip: req.ip });
+        res.status(403).json({
+          error: {
+            code: "KIOSK_DISABLED",
+            message: "Dispositivo quiosco deshabilitado",
+          },
+        });
+        return;
+      }
+
+      if (recordUse) {
+        await storage.updateKioskDeviceLastUsed(device.id);
+      }
+
+      req.kioskDevice = device;
+      next();
+    } catch (error) {
+      logError("Kiosk auth error", error);
+      res.status(500).json({
         error: {
-          code: "KIOSK_DISABLED",
-          message: "Dispositivo quiosco deshabilitado",
+          code: "KIOSK_AUTH_ERROR",
+          message: "Error de autenticación del quiosco",
         },
       });
-      return;
     }
-
-    await storage.updateKioskDeviceLastUsed(device.id);
-
-    req.kioskDevice = device;
-    next();
-  } catch (error) {
-    logError("Kiosk auth error", error);
-    res.status(500).json({
-      error: {
-        code: "KIOSK_AUTH_ERROR",
-        message: "Error de autenticación del quiosco",
-      },
-    });
-  }
+  };
 }
 
+export const authenticateKiosk = kioskAuthentication(true);
+export const authenticateKioskHousekeeping = kioskAuthentication(false);
+
 export function getClientIp(req: Request): string {
   const forwarded = req.headers["x-forwarded-for"];
   if (typeof forwarded === "string") {
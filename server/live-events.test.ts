@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { formatSseEvent, isVisibleInScope, liveEventKindForPunch, publishPunchEvent, subscribeLiveEvents, type LiveEvent } from "./live-events";
+
+describe("liveEventKindForPunch", () => {
+  it("distingue les pauses des entrées et sorties", () => {
+    expect(liveEventKindForPunch("BREAK_START")).toBe("pause");
+    expect(liveEventKindForPunch("OUT")).toBe("punch");
+  });
+});
+
+describe("subscribeLiveEvents", () => {
+  it("diffuse les pointages jusqu'au désabonnement", () => {
+    const received: LiveEvent[] = [];
+    const unsubscribe = subscribeLiveEvents((event) => received.push(event));
+    const punch = { employeeId: "e1", type: "IN" as const, timestamp: new Date("2026-03-02T08:00:00Z") };
+
+    publishPunchEvent(punch, { siteId: "s1" });
+    unsubscribe();
+    publishPunchEvent(punch, { siteId: "s1" });
+
+    expect(received).toEqual([{ kind: "punch", employeeId: "e1", siteId: "s1", punchType: "IN", at: "2026-03-02T08:00:00.000Z" }]);
+  });
+});
+
+describe("isVisibleInScope", () => {
+  const event: LiveEvent = { kind: "review", employeeId: "e1", siteId: "s1", at: "2026-03-02T08:00:00.000Z" };
+
+  it("limite un responsable aux événements de son centre", () => {
+    expect(isVisibleInScope(event, undefined)).toBe(true);
+    expect(isVisibleInScope(event, "s1")).toBe(true);
+    expect(isVisibleInScope(event, "s2")).toBe(false);
+  });
+
+  it("formate un message SSE nommé", () => {
+    expect(formatSseEvent(event)).toMatch(/^id: \d+\nevent: review\ndata: \{.*\}\n\n$/);
+  });
+});
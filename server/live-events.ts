@@ -0,0 +1,52 @@
+import { EventEmitter } from "events";
+import type { Employee, Punch } from "@shared/schema";
+
+export type LiveEventKind = "punch" | "pause" | "review" | "overtime";
+
+export interface LiveEvent {
+  kind: LiveEventKind;
+  employeeId: string;
+  // The employee's site rather than the punch's, matching how dashboard queries scope managers
+  siteId: string | null;
+  punchType?: Punch["type"];
+  at: string;
+}
+
+const emitter = new EventEmitter();
+// One listener per open dashboard; the default cap of 10 would warn with a normal office
+emitter.setMaxListeners(0);
+
+let nextEventId = 1;
+
+export function liveEventKindForPunch(type: Punch["type"]): LiveEventKind {
+  return type === "BREAK_START" || type === "BREAK_END" ? "pause" : "punch";
+}
+
+export function publishLiveEvent(event: Omit<LiveEvent, "at">, at: Date = new Date()): void {
+  emitter.emit("event", { ...event, at: at.toISOString() });
+}
+
+export function publishPunchEvent(punch: Pick<Punch, "employeeId" | "type" | "timestamp">, employee: Pick<Employee, "siteId">): void {
+  publishLiveEvent({
+    kind: liveEventKindForPunch(punch.type),
+    employeeId: punch.employeeId,
+    siteId: employee.siteId ?? null,
+    punchType: punch.type,
+  }, punch.timestamp);
+}
+
+export function subscribeLiveEvents(listener: (event: LiveEvent) => void): () => void {
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+}
+
+// Managers are scoped to their site, like every other dashboard query; events of employees without a site only reach unscoped viewers
+export function isVisibleInScope(event: LiveEvent, siteScope: string | undefined): boolean {
+  return !siteScope || event.siteId === siteScope;
+}
+
+export function formatSseEvent(event: LiveEvent): string {
+  return `id: ${nextEventId++}\nevent: ${event.kind}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { SMTPServer } from "smtp-server";
+import type { AddressInfo } from "net";
+import { resolveMailerConfig, createMailTransport, sendMailWith } from "./mailer";
+
+const received: string[] = [];
+const server = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ["STARTTLS"],
+  onData(stream, _session, callback) {
+    let raw = "";
+    stream.on("data", (chunk) => { raw += chunk.toString(); });
+    stream.on("end", () => {
+      received.push(raw);
+      callback();
+    });
+  },
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("resolveMailerConfig", () => {
+  it("reste désactivé sans SMTP_HOST", () => {
+    expect(resolveMailerConfig({})).toBeNull();
+  });
+
+  it("lit le port et le mode sécurisé", () => {
+    const config = resolveMailerConfig({ SMTP_HOST: "smtp.example.com", SMTP_PORT: "465", SMTP_SECURE: "true" });
+    expect(config).toMatchObject({ host: "smtp.example.com", port: 465, secure: true });
+  });
+});
+
+describe("sendMailWith", () => {
+  it("remet le message et sa pièce jointe au serveur SMTP", async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    const { port } = server.server.address() as AddressInfo;
+    const config = resolveMailerConfig({ SMTP_HOST: "127.0.0.1", SMTP_PORT: String(port), SMTP_FROM: "informes@example.com" })!;
+
+    await sendMailWith(createMailTransport(config), config.from, {
+      to: ["rrhh@example.com"],
+      subject: "Informe mensual",
+      text: "Adjunto el informe.",
+      attachments: [{ filename: "informe.pdf", content: Buffer.from("%PDF-1.3"), contentType: "application/pdf" }],
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toContain("Subject: Informe mensual");
+    expect(received[0]).toContain("To: rrhh@example.com");
+    expect(received[0]).toContain('filename=informe.pdf');
+  });
+});
@@ -0,0 +1,74 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailerConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface OutgoingMail {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+// Any SMTP server works, including a local stand-in such as Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025)
+export function resolveMailerConfig(env: NodeJS.ProcessEnv = process.env): MailerConfig | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+  const port = parseInt(env.SMTP_PORT || "587", 10);
+  return {
+    host: env.SMTP_HOST,
+    port: Number.isFinite(port) ? port : 587,
+    secure: (env.SMTP_SECURE || "false").toLowerCase() === "true",
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || "CronosFichajes <no-reply@cronosfichajes.es>",
+  };
+}
+
+export function isMailerConfigured(): boolean {
+  return resolveMailerConfig() !== null;
+}
+
+export function createMailTransport(config: MailerConfig): Transporter {
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+}
+
+export async function sendMailWith(transport: Transporter, from: string, mail: OutgoingMail): Promise<string> {
+  const info = await transport.sendMail({
+    from,
+    to: mail.to,
+    subject: mail.subject,
+    text: mail.text,
+    attachments: mail.attachments,
+  });
+  return info.messageId;
+}
+
+let transporter: Transporter | null = null;
+
+export async function sendMail(mail: OutgoingMail): Promise<string> {
+  const config = resolveMailerConfig();
+  if (!config) {
+    throw new Error("SMTP no configurado");
+  }
+  transporter = transporter ?? createMailTransport(config);
+  return sendMailWith(transporter, config.from, mail);
+}
@@ -4,6 +4,8 @@ import { employees } from "@shared/schema";
 import { eq, isNotNull } from "drizzle-orm";
 import { hashPassword } from "./auth";
 import { logInfo, logError, logWarn } from "./logger";
+import { storage } from "./storage";
+import { buildDefaultWeek, contractedHoursToMinutes } from "./schedules";
 import crypto from "crypto";
 
 interface Monitor {
@@ -13,7 +15,7 @@ interface Monitor {
   nom: string | null;
   email: string | null;
   activo: boolean;
-  horas_contratadas: number | null;
+  horas_contratadas: number | string | null;
   pin: string | null;
 }
 
@@ -22,6 +24,7 @@ export interface SyncResult {
   updated: number;
   linked: number;
   deactivated: number;
+  schedulesUpdated: number;
   errors: Array<{ monitorId?: number; email?: string; reason: string }>;
 }
 
@@ -63,14 +66,35 @@ function resolveNames(monitor: Monitor): { firstName: string; lastName: string }
   return { firstName: parts[0], lastName: parts.slice(1).join(" ") };
 }
 
+async function syncContractedSchedule(employeeId: string, monitor: Monitor): Promise<boolean> {
+  const weeklyMinutes = contractedHoursToMinutes(monitor.horas_contratadas);
+  if (weeklyMinutes === null) return false;
+
+  const existing = await storage.getWorkScheduleByEmployee(employeeId);
+  if (existing && existing.source !== "gestion") {
+    return false;
+  }
+  if (existing && existing.weeklyMinutes === weeklyMinutes) {
+    return false;
+  }
+
+  await storage.upsertWorkSchedule(
+    employeeId,
+    { weeklyMinutes, source: "gestion", updatedById: null },
+    buildDefaultWeek(weeklyMinutes)
+  );
+  logInfo(`[MONITOR-SYNC] Schedule set to ${weeklyMinutes} min/week for employee ${employeeId} from monitor ${monitor.id}`);
+  return true;
+}
+
 export async function syncMonitorsToEmployees(): Promise<SyncResult> {
   if (syncInProgress) {
     logInfo("[MONITOR-SYNC] Sync already in progress, skipping");
-    return { created: 0, updated: 0, linked: 0, deactivated: 0, errors: [{ reason: "Sync already in progress" }] };
+    return { created: 0, updated: 0, linked: 0, deactivated: 0, schedulesUpdated: 0, errors: [{ reason: "Sync already in progress" }] };
   }
 
   syncInProgress = true;
-  const result: SyncResult = { created: 0, updated: 0, linked: 0, deactivated: 0, errors: [] };
+  const result: SyncResult = { created: 0, updated: 0, linked: 0, deactivated: 0, schedulesUpdated: 0, errors: [] };
 
   try {
     const { rows: allMonitors } = await pool.query<Monitor>(
@@ -116,6 +140,9 @@ export async function syncMonitorsToEmployees(): Promise<SyncResult> {
             result.updated++;
             logInfo(`[MONITOR-SYNC] Updated employee ${existingByMonitorId.id} from monitor ${monitor.id}`);
           }
+          if (await syncContractedSchedule(existingByMonitorId.id, monitor)) {
+            result.schedulesUpdated++;
+          }
           continue;
         }
 
@@ -151,6 +178,9 @@ export async function syncMonitorsToEmployees(): Promise<SyncResult> {
             .where(eq(employees.id, existingByEmail.id));
           result.linked++;
           logInfo(`[MONITOR-SYNC] Linked employee ${existingByEmail.id} to monitor ${monitor.id}`);
+          if (await syncContractedSchedule(existingByEmail.id, monitor)) {
+            result.schedulesUpdated++;
+          }
           continue;
         }
 
@@ -171,6 +201,9 @@ export async function syncMonitorsToEmployees(): Promise<SyncResult> {
 
         result.created++;
         logInfo(`[MONITOR-SYNC] Created employee ${newId} from monitor ${monitor.id} (${monitor.email})`);
+        if (await syncContractedSchedule(newId, monitor)) {
+          result.schedulesUpdated++;
+        }
       } catch (err) {
         const reason = err instanceof Error ? err.message : String(err);
         result.errors.push({ monitorId: monitor.id, email: monitor.email ?? undefined, reason });
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { resolveOfflineSyncPolicy, evaluateDeviceTime, exceedsMaxAge, replayOrder, sequenceConflict, overtimeRecomputeDays } from "./offline-sync";
+
+const policy = { maxDriftMinutes: 5, maxAgeDays: 7 };
+const receivedAt = new Date("2026-03-02T10:00:00Z");
+
+describe("resolveOfflineSyncPolicy", () => {
+  it("tolère cinq minutes par défaut", () => {
+    expect(resolveOfflineSyncPolicy({}).maxDriftMinutes).toBe(5);
+    expect(resolveOfflineSyncPolicy({ KIOSK_OFFLINE_MAX_DRIFT_MINUTES: "15" }).maxDriftMinutes).toBe(15);
+  });
+
+  it("refuse par défaut les pointages de plus de sept jours", () => {
+    expect(resolveOfflineSyncPolicy({}).maxAgeDays).toBe(7);
+    expect(resolveOfflineSyncPolicy({ KIOSK_OFFLINE_MAX_AGE_DAYS: "0" }).maxAgeDays).toBe(7);
+    expect(resolveOfflineSyncPolicy({ KIOSK_OFFLINE_MAX_AGE_DAYS: "3" }).maxAgeDays).toBe(3);
+  });
+});
+
+describe("exceedsMaxAge", () => {
+  it("n'accepte que les pointages récents", () => {
+    expect(exceedsMaxAge(new Date("2026-02-24T10:00:00Z"), receivedAt, policy)).toBe(false);
+    expect(exceedsMaxAge(new Date("2026-02-23T09:59:00Z"), receivedAt, policy)).toBe(true);
+  });
+});
+
+describe("evaluateDeviceTime", () => {
+  it("garde l'heure de l'appareil et signale un écart au-delà de la tolérance", () => {
+    const evaluation = evaluateDeviceTime(new Date("2026-03-02T08:30:00Z"), receivedAt, policy);
+    expect(evaluation.timestamp.toISOString()).toBe("2026-03-02T08:30:00.000Z");
+    expect(evaluation.driftSeconds).toBe(5400);
+    expect(evaluation.flagged).toBe(true);
+  });
+
+  it("accepte sans signalement un léger retard", () => {
+    expect(evaluateDeviceTime(new Date("2026-03-02T09:58:00Z"), receivedAt, policy).flagged).toBe(false);
+  });
+
+  it("ne date jamais un pointage après sa réception", () => {
+    const evaluation = evaluateDeviceTime(new Date("2026-03-02T10:20:00Z"), receivedAt, policy);
+    expect(evaluation.timestamp).toEqual(receivedAt);
+    expect(evaluation.driftSeconds).toBe(-1200);
+    expect(evaluation.flagged).toBe(true);
+  });
+});
+
+describe("replayOrder", () => {
+  it("rejoue du plus ancien au plus récent", () => {
+    const ordered = replayOrder([
+      { clientId: "b", deviceTimestamp: "2026-03-02T17:00:00.000Z" },
+      { clientId: "a", deviceTimestamp: "2026-03-02T08:00:00.000Z" },
+    ]);
+    expect(ordered.map(p => p.clientId)).toEqual(["a", "b"]);
+  });
+});
+
+describe("sequenceConflict", () => {
+  it("détecte une entrée en double ou une sortie sans entrée", () => {
+    expect(sequenceConflict("IN", "IN")).toBe(true);
+    expect(sequenceConflict("OUT", undefined)).toBe(true);
+    expect(sequenceConflict("OUT", "OUT")).toBe(true);
+    expect(sequenceConflict("IN", "OUT")).toBe(false);
+    expect(sequenceConflict("OUT", "BREAK_END")).toBe(false);
+  });
+});
+
+describe("overtimeRecomputeDays", () => {
+  it("recalcule une fois par employé et par jour les journées fermées par une sortie", () => {
+    const created = [
+      { employeeId: "e1", type: "IN" as const, timestamp: new Date("2025-03-10T07:00:00Z") },
+      { employeeId: "e1", type: "OUT" as const, timestamp: new Date("2025-03-10T11:00:00Z") },
+      { employeeId: "e1", type: "OUT" as const, timestamp: new Date("2025-03-10T17:00:00Z") },
+      { employeeId: "e2", type: "OUT" as const, timestamp: new Date("2025-03-10T16:00:00Z") },
+      { employeeId: "e1", type: "OUT" as const, timestamp: new Date("2025-03-11T16:00:00Z") },
+      { employeeId: "e3", type: "IN" as const, timestamp: new Date("2025-03-11T07:00:00Z") },
+    ];
+    expect(overtimeRecomputeDays(created).map(p => `${p.employeeId} ${p.timestamp.toISOString()}`)).toEqual([
+      "e1 2025-03-10T17:00:00.000Z",
+      "e2 2025-03-10T16:00:00.000Z",
+      "e1 2025-03-11T16:00:00.000Z",
+    ]);
+  });
+});
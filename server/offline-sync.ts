@@ -0,0 +1,63 @@
+import type { Punch } from "@shared/schema";
+import { toSpainDateKey } from "./timezone";
+
+export interface OfflineSyncPolicy {
+  maxDriftMinutes: number;
+  // Older queued punches are refused outright, so a stolen queue or token cannot backdate the record
+  maxAgeDays: number;
+}
+
+export interface DeviceTimeEvaluation {
+  timestamp: Date;
+  // Arrival minus device time: positive when the punch waited in the queue, negative when the device clock runs ahead
+  driftSeconds: number;
+  flagged: boolean;
+}
+
+export function resolveOfflineSyncPolicy(env: NodeJS.ProcessEnv = process.env): OfflineSyncPolicy {
+  const minutes = parseInt(env.KIOSK_OFFLINE_MAX_DRIFT_MINUTES || "5", 10);
+  const days = parseInt(env.KIOSK_OFFLINE_MAX_AGE_DAYS || "7", 10);
+  return {
+    maxDriftMinutes: Number.isFinite(minutes) && minutes >= 0 ? minutes : 5,
+    maxAgeDays: Number.isFinite(days) && days > 0 ? days : 7,
+  };
+}
+
+export function exceedsMaxAge(deviceTimestamp: Date, receivedAt: Date, policy: OfflineSyncPolicy): boolean {
+  return receivedAt.getTime() - deviceTimestamp.getTime() > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+// The device time is the moment the employee signed, so it is kept; only a clock running ahead is
+// capped at arrival, since no punch may be dated after the server received it
+export function evaluateDeviceTime(deviceTimestamp: Date, receivedAt: Date, policy: OfflineSyncPolicy): DeviceTimeEvaluation {
+  const driftSeconds = Math.round((receivedAt.getTime() - deviceTimestamp.getTime()) / 1000);
+  return {
+    timestamp: driftSeconds < 0 ? receivedAt : deviceTimestamp,
+    driftSeconds,
+    flagged: Math.abs(driftSeconds) > policy.maxDriftMinutes * 60,
+  };
+}
+
+// Replayed oldest first so each punch is checked against the ones queued before it
+export function replayOrder<T extends { deviceTimestamp: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => Date.parse(a.deviceTimestamp) - Date.parse(b.deviceTimestamp));
+}
+
+// Same rule the online kiosk enforces, but an offline punch is already signed, so a conflict sends it to review instead of refusing it
+export function sequenceConflict(type: "IN" | "OUT", previousType: Punch["type"] | undefined): boolean {
+  if (type === "IN") {
+    return previousType === "IN";
+  }
+  return !previousType || previousType === "OUT";
+}
+
+// Every replayed exit closes a shift, so its day's overtime is rechecked once the queue is in;
+// a queue holding several exits of the same day only needs one pass for it
+export function overtimeRecomputeDays<T extends { employeeId: string; type: Punch["type"]; timestamp: Date }>(created: T[]): T[] {
+  const byDay = new Map<string, T>();
+  for (const punch of created) {
+    if (punch.type !== "OUT") continue;
+    byDay.set(`${punch.employeeId}|${toSpainDateKey(punch.timestamp)}`, punch);
+  }
+  return Array.from(byDay.values());
+}
@@ -1,8 +1,11 @@
 import { describe, it, expect } from "vitest";
-import { calculateDailyMinutes, calculateOvertime } from "./overtime";
+import { calculateDailyMinutes, calculateOvertime, planOvertimeRecompute } from "./overtime";
+import { DEFAULT_BREAK_RULES } from "./break-policies";
+import { applyCorrections } from "./effective-punches";
+import { breakMinutesBetween, sessionWorkedMinutes } from "@shared/work-time";
 import type { Punch } from "@shared/schema";
 
-function createPunch(type: "IN" | "OUT", timestamp: Date): Punch {
+function createPunch(type: Punch["type"], timestamp: Date): Punch {
   return {
     id: crypto.randomUUID(),
     employeeId: "test-employee",
@@ -52,6 +55,18 @@ describe("calculateDailyMinutes", () => {
     const result = calculateDailyMinutes(punches);
     expect(result).toBe(0);
   });
+
+  it("déduit les pauses non rémunérées selon la politique", () => {
+    const punches: Punch[] = [
+      createPunch("IN", new Date("2026-01-20T09:00:00")),
+      createPunch("BREAK_START", new Date("2026-01-20T11:00:00")),
+      createPunch("BREAK_END", new Date("2026-01-20T11:30:00")),
+      createPunch("OUT", new Date("2026-01-20T17:00:00")),
+    ];
+
+    expect(calculateDailyMinutes(punches)).toBe(480);
+    expect(calculateDailyMinutes(punches, { ...DEFAULT_BREAK_RULES, paid: false })).toBe(450);
+  });
 });
 
 describe("calculateOvertime", () => {
@@ -121,4 +136,88 @@ describe("calculateOvertime", () => {
     expect(result.overtimeMinutes).toBe(120);
     expect(result.shouldCreateRequest).toBe(true);
   });
+
+  it("compte toutes les minutes comme overtime un jour férié", () => {
+    const punches: Punch[] = [
+      createPunch("IN", new Date("2026-01-06T09:00:00")),
+      createPunch("OUT", new Date("2026-01-06T13:00:00")),
+    ];
+    
+    const result = calculateOvertime(punches, 480, 15, true);
+    
+    expect(result.dailyMinutes).toBe(240);
+    expect(result.overtimeMinutes).toBe(240);
+    expect(result.shouldCreateRequest).toBe(true);
+  });
+});
+
+describe("sessionWorkedMinutes", () => {
+  const punches: Punch[] = [
+    createPunch("IN", new Date("2026-01-20T09:00:00")),
+    createPunch("BREAK_START", new Date("2026-01-20T11:00:00")),
+    createPunch("BREAK_END", new Date("2026-01-20T11:20:00")),
+    createPunch("BREAK_START", new Date("2026-01-20T16:50:00")),
+    createPunch("OUT", new Date("2026-01-20T17:00:00")),
+  ];
+
+  it("compte une pause encore ouverte jusqu'à la sortie", () => {
+    expect(breakMinutesBetween(punches, punches[0].timestamp, punches[4].timestamp)).toBe(30);
+  });
+
+  it("ne déduit les pauses que si elles ne sont pas rémunérées", () => {
+    expect(sessionWorkedMinutes(punches[0].timestamp, punches[4].timestamp, punches, true)).toBe(480);
+    expect(sessionWorkedMinutes(punches[0].timestamp, punches[4].timestamp, punches, false)).toBe(450);
+  });
+
+  it("ignore les pauses hors de la session", () => {
+    const later = createPunch("IN", new Date("2026-01-20T18:00:00"));
+    const end = createPunch("OUT", new Date("2026-01-20T19:00:00"));
+    expect(sessionWorkedMinutes(later.timestamp, end.timestamp, [...punches, later, end], false)).toBe(60);
+  });
+});
+
+describe("planOvertimeRecompute", () => {
+  const above = { dailyMinutes: 540, overtimeMinutes: 60, shouldCreateRequest: true };
+  const below = { dailyMinutes: 485, overtimeMinutes: 5, shouldCreateRequest: false };
+
+  it("crée puis met à jour librement une demande en attente", () => {
+    expect(planOvertimeRecompute(above, undefined)).toEqual({ action: "create", minutes: 60 });
+    expect(planOvertimeRecompute(below, undefined)).toEqual({ action: "none" });
+    expect(planOvertimeRecompute(above, { status: "pending", minutes: 30 })).toEqual({ action: "update", minutes: 60, bankAdjustment: 0 });
+    expect(planOvertimeRecompute(below, { status: "pending", minutes: 30 })).toEqual({ action: "reject", bankAdjustment: 0 });
+  });
+
+  it("régularise la bolsa quand une correction modifie une journée déjà approuvée", () => {
+    expect(planOvertimeRecompute(above, { status: "approved", minutes: 90 })).toEqual({ action: "update", minutes: 60, bankAdjustment: -30 });
+    expect(planOvertimeRecompute(above, { status: "approved", minutes: 45 })).toEqual({ action: "update", minutes: 60, bankAdjustment: 15 });
+    expect(planOvertimeRecompute(above, { status: "approved", minutes: 60 })).toEqual({ action: "none" });
+  });
+
+  it("retire tout le crédit d'une journée approuvée qui ne justifie plus d'heures extra", () => {
+    expect(planOvertimeRecompute(below, { status: "approved", minutes: 90 })).toEqual({ action: "reject", bankAdjustment: -90 });
+  });
+
+  it("ne touche pas une demande rejetée", () => {
+    expect(planOvertimeRecompute(above, { status: "rejected", minutes: 30 })).toEqual({ action: "none" });
+    expect(planOvertimeRecompute(below, { status: "rejected", minutes: 30 })).toEqual({ action: "none" });
+  });
+});
+
+describe("correction d'une journée dont les heures extra sont approuvées", () => {
+  const entry = createPunch("IN", new Date("2026-01-20T09:00:00"));
+  const exit = createPunch("OUT", new Date("2026-01-20T19:00:00"));
+  const approved = { status: "approved" as const, minutes: 120 };
+  const correctExit = (iso: string) => applyCorrections([entry, exit], [
+    { originalPunchId: exit.id, newTimestamp: new Date(iso), newType: null, createdAt: new Date("2026-01-22T10:00:00") },
+  ]);
+
+  it("retire de la bolsa les minutes que la correction enlève", () => {
+    const result = calculateOvertime(correctExit("2026-01-20T17:30:00"), 480, 15);
+    expect(planOvertimeRecompute(result, approved)).toEqual({ action: "update", minutes: 30, bankAdjustment: -90 });
+  });
+
+  it("annule le crédit quand la journée corrigée repasse sous le seuil", () => {
+    const result = calculateOvertime(correctExit("2026-01-20T17:05:00"), 480, 15);
+    expect(planOvertimeRecompute(result, approved)).toEqual({ action: "reject", bankAdjustment: -120 });
+  });
 });
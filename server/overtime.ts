@@ -1,4 +1,6 @@
 import type { Punch } from "@shared/schema";
+import { dailyWorkedMinutes } from "@shared/work-time";
+import { DEFAULT_BREAK_RULES, type BreakRules } from "./break-policies";
 
 export interface OvertimeCalculationResult {
   dailyMinutes: number;
@@ -6,33 +8,20 @@ export interface OvertimeCalculationResult {
   shouldCreateRequest: boolean;
 }
 
-export function calculateDailyMinutes(punches: Punch[]): number {
-  let dailyMinutes = 0;
-  let lastInTime: Date | null = null;
-  
-  const sortedPunches = [...punches].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-  
-  for (const punch of sortedPunches) {
-    if (punch.type === "IN") {
-      lastInTime = new Date(punch.timestamp);
-    } else if (punch.type === "OUT" && lastInTime) {
-      dailyMinutes += Math.floor((new Date(punch.timestamp).getTime() - lastInTime.getTime()) / 60000);
-      lastInTime = null;
-    }
-  }
-  
-  return dailyMinutes;
+// Pauses inside an IN/OUT session only reduce worked time when the break policy marks them unpaid
+export function calculateDailyMinutes(punches: Punch[], breakRules: BreakRules = DEFAULT_BREAK_RULES): number {
+  return dailyWorkedMinutes(punches, breakRules.paid);
 }
 
 export function calculateOvertime(
   punches: Punch[],
   expectedDailyMinutes: number = 480,
-  overtimeThreshold: number = 15
+  overtimeThreshold: number = 15,
+  isHoliday: boolean = false,
+  breakRules: BreakRules = DEFAULT_BREAK_RULES
 ): OvertimeCalculationResult {
-  const dailyMinutes = calculateDailyMinutes(punches);
-  const overtimeMinutes = Math.max(0, dailyMinutes - expectedDailyMinutes);
+  const dailyMinutes = calculateDailyMinutes(punches, breakRules);
+  const overtimeMinutes = isHoliday ? dailyMinutes : Math.max(0, dailyMinutes - expectedDailyMinutes);
   const shouldCreateRequest = overtimeMinutes >= overtimeThreshold;
   
   return {
@@ -41,3 +30,32 @@ export function calculateOvertime(
     shouldCreateRequest,
   };
 }
+
+export type OvertimeRecompute =
+  | { action: "none" }
+  | { action: "create"; minutes: number }
+  | { action: "update"; minutes: number; bankAdjustment: number }
+  | { action: "reject"; bankAdjustment: number };
+
+// Only a pending request follows its day freely. An approved one has already credited the hours bank, so a
+// later change to the day is settled with an adjustment for the difference; a rejected one stays as decided
+export function planOvertimeRecompute(
+  result: OvertimeCalculationResult,
+  existing: { status: "pending" | "approved" | "rejected"; minutes: number } | undefined
+): OvertimeRecompute {
+  if (!existing) {
+    return result.shouldCreateRequest ? { action: "create", minutes: result.overtimeMinutes } : { action: "none" };
+  }
+  if (existing.status === "rejected") {
+    return { action: "none" };
+  }
+
+  const credited = existing.status === "approved" ? existing.minutes : 0;
+  if (!result.shouldCreateRequest) {
+    return { action: "reject", bankAdjustment: credited > 0 ? -credited : 0 };
+  }
+  if (existing.status === "approved" && existing.minutes === result.overtimeMinutes) {
+    return { action: "none" };
+  }
+  return { action: "update", minutes: result.overtimeMinutes, bankAdjustment: existing.status === "approved" ? result.overtimeMinutes - credited : 0 };
+}
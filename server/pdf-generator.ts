@@ -22,6 +22,15 @@ export interface PunchRecord {
   outSignatureData: string | null;
   outLatitude: string | null;
   outLongitude: string | null;
+  // Unpaid pause minutes inside the IN/OUT pair, deducted from its duration
+  unpaidBreakMinutes?: number;
+}
+
+export interface AbsenceRecord {
+  startDate: string;
+  endDate: string;
+  typeName: string;
+  days: number;
 }
 
 export interface ReportOptions {
@@ -33,6 +42,7 @@ export interface ReportOptions {
   periodEnd?: Date;
   employeeName?: string;
   isEmployeeReport?: boolean;
+  absences?: AbsenceRecord[];
 }
 
 const COLORS = {
@@ -65,13 +75,13 @@ function getMapUrl(lat: string | null, lon: string | null): string | null {
   return `https://www.google.com/maps?q=${lat},${lon}`;
 }
 
-function calculateDurationMinutes(inTime: Date | string | null, outTime: Date | string | null): number | null {
-  const inDate = ensureDateUTC(inTime);
-  const outDate = ensureDateUTC(outTime);
+function calculateDurationMinutes(record: PunchRecord): number | null {
+  const inDate = ensureDateUTC(record.inTimestamp);
+  const outDate = ensureDateUTC(record.outTimestamp);
   if (!inDate || !outDate) return null;
   const diffMs = outDate.getTime() - inDate.getTime();
   if (diffMs < 0) return null;
-  return Math.floor(diffMs / (1000 * 60));
+  return Math.max(0, Math.floor(diffMs / (1000 * 60)) - (record.unpaidBreakMinutes ?? 0));
 }
 
 function formatDuration(minutes: number | null): string {
@@ -273,6 +283,65 @@ function drawTableHeader(
   return y + headerHeight + 2;
 }
 
+function formatDateKey(dateKey: string): string {
+  return dateKey.split("-").reverse().join("/");
+}
+
+function drawAbsencesBlock(
+  doc: typeof PDFDocument.prototype,
+  absences: AbsenceRecord[],
+  startY: number,
+  pageWidth: number,
+  options: ReportOptions,
+  logoBuffer: Buffer | null
+): void {
+  const marginLeft = doc.page.margins.left;
+  const ROW_HEIGHT = 20;
+  let y = startY;
+
+  if (y + 40 + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom - 25) {
+    doc.addPage();
+    y = drawHeader(doc, options, pageWidth, logoBuffer) + 10;
+  }
+
+  doc
+    .fontSize(11)
+    .font("Helvetica-Bold")
+    .fillColor(COLORS.navyMedium)
+    .text("AUSENCIAS DEL PERÍODO", marginLeft, y);
+  y += 18;
+
+  const colWidths = { type: 260, from: 140, to: 140, days: 100 };
+  y = drawTableHeader(doc, [
+    { text: "TIPO", width: colWidths.type },
+    { text: "DESDE", width: colWidths.from },
+    { text: "HASTA", width: colWidths.to },
+    { text: "DÍAS", width: colWidths.days },
+  ], y, pageWidth);
+
+  for (let i = 0; i < absences.length; i++) {
+    const absence = absences[i];
+    if (y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom - 25) {
+      doc.addPage();
+      y = drawHeader(doc, options, pageWidth, logoBuffer) + 10;
+    }
+
+    doc.rect(marginLeft, y, pageWidth, ROW_HEIGHT).fill(i % 2 === 0 ? COLORS.zebraLight : COLORS.zebraWhite);
+    doc.fillColor(COLORS.textPrimary).fontSize(10).font("Helvetica");
+
+    let x = marginLeft + 6;
+    doc.text(absence.typeName, x, y + 5, { width: colWidths.type - 10 });
+    x += colWidths.type;
+    doc.text(formatDateKey(absence.startDate), x, y + 5, { width: colWidths.from - 10 });
+    x += colWidths.from;
+    doc.text(formatDateKey(absence.endDate), x, y + 5, { width: colWidths.to - 10 });
+    x += colWidths.to;
+    doc.font("Helvetica-Bold").text(absence.days.toString(), x, y + 5, { width: colWidths.days - 10 });
+
+    y += ROW_HEIGHT;
+  }
+}
+
 export async function generateReportPDF(options: ReportOptions): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({
@@ -301,7 +370,7 @@ export async function generateReportPDF(options: ReportOptions): Promise<Buffer>
     // Pre-process signatures to avoid repeated base64 decoding in loop
     let signatureCount = 0;
     const processedRecords: ProcessedRecord[] = options.records.map((record) => {
-      const duration = calculateDurationMinutes(record.inTimestamp, record.outTimestamp);
+      const duration = calculateDurationMinutes(record);
       if (duration !== null && duration >= 0) {
         totalMinutes += duration;
         completedPairsCount++;
@@ -461,7 +530,7 @@ export async function generateReportPDF(options: ReportOptions): Promise<Buffer>
       }
       x += colWidths.outSig;
 
-      const duration = calculateDurationMinutes(record.inTimestamp, record.outTimestamp);
+      const duration = calculateDurationMinutes(record);
       const durationStr = formatDuration(duration);
       const durationY = y + ROW_HEIGHT / 2 - 7;
       doc
@@ -535,6 +604,11 @@ export async function generateReportPDF(options: ReportOptions): Promise<Buffer>
         .font("Helvetica-Bold")
         .fillColor(COLORS.textPrimary)
         .text(formatDurationShort(totalMinutes), totalBlockX + 12, y + 22, { width: totalBlockWidth - 24, align: "right" });
+      y += totalBlockHeight;
+    }
+
+    if (options.absences && options.absences.length > 0) {
+      drawAbsencesBlock(doc, options.absences, y + 16, pageWidth, options, logoBuffer);
     }
 
     const totalPages = doc.bufferedPageRange().count;
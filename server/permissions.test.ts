@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { PERMISSIONS } from "@shared/schema";
+import { resolvePermissions, hasPermission, DEFAULT_ROLE_PERMISSIONS } from "./permissions";
+
+describe("resolvePermissions", () => {
+  it("donne tous les permis à l'admin, même avec une configuration", () => {
+    expect(resolvePermissions("admin", [])).toEqual([...PERMISSIONS]);
+  });
+
+  it("utilise les permis par défaut du manager sans configuration", () => {
+    const granted = resolvePermissions("manager", undefined);
+    expect(granted).toEqual(DEFAULT_ROLE_PERMISSIONS.manager);
+    expect(hasPermission(granted, "punches.export")).toBe(true);
+    expect(hasPermission(granted, "cleanup.purge")).toBe(false);
+  });
+
+  it("applique la configuration enregistrée pour le manager", () => {
+    const granted = resolvePermissions("manager", ["reports.authorities", "punches.export"]);
+    expect(granted).toEqual(["punches.export", "reports.authorities"]);
+    expect(hasPermission(granted, "punches.correct")).toBe(false);
+  });
+
+  it("ne donne aucun permis de gestion à l'employé", () => {
+    expect(resolvePermissions("employee", ["cleanup.purge"])).toEqual([]);
+  });
+});
@@ -0,0 +1,22 @@
+import { PERMISSIONS, type Permission, type Role } from "@shared/schema";
+
+// Managers keep what they could do before permissions existed, except the screens that were already admin-only
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...PERMISSIONS],
+  manager: PERMISSIONS.filter(p => !["kiosk.manage", "cleanup.purge", "retention.manage", "system.status", "roles.manage"].includes(p)),
+  employee: [],
+};
+
+// Roles whose mapping can be edited; admin always keeps every permission so nobody can lock themselves out
+export const CONFIGURABLE_ROLES: Role[] = ["manager"];
+
+export function resolvePermissions(role: Role, configured: Permission[] | undefined): Permission[] {
+  if (!CONFIGURABLE_ROLES.includes(role) || !configured) {
+    return DEFAULT_ROLE_PERMISSIONS[role];
+  }
+  return PERMISSIONS.filter(p => configured.includes(p));
+}
+
+export function hasPermission(granted: Permission[], permission: Permission): boolean {
+  return granted.includes(permission);
+}
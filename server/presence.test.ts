@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { buildPresenceBoard, presenceOf } from "./presence";
+
+const at = (iso: string) => new Date(iso);
+
+describe("presenceOf", () => {
+  it("compte la présence depuis le début de la journée, pas depuis la fin de pause", () => {
+    const inPunch = { type: "IN" as const, timestamp: at("2026-03-02T08:00:00Z") };
+    expect(presenceOf({ type: "BREAK_END", timestamp: at("2026-03-02T10:20:00Z") }, inPunch))
+      .toEqual({ status: "in", since: "2026-03-02T08:00:00.000Z" });
+  });
+
+  it("indique une pause en cours depuis son début", () => {
+    expect(presenceOf(
+      { type: "BREAK_START", timestamp: at("2026-03-02T10:00:00Z") },
+      { type: "IN", timestamp: at("2026-03-02T08:00:00Z") },
+    )).toEqual({ status: "break", since: "2026-03-02T10:00:00.000Z" });
+  });
+
+  it("considère absent un employé sorti ou sans pointage", () => {
+    const out = { type: "OUT" as const, timestamp: at("2026-03-02T17:00:00Z") };
+    expect(presenceOf(out, out)).toEqual({ status: "out", since: "2026-03-02T17:00:00.000Z" });
+    expect(presenceOf(undefined, undefined)).toEqual({ status: "out", since: null });
+  });
+});
+
+describe("buildPresenceBoard", () => {
+  it("trie les employés par nom de famille", () => {
+    const board = buildPresenceBoard(
+      [
+        { id: "e1", firstName: "Luis", lastName: "Pérez", siteId: null },
+        { id: "e2", firstName: "Ana", lastName: "García", siteId: "s1" },
+      ],
+      new Map(),
+      new Map([["e1", { type: "IN" as const, timestamp: at("2026-03-02T08:00:00Z") }]]),
+    );
+    expect(board.map((e) => [e.employeeId, e.status])).toEqual([["e2", "out"], ["e1", "in"]]);
+  });
+});
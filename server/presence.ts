@@ -0,0 +1,42 @@
+import type { Employee, Punch } from "@shared/schema";
+
+export type PresenceStatus = "in" | "break" | "out";
+
+export interface PresenceEntry {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  siteId: string | null;
+  status: PresenceStatus;
+  // Start of the shift, of the break, or of the absence since the last exit; null for someone who never punched
+  since: string | null;
+}
+
+type PunchMark = Pick<Punch, "type" | "timestamp">;
+
+// Same reading as the employee's own pause status: a break only counts while the shift is open
+export function presenceOf(lastPunch: PunchMark | undefined, lastWorkPunch: PunchMark | undefined): Pick<PresenceEntry, "status" | "since"> {
+  if (!lastWorkPunch || lastWorkPunch.type !== "IN") {
+    return { status: "out", since: lastWorkPunch ? lastWorkPunch.timestamp.toISOString() : null };
+  }
+  if (lastPunch?.type === "BREAK_START") {
+    return { status: "break", since: lastPunch.timestamp.toISOString() };
+  }
+  return { status: "in", since: lastWorkPunch.timestamp.toISOString() };
+}
+
+export function buildPresenceBoard(
+  employees: Pick<Employee, "id" | "firstName" | "lastName" | "siteId">[],
+  lastPunches: Map<string, PunchMark>,
+  lastWorkPunches: Map<string, PunchMark>
+): PresenceEntry[] {
+  return employees
+    .map((employee) => ({
+      employeeId: employee.id,
+      firstName: employee.firstName,
+      lastName: employee.lastName,
+      siteId: employee.siteId,
+      ...presenceOf(lastPunches.get(employee.id), lastWorkPunches.get(employee.id)),
+    }))
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`, "es"));
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { archiveKeyFor, readArchivedReport, writeArchivedReport, sha256Hex } from "./report-archive";
+
+describe("archiveKeyFor", () => {
+  it("range les rapports par type et mois de génération", () => {
+    expect(archiveKeyFor("authorities", "doc-1", new Date("2026-03-02T08:00:00Z"))).toBe("reports/authorities/2026/03/doc-1.pdf");
+  });
+});
+
+describe("writeArchivedReport", () => {
+  beforeAll(() => {
+    process.env.REPORT_ARCHIVE_DIR = mkdtempSync(path.join(tmpdir(), "report-archive-"));
+  });
+
+  it("relit exactement le document archivé", async () => {
+    const pdf = Buffer.from("%PDF-1.7 original");
+    const backend = await writeArchivedReport("reports/employee/2026/03/a.pdf", pdf);
+    expect(backend).toBe("local");
+    expect(sha256Hex(await readArchivedReport(backend, "reports/employee/2026/03/a.pdf"))).toBe(sha256Hex(pdf));
+  });
+
+  it("refuse d'écraser un document déjà archivé", async () => {
+    await writeArchivedReport("reports/employee/2026/03/b.pdf", Buffer.from("v1"));
+    await expect(writeArchivedReport("reports/employee/2026/03/b.pdf", Buffer.from("v2"))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { isSpacesConfigured, uploadFile, downloadFile } from "./spaces";
+import type { ArchivedReportKind } from "@shared/schema";
+
+export type ArchiveBackend = "spaces" | "local";
+
+export function resolveArchiveDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.REPORT_ARCHIVE_DIR || "data/report-archive");
+}
+
+export function archiveKeyFor(kind: ArchivedReportKind, id: string, generatedAt: Date): string {
+  const month = String(generatedAt.getUTCMonth() + 1).padStart(2, "0");
+  return `reports/${kind}/${generatedAt.getUTCFullYear()}/${month}/${id}.pdf`;
+}
+
+export function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Spaces when configured, local disk otherwise. Local files are opened with "wx" so an archived
+// document can never be overwritten, and left read-only on disk
+export async function writeArchivedReport(key: string, pdf: Buffer): Promise<ArchiveBackend> {
+  if (isSpacesConfigured()) {
+    await uploadFile(key, pdf, "application/pdf", false);
+    return "spaces";
+  }
+
+  const file = path.join(resolveArchiveDir(), key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, pdf, { flag: "wx", mode: 0o444 });
+  return "local";
+}
+
+export async function readArchivedReport(backend: string, key: string): Promise<Buffer> {
+  if (backend === "spaces") {
+    return downloadFile(key);
+  }
+  return fs.readFile(path.join(resolveArchiveDir(), key));
+}
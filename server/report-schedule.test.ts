@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { previousMonth, periodKey, isSubscriptionDue } from "./report-schedule";
+
+describe("previousMonth", () => {
+  it("suit le calendrier espagnol au changement de mois", () => {
+    // 23:30 UTC on 31 March is already 1 April in Madrid
+    expect(previousMonth(new Date("2026-03-31T23:30:00Z"))).toEqual({ year: 2026, month: 3 });
+    expect(previousMonth(new Date("2026-03-31T20:00:00Z"))).toEqual({ year: 2026, month: 2 });
+  });
+
+  it("passe à décembre de l'année précédente en janvier", () => {
+    expect(previousMonth(new Date("2026-01-01T08:00:00Z"))).toEqual({ year: 2025, month: 12 });
+  });
+});
+
+describe("periodKey", () => {
+  it("formate l'année et le mois sur deux chiffres", () => {
+    expect(periodKey({ year: 2026, month: 4 })).toBe("2026-04");
+  });
+});
+
+describe("isSubscriptionDue", () => {
+  const now = new Date("2026-05-01T06:00:00Z");
+
+  it("envoie une fois par mois clos", () => {
+    expect(isSubscriptionDue({ enabled: true, lastPeriod: "2026-03" }, now)).toBe(true);
+    expect(isSubscriptionDue({ enabled: true, lastPeriod: "2026-04" }, now)).toBe(false);
+    expect(isSubscriptionDue({ enabled: true, lastPeriod: null }, now)).toBe(true);
+  });
+
+  it("ignore les abonnements désactivés", () => {
+    expect(isSubscriptionDue({ enabled: false, lastPeriod: "2026-03" }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { toSpainDateKey } from "./timezone";
+
+export interface ReportPeriod {
+  year: number;
+  month: number;
+}
+
+// Reports go out for the month that has just closed, judged on the Spanish calendar rather than UTC
+export function previousMonth(now: Date): ReportPeriod {
+  const [year, month] = toSpainDateKey(now).split("-").map(Number);
+  return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+export function periodKey(period: ReportPeriod): string {
+  return `${period.year}-${String(period.month).padStart(2, "0")}`;
+}
+
+// A subscription is due once per closed month; a server that was down on the 1st catches up on its next run
+export function isSubscriptionDue(subscription: { enabled: boolean; lastPeriod: string | null }, now: Date): boolean {
+  return subscription.enabled && subscription.lastPeriod !== periodKey(previousMonth(now));
+}
@@ -0,0 +1,393 @@
+import { createHash, randomUUID } from "crypto";
+import type { ArchivedReport, InsertArchivedReport, ReportSubscription } from "@shared/schema";
+import { breakMinutesBetween } from "@shared/work-time";
+import { storage } from "./storage";
+import { generateReportPDF, type PunchRecord } from "./pdf-generator";
+import { generateAuthoritiesPDF, isAuthoritiesReportPunch, type SiteHeader } from "./authorities-pdf";
+import { listDateKeys } from "./absences";
+import { resolveBreakPolicy, toBreakRules, type BreakRules } from "./break-policies";
+import { archiveKeyFor, sha256Hex, writeArchivedReport } from "./report-archive";
+import { sendMail } from "./mailer";
+import { periodKey, type ReportPeriod } from "./report-schedule";
+import { formatInMadrid, toSpainDateKey, startOfDayInSpain, endOfDayInSpain, ensureDateUTC } from "./timezone";
+
+export const MONTH_NAMES = ["Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
+  "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre"];
+
+export function pdfSortKey(r: PunchRecord): number {
+  return ensureDateUTC(r.inTimestamp ?? r.outTimestamp)?.getTime() ?? Infinity;
+}
+
+export function logPdfDebug(routeTag: string, records: PunchRecord[]): void {
+  const generatedAt = new Date();
+  console.log(`[PDF-GEN] ${routeTag}`, {
+    generatedAtUTC: generatedAt.toISOString(),
+    generatedAtMadrid: formatInMadrid(generatedAt, { withSeconds: true }),
+    recordCount: records.length,
+  });
+
+  const top5 = records.slice(0, 5).map((r, idx) => {
+    const raw = r.inTimestamp ?? r.outTimestamp;
+    const ensured = ensureDateUTC(raw);
+    return {
+      idx,
+      employee: `${r.lastName} ${r.firstName}`,
+      rawTimestamp: raw instanceof Date ? raw.toISOString() : String(raw),
+      isoTimestamp: ensured?.toISOString() ?? "INVALID",
+      epochMs: ensured?.getTime() ?? null,
+    };
+  });
+  console.log(`[PDF-SORT-CHECK] ${routeTag}`, JSON.stringify(top5));
+
+  if (records.length > 0) {
+    const first = records[0];
+    const raw = first.inTimestamp ?? first.outTimestamp;
+    const ensured = ensureDateUTC(raw);
+    console.log(`[PDF-TIME-DEBUG] ${routeTag}`, {
+      raw: raw instanceof Date ? raw.toISOString() : String(raw),
+      rawType: raw === null ? "null" : raw instanceof Date ? "Date" : typeof raw,
+      ensuredISO: ensured?.toISOString() ?? "INVALID",
+      madridFormatted: formatInMadrid(raw, { withSeconds: true }),
+    });
+  }
+
+  let monotonic = true;
+  for (let i = 1; i < records.length; i++) {
+    const prevEpoch = pdfSortKey(records[i - 1]);
+    const currEpoch = pdfSortKey(records[i]);
+    if (currEpoch < prevEpoch) {
+      const prevRaw = records[i - 1].inTimestamp ?? records[i - 1].outTimestamp;
+      const currRaw = records[i].inTimestamp ?? records[i].outTimestamp;
+      console.error(`[PDF-SORT-FAIL] ${routeTag}`, {
+        index: i,
+        prevEpoch,
+        currEpoch,
+        prevISO: ensureDateUTC(prevRaw)?.toISOString() ?? "INVALID",
+        currISO: ensureDateUTC(currRaw)?.toISOString() ?? "INVALID",
+        prevEmployee: `${records[i - 1].lastName} ${records[i - 1].firstName}`,
+        currEmployee: `${records[i].lastName} ${records[i].firstName}`,
+      });
+      monotonic = false;
+      break;
+    }
+  }
+  if (monotonic) {
+    console.log(`[PDF-SORT-OK] ${routeTag}`, { count: records.length, monotonic: true });
+  }
+}
+
+export async function getBreakRulesByEmployee(): Promise<{ byEmployee: Record<string, BreakRules>; fallback: BreakRules }> {
+  const [policies, allEmployees, allSites] = await Promise.all([storage.getBreakPolicies(), storage.getAllEmployees(), storage.getSites()]);
+  const byEmployee: Record<string, BreakRules> = {};
+  for (const emp of allEmployees) {
+    const sitePolicyId = allSites.find(s => s.id === emp.siteId)?.breakPolicyId;
+    const policy = resolveBreakPolicy(policies, emp.breakPolicyId, sitePolicyId);
+    if (policy) {
+      byEmployee[emp.id] = toBreakRules(policy);
+    }
+  }
+  return { byEmployee, fallback: toBreakRules(policies.find(p => p.isDefault)) };
+}
+
+// The file is written before the row so a listed report always has its document behind it
+export async function archiveGeneratedReport(report: Omit<InsertArchivedReport, "storageBackend" | "storageKey" | "sha256" | "byteSize">, pdf: Buffer): Promise<ArchivedReport> {
+  const generatedAt = report.generatedAt ?? new Date();
+  const storageKey = archiveKeyFor(report.kind, report.id, generatedAt);
+  const storageBackend = await writeArchivedReport(storageKey, pdf);
+  return storage.createArchivedReport({
+    ...report,
+    generatedAt,
+    storageBackend,
+    storageKey,
+    sha256: sha256Hex(pdf),
+    byteSize: pdf.length,
+  });
+}
+
+// Calendar month as the general report has always framed it, so scheduled copies match manual downloads
+export function monthReportRange(year: number, month: number): { startDate: Date; endDate: Date; subtitle: string } {
+  return {
+    startDate: new Date(Date.UTC(year, month - 1, 1)),
+    endDate: new Date(Date.UTC(year, month, 0, 23, 59, 59, 999)),
+    subtitle: `${MONTH_NAMES[month - 1]} ${year}`,
+  };
+}
+
+export interface GeneralReportOptions {
+  startDate: Date;
+  endDate: Date;
+  subtitle: string;
+  siteId?: string;
+}
+
+export async function buildGeneralReport({ startDate, endDate, subtitle, siteId }: GeneralReportOptions): Promise<Buffer> {
+  const [punchesData, breakRules] = await Promise.all([
+    storage.getAllPunchesForReport({ startDate, endDate, siteId }),
+    getBreakRulesByEmployee(),
+  ]);
+
+  const punchPairs = new Map<string, { in: typeof punchesData[0] | null; out: typeof punchesData[0] | null; employee: typeof punchesData[0]["employee"] }[]>();
+
+  for (const punch of punchesData) {
+    const dateKey = toSpainDateKey(punch.timestamp);
+    const key = `${punch.employeeId}-${dateKey}`;
+
+    if (!punchPairs.has(key)) {
+      punchPairs.set(key, []);
+    }
+
+    const pairs = punchPairs.get(key)!;
+
+    if (punch.type === "IN") {
+      pairs.push({ in: punch, out: null, employee: punch.employee });
+    } else if (punch.type === "OUT") {
+      const lastPair = pairs[pairs.length - 1];
+      if (lastPair && lastPair.in && !lastPair.out) {
+        lastPair.out = punch;
+      } else {
+        pairs.push({ in: null, out: punch, employee: punch.employee });
+      }
+    } else {
+      continue;
+    }
+  }
+
+  const punchesByEmployee = new Map<string, typeof punchesData>();
+  for (const punch of punchesData) {
+    if (!punchesByEmployee.has(punch.employeeId)) {
+      punchesByEmployee.set(punch.employeeId, []);
+    }
+    punchesByEmployee.get(punch.employeeId)!.push(punch);
+  }
+
+  const records: PunchRecord[] = [];
+  for (const pairs of Array.from(punchPairs.values())) {
+    for (const pair of pairs) {
+      const rules = breakRules.byEmployee[pair.employee.id] ?? breakRules.fallback;
+      records.push({
+        lastName: pair.employee.lastName,
+        firstName: pair.employee.firstName,
+        inTimestamp: pair.in?.timestamp ?? null,
+        inSignatureData: pair.in?.signatureData ?? null,
+        inLatitude: pair.in?.latitude ?? null,
+        inLongitude: pair.in?.longitude ?? null,
+        outTimestamp: pair.out?.timestamp ?? null,
+        outSignatureData: pair.out?.signatureData ?? null,
+        outLatitude: pair.out?.latitude ?? null,
+        outLongitude: pair.out?.longitude ?? null,
+        unpaidBreakMinutes: !rules.paid && pair.in && pair.out
+          ? breakMinutesBetween(punchesByEmployee.get(pair.employee.id) ?? [], pair.in.timestamp, pair.out.timestamp)
+          : 0,
+      });
+    }
+  }
+
+  records.sort((a, b) => pdfSortKey(a) - pdfSortKey(b));
+  logPdfDebug("GENERAL", records);
+
+  return generateReportPDF({
+    title: "Informe General de Fichajes",
+    subtitle,
+    records,
+    generatedAt: new Date(),
+    periodStart: startDate,
+    periodEnd: endDate,
+    isEmployeeReport: false,
+  });
+}
+
+export interface AuthoritiesReportOptions {
+  scope: "month" | "year";
+  year: number;
+  month?: number;
+  includeAnnexes: boolean;
+  employeeId?: string;
+  siteId?: string;
+  generatedById: string;
+  // Base of the QR verification link; it must be reachable from outside the company network
+  baseUrl: string;
+}
+
+export interface AuthoritiesReport {
+  pdf: Buffer;
+  documentId: string;
+  fileName: string;
+}
+
+// Registers the document for public verification and archives it, so every generated copy can be checked and re-downloaded
+export async function buildAuthoritiesReport(options: AuthoritiesReportOptions): Promise<AuthoritiesReport> {
+  const { scope, year: yearNum, month: monthNum, includeAnnexes, employeeId: empId, siteId, generatedById, baseUrl } = options;
+
+  let periodStart: Date;
+  let periodEnd: Date;
+
+  if (scope === "month") {
+    const refStart = new Date(Date.UTC(yearNum, monthNum! - 1, 1, 12, 0, 0));
+    const lastDay = new Date(Date.UTC(yearNum, monthNum!, 0)).getUTCDate();
+    const refEnd = new Date(Date.UTC(yearNum, monthNum! - 1, lastDay, 12, 0, 0));
+    periodStart = startOfDayInSpain(refStart);
+    periodEnd = endOfDayInSpain(refEnd);
+  } else {
+    const refStart = new Date(Date.UTC(yearNum, 0, 1, 12, 0, 0));
+    const refEnd = new Date(Date.UTC(yearNum, 11, 31, 12, 0, 0));
+    periodStart = startOfDayInSpain(refStart);
+    periodEnd = endOfDayInSpain(refEnd);
+  }
+
+  const periodStartKey = toSpainDateKey(periodStart);
+  const periodEndKey = toSpainDateKey(periodEnd);
+  const [allPunches, correctionsData, holidayList, absenceList, allEmployees, siteList] = await Promise.all([
+    storage.getAllPunchesForReport({ startDate: periodStart, endDate: periodEnd, employeeId: empId, siteId }),
+    storage.getCorrectionsInRange({ startDate: periodStart, endDate: periodEnd, employeeId: empId, siteId }),
+    storage.getHolidaysInRange(periodStartKey, periodEndKey),
+    storage.getAbsences({ status: "approved", employeeId: empId, siteId, fromDateKey: periodStartKey, toDateKey: periodEndKey }),
+    storage.getAllEmployees(),
+    storage.getSites(),
+  ]);
+
+  const employeeSites: Record<string, SiteHeader> = {};
+  const employeeSiteIds: Record<string, string | null> = {};
+  for (const emp of allEmployees) {
+    employeeSiteIds[emp.id] = emp.siteId;
+    const site = siteList.find(s => s.id === emp.siteId);
+    if (site) {
+      employeeSites[emp.id] = { name: site.name, address: site.address };
+    }
+  }
+
+  const absenceDays = absenceList.flatMap(a =>
+    listDateKeys(a.startDate > periodStartKey ? a.startDate : periodStartKey, a.endDate < periodEndKey ? a.endDate : periodEndKey)
+      .map(dateKey => ({
+        employeeId: a.employeeId,
+        employeeName: `${a.employee.lastName}, ${a.employee.firstName}`,
+        dateKey,
+        name: a.type.name,
+      }))
+  );
+
+  const breakRules = await getBreakRulesByEmployee();
+  const chainHead = await storage.getChainHead("punches");
+
+  // Manual punches are included so retroactive entries show up, flagged, next to the kiosk record
+  const employeeNames = new Map(allEmployees.map(e => [e.id, `${e.firstName} ${e.lastName}`]));
+  const reportPunches = allPunches
+    .filter(isAuthoritiesReportPunch)
+    .map(p => ({ ...p, manualAuthorName: p.createdById ? employeeNames.get(p.createdById) ?? null : null }));
+  const reportPunchIds = new Set(reportPunches.map(p => p.id));
+  const reportCorrections = correctionsData.filter(c => reportPunchIds.has(c.originalPunchId));
+
+  const generatedAt = new Date();
+  const documentId = randomUUID();
+  const { pdf: pdfBuffer, datasetHash } = await generateAuthoritiesPDF({
+    documentId,
+    verificationUrl: `${baseUrl}/verificar/${documentId}`,
+    scope,
+    year: yearNum,
+    month: monthNum,
+    includeAnnexes,
+    generatedAt,
+    periodStart,
+    periodEnd,
+    punches: reportPunches,
+    corrections: reportCorrections,
+    holidays: holidayList.map(h => ({ dateKey: h.date, name: h.name, siteId: h.siteId })),
+    absences: absenceDays,
+    breakRules: breakRules.byEmployee,
+    defaultBreakRules: breakRules.fallback,
+    employeeSites,
+    employeeSiteIds,
+    chainHead,
+  });
+
+  await storage.createReportRegistration({
+    id: documentId,
+    scope,
+    periodStart,
+    periodEnd,
+    employeeId: empId ?? null,
+    siteId: siteId ?? null,
+    datasetHash,
+    pdfSha256: createHash("sha256").update(pdfBuffer).digest("hex"),
+    chainSeq: chainHead?.chainSeq ?? null,
+    chainHash: chainHead?.hash ?? null,
+    generatedById,
+    generatedAt,
+  });
+
+  const fileLabel = scope === "month"
+    ? `${MONTH_NAMES[(monthNum || 1) - 1]}-${yearNum}`
+    : `${yearNum}`;
+  const fileName = `informe-autoridades-${fileLabel}.pdf`;
+
+  await archiveGeneratedReport({
+    id: documentId,
+    kind: "authorities",
+    periodStart,
+    periodEnd,
+    employeeId: empId ?? null,
+    siteId: siteId ?? null,
+    fileName,
+    generatedById,
+    generatedAt,
+  }, pdfBuffer);
+
+  return { pdf: pdfBuffer, documentId, fileName };
+}
+
+export interface SubscriptionDelivery {
+  fileName: string;
+  documentId: string | null;
+}
+
+// Generates the month's PDF, mails it and leaves an audit entry; throws so the caller can record the failure
+export async function deliverReportSubscription(
+  subscription: ReportSubscription,
+  period: ReportPeriod,
+  actorId: string,
+  trigger: "schedule" | "manual"
+): Promise<SubscriptionDelivery> {
+  const siteId = subscription.siteId ?? undefined;
+  const label = `${MONTH_NAMES[period.month - 1]} ${period.year}`;
+  let pdf: Buffer;
+  let fileName: string;
+  let documentId: string | null = null;
+
+  if (subscription.kind === "authorities") {
+    const baseUrl = process.env.PUBLIC_APP_URL;
+    if (!baseUrl) {
+      throw new Error("PUBLIC_APP_URL no configurada: el QR de verificación no tendría destino");
+    }
+    const report = await buildAuthoritiesReport({
+      scope: "month",
+      year: period.year,
+      month: period.month,
+      includeAnnexes: subscription.includeAnnexes,
+      siteId,
+      generatedById: subscription.createdById,
+      baseUrl: baseUrl.replace(/\/$/, ""),
+    });
+    pdf = report.pdf;
+    fileName = report.fileName;
+    documentId = report.documentId;
+  } else {
+    pdf = await buildGeneralReport({ ...monthReportRange(period.year, period.month), siteId });
+    fileName = `informe-general-${label.replace(/\s+/g, "-")}.pdf`;
+  }
+
+  await sendMail({
+    to: subscription.recipients,
+    subject: `${subscription.name} - ${label}`,
+    text: `Se adjunta el informe "${subscription.name}" correspondiente a ${label}.\n\nEste correo se envía automáticamente desde CronosFichajes.`,
+    attachments: [{ filename: fileName, content: pdf, contentType: "application/pdf" }],
+  });
+
+  await storage.createAuditLog({
+    action: "export",
+    actorId,
+    targetType: "report_subscription",
+    targetId: subscription.id,
+    details: JSON.stringify({ kind: subscription.kind, period: periodKey(period), siteId: subscription.siteId, recipients: subscription.recipients.length, documentId, trigger }),
+  });
+
+  return { fileName, documentId };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { resolveRetentionPolicy, retentionCutoff, purgeBlockReason, anonymizedIdentity } from "./retention";
+
+const policy = { years: 4, anonymizeEnabled: true };
+const now = new Date("2026-03-02T10:00:00Z");
+
+describe("resolveRetentionPolicy", () => {
+  it("ne descend jamais sous le minimum légal de quatre ans", () => {
+    expect(resolveRetentionPolicy({ RETENTION_YEARS: "2" }).years).toBe(4);
+    expect(resolveRetentionPolicy({ RETENTION_YEARS: "6" }).years).toBe(6);
+    expect(resolveRetentionPolicy({}).years).toBe(4);
+  });
+});
+
+describe("retentionCutoff", () => {
+  it("recule de la durée de rétention", () => {
+    expect(retentionCutoff(now, policy).toISOString()).toBe("2022-03-02T10:00:00.000Z");
+  });
+});
+
+describe("purgeBlockReason", () => {
+  it("bloque les fichajes encore dans la période de rétention", () => {
+    expect(purgeBlockReason({ lastPunchAt: new Date("2023-01-10T08:00:00Z"), onLegalHold: false }, now, policy))
+      .toBe("Fichajes en período de retención hasta 2027-01-10");
+  });
+
+  it("autorise la suppression une fois la période écoulée", () => {
+    expect(purgeBlockReason({ lastPunchAt: new Date("2021-12-31T08:00:00Z"), onLegalHold: false }, now, policy)).toBeNull();
+    expect(purgeBlockReason({ lastPunchAt: null, onLegalHold: false }, now, policy)).toBeNull();
+  });
+
+  it("le gel légal prime sur l'expiration", () => {
+    expect(purgeBlockReason({ lastPunchAt: null, onLegalHold: true }, now, policy)).toBe("Retención legal activa");
+  });
+});
+
+describe("anonymizedIdentity", () => {
+  it("produit un email unique et non délivrable", () => {
+    const identity = anonymizedIdentity("3f2a9c1e-0000-4000-8000-000000000000");
+    expect(identity.email).toBe("anon-3f2a9c1e-0000-4000-8000-000000000000@anonimizado.invalid");
+    expect(identity.lastName).toBe("3f2a9c1e");
+  });
+});
@@ -0,0 +1,55 @@
+// Art. 34.9 ET: time records must be kept for four years, so the policy can extend but never shorten it
+export const MIN_RETENTION_YEARS = 4;
+
+export interface RetentionPolicy {
+  years: number;
+  anonymizeEnabled: boolean;
+}
+
+export function resolveRetentionPolicy(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  const years = parseInt(env.RETENTION_YEARS || String(MIN_RETENTION_YEARS), 10);
+  return {
+    years: Number.isFinite(years) ? Math.max(years, MIN_RETENTION_YEARS) : MIN_RETENTION_YEARS,
+    anonymizeEnabled: (env.RETENTION_ANONYMIZE_ENABLED || "true").toLowerCase() !== "false",
+  };
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+}
+
+// Records timestamped before the cutoff have completed the retention period
+export function retentionCutoff(now: Date, policy: RetentionPolicy): Date {
+  return addYears(now, -policy.years);
+}
+
+export function retainedUntil(lastRecordAt: Date | null, policy: RetentionPolicy): Date | null {
+  return lastRecordAt ? addYears(lastRecordAt, policy.years) : null;
+}
+
+// Why an employee's records may not be deleted yet, or null when nothing holds them
+export function purgeBlockReason(
+  subject: { lastPunchAt: Date | null; onLegalHold: boolean },
+  now: Date,
+  policy: RetentionPolicy
+): string | null {
+  if (subject.onLegalHold) {
+    return "Retención legal activa";
+  }
+  const until = retainedUntil(subject.lastPunchAt, policy);
+  if (until && until.getTime() > now.getTime()) {
+    return `Fichajes en período de retención hasta ${until.toISOString().slice(0, 10)}`;
+  }
+  return null;
+}
+
+export function anonymizedIdentity(employeeId: string): { firstName: string; lastName: string; email: string } {
+  const ref = employeeId.replace(/-/g, "").slice(0, 8);
+  return {
+    firstName: "Anonimizado",
+    lastName: ref,
+    email: `anon-${employeeId}@anonimizado.invalid`,
+  };
+}
@@ -1,6 +1,6 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { createHash, randomBytes } from "crypto";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import multer from "multer";
 import { storage } from "./storage";
 import { pool, db } from "./db";
@@ -19,14 +19,16 @@ import {
   verifyToken,
   getRefreshTokenExpiry,
   authenticateAdminManager,
+  requirePermission,
+  getEmployeePermissions,
   authenticateEmployee,
   authenticateEmployeePortal,
   createAdminSession,
   EP_COOKIE_OPTIONS
 } from "./auth";
 import jwt from "jsonwebtoken";
-import { authenticateKiosk, generateKioskToken, hashToken, getClientIp } from "./kiosk";
-import { uploadSignature, isSpacesConfigured, getSignedDownloadUrl } from "./spaces";
+import { authenticateKiosk, authenticateKioskHousekeeping, generateKioskToken, hashToken, getClientIp } from "./kiosk";
+import { uploadSignature, isSpacesConfigured, getSignedDownloadUrl, deleteFile } from "./spaces";
 import { logInfo, logError } from "./logger";
 import { 
   loginSchema, 
@@ -40,7 +42,9 @@ import {
   kioskPunchRequestSchema,
   updateEmployeeSchema,
   correctPunchSchema,
-  kioskDeviceSchema,
+  manualPunchSchema,
+  kioskPairingApprovalSchema,
+  kioskHeartbeatRequestSchema,
   updateKioskDeviceSchema,
   employeePortalLoginSchema,
   shiftsQuerySchema,
@@ -51,6 +55,38 @@ import {
   gestionAdminLinks,
   employees as employeesTable,
   cleanupPurgeSchema,
+  updateWorkScheduleSchema,
+  holidaySchema,
+  updateHolidaySchema,
+  holidayImportSchema,
+  absenceTypeSchema,
+  updateAbsenceTypeSchema,
+  absenceRequestSchema,
+  adminAbsenceSchema,
+  absenceReviewRequestSchema,
+  portalCorrectionRequestSchema,
+  correctionRequestReviewSchema,
+  archivedReportQuerySchema,
+  legalHoldRequestSchema,
+  legalHoldReleaseSchema,
+  reportSubscriptionRequestSchema,
+  reportSubscriptionUpdateSchema,
+  kioskPunchSyncSchema,
+  hoursBankEntryRequestSchema,
+  breakPolicySchema,
+  updateBreakPolicySchema,
+  assignBreakPolicySchema,
+  siteSchema,
+  updateSiteSchema,
+  assignSiteSchema,
+  assignSupervisorSchema,
+  updateRolePermissionsSchema,
+  PERMISSIONS,
+  type Role,
+  type Employee,
+  type Site,
+  type OvertimeRequest,
+  type ReportSubscription,
   punchCorrections,
   punchReviews,
   refreshTokens,
@@ -58,7 +94,7 @@ import {
 } from "@shared/schema";
 import { Parser } from "json2csv";
 import rateLimit from "express-rate-limit";
-import type { Response } from "express";
+import type { Request, Response, NextFunction } from "express";
 
 function isDbError(error: unknown): boolean {
   if (!(error instanceof Error)) return false;
@@ -85,70 +121,26 @@ function handleRouteError(res: Response, error: unknown, context: string, fallba
   return res.status(500).json({ message: fallbackMessage });
 }
 import { generateReportPDF, type PunchRecord } from "./pdf-generator";
-import { generateAuthoritiesPDF } from "./authorities-pdf";
-import { formatDateES, formatTimeES, formatDateTimeES, formatInMadrid, toSpainDateKey, startOfDayInSpain, endOfDayInSpain, ensureDateUTC } from "./timezone";
-
-function pdfSortKey(r: PunchRecord): number {
-  return ensureDateUTC(r.inTimestamp ?? r.outTimestamp)?.getTime() ?? Infinity;
-}
-
-function logPdfDebug(routeTag: string, records: PunchRecord[]): void {
-  const generatedAt = new Date();
-  console.log(`[PDF-GEN] ${routeTag}`, {
-    generatedAtUTC: generatedAt.toISOString(),
-    generatedAtMadrid: formatInMadrid(generatedAt, { withSeconds: true }),
-    recordCount: records.length,
-  });
-
-  const top5 = records.slice(0, 5).map((r, idx) => {
-    const raw = r.inTimestamp ?? r.outTimestamp;
-    const ensured = ensureDateUTC(raw);
-    return {
-      idx,
-      employee: `${r.lastName} ${r.firstName}`,
-      rawTimestamp: raw instanceof Date ? raw.toISOString() : String(raw),
-      isoTimestamp: ensured?.toISOString() ?? "INVALID",
-      epochMs: ensured?.getTime() ?? null,
-    };
-  });
-  console.log(`[PDF-SORT-CHECK] ${routeTag}`, JSON.stringify(top5));
-
-  if (records.length > 0) {
-    const first = records[0];
-    const raw = first.inTimestamp ?? first.outTimestamp;
-    const ensured = ensureDateUTC(raw);
-    console.log(`[PDF-TIME-DEBUG] ${routeTag}`, {
-      raw: raw instanceof Date ? raw.toISOString() : String(raw),
-      rawType: raw === null ? "null" : raw instanceof Date ? "Date" : typeof raw,
-      ensuredISO: ensured?.toISOString() ?? "INVALID",
-      madridFormatted: formatInMadrid(raw, { withSeconds: true }),
-    });
-  }
-
-  let monotonic = true;
-  for (let i = 1; i < records.length; i++) {
-    const prevEpoch = pdfSortKey(records[i - 1]);
-    const currEpoch = pdfSortKey(records[i]);
-    if (currEpoch < prevEpoch) {
-      const prevRaw = records[i - 1].inTimestamp ?? records[i - 1].outTimestamp;
-      const currRaw = records[i].inTimestamp ?? records[i].outTimestamp;
-      console.error(`[PDF-SORT-FAIL] ${routeTag}`, {
-        index: i,
-        prevEpoch,
-        currEpoch,
-        prevISO: ensureDateUTC(prevRaw)?.toISOString() ?? "INVALID",
-        currISO: ensureDateUTC(currRaw)?.toISOString() ?? "INVALID",
-        prevEmployee: `${records[i - 1].lastName} ${records[i - 1].firstName}`,
-        currEmployee: `${records[i].lastName} ${records[i].firstName}`,
-      });
-      monotonic = false;
-      break;
-    }
-  }
-  if (monotonic) {
-    console.log(`[PDF-SORT-OK] ${routeTag}`, { count: records.length, monotonic: true });
-  }
-}
+import { countAbsenceDays, workingWeekdaysFor, computeAbsenceBalance } from "./absences";
+import { computeHoursBank, resolveCreditExpiry } from "./hours-bank";
+import { toBreakRules, canStartBreak } from "./break-policies";
+import { breakMinutesBetween } from "@shared/work-time";
+import { evaluateGeofence, type GeofenceResult } from "./geofence";
+import { canAssignToSite, isInSiteScope, siteScopeFor } from "./site-scope";
+import { CONFIGURABLE_ROLES, resolvePermissions } from "./permissions";
+import { canHandleApproval, createsSupervisorCycle, isEscalated, notificationRecipients, resolveEscalationPolicy, supervisorCandidates } from "./approval-routing";
+import { readArchivedReport, sha256Hex } from "./report-archive";
+import { pdfSortKey, logPdfDebug, archiveGeneratedReport, monthReportRange, buildGeneralReport, buildAuthoritiesReport, deliverReportSubscription } from "./reports";
+import { isMailerConfigured } from "./mailer";
+import { previousMonth, periodKey } from "./report-schedule";
+import { resolveOfflineSyncPolicy, evaluateDeviceTime, exceedsMaxAge, replayOrder, sequenceConflict, overtimeRecomputeDays } from "./offline-sync";
+import { publishLiveEvent, publishPunchEvent, subscribeLiveEvents, isVisibleInScope, formatSseEvent, type LiveEventKind } from "./live-events";
+import { generatePairingCode, normalizePairingCode, formatPairingCode, pairingExpiry, pairingStatus, resolveKioskTokenPolicy, isRotationDue, graceUntil, tokenFingerprint } from "./kiosk-pairing";
+import { clockSkewSeconds, kioskHealthOf, resolveKioskHealthPolicy } from "./kiosk-health";
+import { resolveIdempotencyPolicy, idempotencyExpiry, isValidIdempotencyKey, fingerprintRequest, decideIdempotentRetry, isReplayableStatus } from "./idempotency";
+import { anonymizedIdentity, purgeBlockReason, resolveRetentionPolicy, retainedUntil, retentionCutoff } from "./retention";
+import { buildDataExportZip, collectSignatures, type DataSubjectExport } from "./data-export";
+import { formatDateES, formatTimeES, formatDateTimeES, toSpainDateKey, startOfDayInSpain, endOfDayInSpain, ensureDateUTC } from "./timezone";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
@@ -162,14 +154,19 @@ interface ShiftEntry {
   clockOut: string | null;
   clockOutTime: string | null;
   durationMin: number | null;
+  unpaidBreakMin: number;
   status: "OK" | "INCOMPLETE";
   inLatitude: string | null;
   inLongitude: string | null;
   outLatitude: string | null;
   outLongitude: string | null;
+  holiday?: string | null;
 }
 
-function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | null; latitude: string | null; longitude: string | null }[]): ShiftEntry[] {
+function pairPunchesIntoShifts(
+  rawPunches: { type: string; timestamp: Date | null; latitude: string | null; longitude: string | null }[],
+  breaksPaid: boolean = true
+): ShiftEntry[] {
   const shifts: ShiftEntry[] = [];
   let openShift: { timestamp: Date; latitude: string | null; longitude: string | null } | null = null;
 
@@ -186,6 +183,7 @@ function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | nul
           clockOut: null,
           clockOutTime: null,
           durationMin: null,
+          unpaidBreakMin: 0,
           status: "INCOMPLETE",
           inLatitude: openShift.latitude,
           inLongitude: openShift.longitude,
@@ -197,7 +195,8 @@ function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | nul
     } else if (punch.type === "OUT") {
       if (openShift) {
         const durationMs = ts.getTime() - openShift.timestamp.getTime();
-        const durationMin = Math.round(durationMs / 60000);
+        const unpaidBreakMin = breaksPaid ? 0 : breakMinutesBetween(rawPunches, openShift.timestamp, ts);
+        const durationMin = Math.max(0, Math.round(durationMs / 60000) - unpaidBreakMin);
         shifts.push({
           date: formatDateES(openShift.timestamp),
           clockIn: openShift.timestamp.toISOString(),
@@ -205,6 +204,7 @@ function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | nul
           clockOut: ts.toISOString(),
           clockOutTime: formatTimeES(ts),
           durationMin,
+          unpaidBreakMin,
           status: "OK",
           inLatitude: openShift.latitude,
           inLongitude: openShift.longitude,
@@ -220,6 +220,7 @@ function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | nul
           clockOut: ts.toISOString(),
           clockOutTime: formatTimeES(ts),
           durationMin: null,
+          unpaidBreakMin: 0,
           status: "INCOMPLETE",
           inLatitude: null,
           inLongitude: null,
@@ -238,6 +239,7 @@ function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | nul
       clockOut: null,
       clockOutTime: null,
       durationMin: null,
+      unpaidBreakMin: 0,
       status: "INCOMPLETE",
       inLatitude: openShift.latitude,
       inLongitude: openShift.longitude,
@@ -249,6 +251,265 @@ function pairPunchesIntoShifts(rawPunches: { type: string; timestamp: Date | nul
   return shifts;
 }
 
+function annotateShiftHolidays(shifts: ShiftEntry[], holidayList: { date: string; name: string }[]): ShiftEntry[] {
+  const holidayByDate = new Map(holidayList.map(h => [h.date, h.name]));
+  return shifts.map(s => {
+    const ref = s.clockIn || s.clockOut;
+    return { ...s, holiday: ref ? holidayByDate.get(toSpainDateKey(new Date(ref))) ?? null : null };
+  });
+}
+
+async function countEmployeeAbsenceDays(employee: Pick<Employee, "id" | "siteId">, startDate: string, endDate: string): Promise<number> {
+  const [schedule, holidayList] = await Promise.all([
+    storage.getWorkScheduleByEmployee(employee.id),
+    storage.getHolidaysInRange(startDate, endDate, { siteId: employee.siteId }),
+  ]);
+  return countAbsenceDays(startDate, endDate, workingWeekdaysFor(schedule), new Set(holidayList.map(h => h.date)));
+}
+
+async function getAbsenceBalances(employeeId: string, year: number) {
+  const [types, list] = await Promise.all([
+    storage.getAbsenceTypes(),
+    storage.getAbsences({ employeeId, fromDateKey: `${year}-01-01`, toDateKey: `${year}-12-31` }),
+  ]);
+  return types.map(t => computeAbsenceBalance(t, year, list));
+}
+
+async function getHoursBank(employeeId: string) {
+  const entries = await storage.getHoursBankEntries(employeeId);
+  return { summary: computeHoursBank(entries, toSpainDateKey(new Date())), entries };
+}
+
+// Managers only see their own centre; admins may narrow any listing with ?siteId=
+function resolveSiteScope(req: Request): string | undefined {
+  return siteScopeFor(req.employee, req.query.siteId);
+}
+
+// Employees of another site are reported as missing, so a manager cannot read or change them by id
+async function getEmployeeInScope(req: Request, employeeId: string): Promise<Employee | undefined> {
+  const employee = await storage.getEmployee(employeeId);
+  return employee && isInSiteScope(employee, resolveSiteScope(req)) ? employee : undefined;
+}
+
+// Managers only receive approvals for their team; admins see every pending item
+function resolveApprovalScope(req: Request): string | undefined {
+  return req.employee?.role === "manager" ? req.employee.id : undefined;
+}
+
+async function isResponsibleFor(actor: Employee, employeeId: string): Promise<boolean> {
+  const subject = await storage.getEmployee(employeeId);
+  return !subject || canHandleApproval(actor, subject);
+}
+
+// The credit entry is tied to the request itself, so later changes go in as adjustments dated on the same day
+async function postOvertimeBankAdjustment(request: OvertimeRequest, minutes: number, actorId: string, ipAddress: string): Promise<void> {
+  const dateKey = toSpainDateKey(request.date);
+  const entry = await storage.createHoursBankEntry({
+    employeeId: request.employeeId,
+    kind: "adjustment",
+    minutes,
+    date: dateKey,
+    expiresOn: minutes > 0 ? resolveCreditExpiry(dateKey, parseInt(process.env.HOURS_BANK_EXPIRY_MONTHS || "4", 10)) : null,
+    comment: "AUTO: regularización de horas extra aprobadas tras corregir la jornada",
+    createdById: actorId,
+  });
+
+  await storage.createAuditLog({
+    action: "hours_bank_entry",
+    actorId,
+    targetType: "hours_bank_entry",
+    targetId: entry.id,
+    details: JSON.stringify({ employeeId: request.employeeId, kind: "adjustment", minutes, date: dateKey, overtimeRequestId: request.id, automatic: true }),
+    ipAddress,
+  });
+}
+
+// Reruns the automatic overtime check for a day from its effective punches; a pending request the day
+// no longer justifies is closed so corrections never leave stale overtime waiting for approval, and an
+// approved one is settled in the hours bank so its credit always matches the corrected day
+async function recomputeDailyOvertime(employee: Employee, day: Date, actorId: string, ipAddress: string): Promise<void> {
+  const { calculateOvertime, planOvertimeRecompute } = await import("./overtime");
+  const { resolveExpectedDailyMinutes } = await import("./schedules");
+  const overtimeThreshold = parseInt(process.env.OVERTIME_MIN_THRESHOLD || "15", 10);
+
+  const schedule = await storage.getWorkScheduleByEmployee(employee.id);
+  const expectedDailyMinutes = resolveExpectedDailyMinutes(
+    schedule,
+    day,
+    parseInt(process.env.EXPECTED_DAILY_MINUTES || "480", 10)
+  );
+  const holiday = await storage.getHolidayByDate(toSpainDateKey(day), { siteId: employee.siteId });
+  const dayPunches = await storage.getEffectivePunchesByEmployeeAndDate(employee.id, day);
+  const breakRules = toBreakRules(await storage.getBreakPolicyForEmployee(employee.id));
+
+  const result = calculateOvertime(dayPunches, expectedDailyMinutes, overtimeThreshold, !!holiday, breakRules);
+  const punchDay = startOfDayInSpain(new Date(day));
+  const existingRequest = await storage.getOvertimeRequestByDateAndEmployee(employee.id, punchDay);
+  const plan = planOvertimeRecompute(result, existingRequest);
+
+  if (plan.action === "none") {
+    return;
+  }
+
+  if (existingRequest && plan.action !== "create" && plan.bankAdjustment !== 0) {
+    await postOvertimeBankAdjustment(existingRequest, plan.bankAdjustment, actorId, ipAddress);
+  }
+
+  if (existingRequest && plan.action === "reject") {
+    await storage.updateOvertimeRequest(existingRequest.id, {
+      status: "rejected",
+      reviewerComment: existingRequest.status === "approved"
+        ? "AUTO: la jornada corregida ya no supera el umbral de horas extra; crédito retirado de la bolsa"
+        : "AUTO: la jornada corregida ya no supera el umbral de horas extra",
+      reviewedAt: new Date(),
+    });
+
+    await storage.createAuditLog({
+      action: "overtime_review",
+      actorId,
+      targetType: "overtime_request",
+      targetId: existingRequest.id,
+      details: JSON.stringify({ dailyMinutes: result.dailyMinutes, expectedDailyMinutes, status: "rejected", previousStatus: existingRequest.status, automatic: true }),
+      ipAddress,
+    });
+    publishLiveEvent({ kind: "overtime", employeeId: employee.id, siteId: employee.siteId });
+    return;
+  }
+
+  if (existingRequest && plan.action === "update") {
+    await storage.updateOvertimeRequest(existingRequest.id, {
+      minutes: plan.minutes,
+      reason: "AUTO",
+    });
+
+    await storage.createAuditLog({
+      action: "overtime_create",
+      actorId,
+      targetType: "overtime_request",
+      targetId: existingRequest.id,
+      details: JSON.stringify({ dailyMinutes: result.dailyMinutes, expectedDailyMinutes, overtimeMinutes: plan.minutes, previousMinutes: existingRequest.minutes, status: existingRequest.status, holiday: holiday?.name ?? null, updated: true }),
+      ipAddress,
+    });
+    publishLiveEvent({ kind: "overtime", employeeId: employee.id, siteId: employee.siteId });
+    return;
+  }
+
+  const overtimeRequest = await storage.createOvertimeRequest({
+    employeeId: employee.id,
+    date: punchDay,
+    minutes: result.overtimeMinutes,
+    reason: "AUTO",
+    status: "pending",
+  });
+
+  await storage.createAuditLog({
+    action: "overtime_create",
+    actorId,
+    targetType: "overtime_request",
+    targetId: overtimeRequest.id,
+    details: JSON.stringify({ dailyMinutes: result.dailyMinutes, expectedDailyMinutes, overtimeMinutes: result.overtimeMinutes, holiday: holiday?.name ?? null, updated: false }),
+    ipAddress,
+  });
+  publishLiveEvent({ kind: "overtime", employeeId: employee.id, siteId: employee.siteId });
+
+  if (employee.supervisorId) {
+    await storage.createNotification({
+      recipientId: employee.supervisorId,
+      kind: "overtime_request",
+      title: "Horas extra pendientes de aprobación",
+      message: `${employee.firstName} ${employee.lastName} ha generado ${result.overtimeMinutes} min de horas extra el ${formatDateES(punchDay)}.`,
+      targetType: "overtime_request",
+      targetId: overtimeRequest.id,
+    });
+  }
+}
+
+// A correction can move a punch to another day, so both the day it left and the day it lands on are rechecked
+async function recomputeOvertimeForDays(employeeId: string, days: (Date | null | undefined)[], actorId: string, ipAddress: string): Promise<void> {
+  const employee = await storage.getEmployee(employeeId);
+  if (!employee) return;
+
+  const byKey = new Map<string, Date>();
+  for (const day of days) {
+    if (day) byKey.set(toSpainDateKey(day), day);
+  }
+  for (const day of Array.from(byKey.values())) {
+    await recomputeDailyOvertime(employee, day, actorId, ipAddress);
+  }
+}
+
+// Reviews and overtime only know the employee id; the site is looked up so managers see their own team's events.
+// A failed lookup must not fail the request that already did its work
+async function publishEmployeeEvent(kind: LiveEventKind, employeeId: string): Promise<void> {
+  try {
+    const employee = await storage.getEmployee(employeeId);
+    publishLiveEvent({ kind, employeeId, siteId: employee?.siteId ?? null });
+  } catch (error) {
+    logError("[LIVE-EVENTS] Error publicando evento", error);
+  }
+}
+
+// Links printed in documents must reach the app from outside, so a configured URL wins over the request host
+function publicBaseUrl(req: Request): string {
+  return (process.env.PUBLIC_APP_URL || `${req.protocol}://${req.get("host")}`).replace(/\/$/, "");
+}
+
+// Managers stay within their site, and authorities reports keep requiring their own permission
+async function canAccessSubscription(req: Request, subscription: Pick<ReportSubscription, "siteId" | "kind">): Promise<boolean> {
+  const siteId = resolveSiteScope(req);
+  if (siteId && subscription.siteId !== siteId) {
+    return false;
+  }
+  return subscription.kind !== "authorities" || (await getEmployeePermissions(req.employee!)).includes("reports.authorities");
+}
+
+// Writes the ZIP and its audit entry; the entry only records counts, never the exported data itself
+async function sendDataSubjectExport(req: Request, res: Response, employee: Employee, requestedBy: DataSubjectExport["requestedBy"]): Promise<void> {
+  const [records, correctionRequests, overtimeRequests, absences] = await Promise.all([
+    storage.getDataSubjectRecords(employee.id),
+    storage.getCorrectionRequests({ employeeId: employee.id, limit: 100000 }),
+    storage.getOvertimeRequests({ employeeId: employee.id, limit: 100000 }),
+    storage.getAbsences({ employeeId: employee.id, limit: 100000 }),
+  ]);
+
+  const data: DataSubjectExport = {
+    generatedAt: new Date(),
+    requestedBy,
+    employee,
+    ...records,
+    correctionRequests: correctionRequests.map(({ employee: _employee, punch: _punch, ...r }) => r),
+    overtimeRequests: overtimeRequests.map(({ employee: _employee, reviewer: _reviewer, ...r }) => r),
+    absences: absences.map(({ employee: _employee, type: _type, ...a }) => a),
+  };
+  const signatures = await collectSignatures(data.punches);
+  const zip = await buildDataExportZip(data, signatures);
+
+  await storage.createAuditLog({
+    action: "export",
+    actorId: req.employee!.id,
+    targetType: "employee",
+    targetId: employee.id,
+    details: JSON.stringify({
+      kind: "data_subject",
+      requestedBy,
+      punches: data.punches.length,
+      signatures: signatures.length,
+      auditEntries: data.auditEntries.length,
+      bytes: zip.length,
+    }),
+    ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+  });
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", `attachment; filename="datos_personales_${employee.id}_${formatDateForQuery(data.generatedAt)}.zip"`);
+  res.setHeader("Cache-Control", "no-store");
+  res.send(zip);
+}
+
+// Employees can only ask to fix punches from the last month; older ones go through an admin correction
+const CORRECTION_REQUEST_WINDOW_DAYS = 31;
+const LIVE_EVENTS_KEEPALIVE_MS = 25_000;
+
 function formatDateForQuery(date: Date): string {
   return date.toISOString().split("T")[0];
 }
@@ -271,6 +532,32 @@ const gestionApiLimiter = rateLimit({
   message: { message: "Demasiados intentos, inténtelo más tarde" },
 });
 
+// Each export reads every record and signature of the employee, so the portal gets only a few per hour
+const dataExportLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  message: { message: "Demasiadas exportaciones, inténtelo más tarde" },
+});
+
+// Pairing is open to any browser, so requests are kept scarce; status polls run every few seconds while a code is shown
+const kioskPairingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: { error: { code: "RATE_LIMITED", message: "Demasiados intentos, inténtelo más tarde" } },
+});
+
+const kioskPairingStatusLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 300,
+  message: { error: { code: "RATE_LIMITED", message: "Demasiados intentos, inténtelo más tarde" } },
+});
+
+const reportVerificationLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30,
+  message: { message: "Demasiados intentos, inténtelo más tarde" },
+});
+
 function authenticateGestionApi(req: any, res: any, next: any) {
   const apiKey = process.env.GESTION_API_KEY;
   if (!apiKey) {
@@ -283,6 +570,78 @@ function authenticateGestionApi(req: any, res: any, next: any) {
   next();
 }
 
+// Runs after authentication so each key is scoped to the employee or kiosk that sent it; requests without the header pass through
+async function honourIdempotencyKey(req: Request, res: Response, next: NextFunction) {
+  const key = req.headers["idempotency-key"];
+  if (key === undefined) {
+    return next();
+  }
+
+  const kioskDevice = req.kioskDevice;
+  const reject = (status: number, code: string, message: string) =>
+    res.status(status).json(kioskDevice ? { error: { code, message } } : { message });
+
+  if (typeof key !== "string" || !isValidIdempotencyKey(key)) {
+    return reject(400, "INVALID_IDEMPOTENCY_KEY", "Clave de idempotencia inválida");
+  }
+
+  const scope = kioskDevice ? `kiosk:${kioskDevice.id}` : `employee:${req.employee!.id}`;
+  const requestHash = fingerprintRequest(req.method, req.path, req.body);
+  const now = new Date();
+  const entry = { scope, key, requestHash, expiresAt: idempotencyExpiry(now, resolveIdempotencyPolicy()) };
+
+  try {
+    let claimed = await storage.claimIdempotencyKey(entry);
+    if (!claimed) {
+      const stored = await storage.getIdempotencyKey(scope, key);
+      const decision = stored ? decideIdempotentRetry(stored, requestHash, now) : "expired";
+
+      if (stored && decision === "replay") {
+        logInfo("[IDEMPOTENCY] Respuesta repetida", { scope, path: req.path });
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(stored.statusCode!).json(stored.responseBody);
+      }
+      if (decision === "in_progress") {
+        return reject(409, "REQUEST_IN_PROGRESS", "La solicitud anterior con esta clave aún se está procesando");
+      }
+      if (decision === "mismatch") {
+        return reject(422, "IDEMPOTENCY_KEY_REUSED", "La clave de idempotencia ya se usó con otra solicitud");
+      }
+
+      // The stored answer is past its window, so the key starts over as a new request
+      if (stored) {
+        await storage.deleteIdempotencyKey(stored.id);
+      }
+      claimed = await storage.claimIdempotencyKey(entry);
+      if (!claimed) {
+        return reject(409, "REQUEST_IN_PROGRESS", "La solicitud anterior con esta clave aún se está procesando");
+      }
+    }
+
+    const claimedId = claimed.id;
+    const sendJson = res.json.bind(res);
+    // The answer is stored before it is sent, so a retry that arrives right after it always finds it
+    res.json = (body: unknown) => {
+      const settle = isReplayableStatus(res.statusCode)
+        ? storage.completeIdempotencyKey(claimedId, res.statusCode, body)
+        : storage.deleteIdempotencyKey(claimedId);
+      settle
+        .catch((error) => logError("[IDEMPOTENCY] Error guardando respuesta", error))
+        .finally(() => sendJson(body));
+      return res;
+    };
+    next();
+  } catch (error) {
+    if (kioskDevice) {
+      logError("[IDEMPOTENCY] Error", error);
+      return isDbError(error)
+        ? reject(503, "SERVICE_UNAVAILABLE", "Servicio temporalmente no disponible. Inténtelo de nuevo.")
+        : reject(500, "IDEMPOTENCY_ERROR", "Error al comprobar la clave de idempotencia");
+    }
+    handleRouteError(res, error, "[IDEMPOTENCY] Error", "Error al comprobar la clave de idempotencia");
+  }
+}
+
 const APP_VERSION = "1.0.0";
 
 export async function registerRoutes(
@@ -311,7 +670,7 @@ export async function registerRoutes(
     });
   });
 
-  app.get("/api/debug/timezone", authenticateAdminManager, async (_req, res) => {
+  app.get("/api/debug/timezone", authenticateAdminManager, requirePermission("system.status"), async (_req, res) => {
     const now = new Date();
     const serverInfo = {
       TZ: process.env.TZ,
@@ -337,7 +696,7 @@ export async function registerRoutes(
     res.json({ server: serverInfo, database: dbInfo, display: displayInfo });
   });
 
-  app.get("/api/estado", authenticateAdminManager, async (_req, res) => {
+  app.get("/api/estado", authenticateAdminManager, requirePermission("system.status"), async (_req, res) => {
     try {
       const employees = await storage.getAllEmployees();
       
@@ -369,6 +728,22 @@ export async function registerRoutes(
     }
   });
 
+  // Sealed rows are never deleted (purges and retention anonymise them in place), so any gap is a break
+  app.get("/api/admin/integrity", authenticateAdminManager, requirePermission("system.status"), async (_req, res) => {
+    try {
+      const punchChain = await storage.verifyHashChain("punches");
+      const auditChain = await storage.verifyHashChain("audit_log");
+
+      res.json({
+        ok: punchChain.breaks.length === 0 && auditChain.breaks.length === 0,
+        checkedAt: new Date().toISOString(),
+        chains: [punchChain, auditChain],
+      });
+    } catch (error) {
+      handleRouteError(res, error, "[INTEGRITY]", "Error al verificar la cadena de integridad");
+    }
+  });
+
   app.post("/api/auth/login", authLimiter, async (req, res) => {
     try {
       const result = loginSchema.safeParse(req.body);
@@ -434,7 +809,7 @@ export async function registerRoutes(
       });
 
       const { password: _, ...userWithoutPassword } = employee;
-      res.json({ user: userWithoutPassword });
+      res.json({ user: { ...userWithoutPassword, permissions: await getEmployeePermissions(employee) } });
     } catch (error) {
       handleRouteError(res, error, "[AUTH-LOGIN]");
     }
@@ -475,7 +850,8 @@ export async function registerRoutes(
         const { proxyEmployee, fichajesRole } = await createAdminSession(res, gestionUser, ipAddress, "login", "gestion_users");
         logInfo(`[ADMIN-LOGIN] Gestion user ${gestionUser.username} (role=${gestionUser.role}) logged in as ${fichajesRole}`);
         const { password: _, ...userWithoutPassword } = proxyEmployee;
-        res.json({ user: { ...userWithoutPassword, source: "gestion_users", gestionUserId: gestionUser.id } });
+        const permissions = await getEmployeePermissions(proxyEmployee);
+        res.json({ user: { ...userWithoutPassword, permissions, source: "gestion_users", gestionUserId: gestionUser.id } });
       } catch (sessionError) {
         const msg = sessionError instanceof Error ? sessionError.message : "";
         if (msg === "ROLE_NOT_ALLOWED") {
@@ -764,10 +1140,11 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
       }
 
       const { password: _, ...userWithoutPassword } = employee;
+      const permissions = await getEmployeePermissions(employee);
       if (payload.source === "gestion_users" && payload.gestionUserId) {
-        return res.json({ user: { ...userWithoutPassword, source: "gestion_users", gestionUserId: payload.gestionUserId } });
+        return res.json({ user: { ...userWithoutPassword, permissions, source: "gestion_users", gestionUserId: payload.gestionUserId } });
       }
-      res.json({ user: userWithoutPassword });
+      res.json({ user: { ...userWithoutPassword, permissions } });
     } catch (error) {
       handleRouteError(res, error, "[AUTH-ME]");
     }
@@ -948,15 +1325,25 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         ? endOfDayInSpain(new Date(to + "T12:00:00Z"))
         : endOfDayInSpain(now);
 
-      const rawPunches = await storage.getPunchesByEmployeeAndDateRange(
+      const rawPunches = await storage.getEffectivePunchesByEmployeeAndDateRange(
         req.employee!.id,
         fromDate,
         toDate
       );
 
-      const shifts = pairPunchesIntoShifts(rawPunches);
+      const [holidayList, absenceList] = await Promise.all([
+        storage.getHolidaysInRange(toSpainDateKey(fromDate), toSpainDateKey(toDate), { siteId: req.employee!.siteId }),
+        storage.getAbsences({ employeeId: req.employee!.id, status: "approved", fromDateKey: toSpainDateKey(fromDate), toDateKey: toSpainDateKey(toDate) }),
+      ]);
+      const breakRules = toBreakRules(await storage.getBreakPolicyForEmployee(req.employee!.id));
+      const shifts = annotateShiftHolidays(pairPunchesIntoShifts(rawPunches, breakRules.paid), holidayList);
 
-      res.json({ shifts, period: { from: from || formatDateForQuery(fromDate), to: to || formatDateForQuery(toDate) } });
+      res.json({
+        shifts,
+        holidays: holidayList.map(h => ({ date: h.date, name: h.name, scope: h.scope })),
+        absences: absenceList.map(a => ({ id: a.id, startDate: a.startDate, endDate: a.endDate, days: a.days, type: a.type.name })),
+        period: { from: from || formatDateForQuery(fromDate), to: to || formatDateForQuery(toDate) },
+      });
     } catch (error) {
       handleRouteError(res, error, "[ME-SHIFTS]", "Error al obtener fichajes");
     }
@@ -980,14 +1367,21 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         ? endOfDayInSpain(new Date(to + "T12:00:00Z"))
         : endOfDayInSpain(now);
 
-      const rawPunches = await storage.getPunchesByEmployeeAndDateRange(
+      const rawPunches = await storage.getEffectivePunchesByEmployeeAndDateRange(
         req.employee!.id,
         fromDate,
         toDate
       );
 
-      const shifts = pairPunchesIntoShifts(rawPunches);
+      const breakRules = toBreakRules(await storage.getBreakPolicyForEmployee(req.employee!.id));
+      const shifts = pairPunchesIntoShifts(rawPunches, breakRules.paid);
       const employee = req.employee!;
+      const absenceList = await storage.getAbsences({
+        employeeId: employee.id,
+        status: "approved",
+        fromDateKey: toSpainDateKey(fromDate),
+        toDateKey: toSpainDateKey(toDate),
+      });
 
       const records: PunchRecord[] = shifts.map(s => ({
         lastName: employee.lastName,
@@ -1000,6 +1394,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         outSignatureData: null,
         outLatitude: s.outLatitude,
         outLongitude: s.outLongitude,
+        unpaidBreakMinutes: s.unpaidBreakMin,
       }));
 
       const fromLabel = from || formatDateForQuery(fromDate);
@@ -1014,6 +1409,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         periodEnd: toDate,
         employeeName: `${employee.firstName} ${employee.lastName}`,
         isEmployeeReport: true,
+        absences: absenceList.map(a => ({ startDate: a.startDate, endDate: a.endDate, typeName: a.type.name, days: a.days })),
       });
 
       res.setHeader("Content-Type", "application/pdf");
@@ -1043,23 +1439,25 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         ? endOfDayInSpain(new Date(to + "T12:00:00Z"))
         : endOfDayInSpain(now);
 
-      const rawPunches = await storage.getPunchesByEmployeeAndDateRange(
+      const rawPunches = await storage.getEffectivePunchesByEmployeeAndDateRange(
         req.employee!.id,
         fromDate,
         toDate
       );
 
-      const shifts = pairPunchesIntoShifts(rawPunches);
+      const breakRules = toBreakRules(await storage.getBreakPolicyForEmployee(req.employee!.id));
+      const shifts = pairPunchesIntoShifts(rawPunches, breakRules.paid);
 
       const csvRows = shifts.map(s => ({
         Fecha: s.date,
         Entrada: s.clockInTime || "-",
         Salida: s.clockOutTime || "-",
+        "Pausa no retribuida (min)": s.unpaidBreakMin,
         "Duración (min)": s.durationMin !== null ? s.durationMin : "-",
         Estado: s.status,
       }));
 
-      const parser = new Parser({ fields: ["Fecha", "Entrada", "Salida", "Duración (min)", "Estado"] });
+      const parser = new Parser({ fields: ["Fecha", "Entrada", "Salida", "Pausa no retribuida (min)", "Duración (min)", "Estado"] });
       const csv = "\ufeff" + parser.parse(csvRows);
 
       const fromLabel = from || formatDateForQuery(fromDate);
@@ -1074,217 +1472,1505 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  // ==================== ADMIN EMPLOYEE MANAGEMENT ====================
-
-  app.get("/api/employees", authenticateAdminManager, async (req, res) => {
+  app.get("/api/me/absence-types", authenticateEmployeePortal, async (_req, res) => {
     try {
-      const allEmployees = await storage.getAllEmployees();
-      const filtered = allEmployees.filter(emp => emp.gestionUserId === null || emp.gestionUserId === undefined);
-      const sanitized = filtered.map(({ password, ...emp }) => emp);
-      res.json(sanitized);
+      const types = await storage.getAbsenceTypes();
+      res.json(types);
     } catch (error) {
-      handleRouteError(res, error, "[GET-EMPLOYEES]");
+      handleRouteError(res, error, "[ME-ABSENCE-TYPES]", "Error al obtener tipos de ausencia");
     }
   });
 
-  app.post("/api/employees", authenticateAdminManager, async (_req, res) => {
-    return res.status(403).json({ message: "Los empleados se gestionan desde Gestión" });
-  });
-
-  app.patch("/api/employees/:id", authenticateAdminManager, async (_req, res) => {
-    return res.status(403).json({ message: "Los empleados se gestionan desde Gestión" });
-  });
-
-  app.delete("/api/employees/:id", authenticateAdminManager, async (_req, res) => {
-    return res.status(403).json({ message: "Los empleados se gestionan desde Gestión" });
-  });
-
-  // ==================== MONITOR SYNC ====================
-
-  app.post("/api/admin/sync-monitors", authenticateAdminManager, async (req, res) => {
+  app.get("/api/me/absences", authenticateEmployeePortal, async (req, res) => {
     try {
-      const { syncMonitorsToEmployees, setLastSyncStatus } = await import("./monitor-sync");
-      const result = await syncMonitorsToEmployees();
-      setLastSyncStatus({ lastSyncAt: new Date().toISOString(), lastSyncResult: result });
-      res.json(result);
-    } catch (error) {
-      handleRouteError(res, error, "[SYNC-MONITORS]", "Error al sincronizar monitores");
-    }
-  });
+      const year = parseInt((req.query.year as string) || String(new Date().getFullYear()), 10);
+      if (!year || year < 2000 || year > 2100) {
+        return res.status(400).json({ message: "Año inválido" });
+      }
 
-  app.get("/api/admin/sync-status", authenticateAdminManager, async (_req, res) => {
-    try {
-      const { getLastSyncStatus } = await import("./monitor-sync");
-      res.json(getLastSyncStatus());
+      const employeeId = req.employee!.id;
+      const [list, balances] = await Promise.all([
+        storage.getAbsences({ employeeId, fromDateKey: `${year}-01-01`, toDateKey: `${year}-12-31` }),
+        getAbsenceBalances(employeeId, year),
+      ]);
+
+      res.json({ absences: list.map(({ employee, ...a }) => a), balances, year });
     } catch (error) {
-      handleRouteError(res, error, "[SYNC-STATUS]", "Error al obtener estado de sincronización");
+      handleRouteError(res, error, "[ME-ABSENCES]", "Error al obtener ausencias");
     }
   });
 
-  // ==================== PUNCHES ====================
-
-  app.post("/api/punches", authenticateEmployee, async (req, res) => {
+  app.post("/api/me/absences", authenticateEmployeePortal, async (req, res) => {
     try {
-      const result = punchRequestSchema.safeParse(req.body);
+      const result = absenceRequestSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
       }
 
       const employee = req.employee!;
-      const { type, latitude, longitude, accuracy, source, signatureData } = result.data;
+      const { typeId, startDate, endDate, comment } = result.data;
 
-      const lastPunch = await storage.getLastPunchByEmployee(employee.id);
-      
-      if (type === "IN" && lastPunch?.type === "IN") {
-        return res.status(400).json({ message: "Ya está fichado como presente. Realice una salida primero." });
+      const type = await storage.getAbsenceType(typeId);
+      if (!type || !type.isActive) {
+        return res.status(400).json({ message: "Tipo de ausencia no válido" });
       }
 
-      if (type === "OUT" && (!lastPunch || lastPunch.type === "OUT")) {
-        return res.status(400).json({ message: "No está fichado como presente. Realice una entrada primero." });
+      if (startDate.slice(0, 4) !== endDate.slice(0, 4)) {
+        return res.status(400).json({ message: "Una solicitud no puede abarcar dos años; divídala en dos" });
       }
 
-      if (!signatureData || signatureData.length < 100) {
-        return res.status(400).json({ message: "La firma es obligatoria para fichar" });
+      const overlapping = await storage.getOverlappingAbsences(employee.id, startDate, endDate);
+      if (overlapping.length > 0) {
+        return res.status(409).json({ message: "Ya existe una ausencia solicitada en esas fechas" });
       }
 
-      const needsReview = !latitude || !longitude;
+      const days = await countEmployeeAbsenceDays(employee, startDate, endDate);
+      if (days === 0) {
+        return res.status(400).json({ message: "El período no incluye días laborables" });
+      }
 
-      const punch = await storage.createPunch({
+      if (type.annualAllowanceDays !== null) {
+        const balance = (await getAbsenceBalances(employee.id, parseInt(startDate.slice(0, 4), 10)))
+          .find(b => b.typeId === type.id);
+        if (balance && balance.remainingDays !== null && days > balance.remainingDays) {
+          return res.status(400).json({ message: `Saldo insuficiente: quedan ${balance.remainingDays} días de ${type.name}` });
+        }
+      }
+
+      const absence = await storage.createAbsence({
         employeeId: employee.id,
-        type,
-        latitude: latitude?.toString(),
-        longitude: longitude?.toString(),
-        accuracy: accuracy?.toString(),
-        needsReview,
-        source,
-        signatureData,
-        signatureSignedAt: new Date(),
+        typeId,
+        startDate,
+        endDate,
+        days,
+        comment: comment || null,
+        status: "pending",
       });
 
       await storage.createAuditLog({
-        action: "create",
+        action: "absence_create",
         actorId: employee.id,
-        targetType: "punch",
-        targetId: punch.id,
-        details: JSON.stringify({ type, needsReview, source }),
+        targetType: "absence",
+        targetId: absence.id,
+        details: JSON.stringify({ type: type.code, startDate, endDate, days, source: "portal" }),
         ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
       });
 
-      if (type === "OUT") {
-        const { calculateOvertime } = await import("./overtime");
-        const expectedDailyMinutes = parseInt(process.env.EXPECTED_DAILY_MINUTES || "480", 10);
-        const overtimeThreshold = parseInt(process.env.OVERTIME_MIN_THRESHOLD || "15", 10);
-        
-        const punchDate = punch.timestamp;
-        const dayPunches = await storage.getPunchesByEmployeeAndDate(employee.id, punchDate);
-        
-        const result = calculateOvertime(dayPunches, expectedDailyMinutes, overtimeThreshold);
-        
-        if (result.shouldCreateRequest) {
-          const punchDay = startOfDayInSpain(new Date(punchDate));
-          
-          const existingRequest = await storage.getOvertimeRequestByDateAndEmployee(employee.id, punchDay);
-          
-          if (existingRequest) {
-            await storage.updateOvertimeRequest(existingRequest.id, {
-              minutes: result.overtimeMinutes,
-              reason: "AUTO",
-            });
-            
-            await storage.createAuditLog({
-              action: "overtime_create",
-              actorId: employee.id,
-              targetType: "overtime_request",
-              targetId: existingRequest.id,
-              details: JSON.stringify({ dailyMinutes: result.dailyMinutes, expectedDailyMinutes, overtimeMinutes: result.overtimeMinutes, updated: true }),
-              ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
-            });
-          } else {
-            const overtimeRequest = await storage.createOvertimeRequest({
-              employeeId: employee.id,
-              date: punchDay,
-              minutes: result.overtimeMinutes,
-              reason: "AUTO",
-              status: "pending",
-            });
-            
-            await storage.createAuditLog({
-              action: "overtime_create",
-              actorId: employee.id,
-              targetType: "overtime_request",
-              targetId: overtimeRequest.id,
-              details: JSON.stringify({ dailyMinutes: result.dailyMinutes, expectedDailyMinutes, overtimeMinutes: result.overtimeMinutes, updated: false }),
-              ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
-            });
-          }
-        }
-      }
-
-      res.status(201).json({ punch });
+      res.status(201).json(absence);
     } catch (error) {
-      handleRouteError(res, error, "[CREATE-PUNCH]");
+      handleRouteError(res, error, "[ME-CREATE-ABSENCE]", "Error al solicitar ausencia");
     }
   });
 
-  app.get("/api/punches/my", authenticateEmployee, async (req, res) => {
+  app.post("/api/me/absences/:id/cancel", authenticateEmployeePortal, async (req, res) => {
     try {
-      const employee = req.employee!;
-      const punches = await storage.getPunchesByEmployee(employee.id);
-      res.json(punches);
+      const id = req.params.id as string;
+      const absence = await storage.getAbsence(id);
+      if (!absence || absence.employeeId !== req.employee!.id) {
+        return res.status(404).json({ message: "Ausencia no encontrada" });
+      }
+      if (absence.status !== "pending") {
+        return res.status(400).json({ message: "Solo se pueden cancelar solicitudes pendientes" });
+      }
+
+      await storage.updateAbsence(id, { status: "cancelled" });
+
+      await storage.createAuditLog({
+        action: "absence_review",
+        actorId: req.employee!.id,
+        targetType: "absence",
+        targetId: id,
+        details: JSON.stringify({ status: "cancelled", employeeId: absence.employeeId, source: "portal" }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json({ message: "Solicitud cancelada" });
     } catch (error) {
-      handleRouteError(res, error, "[GET-MY-PUNCHES]");
+      handleRouteError(res, error, "[ME-CANCEL-ABSENCE]", "Error al cancelar ausencia");
     }
   });
 
-  app.get("/api/punches/last", authenticateEmployee, async (req, res) => {
+  app.get("/api/me/correction-requests", authenticateEmployeePortal, async (req, res) => {
     try {
-      const employee = req.employee!;
-      const punch = await storage.getLastPunchByEmployee(employee.id);
-      res.json(punch || null);
+      const employeeId = req.employee!.id;
+      const since = new Date(Date.now() - CORRECTION_REQUEST_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const [requests, recentPunches] = await Promise.all([
+        storage.getCorrectionRequests({ employeeId, limit: 100 }),
+        storage.getEffectivePunchesByEmployeeAndDateRange(employeeId, since, new Date()),
+      ]);
+
+      res.json({
+        requests: requests.map(({ employee, reviewerId, ...r }) => r),
+        punches: recentPunches
+          .filter(p => p.type === "IN" || p.type === "OUT")
+          .reverse()
+          .map(p => ({ id: p.id, type: p.type, timestamp: p.timestamp })),
+      });
     } catch (error) {
-      handleRouteError(res, error, "[GET-LAST-PUNCH]");
+      handleRouteError(res, error, "[ME-CORRECTION-REQUESTS]", "Error al obtener solicitudes de corrección");
     }
   });
 
-  async function getEmployeeStatus(employeeId: string): Promise<{ status: "OFF" | "ON" | "BREAK"; breakStartedAt?: string; pauseAlreadyTaken: boolean }> {
-    const lastWorkPunch = await storage.getLastWorkPunch(employeeId);
-    const lastOverall = await storage.getLastPunchByEmployee(employeeId);
+  app.post("/api/me/correction-requests", authenticateEmployeePortal, async (req, res) => {
+    try {
+      const result = portalCorrectionRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
+      }
 
-    let base: "OFF" | "ON" = "OFF";
-    if (lastWorkPunch && lastWorkPunch.type === "IN") {
-      base = "ON";
-    }
+      const employee = req.employee!;
+      const { kind, punchId, requestedType, requestedTimestamp, reason } = result.data;
+      const now = Date.now();
+      const since = now - CORRECTION_REQUEST_WINDOW_DAYS * 24 * 60 * 60 * 1000;
 
-    if (base === "ON" && lastOverall && lastOverall.type === "BREAK_START") {
-      return { status: "BREAK", breakStartedAt: lastOverall.timestamp.toISOString(), pauseAlreadyTaken: false };
-    }
+      const requestedAt = requestedTimestamp ? new Date(requestedTimestamp) : null;
+      if (requestedAt && requestedAt.getTime() > now) {
+        return res.status(400).json({ message: "La hora solicitada no puede estar en el futuro" });
+      }
+      if (requestedAt && requestedAt.getTime() < since) {
+        return res.status(400).json({ message: `Solo se pueden solicitar correcciones de los últimos ${CORRECTION_REQUEST_WINDOW_DAYS} días` });
+      }
 
-    let pauseAlreadyTaken = false;
-    if (base === "ON" && lastWorkPunch) {
-      const breakEndAfterIn = await db.select({ id: punches.id }).from(punches)
-        .where(and(
-          eq(punches.employeeId, employeeId),
-          eq(punches.type, "BREAK_END"),
-          gt(punches.timestamp, lastWorkPunch.timestamp)
-        ))
-        .limit(1);
-      pauseAlreadyTaken = breakEndAfterIn.length > 0;
-    }
+      if (kind === "correction") {
+        const punch = await storage.getPunchById(punchId!);
+        if (!punch || punch.employeeId !== employee.id) {
+          return res.status(404).json({ message: "Fichaje no encontrado" });
+        }
+        if (punch.timestamp.getTime() < since) {
+          return res.status(400).json({ message: `Solo se pueden solicitar correcciones de los últimos ${CORRECTION_REQUEST_WINDOW_DAYS} días` });
+        }
 
-    return { status: base, pauseAlreadyTaken };
-  }
+        const pending = await storage.getCorrectionRequests({ employeeId: employee.id, status: "pending" });
+        if (pending.some(r => r.punchId === punch.id)) {
+          return res.status(409).json({ message: "Ya existe una solicitud pendiente para este fichaje" });
+        }
+      }
 
-  app.get("/api/pause/status", authenticateEmployee, async (req, res) => {
-    try {
-      const employee = req.employee!;
-      const result = await getEmployeeStatus(employee.id);
-      res.json(result);
-    } catch (error) {
-      handleRouteError(res, error, "[PAUSE-STATUS]");
+      const request = await storage.createCorrectionRequest({
+        employeeId: employee.id,
+        kind,
+        punchId: kind === "correction" ? punchId! : null,
+        requestedType: requestedType ?? null,
+        requestedTimestamp: requestedAt,
+        reason,
+        status: "pending",
+      });
+
+      await storage.createAuditLog({
+        action: "correction_request",
+        actorId: employee.id,
+        targetType: "correction_request",
+        targetId: request.id,
+        details: JSON.stringify({ kind, punchId: request.punchId, requestedType, requestedTimestamp, reason }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      for (const recipientId of notificationRecipients(employee, await storage.getAllEmployees())) {
+        await storage.createNotification({
+          recipientId,
+          kind: "correction_request",
+          title: kind === "missing_punch" ? "Fichaje olvidado pendiente de aprobación" : "Corrección de fichaje pendiente de aprobación",
+          message: `${employee.firstName} ${employee.lastName} ha solicitado ${kind === "missing_punch" ? "añadir un fichaje olvidado" : "corregir un fichaje"}.`,
+          targetType: "correction_request",
+          targetId: request.id,
+        });
+      }
+
+      res.status(201).json(request);
+    } catch (error) {
+      handleRouteError(res, error, "[ME-CREATE-CORRECTION-REQUEST]", "Error al solicitar la corrección");
+    }
+  });
+
+  app.post("/api/me/correction-requests/:id/cancel", authenticateEmployeePortal, async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const request = await storage.getCorrectionRequest(id);
+      if (!request || request.employeeId !== req.employee!.id) {
+        return res.status(404).json({ message: "Solicitud no encontrada" });
+      }
+      if (request.status !== "pending") {
+        return res.status(400).json({ message: "Solo se pueden cancelar solicitudes pendientes" });
+      }
+
+      await storage.updateCorrectionRequest(id, { status: "cancelled" });
+
+      await storage.createAuditLog({
+        action: "correction_request_review",
+        actorId: req.employee!.id,
+        targetType: "correction_request",
+        targetId: id,
+        details: JSON.stringify({ status: "cancelled", employeeId: request.employeeId, kind: request.kind, source: "portal" }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json({ message: "Solicitud cancelada" });
+    } catch (error) {
+      handleRouteError(res, error, "[ME-CANCEL-CORRECTION-REQUEST]", "Error al cancelar la solicitud");
+    }
+  });
+
+  app.get("/api/me/hours-bank", authenticateEmployeePortal, async (req, res) => {
+    try {
+      const bank = await getHoursBank(req.employee!.id);
+      res.json({
+        summary: bank.summary,
+        entries: bank.entries.map(({ createdById, overtimeRequestId, ...e }) => e),
+      });
+    } catch (error) {
+      handleRouteError(res, error, "[ME-HOURS-BANK]", "Error al obtener la bolsa de horas");
+    }
+  });
+
+  app.get("/api/me/data-export", dataExportLimiter, authenticateEmployeePortal, async (req, res) => {
+    try {
+      await sendDataSubjectExport(req, res, req.employee!, "employee");
+    } catch (error) {
+      handleRouteError(res, error, "[ME-DATA-EXPORT]", "Error al exportar sus datos");
+    }
+  });
+
+  // ==================== ADMIN EMPLOYEE MANAGEMENT ====================
+
+  app.get("/api/employees", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const allEmployees = await storage.getAllEmployees();
+      const siteScope = resolveSiteScope(req);
+      const filtered = allEmployees.filter(emp => (emp.gestionUserId === null || emp.gestionUserId === undefined) && isInSiteScope(emp, siteScope));
+      const sanitized = filtered.map(({ password, ...emp }) => emp);
+      res.json(sanitized);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-EMPLOYEES]");
+    }
+  });
+
+  // Unlike the list above this keeps the Gestión proxy rows: their admins and RRHH managers can lead teams too
+  app.get("/api/employees/supervisor-candidates", authenticateAdminManager, requirePermission("employees.view"), async (_req, res) => {
+    try {
+      const candidates = supervisorCandidates(await storage.getAllEmployees());
+      res.json(candidates.map(({ id, firstName, lastName, role, siteId }) => ({ id, firstName, lastName, role, siteId })));
+    } catch (error) {
+      handleRouteError(res, error, "[GET-SUPERVISOR-CANDIDATES]");
+    }
+  });
+
+  app.get("/api/employees/:id/data-export", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const employee = await storage.getEmployee(req.params.id as string);
+      const siteScope = resolveSiteScope(req);
+      if (!employee || (siteScope && employee.siteId !== siteScope)) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+      await sendDataSubjectExport(req, res, employee, "admin");
+    } catch (error) {
+      handleRouteError(res, error, "[DATA-EXPORT]", "Error al exportar los datos del empleado");
+    }
+  });
+
+  app.post("/api/employees", authenticateAdminManager, requirePermission("employees.manage"), async (_req, res) => {
+    return res.status(403).json({ message: "Los empleados se gestionan desde Gestión" });
+  });
+
+  app.patch("/api/employees/:id", authenticateAdminManager, requirePermission("employees.manage"), async (_req, res) => {
+    return res.status(403).json({ message: "Los empleados se gestionan desde Gestión" });
+  });
+
+  app.delete("/api/employees/:id", authenticateAdminManager, requirePermission("employees.manage"), async (_req, res) => {
+    return res.status(403).json({ message: "Los empleados se gestionan desde Gestión" });
+  });
+
+  // ==================== MONITOR SYNC ====================
+
+  app.post("/api/admin/sync-monitors", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const { syncMonitorsToEmployees, setLastSyncStatus } = await import("./monitor-sync");
+      const result = await syncMonitorsToEmployees();
+      setLastSyncStatus({ lastSyncAt: new Date().toISOString(), lastSyncResult: result });
+      res.json(result);
+    } catch (error) {
+      handleRouteError(res, error, "[SYNC-MONITORS]", "Error al sincronizar monitores");
+    }
+  });
+
+  app.get("/api/admin/sync-status", authenticateAdminManager, requirePermission("employees.view"), async (_req, res) => {
+    try {
+      const { getLastSyncStatus } = await import("./monitor-sync");
+      res.json(getLastSyncStatus());
+    } catch (error) {
+      handleRouteError(res, error, "[SYNC-STATUS]", "Error al obtener estado de sincronización");
+    }
+  });
+
+  // ==================== WORK SCHEDULES ====================
+
+  app.get("/api/schedules", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const schedules = await storage.getAllWorkSchedules();
+      const siteScope = resolveSiteScope(req);
+      if (!siteScope) {
+        return res.json(schedules);
+      }
+      const inScope = new Set((await storage.getAllEmployees()).filter(e => isInSiteScope(e, siteScope)).map(e => e.id));
+      res.json(schedules.filter(s => inScope.has(s.employeeId)));
+    } catch (error) {
+      handleRouteError(res, error, "[GET-SCHEDULES]", "Error al obtener horarios");
+    }
+  });
+
+  app.get("/api/employees/:id/schedule", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const employee = await getEmployeeInScope(req, id);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const schedule = await storage.getWorkScheduleByEmployee(id);
+      res.json(schedule || null);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-SCHEDULE]", "Error al obtener horario");
+    }
+  });
+
+  app.put("/api/employees/:id/schedule", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = updateWorkScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const employee = await getEmployeeInScope(req, id);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const { days } = validation.data;
+      const weeklyMinutes = validation.data.weeklyMinutes ?? days.reduce((sum, d) => sum + d.expectedMinutes, 0);
+      const previous = await storage.getWorkScheduleByEmployee(id);
+
+      const schedule = await storage.upsertWorkSchedule(
+        id,
+        { weeklyMinutes, source: "manual", updatedById: req.employee!.id },
+        days
+      );
+
+      await storage.createAuditLog({
+        action: "schedule_update",
+        actorId: req.employee!.id,
+        targetType: "employee",
+        targetId: id,
+        details: JSON.stringify({
+          previousWeeklyMinutes: previous?.weeklyMinutes ?? null,
+          previousSource: previous?.source ?? null,
+          weeklyMinutes,
+          days: days.map(d => ({ weekday: d.weekday, expectedMinutes: d.expectedMinutes })),
+        }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json(schedule);
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-SCHEDULE]", "Error al guardar horario");
+    }
+  });
+
+  app.delete("/api/employees/:id/schedule", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      if (!(await getEmployeeInScope(req, id))) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+      const previous = await storage.getWorkScheduleByEmployee(id);
+      if (!previous) {
+        return res.status(404).json({ message: "Horario no encontrado" });
+      }
+
+      await storage.deleteWorkSchedule(id);
+
+      await storage.createAuditLog({
+        action: "schedule_update",
+        actorId: req.employee!.id,
+        targetType: "employee",
+        targetId: id,
+        details: JSON.stringify({
+          previousWeeklyMinutes: previous.weeklyMinutes,
+          previousSource: previous.source,
+          deleted: true,
+        }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json({ message: "Horario eliminado" });
+    } catch (error) {
+      handleRouteError(res, error, "[DELETE-SCHEDULE]", "Error al eliminar horario");
+    }
+  });
+
+  // ==================== BREAK POLICIES ====================
+
+  app.get("/api/break-policies", authenticateAdminManager, async (_req, res) => {
+    try {
+      const policies = await storage.getBreakPolicies();
+      res.json(policies);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-BREAK-POLICIES]", "Error al obtener políticas de pausa");
+    }
+  });
+
+  app.post("/api/break-policies", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const validation = breakPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const policy = await storage.createBreakPolicy(validation.data);
+      logInfo("Break policy created", { breakPolicyId: policy.id, name: policy.name, isDefault: policy.isDefault });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "break_policy",
+        targetId: policy.id,
+        details: JSON.stringify({ operation: "create", name: policy.name, isDefault: policy.isDefault }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.status(201).json(policy);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-BREAK-POLICY]", "Error al crear política de pausa");
+    }
+  });
+
+  app.patch("/api/break-policies/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = updateBreakPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getBreakPolicy(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Política de pausa no encontrada" });
+      }
+      if (existing.isDefault && validation.data.isDefault === false) {
+        return res.status(400).json({ message: "Marque otra política como predeterminada en su lugar" });
+      }
+
+      const policy = await storage.updateBreakPolicy(id, validation.data);
+      logInfo("Break policy updated", { breakPolicyId: id, changes: Object.keys(validation.data) });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "break_policy",
+        targetId: id,
+        details: JSON.stringify({ operation: "update", changes: validation.data }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json(policy);
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-BREAK-POLICY]", "Error al actualizar política de pausa");
+    }
+  });
+
+  app.delete("/api/break-policies/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await storage.getBreakPolicy(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Política de pausa no encontrada" });
+      }
+      if (existing.isDefault) {
+        return res.status(400).json({ message: "No se puede eliminar la política predeterminada" });
+      }
+
+      await storage.deleteBreakPolicy(id);
+      logInfo("Break policy deleted", { breakPolicyId: id, name: existing.name });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "break_policy",
+        targetId: id,
+        details: JSON.stringify({ operation: "delete", name: existing.name }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json({ message: "Política de pausa eliminada" });
+    } catch (error) {
+      handleRouteError(res, error, "[DELETE-BREAK-POLICY]", "Error al eliminar política de pausa");
+    }
+  });
+
+  app.put("/api/employees/:id/break-policy", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = assignBreakPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const current = await getEmployeeInScope(req, id);
+      if (!current) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const { breakPolicyId } = validation.data;
+      if (breakPolicyId && !(await storage.getBreakPolicy(breakPolicyId))) {
+        return res.status(404).json({ message: "Política de pausa no encontrada" });
+      }
+
+      const employee = await storage.setEmployeeBreakPolicy(id, breakPolicyId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      logInfo("Break policy assigned", { employeeId: id, breakPolicyId });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "employee",
+        targetId: id,
+        details: JSON.stringify({ operation: "assign_break_policy", previousBreakPolicyId: current.breakPolicyId, breakPolicyId }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json({ id: employee.id, breakPolicyId: employee.breakPolicyId });
+    } catch (error) {
+      handleRouteError(res, error, "[ASSIGN-BREAK-POLICY]", "Error al asignar política de pausa");
+    }
+  });
+
+  app.put("/api/sites/:id/break-policy", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = assignBreakPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const { breakPolicyId } = validation.data;
+      if (breakPolicyId && !(await storage.getBreakPolicy(breakPolicyId))) {
+        return res.status(404).json({ message: "Política de pausa no encontrada" });
+      }
+
+      const previous = await storage.getSite(id);
+      const site = await storage.setSiteBreakPolicy(id, breakPolicyId);
+      if (!site) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      logInfo("Site break policy assigned", { siteId: id, breakPolicyId });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "site",
+        targetId: id,
+        details: JSON.stringify({ operation: "assign_break_policy", previousBreakPolicyId: previous?.breakPolicyId ?? null, breakPolicyId }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json({ id: site.id, breakPolicyId: site.breakPolicyId });
+    } catch (error) {
+      handleRouteError(res, error, "[ASSIGN-SITE-BREAK-POLICY]", "Error al asignar política de pausa al centro");
+    }
+  });
+
+  // ==================== SITES ====================
+
+  app.get("/api/sites", authenticateAdminManager, async (_req, res) => {
+    try {
+      const list = await storage.getSites();
+      res.json(list);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-SITES]", "Error al obtener centros");
+    }
+  });
+
+  app.post("/api/sites", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const validation = siteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const site = await storage.createSite(validation.data);
+      logInfo("Site created", { siteId: site.id, name: site.name, geofenceMode: site.geofenceMode });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "site",
+        targetId: site.id,
+        details: JSON.stringify({ operation: "create", name: site.name, geofenceMode: site.geofenceMode }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.status(201).json(site);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-SITE]", "Error al crear centro");
+    }
+  });
+
+  app.patch("/api/sites/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = updateSiteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const site = await storage.updateSite(id, validation.data);
+      if (!site) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      logInfo("Site updated", { siteId: id, changes: Object.keys(validation.data) });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "site",
+        targetId: id,
+        details: JSON.stringify({ operation: "update", changes: validation.data }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json(site);
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-SITE]", "Error al actualizar centro");
+    }
+  });
+
+  app.delete("/api/sites/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const deleted = await storage.deleteSite(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      logInfo("Site deleted", { siteId: id, name: deleted.name });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "site",
+        targetId: id,
+        details: JSON.stringify({ operation: "delete", name: deleted.name }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json({ message: "Centro eliminado" });
+    } catch (error) {
+      handleRouteError(res, error, "[DELETE-SITE]", "Error al eliminar centro");
+    }
+  });
+
+  app.put("/api/employees/:id/site", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = assignSiteSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      if (!(await getEmployeeInScope(req, id))) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const { siteId } = validation.data;
+      const siteScope = resolveSiteScope(req);
+      if (!canAssignToSite(siteId, siteScope)) {
+        return res.status(403).json({ message: "Solo puede asignar empleados a su propio centro" });
+      }
+      if (siteId && !(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      const employee = await storage.setEmployeeSite(id, siteId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      logInfo("Site assigned", { employeeId: id, siteId });
+      res.json({ id: employee.id, siteId: employee.siteId });
+    } catch (error) {
+      handleRouteError(res, error, "[ASSIGN-SITE]", "Error al asignar centro");
+    }
+  });
+
+  // ==================== TEAMS ====================
+
+  app.put("/api/employees/:id/supervisor", authenticateAdminManager, requirePermission("employees.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = assignSupervisorSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      if (!(await getEmployeeInScope(req, id))) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const { supervisorId } = validation.data;
+      if (supervisorId) {
+        if (supervisorId === id) {
+          return res.status(400).json({ message: "Un empleado no puede ser su propio responsable" });
+        }
+
+        const allEmployees = await storage.getAllEmployees();
+        const supervisor = allEmployees.find(e => e.id === supervisorId);
+        if (!supervisor || !supervisor.isActive) {
+          return res.status(404).json({ message: "Responsable no encontrado" });
+        }
+        if (supervisor.role === "employee") {
+          return res.status(400).json({ message: "El responsable debe tener rol de administrador o responsable" });
+        }
+
+        const supervisorOf = new Map(allEmployees.map(e => [e.id, e.supervisorId]));
+        if (createsSupervisorCycle(id, supervisorId, supervisorOf)) {
+          return res.status(400).json({ message: "La asignación crearía un ciclo en la jerarquía" });
+        }
+      }
+
+      const employee = await storage.setEmployeeSupervisor(id, supervisorId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      logInfo("Supervisor assigned", { employeeId: id, supervisorId });
+      res.json({ id: employee.id, supervisorId: employee.supervisorId });
+    } catch (error) {
+      handleRouteError(res, error, "[ASSIGN-SUPERVISOR]", "Error al asignar responsable");
+    }
+  });
+
+  // ==================== ROLE PERMISSIONS ====================
+
+  app.get("/api/roles/permissions", authenticateAdminManager, requirePermission("roles.manage"), async (_req, res) => {
+    try {
+      const roles = await Promise.all(CONFIGURABLE_ROLES.map(async (role) => {
+        const configured = await storage.getRolePermissions(role);
+        return {
+          role,
+          permissions: resolvePermissions(role, configured?.permissions),
+          isDefault: !configured,
+          updatedAt: configured?.updatedAt ?? null,
+        };
+      }));
+      res.json({ permissions: PERMISSIONS, roles });
+    } catch (error) {
+      handleRouteError(res, error, "[GET-ROLE-PERMISSIONS]", "Error al obtener permisos");
+    }
+  });
+
+  app.put("/api/roles/:role/permissions", authenticateAdminManager, requirePermission("roles.manage"), async (req, res) => {
+    try {
+      const role = req.params.role as Role;
+      if (!CONFIGURABLE_ROLES.includes(role)) {
+        return res.status(400).json({ message: "Los permisos de este rol no son configurables" });
+      }
+
+      const validation = updateRolePermissionsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const previous = resolvePermissions(role, (await storage.getRolePermissions(role))?.permissions);
+      const saved = await storage.setRolePermissions(role, validation.data.permissions);
+      const permissions = resolvePermissions(role, saved.permissions);
+
+      await storage.createAuditLog({
+        action: "permissions_update",
+        actorId: req.employee!.id,
+        targetType: "role",
+        targetId: role,
+        details: JSON.stringify({
+          granted: permissions.filter(p => !previous.includes(p)),
+          revoked: previous.filter(p => !permissions.includes(p)),
+        }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json({ role, permissions, isDefault: false, updatedAt: saved.updatedAt });
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-ROLE-PERMISSIONS]", "Error al actualizar permisos");
+    }
+  });
+
+  // ==================== RETENTION & LEGAL HOLDS ====================
+
+  app.get("/api/admin/retention", authenticateAdminManager, requirePermission("retention.manage"), async (_req, res) => {
+    try {
+      const policy = resolveRetentionPolicy();
+      const cutoff = retentionCutoff(new Date(), policy);
+      const [pending, holds] = await Promise.all([
+        storage.countExpiredRecords(cutoff),
+        storage.getLegalHolds(),
+      ]);
+      res.json({ policy, cutoff, pending, holds });
+    } catch (error) {
+      handleRouteError(res, error, "[GET-RETENTION]", "Error al obtener la política de retención");
+    }
+  });
+
+  app.post("/api/admin/legal-holds", authenticateAdminManager, requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const validation = legalHoldRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const { employeeId, reason } = validation.data;
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+      if (await storage.getActiveLegalHold(employeeId)) {
+        return res.status(409).json({ message: "El empleado ya tiene una retención legal activa" });
+      }
+
+      const hold = await storage.createLegalHold({ employeeId, reason, placedById: req.employee!.id });
+
+      await storage.createAuditLog({
+        action: "legal_hold",
+        actorId: req.employee!.id,
+        targetType: "employee",
+        targetId: employeeId,
+        details: JSON.stringify({ holdId: hold.id, reason }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.status(201).json(hold);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-LEGAL-HOLD]", "Error al crear la retención legal");
+    }
+  });
+
+  app.post("/api/admin/legal-holds/:id/release", authenticateAdminManager, requirePermission("retention.manage"), async (req, res) => {
+    try {
+      const validation = legalHoldReleaseSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const id = req.params.id as string;
+      const existing = await storage.getLegalHold(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Retención legal no encontrada" });
+      }
+
+      const released = await storage.releaseLegalHold(id, req.employee!.id, validation.data.reason);
+      if (!released) {
+        return res.status(409).json({ message: "La retención legal ya fue levantada" });
+      }
+
+      await storage.createAuditLog({
+        action: "legal_hold_release",
+        actorId: req.employee!.id,
+        targetType: "employee",
+        targetId: released.employeeId,
+        details: JSON.stringify({ holdId: released.id, reason: validation.data.reason }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json(released);
+    } catch (error) {
+      handleRouteError(res, error, "[RELEASE-LEGAL-HOLD]", "Error al levantar la retención legal");
+    }
+  });
+
+  // ==================== HOLIDAYS ====================
+
+  app.get("/api/holidays", authenticateAdminManager, async (req, res) => {
+    try {
+      const year = parseInt((req.query.year as string) || String(new Date().getFullYear()), 10);
+      if (!year || year < 2000 || year > 2100) {
+        return res.status(400).json({ message: "Año inválido" });
+      }
+      const siteId = resolveSiteScope(req);
+      const list = await storage.getHolidaysInRange(`${year}-01-01`, `${year}-12-31`, siteId ? { siteId } : undefined);
+      res.json(list);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-HOLIDAYS]", "Error al obtener festivos");
+    }
+  });
+
+  app.post("/api/holidays", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const validation = holidaySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+      if (validation.data.siteId && !(await storage.getSite(validation.data.siteId))) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      const holiday = await storage.createHoliday({ ...validation.data, createdById: req.employee!.id });
+      logInfo("Holiday created", { holidayId: holiday.id, date: holiday.date, scope: holiday.scope, siteId: holiday.siteId });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "holiday",
+        targetId: holiday.id,
+        details: JSON.stringify({ operation: "create", date: holiday.date, name: holiday.name, scope: holiday.scope, siteId: holiday.siteId }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.status(201).json(holiday);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-HOLIDAY]", "Error al crear festivo");
+    }
+  });
+
+  app.patch("/api/holidays/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = updateHolidaySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+      if (validation.data.siteId && !(await storage.getSite(validation.data.siteId))) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      const holiday = await storage.updateHoliday(id, validation.data);
+      if (!holiday) {
+        return res.status(404).json({ message: "Festivo no encontrado" });
+      }
+
+      logInfo("Holiday updated", { holidayId: id, updates: validation.data });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "holiday",
+        targetId: id,
+        details: JSON.stringify({ operation: "update", date: holiday.date, changes: validation.data }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json(holiday);
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-HOLIDAY]", "Error al actualizar festivo");
+    }
+  });
+
+  app.delete("/api/holidays/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const holiday = await storage.deleteHoliday(id);
+      if (!holiday) {
+        return res.status(404).json({ message: "Festivo no encontrado" });
+      }
+
+      logInfo("Holiday deleted", { holidayId: id, date: holiday.date });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "holiday",
+        targetId: id,
+        details: JSON.stringify({ operation: "delete", date: holiday.date, name: holiday.name, scope: holiday.scope, siteId: holiday.siteId }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json({ message: "Festivo eliminado" });
+    } catch (error) {
+      handleRouteError(res, error, "[DELETE-HOLIDAY]", "Error al eliminar festivo");
+    }
+  });
+
+  app.post("/api/holidays/import", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const validation = holidayImportSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+      const siteId = validation.data.siteId ?? null;
+      if (siteId && !(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      const { parseICalHolidays } = await import("./holidays");
+      const parsed = parseICalHolidays(validation.data.ics);
+      if (parsed.length === 0) {
+        return res.status(400).json({ message: "No se encontraron festivos en el fichero iCal" });
+      }
+
+      const existing = await storage.getHolidaysInRange(parsed[0].date, parsed[parsed.length - 1].date);
+      // The same calendar may be imported for several sites, so a holiday only counts as known for its own site
+      const existingKeys = new Set(existing.map(h => `${h.date}|${h.name}|${h.siteId ?? ""}`));
+
+      let created = 0;
+      for (const h of parsed) {
+        if (existingKeys.has(`${h.date}|${h.name}|${siteId ?? ""}`)) continue;
+        await storage.createHoliday({ ...h, scope: validation.data.scope, siteId, createdById: req.employee!.id });
+        created++;
+      }
+
+      logInfo("Holidays imported from iCal", { parsed: parsed.length, created, scope: validation.data.scope, siteId });
+      await storage.createAuditLog({
+        action: "settings_update",
+        actorId: req.employee!.id,
+        targetType: "holiday",
+        targetId: "bulk",
+        details: JSON.stringify({ operation: "import", parsed: parsed.length, created, scope: validation.data.scope, siteId }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      res.json({ parsed: parsed.length, created, skipped: parsed.length - created });
+    } catch (error) {
+      handleRouteError(res, error, "[IMPORT-HOLIDAYS]", "Error al importar festivos");
+    }
+  });
+
+  // ==================== ABSENCES ====================
+
+  app.get("/api/absence-types", authenticateAdminManager, async (_req, res) => {
+    try {
+      const types = await storage.getAbsenceTypes({ includeInactive: true });
+      res.json(types);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-ABSENCE-TYPES]", "Error al obtener tipos de ausencia");
+    }
+  });
+
+  app.post("/api/absence-types", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const validation = absenceTypeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const type = await storage.createAbsenceType(validation.data);
+      logInfo("Absence type created", { typeId: type.id, code: type.code });
+      res.status(201).json(type);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-ABSENCE-TYPE]", "Error al crear tipo de ausencia");
+    }
+  });
+
+  app.patch("/api/absence-types/:id", authenticateAdminManager, requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = updateAbsenceTypeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const type = await storage.updateAbsenceType(id, validation.data);
+      if (!type) {
+        return res.status(404).json({ message: "Tipo de ausencia no encontrado" });
+      }
+
+      logInfo("Absence type updated", { typeId: id, updates: validation.data });
+      res.json(type);
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-ABSENCE-TYPE]", "Error al actualizar tipo de ausencia");
+    }
+  });
+
+  app.get("/api/absences", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const status = req.query.status as "pending" | "approved" | "rejected" | "cancelled" | undefined;
+      const employeeId = req.query.employeeId as string | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 200;
+
+      const list = await storage.getAbsences({ status, employeeId, siteId: resolveSiteScope(req), limit });
+      res.json(list);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-ABSENCES]");
+    }
+  });
+
+  app.get("/api/absences/balances", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const employeeId = req.query.employeeId as string | undefined;
+      const year = parseInt((req.query.year as string) || String(new Date().getFullYear()), 10);
+      if (!employeeId) {
+        return res.status(400).json({ message: "employeeId requerido" });
+      }
+      if (!(await getEmployeeInScope(req, employeeId))) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const balances = await getAbsenceBalances(employeeId, year);
+      res.json(balances);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-ABSENCE-BALANCES]");
+    }
+  });
+
+  app.post("/api/absences", authenticateAdminManager, requirePermission("absences.manage"), async (req, res) => {
+    try {
+      const result = adminAbsenceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
+      }
+
+      const { employeeId, typeId, startDate, endDate, comment } = result.data;
+      const admin = req.employee!;
+
+      const [employee, type] = await Promise.all([getEmployeeInScope(req, employeeId), storage.getAbsenceType(typeId)]);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+      if (!type || !type.isActive) {
+        return res.status(400).json({ message: "Tipo de ausencia no válido" });
+      }
+
+      if (startDate.slice(0, 4) !== endDate.slice(0, 4)) {
+        return res.status(400).json({ message: "Una ausencia no puede abarcar dos años; divídala en dos" });
+      }
+
+      const overlapping = await storage.getOverlappingAbsences(employeeId, startDate, endDate);
+      if (overlapping.length > 0) {
+        return res.status(409).json({ message: "Ya existe una ausencia en esas fechas" });
+      }
+
+      const days = await countEmployeeAbsenceDays(employee, startDate, endDate);
+      if (days === 0) {
+        return res.status(400).json({ message: "El período no incluye días laborables" });
+      }
+
+      const absence = await storage.createAbsence({
+        employeeId,
+        typeId,
+        startDate,
+        endDate,
+        days,
+        comment: comment || null,
+        status: "approved",
+        reviewerId: admin.id,
+        reviewedAt: new Date(),
+      });
+
+      await storage.createAuditLog({
+        action: "absence_create",
+        actorId: admin.id,
+        targetType: "absence",
+        targetId: absence.id,
+        details: JSON.stringify({ employeeId, type: type.code, startDate, endDate, days, source: "admin" }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.status(201).json(absence);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-ABSENCE]", "Error al registrar ausencia");
+    }
+  });
+
+  app.post("/api/absences/:id/review", authenticateAdminManager, requirePermission("absences.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const result = absenceReviewRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
+      }
+
+      const { status, comment } = result.data;
+      const admin = req.employee!;
+
+      const existing = await storage.getAbsence(id);
+      if (!existing || !(await getEmployeeInScope(req, existing.employeeId))) {
+        return res.status(404).json({ message: "Ausencia no encontrada" });
+      }
+      if (existing.status !== "pending") {
+        return res.status(400).json({ message: "Esta solicitud ya ha sido procesada" });
+      }
+
+      await storage.updateAbsence(id, {
+        status,
+        reviewerId: admin.id,
+        reviewerComment: comment,
+        reviewedAt: new Date(),
+      });
+
+      await storage.createAuditLog({
+        action: "absence_review",
+        actorId: admin.id,
+        targetType: "absence",
+        targetId: id,
+        details: JSON.stringify({ status, comment, employeeId: existing.employeeId }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.json({ message: status === "approved" ? "Ausencia aprobada" : "Ausencia rechazada" });
+    } catch (error) {
+      handleRouteError(res, error, "[REVIEW-ABSENCE]");
+    }
+  });
+
+  // ==================== HOURS BANK ====================
+
+  app.get("/api/hours-bank", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const [entries, allEmployees] = await Promise.all([
+        storage.getAllHoursBankEntries(),
+        storage.getAllEmployees(),
+      ]);
+
+      const byEmployee = new Map<string, typeof entries>();
+      for (const entry of entries) {
+        const list = byEmployee.get(entry.employeeId) || [];
+        list.push(entry);
+        byEmployee.set(entry.employeeId, list);
+      }
+
+      const todayKey = toSpainDateKey(new Date());
+      const siteScope = resolveSiteScope(req);
+      const balances = allEmployees
+        .filter(emp => byEmployee.has(emp.id) && isInSiteScope(emp, siteScope))
+        .map(emp => ({
+          employee: { id: emp.id, firstName: emp.firstName, lastName: emp.lastName },
+          ...computeHoursBank(byEmployee.get(emp.id)!, todayKey),
+        }))
+        .sort((a, b) => a.employee.lastName.localeCompare(b.employee.lastName));
+
+      res.json(balances);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-HOURS-BANK]", "Error al obtener la bolsa de horas");
+    }
+  });
+
+  app.get("/api/hours-bank/:employeeId", authenticateAdminManager, requirePermission("employees.view"), async (req, res) => {
+    try {
+      const employeeId = req.params.employeeId as string;
+      const employee = await getEmployeeInScope(req, employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      res.json(await getHoursBank(employeeId));
+    } catch (error) {
+      handleRouteError(res, error, "[GET-HOURS-BANK-EMPLOYEE]", "Error al obtener la bolsa de horas");
+    }
+  });
+
+  app.post("/api/hours-bank/entries", authenticateAdminManager, requirePermission("hours_bank.manage"), async (req, res) => {
+    try {
+      const result = hoursBankEntryRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
+      }
+
+      const { employeeId, kind, minutes, date, comment } = result.data;
+      const admin = req.employee!;
+
+      const employee = await getEmployeeInScope(req, employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+
+      const signedMinutes = kind === "adjustment" ? minutes : -minutes;
+      if (signedMinutes < 0) {
+        const { summary } = await getHoursBank(employeeId);
+        if (-signedMinutes > summary.balanceMinutes) {
+          return res.status(400).json({ message: `Saldo insuficiente: quedan ${summary.balanceMinutes} minutos en la bolsa` });
+        }
+      }
+
+      const entry = await storage.createHoursBankEntry({
+        employeeId,
+        kind,
+        minutes: signedMinutes,
+        date,
+        expiresOn: signedMinutes > 0 ? resolveCreditExpiry(date, parseInt(process.env.HOURS_BANK_EXPIRY_MONTHS || "4", 10)) : null,
+        comment,
+        createdById: admin.id,
+      });
+
+      await storage.createAuditLog({
+        action: "hours_bank_entry",
+        actorId: admin.id,
+        targetType: "hours_bank_entry",
+        targetId: entry.id,
+        details: JSON.stringify({ employeeId, kind, minutes: signedMinutes, date, comment }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-HOURS-BANK-ENTRY]", "Error al registrar el movimiento");
+    }
+  });
+
+  // ==================== NOTIFICATIONS ====================
+
+  app.get("/api/notifications", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
+    try {
+      const list = await storage.getNotificationsForRecipient(req.employee!.id, {
+        unreadOnly: req.query.unread === "true",
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+      });
+      res.json(list);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-NOTIFICATIONS]", "Error al obtener notificaciones");
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id as string, req.employee!.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notificación no encontrada" });
+      }
+      res.json(notification);
+    } catch (error) {
+      handleRouteError(res, error, "[READ-NOTIFICATION]");
+    }
+  });
+
+  // ==================== PUNCHES ====================
+
+  // Punches and pauses share the zone check, so a pause cannot be started or ended from outside the site either
+  async function checkEmployeeGeofence(
+    employee: Employee,
+    position: { latitude?: number; longitude?: number; accuracy?: number }
+  ): Promise<{ site: Site | undefined; geofence: GeofenceResult | null }> {
+    const site = employee.siteId ? await storage.getSite(employee.siteId) : undefined;
+    const geofence = site && site.isActive && site.geofenceMode !== "off" && position.latitude && position.longitude
+      ? evaluateGeofence({ latitude: position.latitude, longitude: position.longitude }, site, position.accuracy)
+      : null;
+    return { site, geofence };
+  }
+
+  function rejectOutsideGeofence(res: Response, action: "punch" | "pause", employee: Employee, site: Site, geofence: GeofenceResult) {
+    logInfo(`[GEOFENCE] ${action} rejected`, { employeeId: employee.id, siteId: site.id, distanceMeters: geofence.distanceMeters });
+    return res.status(403).json({
+      message: `Está fuera de la zona de fichaje de ${site.name} (a ${geofence.distanceMeters} m)`,
+      siteId: site.id,
+      distanceMeters: geofence.distanceMeters,
+    });
+  }
+
+  app.post("/api/punches", authenticateEmployee, honourIdempotencyKey, async (req, res) => {
+    try {
+      const result = punchRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
+      }
+
+      const employee = req.employee!;
+      const { type, latitude, longitude, accuracy, source, signatureData } = result.data;
+
+      const lastPunch = await storage.getLastPunchByEmployee(employee.id);
+      
+      if (type === "IN" && lastPunch?.type === "IN") {
+        return res.status(400).json({ message: "Ya está fichado como presente. Realice una salida primero." });
+      }
+
+      if (type === "OUT" && (!lastPunch || lastPunch.type === "OUT")) {
+        return res.status(400).json({ message: "No está fichado como presente. Realice una entrada primero." });
+      }
+
+      if (!signatureData || signatureData.length < 100) {
+        return res.status(400).json({ message: "La firma es obligatoria para fichar" });
+      }
+
+      const hasPosition = !!latitude && !!longitude;
+      const { site, geofence } = await checkEmployeeGeofence(employee, { latitude, longitude, accuracy });
+      if (site && geofence && !geofence.inside && site.geofenceMode === "reject") {
+        return rejectOutsideGeofence(res, "punch", employee, site, geofence);
+      }
+
+      const outsideGeofence = !!geofence && !geofence.inside;
+      const needsReview = !hasPosition || outsideGeofence;
+
+      const punch = await storage.createPunch({
+        employeeId: employee.id,
+        type,
+        latitude: latitude?.toString(),
+        longitude: longitude?.toString(),
+        accuracy: accuracy?.toString(),
+        needsReview,
+        source,
+        signatureData,
+        signatureSignedAt: new Date(),
+        siteId: site?.id ?? null,
+        geofenceDistanceMeters: geofence?.distanceMeters ?? null,
+        outsideGeofence,
+      });
+
+      await storage.createAuditLog({
+        action: "create",
+        actorId: employee.id,
+        targetType: "punch",
+        targetId: punch.id,
+        details: JSON.stringify({
+          type,
+          needsReview,
+          source,
+          siteId: site?.id ?? null,
+          outsideGeofence,
+          distanceMeters: geofence?.distanceMeters ?? null,
+        }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      publishPunchEvent(punch, employee);
+
+      if (type === "OUT") {
+        await recomputeDailyOvertime(employee, punch.timestamp, employee.id, (req.ip || req.socket.remoteAddress || "") as string);
+      }
+
+      res.status(201).json({ punch });
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-PUNCH]");
+    }
+  });
+
+  app.get("/api/punches/my", authenticateEmployee, async (req, res) => {
+    try {
+      const employee = req.employee!;
+      const punches = await storage.getPunchesByEmployee(employee.id);
+      res.json(punches);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-MY-PUNCHES]");
+    }
+  });
+
+  app.get("/api/punches/last", authenticateEmployee, async (req, res) => {
+    try {
+      const employee = req.employee!;
+      const punch = await storage.getLastPunchByEmployee(employee.id);
+      res.json(punch || null);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-LAST-PUNCH]");
+    }
+  });
+
+  async function getEmployeeStatus(employeeId: string): Promise<{ status: "OFF" | "ON" | "BREAK"; breakStartedAt?: string; pauseAlreadyTaken: boolean; breaksTaken: number; breakDurationMinutes: number | null; breakPaid: boolean }> {
+    const lastWorkPunch = await storage.getLastWorkPunch(employeeId);
+    const lastOverall = await storage.getLastPunchByEmployee(employeeId);
+    const rules = toBreakRules(await storage.getBreakPolicyForEmployee(employeeId));
+
+    let base: "OFF" | "ON" = "OFF";
+    if (lastWorkPunch && lastWorkPunch.type === "IN") {
+      base = "ON";
+    }
+
+    if (base === "ON" && lastOverall && lastOverall.type === "BREAK_START") {
+      return { status: "BREAK", breakStartedAt: lastOverall.timestamp.toISOString(), pauseAlreadyTaken: false, breaksTaken: 0, breakDurationMinutes: rules.durationMinutes, breakPaid: rules.paid };
+    }
+
+    let breaksTaken = 0;
+    if (base === "ON") {
+      const [result] = await db.select({ count: sql<number>`count(*)` }).from(punches)
+        .where(and(
+          eq(punches.employeeId, employeeId),
+          eq(punches.type, "BREAK_START"),
+          gt(punches.timestamp, startOfDayInSpain(new Date()))
+        ));
+      breaksTaken = Number(result?.count || 0);
+    }
+
+    return {
+      status: base,
+      pauseAlreadyTaken: !canStartBreak(breaksTaken, rules),
+      breaksTaken,
+      breakDurationMinutes: rules.durationMinutes,
+      breakPaid: rules.paid,
+    };
+  }
+
+  app.get("/api/pause/status", authenticateEmployee, async (req, res) => {
+    try {
+      const employee = req.employee!;
+      const result = await getEmployeeStatus(employee.id);
+      res.json(result);
+    } catch (error) {
+      handleRouteError(res, error, "[PAUSE-STATUS]");
     }
   });
 
-  app.post("/api/pause/start", employeeLimiter, authenticateEmployee, async (req, res) => {
+  app.post("/api/pause/start", employeeLimiter, authenticateEmployee, honourIdempotencyKey, async (req, res) => {
     try {
       const employee = req.employee!;
       const body = pauseRequestSchema.safeParse(req.body || {});
@@ -1296,6 +2982,16 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
       if (status.status !== "ON") {
         return res.status(400).json({ message: "Debe estar en servicio para iniciar pausa" });
       }
+      if (status.pauseAlreadyTaken) {
+        return res.status(400).json({ message: "Ha alcanzado el número máximo de pausas del día" });
+      }
+
+      const { site, geofence } = await checkEmployeeGeofence(employee, body.data);
+      if (site && geofence && !geofence.inside && site.geofenceMode === "reject") {
+        return rejectOutsideGeofence(res, "pause", employee, site, geofence);
+      }
+      // Unlike IN/OUT, a pause without a position is not sent to review: kiosks and older apps never send one
+      const outsideGeofence = !!geofence && !geofence.inside;
 
       const punch = await storage.createPunch({
         employeeId: employee.id,
@@ -1305,7 +3001,11 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         latitude: body.data.latitude?.toString(),
         longitude: body.data.longitude?.toString(),
         accuracy: body.data.accuracy?.toString(),
+        needsReview: outsideGeofence,
         isAuto: false,
+        siteId: employee.siteId,
+        geofenceDistanceMeters: geofence?.distanceMeters ?? null,
+        outsideGeofence,
       });
 
       await storage.createAuditLog({
@@ -1313,8 +3013,9 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         actorId: employee.id,
         targetType: "punch",
         targetId: punch.id,
-        details: JSON.stringify({ type: "BREAK_START", mode: "manual" }),
+        details: JSON.stringify({ type: "BREAK_START", mode: "manual", outsideGeofence, distanceMeters: geofence?.distanceMeters ?? null }),
       });
+      publishPunchEvent(punch, employee);
 
       logInfo(`[PAUSE-START] employee=${employee.id} punch=${punch.id}`);
       res.json({ message: "Pausa iniciada", punch });
@@ -1323,20 +3024,38 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.post("/api/pause/end", employeeLimiter, authenticateEmployee, async (req, res) => {
+  app.post("/api/pause/end", employeeLimiter, authenticateEmployee, honourIdempotencyKey, async (req, res) => {
     try {
       const employee = req.employee!;
+      const body = pauseRequestSchema.safeParse(req.body || {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: body.error.errors });
+      }
+
       const status = await getEmployeeStatus(employee.id);
       if (status.status !== "BREAK") {
         return res.status(400).json({ message: "No hay pausa activa" });
       }
 
+      const { site, geofence } = await checkEmployeeGeofence(employee, body.data);
+      if (site && geofence && !geofence.inside && site.geofenceMode === "reject") {
+        return rejectOutsideGeofence(res, "pause", employee, site, geofence);
+      }
+      const outsideGeofence = !!geofence && !geofence.inside;
+
       const punch = await storage.createPunch({
         employeeId: employee.id,
         type: "BREAK_END",
         timestamp: new Date(),
-        source: "mobile",
+        source: body.data.source,
+        latitude: body.data.latitude?.toString(),
+        longitude: body.data.longitude?.toString(),
+        accuracy: body.data.accuracy?.toString(),
+        needsReview: outsideGeofence,
         isAuto: false,
+        siteId: employee.siteId,
+        geofenceDistanceMeters: geofence?.distanceMeters ?? null,
+        outsideGeofence,
       });
 
       await storage.createAuditLog({
@@ -1344,8 +3063,9 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         actorId: employee.id,
         targetType: "punch",
         targetId: punch.id,
-        details: JSON.stringify({ type: "BREAK_END", mode: "manual" }),
+        details: JSON.stringify({ type: "BREAK_END", mode: "manual", outsideGeofence, distanceMeters: geofence?.distanceMeters ?? null }),
       });
+      publishPunchEvent(punch, employee);
 
       logInfo(`[PAUSE-END] employee=${employee.id} punch=${punch.id}`);
       res.json({ message: "Pausa finalizada", punch });
@@ -1354,19 +3074,19 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/punches", authenticateAdminManager, async (req, res) => {
+  app.get("/api/punches", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
       const needsReview = req.query.needsReview === "true" ? true : undefined;
       
-      const punches = await storage.getAllPunches({ limit, needsReview });
+      const punches = await storage.getAllPunches({ limit, needsReview, siteId: resolveSiteScope(req) });
       res.json(punches);
     } catch (error) {
       handleRouteError(res, error, "[GET-ALL-PUNCHES]");
     }
   });
 
-  app.post("/api/corrections", authenticateAdminManager, async (req, res) => {
+  app.post("/api/corrections", authenticateAdminManager, requirePermission("punches.correct"), async (req, res) => {
     try {
       const result = correctionRequestSchema.safeParse(req.body);
       if (!result.success) {
@@ -1381,6 +3101,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         return res.status(404).json({ message: "Fichaje original no encontrado" });
       }
 
+      if (!(await isResponsibleFor(admin, originalPunch.employeeId))) {
+        return res.status(403).json({ message: "Este fichaje corresponde a otro responsable" });
+      }
+
       const correction = await storage.createCorrection({
         originalPunchId,
         correctedById: admin.id,
@@ -1398,13 +3122,21 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
       });
 
+      await recomputeOvertimeForDays(
+        originalPunch.employeeId,
+        [originalPunch.timestamp, correction.newTimestamp],
+        admin.id,
+        (req.ip || req.socket.remoteAddress || "") as string
+      );
+      await publishEmployeeEvent("review", originalPunch.employeeId);
+
       res.status(201).json(correction);
     } catch (error) {
       handleRouteError(res, error, "[CREATE-CORRECTION]");
     }
   });
 
-  app.post("/api/punches/:id/correct", authenticateAdminManager, async (req, res) => {
+  app.post("/api/punches/:id/correct", authenticateAdminManager, requirePermission("punches.correct"), async (req, res) => {
     try {
       const id = req.params.id as string;
       const validation = correctPunchSchema.safeParse(req.body);
@@ -1421,6 +3153,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         return res.status(404).json({ message: "Fichaje no encontrado" });
       }
 
+      if (!(await isResponsibleFor(admin, originalPunch.employeeId))) {
+        return res.status(403).json({ message: "Este fichaje corresponde a otro responsable" });
+      }
+
       const correction = await storage.createCorrection({
         originalPunchId: id,
         correctedById: admin.id,
@@ -1438,22 +3174,89 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
       });
 
+      await recomputeOvertimeForDays(
+        originalPunch.employeeId,
+        [originalPunch.timestamp, correction.newTimestamp],
+        admin.id,
+        (req.ip || req.socket.remoteAddress || "") as string
+      );
+      await publishEmployeeEvent("review", originalPunch.employeeId);
+
       res.status(201).json(correction);
     } catch (error) {
       handleRouteError(res, error, "[CORRECT-PUNCH]");
     }
   });
 
-  app.get("/api/punches/needs-review", authenticateAdminManager, async (req, res) => {
+  app.post("/api/punches/manual", authenticateAdminManager, requirePermission("punches.correct"), honourIdempotencyKey, async (req, res) => {
     try {
-      const punches = await storage.getPunchesNeedingReview();
-      res.json(punches);
+      const validation = manualPunchSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const { employeeId, type, timestamp, reason } = validation.data;
+      const admin = req.employee!;
+
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Empleado no encontrado" });
+      }
+      if (!canHandleApproval(admin, employee)) {
+        return res.status(403).json({ message: "Este empleado corresponde a otro responsable" });
+      }
+
+      const punchTime = new Date(timestamp);
+      if (punchTime.getTime() > Date.now()) {
+        return res.status(400).json({ message: "La hora del fichaje no puede estar en el futuro" });
+      }
+
+      const punch = await storage.createPunch({
+        employeeId,
+        type,
+        timestamp: punchTime,
+        source: "manual",
+        siteId: employee.siteId,
+        manualReason: reason,
+        createdById: admin.id,
+      });
+
+      await storage.createAuditLog({
+        action: "manual_punch",
+        actorId: admin.id,
+        targetType: "punch",
+        targetId: punch.id,
+        details: JSON.stringify({ employeeId, type, timestamp, reason }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+      publishPunchEvent(punch, employee);
+
+      await recomputeDailyOvertime(employee, punchTime, admin.id, (req.ip || req.socket.remoteAddress || "") as string);
+
+      res.status(201).json(punch);
+    } catch (error) {
+      handleRouteError(res, error, "[MANUAL-PUNCH]");
+    }
+  });
+
+  app.get("/api/punches/needs-review", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
+    try {
+      const punches = await storage.getPunchesNeedingReview({
+        siteId: resolveSiteScope(req),
+        supervisorId: resolveApprovalScope(req),
+      });
+      const policy = resolveEscalationPolicy();
+      const now = new Date();
+      res.json(punches.map(p => ({
+        ...p,
+        escalated: !p.reviewed && !p.corrected && isEscalated(p.timestamp, now, policy),
+      })));
     } catch (error) {
       handleRouteError(res, error, "[GET-NEEDS-REVIEW]");
     }
   });
 
-  app.post("/api/punches/:id/review", authenticateAdminManager, async (req, res) => {
+  app.post("/api/punches/:id/review", authenticateAdminManager, requirePermission("punches.review"), async (req, res) => {
     try {
       const id = req.params.id as string;
       const result = reviewRequestSchema.safeParse(req.body);
@@ -1465,6 +3268,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         return res.status(404).json({ message: "Fichaje no encontrado" });
       }
 
+      if (!(await isResponsibleFor(admin, punch.employeeId))) {
+        return res.status(403).json({ message: "Este fichaje corresponde a otro responsable" });
+      }
+
       const existingReview = await storage.getPunchReview(id);
       if (existingReview) {
         return res.status(400).json({ message: "Este fichaje ya ha sido revisado" });
@@ -1484,6 +3291,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         details: JSON.stringify({ note: result.success ? result.data.note : null }),
         ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
       });
+      await publishEmployeeEvent("review", punch.employeeId);
 
       res.status(201).json(review);
     } catch (error) {
@@ -1491,16 +3299,51 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/admin/stats", authenticateAdminManager, async (req, res) => {
+  app.get("/api/admin/stats", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
     try {
-      const stats = await storage.getStats();
+      const stats = await storage.getStats(resolveSiteScope(req));
       res.json(stats);
     } catch (error) {
       handleRouteError(res, error, "[GET-STATS]");
     }
   });
 
-  app.get("/api/exports/punches", authenticateAdminManager, async (req, res) => {
+  app.get("/api/admin/presence", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
+    try {
+      const board = await storage.getPresenceBoard(resolveSiteScope(req));
+      res.json(board);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-PRESENCE]");
+    }
+  });
+
+  // Server-sent events for the dashboard: each event only says what changed and for whom, and the client refetches.
+  // EventSource reconnects on its own, so events missed while disconnected are not replayed
+  app.get("/api/admin/events", authenticateAdminManager, requirePermission("punches.view"), (req, res) => {
+    const siteScope = resolveSiteScope(req);
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribeLiveEvents((event) => {
+      if (isVisibleInScope(event, siteScope)) {
+        res.write(formatSseEvent(event));
+      }
+    });
+    // Proxies drop connections that stay silent; a comment line keeps the stream open between events
+    const keepAlive = setInterval(() => res.write(": ping\n\n"), LIVE_EVENTS_KEEPALIVE_MS);
+
+    req.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  app.get("/api/exports/punches", authenticateAdminManager, requirePermission("punches.export"), async (req, res) => {
     try {
       const result = exportQuerySchema.safeParse(req.query);
       if (!result.success) {
@@ -1509,12 +3352,14 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
 
       const { employeeId, startDate, endDate } = result.data;
       const admin = req.employee!;
+      const siteId = resolveSiteScope(req);
 
       const punches = await storage.getAllPunchesForExport({
         employeeId,
         startDate: new Date(startDate + "T00:00:00Z"),
         endDate: new Date(endDate + "T23:59:59.999Z"),
         limit: 10000,
+        siteId,
       });
 
       const overtimeRequests = await storage.getOvertimeRequests({ 
@@ -1539,7 +3384,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         actorId: admin.id,
         targetType: "punches",
         targetId: "bulk",
-        details: JSON.stringify({ employeeId, startDate, endDate, count: punches.length }),
+        details: JSON.stringify({ employeeId, startDate, endDate, siteId, count: punches.length }),
         ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
       });
 
@@ -1568,7 +3413,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
           "Requiere_Revision": punch.needsReview ? "Sí" : "No",
           "Revisado": punch.reviewed ? "Sí" : "No",
           "Corregido": punch.corrected ? "Sí" : "No",
+          "Original": punch.corrected ? `${formatDateES(punch.originalTimestamp)} ${formatTimeES(punch.originalTimestamp)}` : "",
           "Fuente": punch.source,
+          "Manual": punch.source === "manual" ? "Sí" : "No",
+          "Motivo_Manual": punch.manualReason || "",
           "Overtime_Minutos": overtime?.minutes || 0,
           "Overtime_Estado": overtime ? statusMap[overtime.status] || "" : "",
         };
@@ -1586,7 +3434,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         "Requiere_Revision",
         "Revisado",
         "Corregido",
+        "Original",
         "Fuente",
+        "Manual",
+        "Motivo_Manual",
         "Overtime_Minutos",
         "Overtime_Estado",
       ];
@@ -1602,20 +3453,25 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/overtime-requests", authenticateAdminManager, async (req, res) => {
+  app.get("/api/overtime-requests", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
     try {
       const status = req.query.status as "pending" | "approved" | "rejected" | undefined;
       const employeeId = req.query.employeeId as string | undefined;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
 
-      const requests = await storage.getOvertimeRequests({ status, employeeId, limit });
-      res.json(requests);
+      const requests = await storage.getOvertimeRequests({ status, employeeId, supervisorId: resolveApprovalScope(req), limit });
+      const policy = resolveEscalationPolicy();
+      const now = new Date();
+      res.json(requests.map(r => ({
+        ...r,
+        escalated: r.status === "pending" && isEscalated(r.createdAt, now, policy),
+      })));
     } catch (error) {
       handleRouteError(res, error, "[GET-OVERTIME]");
     }
   });
 
-  app.post("/api/overtime-requests/:id/review", authenticateAdminManager, async (req, res) => {
+  app.post("/api/overtime-requests/:id/review", authenticateAdminManager, requirePermission("overtime.review"), async (req, res) => {
     try {
       const id = req.params.id as string;
       const result = overtimeReviewRequestSchema.safeParse(req.body);
@@ -1638,6 +3494,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         return res.status(400).json({ message: "Esta solicitud ya ha sido procesada" });
       }
 
+      if (!canHandleApproval(admin, existing.employee)) {
+        return res.status(403).json({ message: "Esta solicitud corresponde a otro responsable" });
+      }
+
       await storage.updateOvertimeRequest(id, {
         status,
         reviewerId: admin.id,
@@ -1645,6 +3505,20 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         reviewedAt: new Date(),
       });
 
+      if (status === "approved") {
+        const dateKey = toSpainDateKey(existing.date);
+        await storage.createHoursBankEntry({
+          employeeId: existing.employeeId,
+          kind: "credit",
+          minutes: existing.minutes,
+          date: dateKey,
+          expiresOn: resolveCreditExpiry(dateKey, parseInt(process.env.HOURS_BANK_EXPIRY_MONTHS || "4", 10)),
+          overtimeRequestId: id,
+          comment: comment,
+          createdById: admin.id,
+        });
+      }
+
       await storage.createAuditLog({
         action: "overtime_review",
         actorId: admin.id,
@@ -1653,6 +3527,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         details: JSON.stringify({ status, comment, employeeId: existing.employeeId }),
         ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
       });
+      await publishEmployeeEvent("overtime", existing.employeeId);
 
       res.json({ message: status === "approved" ? "Horas extra aprobadas" : "Horas extra rechazadas" });
     } catch (error) {
@@ -1660,88 +3535,424 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
+  // ==================== CORRECTION REQUESTS ====================
+
+  app.get("/api/correction-requests", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
+    try {
+      const status = req.query.status as "pending" | "approved" | "rejected" | "cancelled" | undefined;
+      const list = await storage.getCorrectionRequests({
+        status,
+        siteId: resolveSiteScope(req),
+        supervisorId: resolveApprovalScope(req),
+      });
+      const policy = resolveEscalationPolicy();
+      const now = new Date();
+      res.json(list.map(r => ({
+        ...r,
+        escalated: r.status === "pending" && isEscalated(r.createdAt, now, policy),
+      })));
+    } catch (error) {
+      handleRouteError(res, error, "[GET-CORRECTION-REQUESTS]");
+    }
+  });
+
+  app.post("/api/correction-requests/:id/review", authenticateAdminManager, requirePermission("punches.correct"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const result = correctionRequestReviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: result.error.errors });
+      }
+
+      const { status, comment } = result.data;
+      const admin = req.employee!;
+
+      const existing = await storage.getCorrectionRequest(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Solicitud no encontrada" });
+      }
+      if (existing.status !== "pending") {
+        return res.status(400).json({ message: "Esta solicitud ya ha sido procesada" });
+      }
+      if (!(await isResponsibleFor(admin, existing.employeeId))) {
+        return res.status(403).json({ message: "Esta solicitud corresponde a otro responsable" });
+      }
+
+      const ipAddress = (req.ip || req.socket.remoteAddress || "") as string;
+
+      if (status === "rejected") {
+        await storage.updateCorrectionRequest(id, {
+          status,
+          reviewerId: admin.id,
+          reviewerComment: comment,
+          reviewedAt: new Date(),
+        });
+      } else {
+        const { correction, createdPunch } = await storage.approveCorrectionRequest(existing, admin.id, comment);
+
+        await storage.createAuditLog({
+          action: "correction",
+          actorId: admin.id,
+          targetType: "punch",
+          targetId: correction.originalPunchId,
+          details: JSON.stringify({
+            reason: existing.reason,
+            newTimestamp: correction.newTimestamp,
+            newType: correction.newType,
+            correctionRequestId: id,
+            createdPunch: createdPunch ? { type: createdPunch.type, timestamp: createdPunch.timestamp } : null,
+          }),
+          ipAddress,
+        });
+
+        const originalPunch = createdPunch ?? (await storage.getPunchById(correction.originalPunchId));
+        await recomputeOvertimeForDays(existing.employeeId, [originalPunch?.timestamp, correction.newTimestamp], admin.id, ipAddress);
+      }
+
+      await storage.createAuditLog({
+        action: "correction_request_review",
+        actorId: admin.id,
+        targetType: "correction_request",
+        targetId: id,
+        details: JSON.stringify({ status, comment, employeeId: existing.employeeId, kind: existing.kind }),
+        ipAddress,
+      });
+      await publishEmployeeEvent("review", existing.employeeId);
+
+      res.json({ message: status === "approved" ? "Corrección aprobada" : "Corrección rechazada" });
+    } catch (error) {
+      handleRouteError(res, error, "[REVIEW-CORRECTION-REQUEST]");
+    }
+  });
+
   // ==================== KIOSK DEVICE MANAGEMENT (Admin) ====================
 
-  app.get("/api/admin/kiosk-devices", authenticateAdminManager, async (_req, res) => {
+  app.get("/api/admin/kiosk-devices", authenticateAdminManager, requirePermission("kiosk.manage"), async (_req, res) => {
     try {
-      const devices = await storage.getAllKioskDevices();
-      res.json(devices.map(d => ({ ...d, tokenHash: undefined })));
+      const [devices, heartbeats] = await Promise.all([
+        storage.getAllKioskDevices(),
+        storage.getLatestKioskHeartbeats(),
+      ]);
+      const policy = resolveKioskTokenPolicy();
+      const healthPolicy = resolveKioskHealthPolicy();
+      const latestByDevice = new Map(heartbeats.map(h => [h.deviceId, h]));
+      const now = new Date();
+      res.json(devices.map(d => ({
+        ...d,
+        tokenHash: undefined,
+        previousTokenHash: undefined,
+        paired: !!d.tokenHash,
+        rotationDue: !!d.tokenHash && isRotationDue(d.tokenIssuedAt, now, policy),
+        lastHeartbeat: latestByDevice.get(d.id) ?? null,
+        health: kioskHealthOf(d, latestByDevice.get(d.id), now, healthPolicy),
+      })));
     } catch (error) {
       handleRouteError(res, error, "[GET-KIOSK-DEVICES]", "Error al obtener dispositivos");
     }
   });
 
-  app.post("/api/admin/kiosk-devices", authenticateAdminManager, async (req, res) => {
-    try {
-      const validation = kioskDeviceSchema.safeParse(req.body);
-      if (!validation.success) {
-        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+  // Approves the code a kiosk is showing; the token itself is only handed to that kiosk when it next polls
+  app.post("/api/admin/kiosk-devices/pair", authenticateAdminManager, requirePermission("kiosk.manage"), async (req, res) => {
+    try {
+      const validation = kioskPairingApprovalSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+      const { code, deviceId, name, siteId } = validation.data;
+      const admin = req.employee!;
+
+      const pairing = await storage.getPendingKioskPairingByCode(normalizePairingCode(code));
+      if (!pairing) {
+        return res.status(404).json({ message: "Código de vinculación no válido o caducado" });
+      }
+
+      if (siteId && !(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      let device;
+      if (deviceId) {
+        device = await storage.getKioskDevice(deviceId);
+        if (!device) {
+          return res.status(404).json({ message: "Dispositivo no encontrado" });
+        }
+      } else {
+        device = await storage.createKioskDevice({
+          name: name!,
+          tokenHash: null,
+          enabled: true,
+          siteId: siteId ?? null,
+        });
+      }
+
+      const approved = await storage.approveKioskPairing(pairing.id, device.id, admin.id);
+      if (!approved) {
+        if (!deviceId) {
+          await storage.deleteKioskDevice(device.id);
+        }
+        return res.status(409).json({ message: "Este código ya ha sido utilizado" });
+      }
+
+      logInfo("Kiosk pairing approved", { deviceId: device.id, pairingId: pairing.id, approvedById: admin.id, repair: !!deviceId });
+      res.status(201).json({ ...device, tokenHash: undefined, previousTokenHash: undefined });
+    } catch (error) {
+      handleRouteError(res, error, "[PAIR-KIOSK-DEVICE]", "Error al vincular dispositivo");
+    }
+  });
+
+  app.post("/api/admin/kiosk-devices/:id/revoke", authenticateAdminManager, requirePermission("kiosk.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const device = await storage.getKioskDevice(id);
+      if (!device) {
+        return res.status(404).json({ message: "Dispositivo no encontrado" });
+      }
+      if (!device.tokenHash) {
+        return res.status(400).json({ message: "El dispositivo no tiene un token activo" });
+      }
+
+      await storage.updateKioskDevice(id, {
+        tokenHash: null,
+        tokenIssuedAt: null,
+        previousTokenHash: null,
+        previousTokenValidUntil: null,
+      });
+      await storage.createKioskTokenEvent({
+        deviceId: id,
+        event: "revoked",
+        actorId: req.employee!.id,
+        tokenFingerprint: tokenFingerprint(device.tokenHash),
+        ipAddress: getClientIp(req),
+      });
+
+      logInfo("Kiosk token revoked", { deviceId: id, revokedById: req.employee!.id });
+      res.json({ message: "Token revocado" });
+    } catch (error) {
+      handleRouteError(res, error, "[REVOKE-KIOSK-TOKEN]", "Error al revocar el token");
+    }
+  });
+
+  app.get("/api/admin/kiosk-devices/:id/heartbeats", authenticateAdminManager, requirePermission("kiosk.manage"), async (req, res) => {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const heartbeats = await storage.getKioskHeartbeats(req.params.id as string, since);
+      res.json(heartbeats);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-KIOSK-HEARTBEATS]", "Error al obtener las conexiones del dispositivo");
+    }
+  });
+
+  app.get("/api/admin/kiosk-devices/:id/token-events", authenticateAdminManager, requirePermission("kiosk.manage"), async (req, res) => {
+    try {
+      const events = await storage.getKioskTokenEvents(req.params.id as string);
+      res.json(events);
+    } catch (error) {
+      handleRouteError(res, error, "[GET-KIOSK-TOKEN-EVENTS]", "Error al obtener el historial");
+    }
+  });
+
+  app.patch("/api/admin/kiosk-devices/:id", authenticateAdminManager, requirePermission("kiosk.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = updateKioskDeviceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+      const { name, enabled, siteId } = validation.data;
+
+      if (siteId && !(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Centro no encontrado" });
+      }
+
+      const updates: { name?: string; enabled?: boolean; siteId?: string | null } = {};
+      if (name !== undefined) updates.name = name;
+      if (enabled !== undefined) updates.enabled = enabled;
+      if (siteId !== undefined) updates.siteId = siteId;
+
+      const device = await storage.updateKioskDevice(id, updates);
+      if (!device) {
+        return res.status(404).json({ error: { code: "NOT_FOUND", message: "Dispositivo no encontrado" } });
+      }
+
+      logInfo("Kiosk device updated", { deviceId: id, updates });
+      res.json({ ...device, tokenHash: undefined, previousTokenHash: undefined });
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-KIOSK-DEVICE]", "Error al actualizar dispositivo");
+    }
+  });
+
+  app.delete("/api/admin/kiosk-devices/:id", authenticateAdminManager, requirePermission("kiosk.manage"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      await storage.deleteKioskDevice(id);
+      logInfo("Kiosk device deleted", { deviceId: id });
+      res.json({ message: "Dispositivo eliminado" });
+    } catch (error) {
+      handleRouteError(res, error, "[DELETE-KIOSK-DEVICE]", "Error al eliminar dispositivo");
+    }
+  });
+
+  // ==================== KIOSK PAIRING ====================
+
+  // An unpaired kiosk asks for a code to show; the secret never leaves the kiosk and is what later collects the token
+  app.post("/api/kiosk/pairing", kioskPairingLimiter, async (req, res) => {
+    try {
+      const secret = generateKioskToken();
+      const pairing = await storage.createKioskPairing({
+        code: generatePairingCode(),
+        secretHash: hashToken(secret),
+        ipAddress: getClientIp(req),
+        expiresAt: pairingExpiry(new Date()),
+      });
+
+      logInfo("[KIOSK-PAIRING] code issued", { pairingId: pairing.id, ip: pairing.ipAddress });
+      res.status(201).json({
+        code: formatPairingCode(pairing.code),
+        secret,
+        expiresAt: pairing.expiresAt,
+      });
+    } catch (error) {
+      logError("[KIOSK-PAIRING] Error", error);
+      if (isDbError(error)) {
+        return res.status(503).json({ error: { code: "SERVICE_UNAVAILABLE", message: "Servicio temporalmente no disponible. Inténtelo de nuevo." } });
+      }
+      res.status(500).json({ error: { code: "PAIRING_ERROR", message: "Error al iniciar la vinculación" } });
+    }
+  });
+
+  app.get("/api/kiosk/pairing/status", kioskPairingStatusLimiter, async (req, res) => {
+    try {
+      const secret = req.headers["x-pairing-secret"];
+      if (!secret || typeof secret !== "string") {
+        return res.status(400).json({ error: { code: "PAIRING_SECRET_REQUIRED", message: "Secreto de vinculación requerido" } });
+      }
+
+      const pairing = await storage.getKioskPairingBySecretHash(hashToken(secret));
+      if (!pairing) {
+        return res.status(404).json({ error: { code: "PAIRING_NOT_FOUND", message: "Vinculación no encontrada" } });
+      }
+
+      const status = pairingStatus(pairing, new Date());
+      if (status !== "approved") {
+        return res.json({ status });
+      }
+
+      // Claimed before the token is minted, so two polls racing cannot each receive a valid token
+      if (!(await storage.markKioskPairingDelivered(pairing.id))) {
+        return res.json({ status: "delivered" });
+      }
+
+      const device = await storage.getKioskDevice(pairing.deviceId!);
+      if (!device) {
+        return res.json({ status: "expired" });
       }
-      const { name } = validation.data;
 
       const token = generateKioskToken();
       const tokenHash = hashToken(token);
-
-      const device = await storage.createKioskDevice({
-        name,
+      await storage.updateKioskDevice(device.id, {
         tokenHash,
-        enabled: true,
+        tokenIssuedAt: new Date(),
+        previousTokenHash: null,
+        previousTokenValidUntil: null,
       });
-
-      logInfo("Kiosk device created", { deviceId: device.id, name });
-
-      res.status(201).json({
-        id: device.id,
-        name: device.name,
-        token,
-        enabled: device.enabled,
-        createdAt: device.createdAt,
-        message: "Guarde el token, no se mostrará de nuevo",
+      await storage.createKioskTokenEvent({
+        deviceId: device.id,
+        event: "paired",
+        actorId: pairing.approvedById,
+        tokenFingerprint: tokenFingerprint(tokenHash),
+        ipAddress: getClientIp(req),
       });
+
+      logInfo("[KIOSK-PAIRING] token delivered", { deviceId: device.id, pairingId: pairing.id });
+      res.json({ status: "paired", token, device: { id: device.id, name: device.name } });
     } catch (error) {
-      handleRouteError(res, error, "[CREATE-KIOSK-DEVICE]", "Error al crear dispositivo");
+      logError("[KIOSK-PAIRING] Error", error);
+      if (isDbError(error)) {
+        return res.status(503).json({ error: { code: "SERVICE_UNAVAILABLE", message: "Servicio temporalmente no disponible. Inténtelo de nuevo." } });
+      }
+      res.status(500).json({ error: { code: "PAIRING_ERROR", message: "Error al consultar la vinculación" } });
     }
   });
 
-  app.patch("/api/admin/kiosk-devices/:id", authenticateAdminManager, async (req, res) => {
+  // Sent every minute by a paired kiosk: marks it online, records its state, and says when its token is due for rotation
+  app.post("/api/kiosk/heartbeat", authenticateKioskHousekeeping, async (req, res) => {
     try {
-      const id = req.params.id as string;
-      const validation = updateKioskDeviceSchema.safeParse(req.body);
+      const validation = kioskHeartbeatRequestSchema.safeParse(req.body);
       if (!validation.success) {
-        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+        return res.status(400).json({ error: { code: "INVALID_REQUEST", message: "Datos inválidos" } });
       }
-      const { name, enabled } = validation.data;
-
-      const updates: { name?: string; enabled?: boolean } = {};
-      if (name !== undefined) updates.name = name;
-      if (enabled !== undefined) updates.enabled = enabled;
-
-      const device = await storage.updateKioskDevice(id, updates);
-      if (!device) {
-        return res.status(404).json({ error: { code: "NOT_FOUND", message: "Dispositivo no encontrado" } });
+      const device = req.kioskDevice!;
+      const data = validation.data;
+      const receivedAt = new Date();
+      const skew = clockSkewSeconds(new Date(data.deviceTime), receivedAt);
+
+      await storage.createKioskHeartbeat({
+        deviceId: device.id,
+        appVersion: data.appVersion ?? null,
+        batteryLevel: data.batteryLevel ?? null,
+        batteryCharging: data.batteryCharging ?? null,
+        connectionType: data.connectionType ?? null,
+        effectiveType: data.effectiveType ?? null,
+        pendingPunches: data.pendingPunches ?? 0,
+        clockSkewSeconds: skew,
+        ipAddress: getClientIp(req),
+      });
+      await storage.recordKioskHeartbeat(device.id);
+      if (device.offlineAlertedAt) {
+        logInfo("[KIOSK-HEALTH] kiosk back online", { deviceId: device.id, offlineSince: device.lastHeartbeatAt });
       }
 
-      logInfo("Kiosk device updated", { deviceId: id, updates });
-      res.json({ ...device, tokenHash: undefined });
+      res.json({
+        device: { id: device.id, name: device.name, siteId: device.siteId },
+        rotationDue: isRotationDue(device.tokenIssuedAt, receivedAt, resolveKioskTokenPolicy()),
+        serverTime: receivedAt.toISOString(),
+        clockSkewSeconds: skew,
+      });
     } catch (error) {
-      handleRouteError(res, error, "[UPDATE-KIOSK-DEVICE]", "Error al actualizar dispositivo");
+      logError("[KIOSK-HEARTBEAT] Error", error);
+      if (isDbError(error)) {
+        return res.status(503).json({ error: { code: "SERVICE_UNAVAILABLE", message: "Servicio temporalmente no disponible. Inténtelo de nuevo." } });
+      }
+      res.status(500).json({ error: { code: "HEARTBEAT_ERROR", message: "Error al registrar la conexión" } });
     }
   });
 
-  app.delete("/api/admin/kiosk-devices/:id", authenticateAdminManager, async (req, res) => {
+  app.post("/api/kiosk/token/rotate", authenticateKioskHousekeeping, async (req, res) => {
     try {
-      const id = req.params.id as string;
-      await storage.deleteKioskDevice(id);
-      logInfo("Kiosk device deleted", { deviceId: id });
-      res.json({ message: "Dispositivo eliminado" });
+      const device = req.kioskDevice!;
+      const policy = resolveKioskTokenPolicy();
+      const now = new Date();
+      const token = generateKioskToken();
+      const tokenHash = hashToken(token);
+
+      await storage.updateKioskDevice(device.id, {
+        tokenHash,
+        tokenIssuedAt: now,
+        previousTokenHash: device.tokenHash,
+        previousTokenValidUntil: graceUntil(now, policy),
+      });
+      await storage.createKioskTokenEvent({
+        deviceId: device.id,
+        event: "rotated",
+        actorId: null,
+        tokenFingerprint: tokenFingerprint(tokenHash),
+        ipAddress: getClientIp(req),
+      });
+
+      logInfo("[KIOSK-TOKEN] rotated", { deviceId: device.id });
+      res.json({ token });
     } catch (error) {
-      handleRouteError(res, error, "[DELETE-KIOSK-DEVICE]", "Error al eliminar dispositivo");
+      logError("[KIOSK-TOKEN] Error", error);
+      if (isDbError(error)) {
+        return res.status(503).json({ error: { code: "SERVICE_UNAVAILABLE", message: "Servicio temporalmente no disponible. Inténtelo de nuevo." } });
+      }
+      res.status(500).json({ error: { code: "ROTATION_ERROR", message: "Error al renovar el token" } });
     }
   });
 
   // ==================== KIOSK PUNCH ROUTES ====================
 
-  app.post("/api/kiosk/punch", authenticateKiosk, async (req, res) => {
+  app.post("/api/kiosk/punch", authenticateKiosk, honourIdempotencyKey, async (req, res) => {
     const reqMeta = {
       kioskDeviceId: req.kioskDevice?.id,
       hasPin: !!req.body?.pin,
@@ -1804,8 +4015,11 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         signatureData,
         signatureSignedAt: new Date(),
         kioskDeviceId: req.kioskDevice?.id,
+        siteId: req.kioskDevice?.siteId ?? employee.siteId,
       });
 
+      publishPunchEvent(punch, employee);
+
       logInfo("[KIOSK-PUNCH] punch created successfully", { 
         punchId: punch.id, 
         employeeId: employee.id, 
@@ -1837,6 +4051,100 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
+  // Replays punches an offline kiosk queued; each item is independent, so one bad PIN does not hold back the rest
+  app.post("/api/kiosk/punches/sync", employeeLimiter, authenticateKiosk, async (req, res) => {
+    try {
+      const parseResult = kioskPunchSyncSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: { code: "INVALID_REQUEST", message: "Datos inválidos" } });
+      }
+
+      const policy = resolveOfflineSyncPolicy();
+      const receivedAt = new Date();
+      const results: { clientId: string; status: "created" | "duplicate" | "rejected"; punchId?: string; flagged?: boolean; code?: string }[] = [];
+      const created: { employee: Employee; employeeId: string; type: "IN" | "OUT"; timestamp: Date }[] = [];
+
+      for (const item of replayOrder(parseResult.data.punches)) {
+        const existing = await storage.getPunchByClientId(item.clientId);
+        if (existing) {
+          results.push({ clientId: item.clientId, status: "duplicate", punchId: existing.id });
+          continue;
+        }
+
+        const deviceTimestamp = new Date(item.deviceTimestamp);
+        if (exceedsMaxAge(deviceTimestamp, receivedAt, policy)) {
+          results.push({ clientId: item.clientId, status: "rejected", code: "PUNCH_TOO_OLD" });
+          continue;
+        }
+
+        const employee = await storage.getEmployeeByPin(item.pin);
+        if (!employee || !employee.isActive) {
+          results.push({ clientId: item.clientId, status: "rejected", code: employee ? "EMPLOYEE_INACTIVE" : "EMPLOYEE_NOT_FOUND" });
+          continue;
+        }
+        if (item.signatureData.length < 100) {
+          results.push({ clientId: item.clientId, status: "rejected", code: "SIGNATURE_REQUIRED" });
+          continue;
+        }
+
+        const evaluation = evaluateDeviceTime(deviceTimestamp, receivedAt, policy);
+        const previous = await storage.getLastPunchBefore(employee.id, evaluation.timestamp);
+        const flagged = evaluation.flagged || sequenceConflict(item.type, previous?.type);
+
+        try {
+          const punch = await storage.createPunch({
+            employeeId: employee.id,
+            type: item.type,
+            timestamp: evaluation.timestamp,
+            latitude: item.latitude?.toString(),
+            longitude: item.longitude?.toString(),
+            accuracy: item.accuracy?.toString(),
+            source: "kiosk",
+            needsReview: flagged,
+            signatureData: item.signatureData,
+            signatureSignedAt: evaluation.timestamp,
+            kioskDeviceId: req.kioskDevice?.id,
+            siteId: req.kioskDevice?.siteId ?? employee.siteId,
+            clientId: item.clientId,
+            deviceTimestamp,
+            receivedAt,
+            clockDriftSeconds: evaluation.driftSeconds,
+          });
+          publishPunchEvent(punch, employee);
+          created.push({ employee, employeeId: employee.id, type: item.type, timestamp: punch.timestamp });
+          results.push({ clientId: item.clientId, status: "created", punchId: punch.id, flagged });
+        } catch (error) {
+          // Two syncs of the same queue can race; the unique client id lets the loser report the winner's punch
+          if ((error as { code?: string }).code !== "23505") throw error;
+          const winner = await storage.getPunchByClientId(item.clientId);
+          results.push({ clientId: item.clientId, status: "duplicate", punchId: winner?.id });
+        }
+      }
+
+      const ipAddress = (req.ip || req.socket.remoteAddress || "") as string;
+      for (const exit of overtimeRecomputeDays(created)) {
+        await recomputeDailyOvertime(exit.employee, exit.timestamp, exit.employeeId, ipAddress);
+      }
+
+      logInfo("[KIOSK-SYNC] offline punches replayed", {
+        kioskDeviceId: req.kioskDevice?.id,
+        received: results.length,
+        created: results.filter(r => r.status === "created").length,
+        flagged: results.filter(r => r.flagged).length,
+        rejected: results.filter(r => r.status === "rejected").length,
+      });
+
+      res.json({ results });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logError("[KIOSK-SYNC] unhandled error", { message: errMsg, kioskDeviceId: req.kioskDevice?.id });
+      if (isDbError(error)) {
+        return res.status(503).json({ error: { code: "SERVICE_UNAVAILABLE", message: "Servicio temporalmente no disponible. Inténtelo de nuevo." } });
+      }
+      res.status(500).json({ error: { code: "SYNC_ERROR", message: "Error al sincronizar fichajes" } });
+    }
+  });
+
   app.post("/api/kiosk/punches/:id/signature", authenticateKiosk, upload.single("signature"), async (req, res) => {
     try {
       const id = req.params.id as string;
@@ -1895,7 +4203,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/admin/punches/:id/signature-url", authenticateAdminManager, async (req, res) => {
+  app.get("/api/admin/punches/:id/signature-url", authenticateAdminManager, requirePermission("punches.view"), async (req, res) => {
     try {
       const id = req.params.id as string;
       const punch = await storage.getPunchById(id);
@@ -1919,7 +4227,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/reports/general", authenticateAdminManager, async (req, res) => {
+  app.get("/api/reports/general", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
     try {
       const { period, year, month, week } = req.query;
       
@@ -1941,72 +4249,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         subtitle = `Semana ${weekNum} - ${yearNum}`;
       } else {
         const monthNum = parseInt(month as string) || 1;
-        startDate = new Date(Date.UTC(yearNum, monthNum - 1, 1));
-        endDate = new Date(Date.UTC(yearNum, monthNum, 0, 23, 59, 59, 999));
-        const monthNames = ["Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio", 
-                          "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre"];
-        subtitle = `${monthNames[monthNum - 1]} ${yearNum}`;
-      }
-
-      const punchesData = await storage.getAllPunchesForReport({ startDate, endDate });
-
-      const punchPairs = new Map<string, { in: typeof punchesData[0] | null; out: typeof punchesData[0] | null; employee: typeof punchesData[0]["employee"] }[]>();
-
-      for (const punch of punchesData) {
-        const dateKey = toSpainDateKey(punch.timestamp);
-        const key = `${punch.employeeId}-${dateKey}`;
-        
-        if (!punchPairs.has(key)) {
-          punchPairs.set(key, []);
-        }
-        
-        const pairs = punchPairs.get(key)!;
-        
-        if (punch.type === "IN") {
-          pairs.push({ in: punch, out: null, employee: punch.employee });
-        } else if (punch.type === "OUT") {
-          const lastPair = pairs[pairs.length - 1];
-          if (lastPair && lastPair.in && !lastPair.out) {
-            lastPair.out = punch;
-          } else {
-            pairs.push({ in: null, out: punch, employee: punch.employee });
-          }
-        } else {
-          continue;
-        }
+        ({ startDate, endDate, subtitle } = monthReportRange(yearNum, monthNum));
       }
 
-      const records: PunchRecord[] = [];
-      for (const pairs of Array.from(punchPairs.values())) {
-        for (const pair of pairs) {
-          records.push({
-            lastName: pair.employee.lastName,
-            firstName: pair.employee.firstName,
-            inTimestamp: pair.in?.timestamp ?? null,
-            inSignatureData: pair.in?.signatureData ?? null,
-            inLatitude: pair.in?.latitude ?? null,
-            inLongitude: pair.in?.longitude ?? null,
-            outTimestamp: pair.out?.timestamp ?? null,
-            outSignatureData: pair.out?.signatureData ?? null,
-            outLatitude: pair.out?.latitude ?? null,
-            outLongitude: pair.out?.longitude ?? null,
-          });
-        }
-      }
-
-      records.sort((a, b) => pdfSortKey(a) - pdfSortKey(b));
-      logPdfDebug("GENERAL", records);
-
-      const generatedAt = new Date();
-      const pdfBuffer = await generateReportPDF({
-        title: "Informe General de Fichajes",
-        subtitle,
-        records,
-        generatedAt,
-        periodStart: startDate,
-        periodEnd: endDate,
-        isEmployeeReport: false,
-      });
+      const pdfBuffer = await buildGeneralReport({ startDate, endDate, subtitle, siteId: resolveSiteScope(req) });
 
       await storage.createAuditLog({
         action: "export",
@@ -2024,7 +4270,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/reports/employee/:id", authenticateAdminManager, async (req, res) => {
+  app.get("/api/reports/employee/:id", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
     try {
       const employeeId = req.params.id;
       const { startDate: startStr, endDate: endStr } = req.query;
@@ -2044,11 +4290,20 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
       }
 
       const employee = await storage.getEmployee(employeeId as string);
-      if (!employee) {
+      const siteId = resolveSiteScope(req);
+      if (!employee || (siteId && employee.siteId !== siteId)) {
         return res.status(404).json({ error: { code: "EMPLOYEE_NOT_FOUND", message: "Empleado no encontrado" } });
       }
 
-      const punchesData = await storage.getAllPunchesForReport({ startDate, endDate, employeeId: employeeId as string });
+      const [punchesData, absenceList] = await Promise.all([
+        storage.getAllPunchesForReport({ startDate, endDate, employeeId: employeeId as string }),
+        storage.getAbsences({
+          employeeId: employeeId as string,
+          status: "approved",
+          fromDateKey: toSpainDateKey(startDate),
+          toDateKey: toSpainDateKey(endDate),
+        }),
+      ]);
 
       const punchPairs: { in: typeof punchesData[0] | null; out: typeof punchesData[0] | null }[] = [];
 
@@ -2067,6 +4322,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         }
       }
 
+      const breakRules = toBreakRules(await storage.getBreakPolicyForEmployee(employee.id));
       const records: PunchRecord[] = punchPairs.map(pair => ({
         lastName: employee.lastName,
         firstName: employee.firstName,
@@ -2078,6 +4334,9 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         outSignatureData: pair.out?.signatureData ?? null,
         outLatitude: pair.out?.latitude ?? null,
         outLongitude: pair.out?.longitude ?? null,
+        unpaidBreakMinutes: !breakRules.paid && pair.in && pair.out
+          ? breakMinutesBetween(punchesData, pair.in.timestamp, pair.out.timestamp)
+          : 0,
       }));
 
       records.sort((a, b) => pdfSortKey(a) - pdfSortKey(b));
@@ -2095,25 +4354,39 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         periodEnd: endDate,
         employeeName: `${employee.firstName} ${employee.lastName}`,
         isEmployeeReport: true,
+        absences: absenceList.map(a => ({ startDate: a.startDate, endDate: a.endDate, typeName: a.type.name, days: a.days })),
       });
 
+      const fileName = `informe-${employee.lastName}-${employee.firstName}.pdf`;
+      const archived = await archiveGeneratedReport({
+        id: randomUUID(),
+        kind: "employee",
+        periodStart: startDate,
+        periodEnd: endDate,
+        employeeId: employee.id,
+        siteId: employee.siteId,
+        fileName,
+        generatedById: req.employee!.id,
+        generatedAt,
+      }, pdfBuffer);
+
       await storage.createAuditLog({
         action: "export",
         actorId: req.employee!.id,
         targetType: "report",
         targetId: employeeId as string,
-        details: JSON.stringify({ startDate: startStr, endDate: endStr, employeeName: `${employee.firstName} ${employee.lastName}` }),
+        details: JSON.stringify({ startDate: startStr, endDate: endStr, employeeName: `${employee.firstName} ${employee.lastName}`, archivedReportId: archived.id }),
       });
 
       res.setHeader("Content-Type", "application/pdf");
-      res.setHeader("Content-Disposition", `attachment; filename="informe-${employee.lastName}-${employee.firstName}.pdf"`);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
       res.send(pdfBuffer);
     } catch (error) {
       handleRouteError(res, error, "[REPORT-EMPLOYEE]", "Error al generar informe");
     }
   });
 
-  app.get("/api/reports/authorities.pdf", authenticateAdminManager, async (req, res) => {
+  app.get("/api/reports/authorities.pdf", authenticateAdminManager, requirePermission("reports.authorities"), async (req, res) => {
     try {
       const { scope, year: yearStr, month: monthStr, employeeId, includeAnnexes: annexesStr } = req.query;
 
@@ -2134,48 +4407,22 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         }
       }
 
-      let periodStart: Date;
-      let periodEnd: Date;
-
-      if (scope === "month") {
-        const refStart = new Date(Date.UTC(yearNum, monthNum! - 1, 1, 12, 0, 0));
-        const lastDay = new Date(Date.UTC(yearNum, monthNum!, 0)).getUTCDate();
-        const refEnd = new Date(Date.UTC(yearNum, monthNum! - 1, lastDay, 12, 0, 0));
-        periodStart = startOfDayInSpain(refStart);
-        periodEnd = endOfDayInSpain(refEnd);
-      } else {
-        const refStart = new Date(Date.UTC(yearNum, 0, 1, 12, 0, 0));
-        const refEnd = new Date(Date.UTC(yearNum, 11, 31, 12, 0, 0));
-        periodStart = startOfDayInSpain(refStart);
-        periodEnd = endOfDayInSpain(refEnd);
-      }
-
       const includeAnnexes = annexesStr !== undefined
         ? annexesStr === "true"
         : scope === "month";
 
       const empId = employeeId as string | undefined;
+      const siteId = resolveSiteScope(req);
 
-      const [allPunches, correctionsData] = await Promise.all([
-        storage.getAllPunchesForReport({ startDate: periodStart, endDate: periodEnd, employeeId: empId }),
-        storage.getCorrectionsInRange({ startDate: periodStart, endDate: periodEnd, employeeId: empId }),
-      ]);
-
-      const kioskPunches = allPunches.filter(p => p.source === "kiosk");
-      const kioskPunchIds = new Set(kioskPunches.map(p => p.id));
-      const kioskCorrections = correctionsData.filter(c => kioskPunchIds.has(c.originalPunchId));
-
-      const generatedAt = new Date();
-      const pdfBuffer = await generateAuthoritiesPDF({
-        scope: scope as "month" | "year",
+      const { pdf: pdfBuffer, documentId, fileName } = await buildAuthoritiesReport({
+        scope,
         year: yearNum,
         month: monthNum,
         includeAnnexes,
-        generatedAt,
-        periodStart,
-        periodEnd,
-        punches: kioskPunches,
-        corrections: kioskCorrections,
+        employeeId: empId,
+        siteId,
+        generatedById: req.employee!.id,
+        baseUrl: publicBaseUrl(req),
       });
 
       await storage.createAuditLog({
@@ -2183,17 +4430,11 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         actorId: req.employee!.id,
         targetType: "report",
         targetId: "authorities",
-        details: JSON.stringify({ scope, year: yearNum, month: monthNum, employeeId: empId, includeAnnexes }),
+        details: JSON.stringify({ scope, year: yearNum, month: monthNum, employeeId: empId, siteId, includeAnnexes, documentId }),
       });
 
-      const monthNames = ["Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
-        "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre"];
-      const fileLabel = scope === "month"
-        ? `${monthNames[(monthNum || 1) - 1]}-${yearNum}`
-        : `${yearNum}`;
-
       res.setHeader("Content-Type", "application/pdf");
-      res.setHeader("Content-Disposition", `attachment; filename="informe-autoridades-${fileLabel}.pdf"`);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
       res.setHeader("Cache-Control", "no-store");
       res.send(pdfBuffer);
     } catch (error) {
@@ -2201,6 +4442,222 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
+  // ==================== REPORT ARCHIVE ====================
+
+  app.get("/api/reports/archive", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const result = archivedReportQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Parámetros inválidos", errors: result.error.errors });
+      }
+
+      const { kind, from, to, employeeId } = result.data;
+      const granted = await getEmployeePermissions(req.employee!);
+      const canSeeAuthorities = granted.includes("reports.authorities");
+      if (kind === "authorities" && !canSeeAuthorities) {
+        return res.status(403).json({ message: "No tiene permiso para realizar esta acción", permission: "reports.authorities" });
+      }
+
+      const reports = await storage.getArchivedReports({
+        kind,
+        from: from ? startOfDayInSpain(new Date(from + "T12:00:00Z")) : undefined,
+        to: to ? endOfDayInSpain(new Date(to + "T12:00:00Z")) : undefined,
+        employeeId,
+        siteId: resolveSiteScope(req),
+      });
+
+      res.json(reports
+        .filter(r => canSeeAuthorities || r.kind !== "authorities")
+        .map(({ storageKey, ...r }) => r));
+    } catch (error) {
+      handleRouteError(res, error, "[REPORT-ARCHIVE]", "Error al obtener el archivo de informes");
+    }
+  });
+
+  // Serves the stored bytes, never a regeneration, and refuses them if they no longer match the hash taken at archive time
+  app.get("/api/reports/archive/:id/download", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const report = await storage.getArchivedReport(id);
+      const siteId = resolveSiteScope(req);
+      if (!report || (siteId && report.siteId !== siteId)) {
+        return res.status(404).json({ message: "Informe no encontrado" });
+      }
+      if (report.kind === "authorities" && !(await getEmployeePermissions(req.employee!)).includes("reports.authorities")) {
+        return res.status(403).json({ message: "No tiene permiso para realizar esta acción", permission: "reports.authorities" });
+      }
+
+      const pdf = await readArchivedReport(report.storageBackend, report.storageKey);
+      if (sha256Hex(pdf) !== report.sha256) {
+        logError(`[REPORT-ARCHIVE] Integrity mismatch for archived report ${report.id}`);
+        return res.status(409).json({ message: "El archivo almacenado no coincide con el original registrado" });
+      }
+
+      await storage.createAuditLog({
+        action: "export",
+        actorId: req.employee!.id,
+        targetType: "archived_report",
+        targetId: report.id,
+        details: JSON.stringify({ kind: report.kind, fileName: report.fileName, redownload: true }),
+        ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${report.fileName}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(pdf);
+    } catch (error) {
+      handleRouteError(res, error, "[REPORT-ARCHIVE-DOWNLOAD]", "Error al descargar el informe archivado");
+    }
+  });
+
+  // ==================== REPORT SUBSCRIPTIONS ====================
+
+  app.get("/api/reports/subscriptions", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const all = await storage.getReportSubscriptions({ siteId: resolveSiteScope(req) });
+      const subscriptions = [];
+      for (const subscription of all) {
+        if (await canAccessSubscription(req, subscription)) {
+          subscriptions.push(subscription);
+        }
+      }
+      res.json({ subscriptions, mailerConfigured: isMailerConfigured() });
+    } catch (error) {
+      handleRouteError(res, error, "[GET-REPORT-SUBSCRIPTIONS]", "Error al obtener suscripciones de informes");
+    }
+  });
+
+  app.post("/api/reports/subscriptions", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const validation = reportSubscriptionRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const siteId = resolveSiteScope(req) ?? validation.data.siteId ?? null;
+      if (!(await canAccessSubscription(req, { siteId, kind: validation.data.kind }))) {
+        return res.status(403).json({ message: "No tiene permiso para realizar esta acción", permission: "reports.authorities" });
+      }
+
+      // The month already closed at creation time is not sent; the first delivery is the next 1st
+      const subscription = await storage.createReportSubscription({
+        ...validation.data,
+        siteId,
+        createdById: req.employee!.id,
+        lastPeriod: periodKey(previousMonth(new Date())),
+      });
+      logInfo("Report subscription created", { subscriptionId: subscription.id, kind: subscription.kind, recipients: subscription.recipients.length });
+      res.status(201).json(subscription);
+    } catch (error) {
+      handleRouteError(res, error, "[CREATE-REPORT-SUBSCRIPTION]", "Error al crear suscripción de informe");
+    }
+  });
+
+  app.patch("/api/reports/subscriptions/:id", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const validation = reportSubscriptionUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Datos inválidos", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getReportSubscription(id);
+      if (!existing || !(await canAccessSubscription(req, existing))) {
+        return res.status(404).json({ message: "Suscripción no encontrada" });
+      }
+
+      const siteId = resolveSiteScope(req) ?? (validation.data.siteId !== undefined ? validation.data.siteId : existing.siteId);
+      const kind = validation.data.kind ?? existing.kind;
+      if (!(await canAccessSubscription(req, { siteId, kind }))) {
+        return res.status(403).json({ message: "No tiene permiso para realizar esta acción", permission: "reports.authorities" });
+      }
+
+      const subscription = await storage.updateReportSubscription(id, { ...validation.data, siteId });
+      logInfo("Report subscription updated", { subscriptionId: id, changes: Object.keys(validation.data) });
+      res.json(subscription);
+    } catch (error) {
+      handleRouteError(res, error, "[UPDATE-REPORT-SUBSCRIPTION]", "Error al actualizar suscripción de informe");
+    }
+  });
+
+  app.delete("/api/reports/subscriptions/:id", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await storage.getReportSubscription(id);
+      if (!existing || !(await canAccessSubscription(req, existing))) {
+        return res.status(404).json({ message: "Suscripción no encontrada" });
+      }
+
+      await storage.deleteReportSubscription(id);
+      logInfo("Report subscription deleted", { subscriptionId: id, name: existing.name });
+      res.json({ message: "Suscripción eliminada" });
+    } catch (error) {
+      handleRouteError(res, error, "[DELETE-REPORT-SUBSCRIPTION]", "Error al eliminar suscripción de informe");
+    }
+  });
+
+  // Sends the last closed month right away and counts as that month's delivery, so the scheduler does not repeat it
+  app.post("/api/reports/subscriptions/:id/send", authenticateAdminManager, requirePermission("reports.view"), async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const subscription = await storage.getReportSubscription(id);
+      if (!subscription || !(await canAccessSubscription(req, subscription))) {
+        return res.status(404).json({ message: "Suscripción no encontrada" });
+      }
+      if (!isMailerConfigured()) {
+        return res.status(503).json({ message: "El envío de correo no está configurado (SMTP_HOST)" });
+      }
+
+      const period = previousMonth(new Date());
+      try {
+        const delivery = await deliverReportSubscription(subscription, period, req.employee!.id, "manual");
+        await storage.recordReportSubscriptionRun(id, { period: periodKey(period), error: null });
+        res.json({ ...delivery, period: periodKey(period) });
+      } catch (deliveryError) {
+        const message = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+        await storage.recordReportSubscriptionRun(id, { period: periodKey(period), error: message });
+        logError(`[REPORT-SUBSCRIPTION-SEND] Delivery failed for ${id}`, deliveryError);
+        res.status(502).json({ message: `No se pudo enviar el informe: ${message}` });
+      }
+    } catch (error) {
+      handleRouteError(res, error, "[REPORT-SUBSCRIPTION-SEND]", "Error al enviar el informe");
+    }
+  });
+
+  // ==================== REPORT VERIFICATION (PUBLIC) ====================
+
+  // Read-only and unauthenticated: inspectors reach it from the QR code. The PDF is hashed on their side
+  // and only its SHA-256 is sent, so the document itself never has to be uploaded
+  app.get("/api/public/reports/:id", reportVerificationLimiter, async (req, res) => {
+    try {
+      const id = req.params.id as string;
+      const registration = await storage.getReportRegistration(id);
+      if (!registration) {
+        return res.status(404).json({ message: "Informe no encontrado" });
+      }
+
+      const presented = typeof req.query.sha256 === "string" ? req.query.sha256.toLowerCase() : null;
+      const site = registration.siteId ? await storage.getSite(registration.siteId) : undefined;
+
+      res.json({
+        id: registration.id,
+        scope: registration.scope,
+        periodStart: registration.periodStart,
+        periodEnd: registration.periodEnd,
+        generatedAt: registration.generatedAt,
+        siteName: site?.name ?? null,
+        datasetHash: registration.datasetHash,
+        pdfSha256: registration.pdfSha256,
+        chainSeq: registration.chainSeq,
+        chainHash: registration.chainHash,
+        matches: presented ? presented === registration.pdfSha256 : null,
+      });
+    } catch (error) {
+      handleRouteError(res, error, "[VERIFY-REPORT]", "Error al verificar el informe");
+    }
+  });
+
   // ==================== GESTION API (EXTERNAL) ====================
 
   function resolveNamesFromBody(data: { prenom?: string; nom?: string; nombre?: string }): { firstName: string; lastName: string } {
@@ -2419,8 +4876,14 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
       }
 
       const punchCount = await storage.getEmployeePunchCount(employee.id);
-
-      if (punchCount > 0) {
+      const [auditResult] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(auditLog)
+        .where(eq(auditLog.actorId, employee.id));
+      const auditCount = Number(auditResult?.count || 0);
+
+      // Punches and audit entries are sealed in the hash chain, so anyone who left either is archived, never deleted
+      if (punchCount > 0 || auditCount > 0) {
         await storage.updateEmployee(employee.id, { isActive: false, syncDisabled: true } as any);
         await storage.createAuditLog({
           action: "update",
@@ -2430,16 +4893,17 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
           details: JSON.stringify({ source: "gestion-api", monitorId, action: "archived", punchCount }),
           ipAddress: (req.ip || req.socket.remoteAddress || "") as string,
         });
-        logInfo(`[GESTION-API] Archived employee ${employee.id} (has ${punchCount} punches)`);
+        logInfo(`[GESTION-API] Archived employee ${employee.id} (has ${punchCount} punches, ${auditCount} audit entries)`);
         return res.status(409).json({
-          message: "Tiene fichajes registrados. Se ha desactivado en lugar de eliminar.",
+          message: punchCount > 0
+            ? "Tiene fichajes registrados. Se ha desactivado en lugar de eliminar."
+            : "Tiene registros de auditoría. Se ha desactivado en lugar de eliminar.",
           action: "archived",
           employeeId: employee.id,
           punchCount,
         });
       }
 
-      await db.delete(auditLog).where(eq(auditLog.actorId, employee.id));
       await storage.deleteEmployee(employee.id);
       logInfo(`[GESTION-API] Deleted employee ${employee.id} (monitorId=${monitorId})`);
       return res.status(200).json({ action: "deleted", employeeId: employee.id });
@@ -2472,12 +4936,14 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.get("/api/admin/cleanup/preview", authenticateAdminManager, async (req, res) => {
+  app.get("/api/admin/cleanup/preview", authenticateAdminManager, requirePermission("cleanup.purge"), async (req, res) => {
     try {
       const allEmployees = await storage.getAllEmployees();
       const candidates = allEmployees.filter(
-        (e) => e.monitorId === null && e.gestionUserId === null
+        (e) => e.monitorId === null && e.gestionUserId === null && e.anonymizedAt === null
       );
+      const retentionPolicy = resolveRetentionPolicy();
+      const now = new Date();
 
       const result = await Promise.all(
         candidates.map(async (emp) => {
@@ -2490,6 +4956,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
             .orderBy(desc(punches.timestamp))
             .limit(1);
           const lastPunchAt = lastPunchResult.length > 0 ? lastPunchResult[0].timestamp : null;
+          const onLegalHold = !!(await storage.getActiveLegalHold(emp.id));
 
           const isProtected =
             ["admin", "manager"].includes(emp.role) ||
@@ -2506,6 +4973,9 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
             lastPunchAt,
             protected: isProtected,
             protectReason: isProtected ? "Cuenta interna/admin" : null,
+            legalHold: onLegalHold,
+            retainedUntil: retainedUntil(lastPunchAt, retentionPolicy),
+            retentionBlock: purgeBlockReason({ lastPunchAt, onLegalHold }, now, retentionPolicy),
           };
         })
       );
@@ -2516,7 +4986,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
     }
   });
 
-  app.post("/api/admin/cleanup/purge", authenticateAdminManager, async (req, res) => {
+  app.post("/api/admin/cleanup/purge", authenticateAdminManager, requirePermission("cleanup.purge"), async (req, res) => {
     try {
       if (process.env.PURGE_ENABLED !== "true") {
         return res.status(403).json({ message: "Purga no habilitada" });
@@ -2528,6 +4998,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
       }
 
       const { employeeIds, dryRun, reason } = result.data;
+      const retentionPolicy = resolveRetentionPolicy();
       const results: Array<{
         employeeId: string;
         email: string;
@@ -2549,6 +5020,11 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
           continue;
         }
 
+        if (emp.anonymizedAt) {
+          results.push({ employeeId, email: emp.email, name: `${emp.firstName} ${emp.lastName}`, status: "skipped", reason: "Empleado ya anonimizado" });
+          continue;
+        }
+
         if (emp.isActive && process.env.ALLOW_PURGE_ACTIVE !== "true") {
           results.push({ employeeId, email: emp.email, name: `${emp.firstName} ${emp.lastName}`, status: "skipped", reason: "Empleado activo (ALLOW_PURGE_ACTIVE no habilitado)" });
           continue;
@@ -2563,28 +5039,22 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
           continue;
         }
 
+        // No override on purpose: the retention period is a legal obligation, not a safety net
+        const retentionBlock = purgeBlockReason({
+          lastPunchAt: await storage.getLastPunchAt(employeeId),
+          onLegalHold: !!(await storage.getActiveLegalHold(employeeId)),
+        }, new Date(), retentionPolicy);
+        if (retentionBlock) {
+          results.push({ employeeId, email: emp.email, name: `${emp.firstName} ${emp.lastName}`, status: "skipped", reason: retentionBlock });
+          continue;
+        }
+
         const employeePunchIds = await db
           .select({ id: punches.id })
           .from(punches)
           .where(eq(punches.employeeId, employeeId));
         const punchIdList = employeePunchIds.map((p) => p.id);
 
-        let correctionCount = 0;
-        let reviewCount = 0;
-        if (punchIdList.length > 0) {
-          const [corrResult] = await db
-            .select({ count: sql<number>`count(*)` })
-            .from(punchCorrections)
-            .where(sql`${punchCorrections.originalPunchId} IN (${sql.join(punchIdList.map(id => sql`${id}`), sql`, `)})`);
-          correctionCount = Number(corrResult?.count || 0);
-
-          const [revResult] = await db
-            .select({ count: sql<number>`count(*)` })
-            .from(punchReviews)
-            .where(sql`${punchReviews.punchId} IN (${sql.join(punchIdList.map(id => sql`${id}`), sql`, `)})`);
-          reviewCount = Number(revResult?.count || 0);
-        }
-
         const [otResult] = await db
           .select({ count: sql<number>`count(*)` })
           .from(overtimeRequests)
@@ -2597,25 +5067,17 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
           .where(eq(refreshTokens.employeeId, employeeId));
         const refreshTokenCount = Number(rtResult?.count || 0);
 
-        const [alResult] = await db
-          .select({ count: sql<number>`count(*)` })
-          .from(auditLog)
-          .where(eq(auditLog.actorId, employeeId));
-        const auditLogCount = Number(alResult?.count || 0);
-
         const [galResult] = await db
           .select({ count: sql<number>`count(*)` })
           .from(gestionAdminLinks)
           .where(eq(gestionAdminLinks.employeeId, employeeId));
         const gestionLinkCount = Number(galResult?.count || 0);
 
+        // Punches and audit entries are sealed in the hash chain: they stay, anonymised, and only the rest is deleted
         const counts = {
-          punches: punchIdList.length,
-          punchCorrections: correctionCount,
-          punchReviews: reviewCount,
+          punchesAnonymized: punchIdList.length,
           overtimeRequests: overtimeCount,
           refreshTokens: refreshTokenCount,
-          auditLog: auditLogCount,
           gestionAdminLinks: gestionLinkCount,
         };
 
@@ -2623,6 +5085,7 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
           results.push({ employeeId, email: emp.email, name: `${emp.firstName} ${emp.lastName}`, status: "ok", counts });
         } else {
           const client = await pool.connect();
+          let signatureUrls: string[] = [];
           try {
             await client.query("BEGIN");
 
@@ -2637,34 +5100,53 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
                   counts,
                   employeeEmail: emp.email,
                   employeeName: `${emp.firstName} ${emp.lastName}`,
-                  note: "audit_log del empleado también eliminado",
+                  note: "fichajes y auditoría conservados y anonimizados",
                 }),
                 (req.ip || req.socket.remoteAddress || "") as string,
               ]
             );
 
-            if (punchIdList.length > 0) {
-              const punchPlaceholders = punchIdList.map((_, i) => `$${i + 1}`).join(", ");
-              await client.query(
-                `DELETE FROM punch_corrections WHERE original_punch_id IN (${punchPlaceholders})`,
-                punchIdList
-              );
-              await client.query(
-                `DELETE FROM punch_reviews WHERE punch_id IN (${punchPlaceholders})`,
-                punchIdList
-              );
-            }
+            const signatures = await client.query(
+              `SELECT signature_url FROM punches WHERE employee_id = $1 AND signature_url IS NOT NULL`,
+              [employeeId]
+            );
+            signatureUrls = signatures.rows.map((r: { signature_url: string }) => r.signature_url);
+            await client.query(
+              `UPDATE punches
+               SET signature_data = NULL, signature_url = NULL, kiosk_user_agent = NULL, kiosk_ip = NULL,
+                   anonymized_at = COALESCE(anonymized_at, NOW())
+               WHERE employee_id = $1`,
+              [employeeId]
+            );
+            const identity = anonymizedIdentity(employeeId);
+            await client.query(
+              `UPDATE employees
+               SET first_name = $2, last_name = $3, email = $4, pin = NULL, is_active = false,
+                   anonymized_at = COALESCE(anonymized_at, NOW())
+               WHERE id = $1`,
+              [employeeId, identity.firstName, identity.lastName, identity.email]
+            );
 
+            await client.query(`DELETE FROM correction_requests WHERE employee_id = $1`, [employeeId]);
+            await client.query(`DELETE FROM hours_bank_entries WHERE employee_id = $1`, [employeeId]);
             await client.query(`DELETE FROM overtime_requests WHERE employee_id = $1`, [employeeId]);
             await client.query(`DELETE FROM refresh_tokens WHERE employee_id = $1`, [employeeId]);
-            await client.query(`DELETE FROM audit_log WHERE actor_id = $1`, [employeeId]);
-            await client.query(`DELETE FROM punches WHERE employee_id = $1`, [employeeId]);
             await client.query(`DELETE FROM gestion_admin_links WHERE employee_id = $1`, [employeeId]);
-            await client.query(`DELETE FROM employees WHERE id = $1`, [employeeId]);
+            await client.query(`DELETE FROM work_schedules WHERE employee_id = $1`, [employeeId]);
+            await client.query(`DELETE FROM absences WHERE employee_id = $1`, [employeeId]);
+            await client.query(`DELETE FROM report_subscriptions WHERE created_by_id = $1`, [employeeId]);
+            await client.query(`UPDATE legal_holds SET placed_by_id = NULL WHERE placed_by_id = $1`, [employeeId]);
+            await client.query(`UPDATE legal_holds SET released_by_id = NULL WHERE released_by_id = $1`, [employeeId]);
 
             await client.query("COMMIT");
             results.push({ employeeId, email: emp.email, name: `${emp.firstName} ${emp.lastName}`, status: "ok", counts });
             logInfo(`[CLEANUP-PURGE] Purged employee ${emp.email} (${employeeId})`, { counts: counts as any, reason });
+            if (isSpacesConfigured()) {
+              for (const url of signatureUrls) {
+                // The rows no longer point at the images, so a failed delete only leaves an orphan object
+                await deleteFile(url).catch((error) => logError(`[CLEANUP-PURGE] Firma no eliminada: ${url}`, error));
+              }
+            }
           } catch (txError) {
             await client.query("ROLLBACK");
             const errMsg = txError instanceof Error ? txError.message : String(txError);
@@ -2676,6 +5158,10 @@ a{color:#4f46e5;text-decoration:none;font-weight:500}</style></head>
         }
       }
 
+      if (!dryRun) {
+        await storage.sealHashChains();
+      }
+
       return res.json({ dryRun, results });
     } catch (error) {
       handleRouteError(res, error, "[CLEANUP-PURGE]", "Error al purgar empleados");
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { buildDefaultWeek, contractedHoursToMinutes, resolveExpectedDailyMinutes, resolveScheduledEnd } from "./schedules";
+import type { WorkScheduleWithDays } from "@shared/schema";
+
+function createSchedule(
+  weeklyMinutes: number | null,
+  days: Array<{ weekday: number; expectedMinutes: number; startTime?: string; endTime?: string }>
+): WorkScheduleWithDays {
+  const now = new Date();
+  return {
+    id: "test-schedule",
+    employeeId: "test-employee",
+    weeklyMinutes,
+    source: "manual",
+    updatedById: null,
+    createdAt: now,
+    updatedAt: now,
+    days: days.map((d, i) => ({
+      id: `day-${i}`,
+      scheduleId: "test-schedule",
+      weekday: d.weekday,
+      expectedMinutes: d.expectedMinutes,
+      startTime: d.startTime ?? null,
+      endTime: d.endTime ?? null,
+    })),
+  };
+}
+
+describe("contractedHoursToMinutes", () => {
+  it("convertit les heures hebdomadaires en minutes", () => {
+    expect(contractedHoursToMinutes(40)).toBe(2400);
+    expect(contractedHoursToMinutes("37.5")).toBe(2250);
+  });
+
+  it("retourne null pour une valeur absente ou invalide", () => {
+    expect(contractedHoursToMinutes(null)).toBeNull();
+    expect(contractedHoursToMinutes("")).toBeNull();
+    expect(contractedHoursToMinutes(0)).toBeNull();
+    expect(contractedHoursToMinutes("abc")).toBeNull();
+  });
+});
+
+describe("buildDefaultWeek", () => {
+  it("répartit les minutes du lundi au vendredi", () => {
+    const week = buildDefaultWeek(2400);
+    expect(week).toHaveLength(7);
+    expect(week.filter(d => d.weekday <= 5).every(d => d.expectedMinutes === 480)).toBe(true);
+    expect(week.filter(d => d.weekday > 5).every(d => d.expectedMinutes === 0)).toBe(true);
+  });
+
+  it("conserve le total quand la division n'est pas exacte", () => {
+    const week = buildDefaultWeek(1202);
+    const total = week.reduce((sum, d) => sum + d.expectedMinutes, 0);
+    expect(total).toBe(1202);
+  });
+});
+
+describe("resolveExpectedDailyMinutes", () => {
+  // 2026-01-20 is a Tuesday, 2026-01-24 a Saturday
+  const tuesday = new Date("2026-01-20T10:00:00Z");
+  const saturday = new Date("2026-01-24T10:00:00Z");
+
+  it("utilise la valeur par défaut sans horaire", () => {
+    expect(resolveExpectedDailyMinutes(undefined, tuesday, 480)).toBe(480);
+  });
+
+  it("utilise les minutes du jour configuré", () => {
+    const schedule = createSchedule(null, [{ weekday: 2, expectedMinutes: 240 }]);
+    expect(resolveExpectedDailyMinutes(schedule, tuesday, 480)).toBe(240);
+  });
+
+  it("dérive le jour depuis le total hebdomadaire", () => {
+    const schedule = createSchedule(1200, []);
+    expect(resolveExpectedDailyMinutes(schedule, tuesday, 480)).toBe(240);
+    expect(resolveExpectedDailyMinutes(schedule, saturday, 480)).toBe(0);
+  });
+
+  it("compte zéro minute pour un jour absent d'un horaire explicite", () => {
+    expect(resolveExpectedDailyMinutes(createSchedule(null, [{ weekday: 1, expectedMinutes: 300 }]), tuesday, 480)).toBe(0);
+    expect(resolveExpectedDailyMinutes(createSchedule(1200, [{ weekday: 1, expectedMinutes: 300 }]), tuesday, 480)).toBe(0);
+  });
+
+  it("retombe sur la valeur par défaut si rien n'est défini", () => {
+    expect(resolveExpectedDailyMinutes(createSchedule(null, []), tuesday, 480)).toBe(480);
+  });
+});
+
+describe("resolveScheduledEnd", () => {
+  // Tuesday 3 March 2026, 08:00 in Madrid (CET)
+  const shiftStart = new Date("2026-03-03T07:00:00Z");
+
+  it("retourne l'heure de fin du jour en heure de Madrid", () => {
+    const schedule = createSchedule(null, [{ weekday: 2, expectedMinutes: 480, startTime: "08:00", endTime: "16:00" }]);
+    expect(resolveScheduledEnd(schedule, shiftStart)?.toISOString()).toBe("2026-03-03T15:00:00.000Z");
+  });
+
+  it("passe au lendemain pour un horaire de nuit", () => {
+    const schedule = createSchedule(null, [{ weekday: 2, expectedMinutes: 480, startTime: "22:00", endTime: "06:00" }]);
+    expect(resolveScheduledEnd(schedule, shiftStart)?.toISOString()).toBe("2026-03-04T05:00:00.000Z");
+  });
+
+  it("retourne null sans heure de fin", () => {
+    expect(resolveScheduledEnd(createSchedule(null, [{ weekday: 2, expectedMinutes: 480 }]), shiftStart)).toBeNull();
+    expect(resolveScheduledEnd(undefined, shiftStart)).toBeNull();
+  });
+});
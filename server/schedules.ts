@@ -0,0 +1,66 @@
+import type { WorkScheduleWithDays, WorkScheduleDayInput } from "@shared/schema";
+import { getSpainWeekday, spainLocalTimeToDate, toSpainDateKey } from "./timezone";
+
+export const WORKING_WEEKDAYS = [1, 2, 3, 4, 5];
+
+// Gestión stores horas_contratadas as weekly hours (numeric columns arrive as strings from pg)
+export function contractedHoursToMinutes(horasContratadas: number | string | null | undefined): number | null {
+  if (horasContratadas === null || horasContratadas === undefined || horasContratadas === "") {
+    return null;
+  }
+  const hours = typeof horasContratadas === "string" ? parseFloat(horasContratadas) : horasContratadas;
+  if (!Number.isFinite(hours) || hours <= 0) {
+    return null;
+  }
+  return Math.round(hours * 60);
+}
+
+export function buildDefaultWeek(weeklyMinutes: number): WorkScheduleDayInput[] {
+  const perDay = Math.floor(weeklyMinutes / WORKING_WEEKDAYS.length);
+  const remainder = weeklyMinutes - perDay * WORKING_WEEKDAYS.length;
+
+  return [1, 2, 3, 4, 5, 6, 7].map((weekday) => {
+    const index = WORKING_WEEKDAYS.indexOf(weekday);
+    if (index === -1) {
+      return { weekday, expectedMinutes: 0 };
+    }
+    return { weekday, expectedMinutes: perDay + (index < remainder ? 1 : 0) };
+  });
+}
+
+// An explicit weekly template is authoritative: a weekday it leaves out is a day off.
+// The Monday–Friday share of the weekly total only applies when no day is configured.
+export function resolveExpectedDailyMinutes(
+  schedule: WorkScheduleWithDays | undefined,
+  date: Date,
+  fallbackMinutes: number
+): number {
+  if (!schedule) {
+    return fallbackMinutes;
+  }
+
+  const weekday = getSpainWeekday(date);
+  if (schedule.days.length > 0) {
+    return schedule.days.find(d => d.weekday === weekday)?.expectedMinutes ?? 0;
+  }
+
+  if (schedule.weeklyMinutes !== null) {
+    return buildDefaultWeek(schedule.weeklyMinutes).find(d => d.weekday === weekday)!.expectedMinutes;
+  }
+
+  return fallbackMinutes;
+}
+
+// A shift whose end time is earlier than its start time finishes the next day
+export function resolveScheduledEnd(schedule: WorkScheduleWithDays | undefined, shiftStart: Date): Date | null {
+  const day = schedule?.days.find(d => d.weekday === getSpainWeekday(shiftStart));
+  if (!day?.endTime) {
+    return null;
+  }
+
+  const end = spainLocalTimeToDate(toSpainDateKey(shiftStart), day.endTime);
+  if (day.startTime && day.endTime < day.startTime) {
+    return new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return end;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { canAssignToSite, isInSiteScope, siteScopeFor } from "./site-scope";
+
+describe("siteScopeFor", () => {
+  it("limite un manager à son centre, quel que soit le centre demandé", () => {
+    expect(siteScopeFor({ id: "m1", role: "manager", siteId: "s1" }, "s2")).toBe("s1");
+    expect(siteScopeFor({ id: "m1", role: "manager", siteId: "s1" }, undefined)).toBe("s1");
+  });
+
+  it("laisse un manager sans centre, comme un manager RRHH de Gestión, sans filtre de centre", () => {
+    expect(siteScopeFor({ id: "m2", role: "manager", siteId: null }, undefined)).toBeUndefined();
+    expect(siteScopeFor({ id: "m2", role: "manager", siteId: null }, "s2")).toBe("s2");
+  });
+
+  it("laisse un administrateur filtrer par centre ou tout voir", () => {
+    expect(siteScopeFor({ id: "a1", role: "admin", siteId: null }, "s2")).toBe("s2");
+    expect(siteScopeFor({ id: "a1", role: "admin", siteId: "s1" }, undefined)).toBeUndefined();
+    expect(siteScopeFor({ id: "a1", role: "admin", siteId: null }, ["s1", "s2"])).toBeUndefined();
+  });
+});
+
+describe("isInSiteScope", () => {
+  it("refuse à un manager les employés d'un autre centre", () => {
+    expect(isInSiteScope({ siteId: "s1" }, "s1")).toBe(true);
+    expect(isInSiteScope({ siteId: "s2" }, "s1")).toBe(false);
+    expect(isInSiteScope({ siteId: null }, "s1")).toBe(false);
+  });
+
+  it("ne restreint rien sans portée de centre", () => {
+    expect(isInSiteScope({ siteId: "s2" }, undefined)).toBe(true);
+    expect(isInSiteScope({ siteId: null }, undefined)).toBe(true);
+  });
+});
+
+describe("canAssignToSite", () => {
+  it("empêche un manager de déplacer un employé vers un autre centre ou hors de tout centre", () => {
+    expect(canAssignToSite("s1", "s1")).toBe(true);
+    expect(canAssignToSite("s2", "s1")).toBe(false);
+    expect(canAssignToSite(null, "s1")).toBe(false);
+    expect(canAssignToSite(null, undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+import { logWarn } from "./logger";
+
+const warnedUnscopedManagers = new Set<string>();
+
+// Managers are confined to their own site whatever they ask for; admins may narrow to any site or see all.
+// A manager without a site (such as an RRHH manager signed in through Gestión, whose proxy account has none)
+// keeps the unscoped view it had before sites existed; it is logged once so the gap is visible.
+export function siteScopeFor(
+  actor: { id: string; role: string; siteId: string | null } | undefined,
+  requestedSiteId: unknown
+): string | undefined {
+  if (actor?.role === "manager") {
+    if (actor.siteId) {
+      return actor.siteId;
+    }
+    if (!warnedUnscopedManagers.has(actor.id)) {
+      warnedUnscopedManagers.add(actor.id);
+      logWarn("[SITE-SCOPE] manager without a site sees every site", { employeeId: actor.id });
+    }
+  }
+  return typeof requestedSiteId === "string" && requestedSiteId ? requestedSiteId : undefined;
+}
+
+// Whether an employee may be read or changed by someone whose listings are limited to siteScope
+export function isInSiteScope(employee: { siteId: string | null }, siteScope: string | undefined): boolean {
+  return !siteScope || employee.siteId === siteScope;
+}
+
+// A scoped manager may only bring employees into their own site, never move them elsewhere or unassign them
+export function canAssignToSite(siteId: string | null, siteScope: string | undefined): boolean {
+  return !siteScope || siteId === siteScope;
+}
@@ -127,6 +127,23 @@ export async function getSignedDownloadUrl(
   return getSignedUrl(s3Client, command, { expiresIn });
 }
 
+export async function downloadFile(key: string): Promise<Buffer> {
+  if (!s3Client || !spacesConfig) {
+    throw new Error("Spaces no está configurado");
+  }
+
+  const command = new GetObjectCommand({
+    Bucket: spacesConfig.bucket,
+    Key: key,
+  });
+
+  const response = await s3Client.send(command);
+  if (!response.Body) {
+    throw new Error(`Archivo vacío en Spaces: ${key}`);
+  }
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 export async function getSignedUploadUrl(
   key: string,
   contentType: string,
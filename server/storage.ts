@@ -1,17 +1,145 @@
 import { 
   employees, punches, punchCorrections, refreshTokens, punchReviews, auditLog, overtimeRequests, kioskDevices,
+  workSchedules, workScheduleDays, holidays, absenceTypes, absences, hoursBankEntries, notifications, breakPolicies, sites, rolePermissions, correctionRequests, reportRegistrations, archivedReports, legalHolds, reportSubscriptions, idempotencyKeys, kioskPairings, kioskTokenEvents, kioskHeartbeats,
   type Employee, type InsertEmployee, 
   type Punch, type InsertPunch,
   type PunchCorrection, type InsertPunchCorrection,
   type RefreshToken, type PunchReview, type InsertPunchReview,
   type AuditLog, type InsertAuditLog,
   type OvertimeRequest, type InsertOvertimeRequest,
-  type KioskDevice, type InsertKioskDevice
+  type KioskDevice, type InsertKioskDevice,
+  type WorkScheduleWithDays, type WorkScheduleDayInput,
+  type Holiday, type HolidayInput,
+  type AbsenceType, type InsertAbsenceType,
+  type Absence, type InsertAbsence, type AbsenceStatus, type AbsenceWithDetails,
+  type HoursBankEntry, type InsertHoursBankEntry,
+  type Notification, type InsertNotification,
+  type BreakPolicy, type BreakPolicyInput,
+  type Site, type SiteInput,
+  type RolePermissions, type Permission, type Role,
+  type PortalCorrectionRequest, type InsertPortalCorrectionRequest, type PortalCorrectionRequestWithDetails, type PortalCorrectionRequestStatus,
+  type ReportRegistration, type InsertReportRegistration,
+  type ArchivedReport, type InsertArchivedReport, type ArchivedReportKind, type ArchivedReportWithDetails,
+  type LegalHold, type InsertLegalHold, type LegalHoldWithDetails,
+  type ReportSubscription, type InsertReportSubscription, type ReportSubscriptionWithDetails,
+  type IdempotencyKey, type InsertIdempotencyKey,
+  type KioskPairing, type InsertKioskPairing, type InsertKioskTokenEvent, type KioskTokenEventWithActor,
+  type KioskHeartbeat, type InsertKioskHeartbeat
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, sql, isNull } from "drizzle-orm";
+import { eq, desc, and, or, gte, lt, lte, sql, isNull, inArray, notExists } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 import { startOfDayInSpain, endOfDayInSpain, toSpainDateKey } from "./timezone";
+import { applyCorrections, isWithin, type CorrectablePunch, type EffectivePunch } from "./effective-punches";
+import { buildPresenceBoard, type PresenceEntry } from "./presence";
+import { resolveBreakPolicy } from "./break-policies";
+import {
+  GENESIS_HASH, CHAIN_LOCK_KEYS, computeChainHash, verifyChainSegment, punchChainFields, auditChainFields,
+  type ChainName, type ChainHead, type ChainVerification,
+} from "./hash-chain";
+
+// Holidays without a site apply everywhere, see appliesToSite
+function holidaySiteFilter(siteId: string | null) {
+  return siteId ? or(isNull(holidays.siteId), eq(holidays.siteId, siteId)) : isNull(holidays.siteId);
+}
+
+// Items of employees without a supervisor stay visible to every manager
+function supervisedBy(supervisorId: string) {
+  return sql`(${employees.supervisorId} = ${supervisorId} OR ${employees.supervisorId} IS NULL)`;
+}
+
+// Punches recorded in the range plus those a correction moved into it; callers drop the ones corrected out
+function punchTimeInRange(startDate?: Date, endDate?: Date) {
+  const own = [];
+  const corrected = [];
+  if (startDate) {
+    own.push(gte(punches.timestamp, startDate));
+    corrected.push(gte(punchCorrections.newTimestamp, startDate));
+  }
+  if (endDate) {
+    own.push(lte(punches.timestamp, endDate));
+    corrected.push(lte(punchCorrections.newTimestamp, endDate));
+  }
+  if (own.length === 0) return undefined;
+  return or(
+    and(...own),
+    inArray(punches.id, db.select({ id: punchCorrections.originalPunchId }).from(punchCorrections).where(and(...corrected)))
+  );
+}
+
+const CORRECTION_LOOKUP_CHUNK = 5000;
+
+async function withCorrections<T extends CorrectablePunch>(rows: T[]): Promise<EffectivePunch<T>[]> {
+  const corrections = [];
+  for (let i = 0; i < rows.length; i += CORRECTION_LOOKUP_CHUNK) {
+    const ids = rows.slice(i, i + CORRECTION_LOOKUP_CHUNK).map(r => r.id);
+    corrections.push(...await db.select().from(punchCorrections).where(inArray(punchCorrections.originalPunchId, ids)));
+  }
+  return applyCorrections(rows, corrections);
+}
+
+function notOnLegalHold(employeeIdColumn: typeof employees.id | typeof punches.employeeId) {
+  return sql`NOT EXISTS (SELECT 1 FROM ${legalHolds} WHERE ${legalHolds.employeeId} = ${employeeIdColumn} AND ${legalHolds.releasedAt} IS NULL)`;
+}
+
+const CHAIN_SEAL_BATCH = 500;
+const CHAIN_VERIFY_PAGE = 5000;
+
+// Rows are sealed in insertion order under an advisory lock, so concurrent writers cannot fork the chain.
+// Sealing after insert (instead of inside it) also covers rows written with raw SQL, such as the purge entry.
+async function sealPunches(): Promise<void> {
+  let sealed = CHAIN_SEAL_BATCH;
+  while (sealed === CHAIN_SEAL_BATCH) {
+    sealed = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEYS.punches})`);
+      const [last] = await tx.select({ chainSeq: punches.chainSeq, hash: punches.hash }).from(punches)
+        .where(sql`${punches.chainSeq} IS NOT NULL`)
+        .orderBy(desc(punches.chainSeq))
+        .limit(1);
+      const pending = await tx.select().from(punches)
+        .where(isNull(punches.chainSeq))
+        .orderBy(punches.timestamp, punches.id)
+        .limit(CHAIN_SEAL_BATCH);
+
+      let chainSeq = last?.chainSeq ?? 0;
+      let prevHash = last?.hash ?? GENESIS_HASH;
+      for (const row of pending) {
+        const hash = computeChainHash(prevHash, punchChainFields(row));
+        chainSeq += 1;
+        await tx.update(punches).set({ chainSeq, prevHash, hash }).where(eq(punches.id, row.id));
+        prevHash = hash;
+      }
+      return pending.length;
+    });
+  }
+}
+
+async function sealAuditLog(): Promise<void> {
+  let sealed = CHAIN_SEAL_BATCH;
+  while (sealed === CHAIN_SEAL_BATCH) {
+    sealed = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEYS.audit_log})`);
+      const [last] = await tx.select({ chainSeq: auditLog.chainSeq, hash: auditLog.hash }).from(auditLog)
+        .where(sql`${auditLog.chainSeq} IS NOT NULL`)
+        .orderBy(desc(auditLog.chainSeq))
+        .limit(1);
+      const pending = await tx.select().from(auditLog)
+        .where(isNull(auditLog.chainSeq))
+        .orderBy(auditLog.createdAt, auditLog.id)
+        .limit(CHAIN_SEAL_BATCH);
+
+      let chainSeq = last?.chainSeq ?? 0;
+      let prevHash = last?.hash ?? GENESIS_HASH;
+      for (const row of pending) {
+        const hash = computeChainHash(prevHash, auditChainFields(row));
+        chainSeq += 1;
+        await tx.update(auditLog).set({ chainSeq, prevHash, hash }).where(eq(auditLog.id, row.id));
+        prevHash = hash;
+      }
+      return pending.length;
+    });
+  }
+}
 
 export interface IStorage {
   getEmployee(id: string): Promise<Employee | undefined>;
@@ -30,9 +158,9 @@ export interface IStorage {
   getPunchById(id: string): Promise<Punch | undefined>;
   getPunchesByEmployee(employeeId: string, limit?: number): Promise<Punch[]>;
   getLastPunchByEmployee(employeeId: string): Promise<Punch | undefined>;
-  getAllPunches(options?: { limit?: number; needsReview?: boolean; startDate?: Date; endDate?: Date; employeeId?: string }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string } })[]>;
-  getAllPunchesForExport(options?: { startDate?: Date; endDate?: Date; employeeId?: string; limit?: number }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string }; reviewed: boolean; corrected: boolean })[]>;
-  getAllPunchesForReport(options: { startDate: Date; endDate: Date; employeeId?: string }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string } })[]>;
+  getAllPunches(options?: { limit?: number; needsReview?: boolean; startDate?: Date; endDate?: Date; employeeId?: string; siteId?: string }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string } })[]>;
+  getAllPunchesForExport(options?: { startDate?: Date; endDate?: Date; employeeId?: string; siteId?: string; limit?: number }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string }; reviewed: boolean; corrected: boolean })[]>;
+  getAllPunchesForReport(options: { startDate: Date; endDate: Date; employeeId?: string; siteId?: string }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string } })[]>;
 
   createCorrection(correction: InsertPunchCorrection): Promise<PunchCorrection>;
   getCorrectionsByPunch(punchId: string): Promise<PunchCorrection[]>;
@@ -44,7 +172,7 @@ export interface IStorage {
 
   createPunchReview(review: InsertPunchReview): Promise<PunchReview>;
   getPunchReview(punchId: string): Promise<PunchReview | undefined>;
-  getPunchesNeedingReview(): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string }; reviewed: boolean; corrected: boolean })[]>;
+  getPunchesNeedingReview(options?: { siteId?: string; supervisorId?: string }): Promise<(Punch & { employee: { id: string; firstName: string; lastName: string; supervisorId: string | null }; reviewed: boolean; corrected: boolean })[]>;
 
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(options?: { limit?: number; targetType?: string; targetId?: string }): Promise<AuditLog[]>;
@@ -52,11 +180,13 @@ export interface IStorage {
   createOvertimeRequest(request: InsertOvertimeRequest): Promise<OvertimeRequest>;
   getOvertimeRequestByDateAndEmployee(employeeId: string, date: Date): Promise<OvertimeRequest | undefined>;
   updateOvertimeRequest(id: string, data: Partial<InsertOvertimeRequest> & { reviewedAt?: Date }): Promise<OvertimeRequest | undefined>;
-  getOvertimeRequests(options?: { status?: "pending" | "approved" | "rejected"; employeeId?: string; limit?: number }): Promise<(OvertimeRequest & { employee: { id: string; firstName: string; lastName: string }; reviewer?: { id: string; firstName: string; lastName: string } | null })[]>;
+  getOvertimeRequests(options?: { status?: "pending" | "approved" | "rejected"; employeeId?: string; supervisorId?: string; limit?: number }): Promise<(OvertimeRequest & { employee: { id: string; firstName: string; lastName: string; supervisorId: string | null }; reviewer?: { id: string; firstName: string; lastName: string } | null })[]>;
   getPunchesByEmployeeAndDate(employeeId: string, date: Date): Promise<Punch[]>;
   getPunchesByEmployeeAndDateRange(employeeId: string, startDate: Date, endDate: Date): Promise<Punch[]>;
+  getEffectivePunchesByEmployeeAndDateRange(employeeId: string, startDate: Date, endDate: Date): Promise<EffectivePunch<Punch>[]>;
+  getEffectivePunchesByEmployeeAndDate(employeeId: string, date: Date): Promise<EffectivePunch<Punch>[]>;
 
-  getStats(): Promise<{ totalEmployees: number; activeToday: number; currentlyIn: number; needsReview: number }>;
+  getStats(siteId?: string): Promise<{ totalEmployees: number; activeToday: number; currentlyIn: number; needsReview: number }>;
 
   createKioskDevice(device: InsertKioskDevice): Promise<KioskDevice>;
   getKioskDeviceByTokenHash(tokenHash: string): Promise<KioskDevice | undefined>;
@@ -70,8 +200,113 @@ export interface IStorage {
 
   getLastWorkPunch(employeeId: string): Promise<Punch | undefined>;
   getOpenBreaks(): Promise<Punch[]>;
-
-  getCorrectionsInRange(options: { startDate: Date; endDate: Date; employeeId?: string }): Promise<CorrectionRecord[]>;
+  getOpenShifts(): Promise<Punch[]>;
+
+  getCorrectionsInRange(options: { startDate: Date; endDate: Date; employeeId?: string; siteId?: string }): Promise<CorrectionRecord[]>;
+
+  getWorkScheduleByEmployee(employeeId: string): Promise<WorkScheduleWithDays | undefined>;
+  getAllWorkSchedules(): Promise<WorkScheduleWithDays[]>;
+  upsertWorkSchedule(employeeId: string, data: { weeklyMinutes: number | null; source: "manual" | "gestion"; updatedById: string | null }, days: WorkScheduleDayInput[]): Promise<WorkScheduleWithDays>;
+  deleteWorkSchedule(employeeId: string): Promise<void>;
+
+  getHolidaysInRange(fromDateKey: string, toDateKey: string, forSite?: { siteId: string | null }): Promise<Holiday[]>;
+  getHolidayByDate(dateKey: string, forSite?: { siteId: string | null }): Promise<Holiday | undefined>;
+  createHoliday(holiday: HolidayInput & { createdById?: string | null }): Promise<Holiday>;
+  updateHoliday(id: string, data: Partial<HolidayInput>): Promise<Holiday | undefined>;
+  deleteHoliday(id: string): Promise<Holiday | undefined>;
+
+  getAbsenceTypes(options?: { includeInactive?: boolean }): Promise<AbsenceType[]>;
+  getAbsenceType(id: string): Promise<AbsenceType | undefined>;
+  createAbsenceType(type: InsertAbsenceType): Promise<AbsenceType>;
+  updateAbsenceType(id: string, data: Partial<InsertAbsenceType>): Promise<AbsenceType | undefined>;
+  createAbsence(absence: InsertAbsence & { reviewedAt?: Date }): Promise<Absence>;
+  getAbsence(id: string): Promise<Absence | undefined>;
+  updateAbsence(id: string, data: Partial<InsertAbsence> & { reviewedAt?: Date }): Promise<Absence | undefined>;
+  getAbsences(options?: { status?: AbsenceStatus; employeeId?: string; siteId?: string; fromDateKey?: string; toDateKey?: string; limit?: number }): Promise<AbsenceWithDetails[]>;
+  getOverlappingAbsences(employeeId: string, startDateKey: string, endDateKey: string): Promise<Absence[]>;
+
+  getHoursBankEntries(employeeId: string): Promise<HoursBankEntry[]>;
+  getAllHoursBankEntries(): Promise<HoursBankEntry[]>;
+  createHoursBankEntry(entry: InsertHoursBankEntry): Promise<HoursBankEntry>;
+
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsForRecipient(recipientId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]>;
+  markNotificationRead(id: string, recipientId: string): Promise<Notification | undefined>;
+
+  getBreakPolicies(): Promise<BreakPolicy[]>;
+  getBreakPolicy(id: string): Promise<BreakPolicy | undefined>;
+  getBreakPolicyForEmployee(employeeId: string): Promise<BreakPolicy | undefined>;
+  createBreakPolicy(policy: BreakPolicyInput): Promise<BreakPolicy>;
+  updateBreakPolicy(id: string, data: Partial<BreakPolicyInput>): Promise<BreakPolicy | undefined>;
+  deleteBreakPolicy(id: string): Promise<BreakPolicy | undefined>;
+  setEmployeeBreakPolicy(employeeId: string, breakPolicyId: string | null): Promise<Employee | undefined>;
+  setSiteBreakPolicy(siteId: string, breakPolicyId: string | null): Promise<Site | undefined>;
+
+  getSites(): Promise<Site[]>;
+  getSite(id: string): Promise<Site | undefined>;
+  createSite(site: SiteInput): Promise<Site>;
+  updateSite(id: string, data: Partial<SiteInput>): Promise<Site | undefined>;
+  deleteSite(id: string): Promise<Site | undefined>;
+  setEmployeeSite(employeeId: string, siteId: string | null): Promise<Employee | undefined>;
+
+  setEmployeeSupervisor(employeeId: string, supervisorId: string | null): Promise<Employee | undefined>;
+  getNotificationByTarget(kind: string, targetId: string): Promise<Notification | undefined>;
+
+  getRolePermissions(role: Role): Promise<RolePermissions | undefined>;
+  setRolePermissions(role: Role, permissions: Permission[]): Promise<RolePermissions>;
+
+  createCorrectionRequest(request: InsertPortalCorrectionRequest): Promise<PortalCorrectionRequest>;
+  getCorrectionRequest(id: string): Promise<PortalCorrectionRequest | undefined>;
+  updateCorrectionRequest(id: string, data: Partial<InsertPortalCorrectionRequest> & { reviewedAt?: Date }): Promise<PortalCorrectionRequest | undefined>;
+  getCorrectionRequests(options?: { status?: PortalCorrectionRequestStatus; employeeId?: string; supervisorId?: string; siteId?: string; limit?: number }): Promise<PortalCorrectionRequestWithDetails[]>;
+  approveCorrectionRequest(request: PortalCorrectionRequest, reviewerId: string, comment: string): Promise<{ request: PortalCorrectionRequest; correction: PunchCorrection; createdPunch: Punch | null }>;
+
+  sealHashChains(): Promise<void>;
+  getChainHead(chain: ChainName): Promise<ChainHead | null>;
+  verifyHashChain(chain: ChainName): Promise<ChainVerification>;
+
+  createReportRegistration(registration: InsertReportRegistration): Promise<ReportRegistration>;
+  getReportRegistration(id: string): Promise<ReportRegistration | undefined>;
+
+  createArchivedReport(report: InsertArchivedReport): Promise<ArchivedReport>;
+  getArchivedReport(id: string): Promise<ArchivedReport | undefined>;
+  getArchivedReports(options?: { kind?: ArchivedReportKind; from?: Date; to?: Date; employeeId?: string; siteId?: string; limit?: number }): Promise<ArchivedReportWithDetails[]>;
+  getLastPunchAt(employeeId: string): Promise<Date | null>;
+  createLegalHold(hold: InsertLegalHold): Promise<LegalHold>;
+  getLegalHold(id: string): Promise<LegalHold | undefined>;
+  getActiveLegalHold(employeeId: string): Promise<LegalHold | undefined>;
+  getLegalHolds(options?: { activeOnly?: boolean }): Promise<LegalHoldWithDetails[]>;
+  releaseLegalHold(id: string, releasedById: string, reason: string): Promise<LegalHold | undefined>;
+  countExpiredRecords(cutoff: Date): Promise<{ punches: number; employees: number }>;
+  anonymizeExpiredPunches(cutoff: Date, limit: number): Promise<{ id: string; signatureUrl: string | null }[]>;
+  getEmployeesDueForAnonymization(cutoff: Date): Promise<Employee[]>;
+  anonymizeEmployee(id: string, identity: { firstName: string; lastName: string; email: string }): Promise<Employee | undefined>;
+  getDataSubjectRecords(employeeId: string): Promise<{ punches: Punch[]; corrections: PunchCorrection[]; reviews: PunchReview[]; auditEntries: AuditLog[] }>;
+  createReportSubscription(subscription: InsertReportSubscription): Promise<ReportSubscription>;
+  getReportSubscription(id: string): Promise<ReportSubscription | undefined>;
+  getReportSubscriptions(options?: { siteId?: string; enabledOnly?: boolean }): Promise<ReportSubscriptionWithDetails[]>;
+  updateReportSubscription(id: string, data: Partial<InsertReportSubscription>): Promise<ReportSubscription | undefined>;
+  deleteReportSubscription(id: string): Promise<boolean>;
+  recordReportSubscriptionRun(id: string, run: { period: string; error: string | null }): Promise<void>;
+  getPunchByClientId(clientId: string): Promise<Punch | undefined>;
+  getLastPunchBefore(employeeId: string, before: Date): Promise<Punch | undefined>;
+  claimIdempotencyKey(entry: InsertIdempotencyKey): Promise<IdempotencyKey | undefined>;
+  getIdempotencyKey(scope: string, key: string): Promise<IdempotencyKey | undefined>;
+  completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void>;
+  deleteIdempotencyKey(id: string): Promise<void>;
+  getPresenceBoard(siteId?: string): Promise<PresenceEntry[]>;
+  createKioskPairing(pairing: InsertKioskPairing): Promise<KioskPairing>;
+  getKioskPairingBySecretHash(secretHash: string): Promise<KioskPairing | undefined>;
+  getPendingKioskPairingByCode(code: string): Promise<KioskPairing | undefined>;
+  approveKioskPairing(id: string, deviceId: string, approvedById: string): Promise<KioskPairing | undefined>;
+  markKioskPairingDelivered(id: string): Promise<boolean>;
+  createKioskTokenEvent(event: InsertKioskTokenEvent): Promise<void>;
+  getKioskTokenEvents(deviceId: string): Promise<KioskTokenEventWithActor[]>;
+  recordKioskHeartbeat(id: string): Promise<void>;
+  createKioskHeartbeat(heartbeat: InsertKioskHeartbeat): Promise<KioskHeartbeat>;
+  getLatestKioskHeartbeats(): Promise<KioskHeartbeat[]>;
+  getKioskHeartbeats(deviceId: string, since: Date): Promise<KioskHeartbeat[]>;
+  markKioskOfflineAlerted(id: string): Promise<void>;
 }
 
 export interface CorrectionRecord {
@@ -134,12 +369,17 @@ export class DatabaseStorage implements IStorage {
 
   async deleteEmployee(id: string): Promise<void> {
     await db.delete(refreshTokens).where(eq(refreshTokens.employeeId, id));
+    await db.delete(hoursBankEntries).where(eq(hoursBankEntries.employeeId, id));
     await db.delete(overtimeRequests).where(eq(overtimeRequests.employeeId, id));
+    await db.delete(workSchedules).where(eq(workSchedules.employeeId, id));
+    await db.delete(absences).where(eq(absences.employeeId, id));
+    await db.delete(correctionRequests).where(eq(correctionRequests.employeeId, id));
     await db.delete(employees).where(eq(employees.id, id));
   }
 
   async createPunch(punch: InsertPunch): Promise<Punch> {
     const [created] = await db.insert(punches).values(punch).returning();
+    await sealPunches();
     return created;
   }
 
@@ -163,7 +403,7 @@ export class DatabaseStorage implements IStorage {
     return punch || undefined;
   }
 
-  async getAllPunches(options?: { limit?: number; needsReview?: boolean; startDate?: Date; endDate?: Date; employeeId?: string }) {
+  async getAllPunches(options?: { limit?: number; needsReview?: boolean; startDate?: Date; endDate?: Date; employeeId?: string; siteId?: string }) {
     const conditions = [];
     
     if (options?.needsReview !== undefined) {
@@ -178,6 +418,9 @@ export class DatabaseStorage implements IStorage {
     if (options?.employeeId) {
       conditions.push(eq(punches.employeeId, options.employeeId));
     }
+    if (options?.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
 
     const query = db
       .select({
@@ -199,6 +442,19 @@ export class DatabaseStorage implements IStorage {
         kioskUserAgent: punches.kioskUserAgent,
         kioskIp: punches.kioskIp,
         isAuto: punches.isAuto,
+        siteId: punches.siteId,
+        geofenceDistanceMeters: punches.geofenceDistanceMeters,
+        outsideGeofence: punches.outsideGeofence,
+        manualReason: punches.manualReason,
+        createdById: punches.createdById,
+        chainSeq: punches.chainSeq,
+        prevHash: punches.prevHash,
+        hash: punches.hash,
+        anonymizedAt: punches.anonymizedAt,
+        clientId: punches.clientId,
+        deviceTimestamp: punches.deviceTimestamp,
+        receivedAt: punches.receivedAt,
+        clockDriftSeconds: punches.clockDriftSeconds,
         employee: {
           id: employees.id,
           firstName: employees.firstName,
@@ -216,18 +472,19 @@ export class DatabaseStorage implements IStorage {
     return query.limit(options?.limit || 100);
   }
 
-  async getAllPunchesForExport(options?: { startDate?: Date; endDate?: Date; employeeId?: string; limit?: number }) {
+  async getAllPunchesForExport(options?: { startDate?: Date; endDate?: Date; employeeId?: string; siteId?: string; limit?: number }) {
     const conditions = [];
     
-    if (options?.startDate) {
-      conditions.push(gte(punches.timestamp, options.startDate));
-    }
-    if (options?.endDate) {
-      conditions.push(lte(punches.timestamp, options.endDate));
+    const inRange = punchTimeInRange(options?.startDate, options?.endDate);
+    if (inRange) {
+      conditions.push(inRange);
     }
     if (options?.employeeId) {
       conditions.push(eq(punches.employeeId, options.employeeId));
     }
+    if (options?.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
 
     const results = await db
       .select({
@@ -249,23 +506,34 @@ export class DatabaseStorage implements IStorage {
         kioskUserAgent: punches.kioskUserAgent,
         kioskIp: punches.kioskIp,
         isAuto: punches.isAuto,
+        siteId: punches.siteId,
+        geofenceDistanceMeters: punches.geofenceDistanceMeters,
+        outsideGeofence: punches.outsideGeofence,
+        manualReason: punches.manualReason,
+        createdById: punches.createdById,
+        chainSeq: punches.chainSeq,
+        prevHash: punches.prevHash,
+        hash: punches.hash,
+        anonymizedAt: punches.anonymizedAt,
+        clientId: punches.clientId,
+        deviceTimestamp: punches.deviceTimestamp,
+        receivedAt: punches.receivedAt,
+        clockDriftSeconds: punches.clockDriftSeconds,
         employee: {
           id: employees.id,
           firstName: employees.firstName,
           lastName: employees.lastName,
         },
         reviewId: punchReviews.id,
-        correctionId: punchCorrections.id,
       })
       .from(punches)
       .innerJoin(employees, eq(punches.employeeId, employees.id))
       .leftJoin(punchReviews, eq(punches.id, punchReviews.punchId))
-      .leftJoin(punchCorrections, eq(punches.id, punchCorrections.originalPunchId))
       .where(conditions.length > 0 ? and(...conditions) : undefined)
       .orderBy(desc(punches.timestamp))
       .limit(options?.limit || 10000);
 
-    return results.map(r => ({
+    const rows = results.map(r => ({
       id: r.id,
       employeeId: r.employeeId,
       type: r.type,
@@ -284,21 +552,39 @@ export class DatabaseStorage implements IStorage {
       kioskUserAgent: r.kioskUserAgent,
       kioskIp: r.kioskIp,
       isAuto: r.isAuto,
+      siteId: r.siteId,
+      geofenceDistanceMeters: r.geofenceDistanceMeters,
+      outsideGeofence: r.outsideGeofence,
+      manualReason: r.manualReason,
+      createdById: r.createdById,
+      chainSeq: r.chainSeq,
+      prevHash: r.prevHash,
+      hash: r.hash,
+      anonymizedAt: r.anonymizedAt,
+      clientId: r.clientId,
+      deviceTimestamp: r.deviceTimestamp,
+      receivedAt: r.receivedAt,
+      clockDriftSeconds: r.clockDriftSeconds,
       employee: r.employee,
       reviewed: r.reviewId !== null,
-      corrected: r.correctionId !== null,
     }));
+
+    const start = options?.startDate ?? new Date(0);
+    const end = options?.endDate ?? new Date(8640000000000000);
+    return (await withCorrections(rows))
+      .filter(p => isWithin(p, start, end))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
-  async getAllPunchesForReport(options: { startDate: Date; endDate: Date; employeeId?: string }) {
-    const conditions = [
-      gte(punches.timestamp, options.startDate),
-      lte(punches.timestamp, options.endDate),
-    ];
+  async getAllPunchesForReport(options: { startDate: Date; endDate: Date; employeeId?: string; siteId?: string }) {
+    const conditions = [punchTimeInRange(options.startDate, options.endDate)];
     
     if (options.employeeId) {
       conditions.push(eq(punches.employeeId, options.employeeId));
     }
+    if (options.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
 
     const results = await db
       .select({
@@ -320,6 +606,19 @@ export class DatabaseStorage implements IStorage {
         kioskIp: punches.kioskIp,
         status: punches.status,
         isAuto: punches.isAuto,
+        siteId: punches.siteId,
+        geofenceDistanceMeters: punches.geofenceDistanceMeters,
+        outsideGeofence: punches.outsideGeofence,
+        manualReason: punches.manualReason,
+        createdById: punches.createdById,
+        chainSeq: punches.chainSeq,
+        prevHash: punches.prevHash,
+        hash: punches.hash,
+        anonymizedAt: punches.anonymizedAt,
+        clientId: punches.clientId,
+        deviceTimestamp: punches.deviceTimestamp,
+        receivedAt: punches.receivedAt,
+        clockDriftSeconds: punches.clockDriftSeconds,
         employee: {
           id: employees.id,
           firstName: employees.firstName,
@@ -331,7 +630,14 @@ export class DatabaseStorage implements IStorage {
       .where(and(...conditions))
       .orderBy(employees.lastName, employees.firstName, punches.timestamp);
 
-    return results;
+    // Keep the SQL employee order and re-sort each employee's punches by their effective time
+    const employeeRank = new Map<string, number>();
+    for (const r of results) {
+      if (!employeeRank.has(r.employeeId)) employeeRank.set(r.employeeId, employeeRank.size);
+    }
+    return (await withCorrections(results))
+      .filter(p => isWithin(p, options.startDate, options.endDate))
+      .sort((a, b) => employeeRank.get(a.employeeId)! - employeeRank.get(b.employeeId)! || a.timestamp.getTime() - b.timestamp.getTime());
   }
 
   async createCorrection(correction: InsertPunchCorrection): Promise<PunchCorrection> {
@@ -377,7 +683,15 @@ export class DatabaseStorage implements IStorage {
     return review || undefined;
   }
 
-  async getPunchesNeedingReview() {
+  async getPunchesNeedingReview(options?: { siteId?: string; supervisorId?: string }) {
+    const conditions = [eq(punches.needsReview, true)];
+    if (options?.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
+    if (options?.supervisorId) {
+      conditions.push(supervisedBy(options.supervisorId));
+    }
+
     const results = await db
       .select({
         id: punches.id,
@@ -398,10 +712,24 @@ export class DatabaseStorage implements IStorage {
         kioskUserAgent: punches.kioskUserAgent,
         kioskIp: punches.kioskIp,
         isAuto: punches.isAuto,
+        siteId: punches.siteId,
+        geofenceDistanceMeters: punches.geofenceDistanceMeters,
+        outsideGeofence: punches.outsideGeofence,
+        manualReason: punches.manualReason,
+        createdById: punches.createdById,
+        chainSeq: punches.chainSeq,
+        prevHash: punches.prevHash,
+        hash: punches.hash,
+        anonymizedAt: punches.anonymizedAt,
+        clientId: punches.clientId,
+        deviceTimestamp: punches.deviceTimestamp,
+        receivedAt: punches.receivedAt,
+        clockDriftSeconds: punches.clockDriftSeconds,
         employee: {
           id: employees.id,
           firstName: employees.firstName,
           lastName: employees.lastName,
+          supervisorId: employees.supervisorId,
         },
         reviewId: punchReviews.id,
         correctionId: punchCorrections.id,
@@ -410,7 +738,7 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(employees, eq(punches.employeeId, employees.id))
       .leftJoin(punchReviews, eq(punches.id, punchReviews.punchId))
       .leftJoin(punchCorrections, eq(punches.id, punchCorrections.originalPunchId))
-      .where(eq(punches.needsReview, true))
+      .where(and(...conditions))
       .orderBy(desc(punches.timestamp));
 
     return results.map(r => ({
@@ -432,6 +760,19 @@ export class DatabaseStorage implements IStorage {
       kioskUserAgent: r.kioskUserAgent,
       kioskIp: r.kioskIp,
       isAuto: r.isAuto,
+      siteId: r.siteId,
+      geofenceDistanceMeters: r.geofenceDistanceMeters,
+      outsideGeofence: r.outsideGeofence,
+      manualReason: r.manualReason,
+      createdById: r.createdById,
+      chainSeq: r.chainSeq,
+      prevHash: r.prevHash,
+      hash: r.hash,
+      anonymizedAt: r.anonymizedAt,
+      clientId: r.clientId,
+      deviceTimestamp: r.deviceTimestamp,
+      receivedAt: r.receivedAt,
+      clockDriftSeconds: r.clockDriftSeconds,
       employee: r.employee,
       reviewed: r.reviewId !== null,
       corrected: r.correctionId !== null,
@@ -440,6 +781,7 @@ export class DatabaseStorage implements IStorage {
 
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const [created] = await db.insert(auditLog).values(log).returning();
+    await sealAuditLog();
     return created;
   }
 
@@ -483,7 +825,7 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async getOvertimeRequests(options?: { status?: "pending" | "approved" | "rejected"; employeeId?: string; limit?: number }) {
+  async getOvertimeRequests(options?: { status?: "pending" | "approved" | "rejected"; employeeId?: string; supervisorId?: string; limit?: number }) {
     const conditions = [];
     if (options?.status) {
       conditions.push(eq(overtimeRequests.status, options.status));
@@ -491,6 +833,9 @@ export class DatabaseStorage implements IStorage {
     if (options?.employeeId) {
       conditions.push(eq(overtimeRequests.employeeId, options.employeeId));
     }
+    if (options?.supervisorId) {
+      conditions.push(supervisedBy(options.supervisorId));
+    }
 
     const reviewerAlias = db.select({
       id: employees.id,
@@ -514,6 +859,7 @@ export class DatabaseStorage implements IStorage {
           id: employees.id,
           firstName: employees.firstName,
           lastName: employees.lastName,
+          supervisorId: employees.supervisorId,
         },
       })
       .from(overtimeRequests)
@@ -561,14 +907,31 @@ export class DatabaseStorage implements IStorage {
       .orderBy(punches.timestamp);
   }
 
-  async getStats() {
+  async getEffectivePunchesByEmployeeAndDateRange(employeeId: string, startDate: Date, endDate: Date): Promise<EffectivePunch<Punch>[]> {
+    const rows = await db.select().from(punches)
+      .where(and(eq(punches.employeeId, employeeId), punchTimeInRange(startDate, endDate)));
+
+    return (await withCorrections(rows))
+      .filter(p => isWithin(p, startDate, endDate))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async getEffectivePunchesByEmployeeAndDate(employeeId: string, date: Date): Promise<EffectivePunch<Punch>[]> {
+    return this.getEffectivePunchesByEmployeeAndDateRange(employeeId, startOfDayInSpain(date), endOfDayInSpain(date));
+  }
+
+  async getStats(siteId?: string) {
     const today = startOfDayInSpain(new Date());
+    const inSite = siteId
+      ? inArray(punches.employeeId, db.select({ id: employees.id }).from(employees).where(eq(employees.siteId, siteId)))
+      : undefined;
 
-    const [totalResult] = await db.select({ count: sql<number>`count(*)` }).from(employees).where(eq(employees.isActive, true));
+    const [totalResult] = await db.select({ count: sql<number>`count(*)` }).from(employees)
+      .where(siteId ? and(eq(employees.isActive, true), eq(employees.siteId, siteId)) : eq(employees.isActive, true));
     
     const todayPunches = await db.selectDistinct({ employeeId: punches.employeeId })
       .from(punches)
-      .where(gte(punches.timestamp, today));
+      .where(and(gte(punches.timestamp, today), inSite));
 
     const lastPunchesSubquery = db
       .selectDistinctOn([punches.employeeId], {
@@ -576,6 +939,7 @@ export class DatabaseStorage implements IStorage {
         type: punches.type,
       })
       .from(punches)
+      .where(inSite)
       .orderBy(punches.employeeId, desc(punches.timestamp))
       .as("last_punches");
 
@@ -587,7 +951,7 @@ export class DatabaseStorage implements IStorage {
     const [needsReviewResult] = await db
       .select({ count: sql<number>`count(*)` })
       .from(punches)
-      .where(eq(punches.needsReview, true));
+      .where(and(eq(punches.needsReview, true), inSite));
 
     return {
       totalEmployees: Number(totalResult?.count || 0),
@@ -602,8 +966,12 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // The token a rotation replaced keeps matching until its grace period ends
   async getKioskDeviceByTokenHash(tokenHash: string): Promise<KioskDevice | undefined> {
-    const [device] = await db.select().from(kioskDevices).where(eq(kioskDevices.tokenHash, tokenHash));
+    const [device] = await db.select().from(kioskDevices).where(or(
+      eq(kioskDevices.tokenHash, tokenHash),
+      and(eq(kioskDevices.previousTokenHash, tokenHash), gte(kioskDevices.previousTokenValidUntil, new Date()))
+    ));
     return device || undefined;
   }
 
@@ -666,17 +1034,31 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getCorrectionsInRange(options: { startDate: Date; endDate: Date; employeeId?: string }): Promise<CorrectionRecord[]> {
+  // Latest IN per employee that has no OUT (nor a newer IN) after it
+  async getOpenShifts(): Promise<Punch[]> {
+    return db.select().from(punches)
+      .where(and(
+        eq(punches.type, "IN"),
+        sql`NOT EXISTS (
+          SELECT 1 FROM punches p2
+          WHERE p2.employee_id = ${punches.employeeId}
+            AND p2.type IN ('IN', 'OUT')
+            AND p2.timestamp > ${punches.timestamp}
+        )`
+      ));
+  }
+
+  async getCorrectionsInRange(options: { startDate: Date; endDate: Date; employeeId?: string; siteId?: string }): Promise<CorrectionRecord[]> {
     const correctedByEmployee = alias(employees, "corrected_by_employee");
 
-    const conditions = [
-      gte(punches.timestamp, options.startDate),
-      lte(punches.timestamp, options.endDate),
-    ];
+    const conditions = [punchTimeInRange(options.startDate, options.endDate)];
 
     if (options.employeeId) {
       conditions.push(eq(punches.employeeId, options.employeeId));
     }
+    if (options.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
 
     const results = await db
       .select({
@@ -713,6 +1095,914 @@ export class DatabaseStorage implements IStorage {
       employeeName: `${r.employeeLastName}, ${r.employeeFirstName}`,
     }));
   }
+
+  async getWorkScheduleByEmployee(employeeId: string): Promise<WorkScheduleWithDays | undefined> {
+    const [schedule] = await db.select().from(workSchedules).where(eq(workSchedules.employeeId, employeeId));
+    if (!schedule) return undefined;
+
+    const days = await db.select().from(workScheduleDays)
+      .where(eq(workScheduleDays.scheduleId, schedule.id))
+      .orderBy(workScheduleDays.weekday);
+    return { ...schedule, days };
+  }
+
+  async getAllWorkSchedules(): Promise<WorkScheduleWithDays[]> {
+    const schedules = await db.select().from(workSchedules);
+    if (schedules.length === 0) return [];
+
+    const days = await db.select().from(workScheduleDays).orderBy(workScheduleDays.weekday);
+    const daysBySchedule = new Map<string, typeof days>();
+    for (const day of days) {
+      const list = daysBySchedule.get(day.scheduleId) || [];
+      list.push(day);
+      daysBySchedule.set(day.scheduleId, list);
+    }
+
+    return schedules.map(s => ({ ...s, days: daysBySchedule.get(s.id) || [] }));
+  }
+
+  async upsertWorkSchedule(
+    employeeId: string,
+    data: { weeklyMinutes: number | null; source: "manual" | "gestion"; updatedById: string | null },
+    days: WorkScheduleDayInput[]
+  ): Promise<WorkScheduleWithDays> {
+    return db.transaction(async (tx) => {
+      const [schedule] = await tx.insert(workSchedules)
+        .values({ employeeId, ...data })
+        .onConflictDoUpdate({
+          target: workSchedules.employeeId,
+          set: { ...data, updatedAt: new Date() },
+        })
+        .returning();
+
+      await tx.delete(workScheduleDays).where(eq(workScheduleDays.scheduleId, schedule.id));
+
+      let savedDays: WorkScheduleWithDays["days"] = [];
+      if (days.length > 0) {
+        savedDays = await tx.insert(workScheduleDays).values(days.map(d => ({
+          scheduleId: schedule.id,
+          weekday: d.weekday,
+          expectedMinutes: d.expectedMinutes,
+          startTime: d.startTime ?? null,
+          endTime: d.endTime ?? null,
+        }))).returning();
+      }
+
+      return { ...schedule, days: savedDays.sort((a, b) => a.weekday - b.weekday) };
+    });
+  }
+
+  async deleteWorkSchedule(employeeId: string): Promise<void> {
+    await db.delete(workSchedules).where(eq(workSchedules.employeeId, employeeId));
+  }
+
+  // Without forSite every holiday is listed; with it, only the ones observed at that site
+  async getHolidaysInRange(fromDateKey: string, toDateKey: string, forSite?: { siteId: string | null }): Promise<Holiday[]> {
+    return db.select().from(holidays)
+      .where(and(gte(holidays.date, fromDateKey), lte(holidays.date, toDateKey), forSite ? holidaySiteFilter(forSite.siteId) : undefined))
+      .orderBy(holidays.date);
+  }
+
+  async getHolidayByDate(dateKey: string, forSite?: { siteId: string | null }): Promise<Holiday | undefined> {
+    const [holiday] = await db.select().from(holidays)
+      .where(and(eq(holidays.date, dateKey), forSite ? holidaySiteFilter(forSite.siteId) : undefined))
+      .limit(1);
+    return holiday || undefined;
+  }
+
+  async createHoliday(holiday: HolidayInput & { createdById?: string | null }): Promise<Holiday> {
+    const [created] = await db.insert(holidays).values(holiday).returning();
+    return created;
+  }
+
+  async updateHoliday(id: string, data: Partial<HolidayInput>): Promise<Holiday | undefined> {
+    const [updated] = await db.update(holidays).set(data).where(eq(holidays.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteHoliday(id: string): Promise<Holiday | undefined> {
+    const [deleted] = await db.delete(holidays).where(eq(holidays.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async getAbsenceTypes(options?: { includeInactive?: boolean }): Promise<AbsenceType[]> {
+    return db.select().from(absenceTypes)
+      .where(options?.includeInactive ? undefined : eq(absenceTypes.isActive, true))
+      .orderBy(absenceTypes.name);
+  }
+
+  async getAbsenceType(id: string): Promise<AbsenceType | undefined> {
+    const [type] = await db.select().from(absenceTypes).where(eq(absenceTypes.id, id));
+    return type || undefined;
+  }
+
+  async createAbsenceType(type: InsertAbsenceType): Promise<AbsenceType> {
+    const [created] = await db.insert(absenceTypes).values(type).returning();
+    return created;
+  }
+
+  async updateAbsenceType(id: string, data: Partial<InsertAbsenceType>): Promise<AbsenceType | undefined> {
+    const [updated] = await db.update(absenceTypes).set(data).where(eq(absenceTypes.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async createAbsence(absence: InsertAbsence & { reviewedAt?: Date }): Promise<Absence> {
+    const [created] = await db.insert(absences).values(absence).returning();
+    return created;
+  }
+
+  async getAbsence(id: string): Promise<Absence | undefined> {
+    const [absence] = await db.select().from(absences).where(eq(absences.id, id));
+    return absence || undefined;
+  }
+
+  async updateAbsence(id: string, data: Partial<InsertAbsence> & { reviewedAt?: Date }): Promise<Absence | undefined> {
+    const [updated] = await db.update(absences).set(data).where(eq(absences.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getAbsences(options?: { status?: AbsenceStatus; employeeId?: string; siteId?: string; fromDateKey?: string; toDateKey?: string; limit?: number }): Promise<AbsenceWithDetails[]> {
+    const conditions = [];
+    if (options?.status) {
+      conditions.push(eq(absences.status, options.status));
+    }
+    if (options?.employeeId) {
+      conditions.push(eq(absences.employeeId, options.employeeId));
+    }
+    if (options?.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
+    if (options?.fromDateKey) {
+      conditions.push(gte(absences.endDate, options.fromDateKey));
+    }
+    if (options?.toDateKey) {
+      conditions.push(lte(absences.startDate, options.toDateKey));
+    }
+
+    const results = await db
+      .select({
+        absence: absences,
+        employee: {
+          id: employees.id,
+          firstName: employees.firstName,
+          lastName: employees.lastName,
+        },
+        type: {
+          id: absenceTypes.id,
+          code: absenceTypes.code,
+          name: absenceTypes.name,
+          paid: absenceTypes.paid,
+        },
+      })
+      .from(absences)
+      .innerJoin(employees, eq(absences.employeeId, employees.id))
+      .innerJoin(absenceTypes, eq(absences.typeId, absenceTypes.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(absences.startDate))
+      .limit(options?.limit || 500);
+
+    return results.map(r => ({ ...r.absence, employee: r.employee, type: r.type }));
+  }
+
+  async getOverlappingAbsences(employeeId: string, startDateKey: string, endDateKey: string): Promise<Absence[]> {
+    return db.select().from(absences)
+      .where(and(
+        eq(absences.employeeId, employeeId),
+        inArray(absences.status, ["pending", "approved"]),
+        lte(absences.startDate, endDateKey),
+        gte(absences.endDate, startDateKey)
+      ));
+  }
+
+  async getHoursBankEntries(employeeId: string): Promise<HoursBankEntry[]> {
+    return db.select().from(hoursBankEntries)
+      .where(eq(hoursBankEntries.employeeId, employeeId))
+      .orderBy(desc(hoursBankEntries.date), desc(hoursBankEntries.createdAt));
+  }
+
+  async getAllHoursBankEntries(): Promise<HoursBankEntry[]> {
+    return db.select().from(hoursBankEntries).orderBy(hoursBankEntries.date);
+  }
+
+  async createHoursBankEntry(entry: InsertHoursBankEntry): Promise<HoursBankEntry> {
+    const [created] = await db.insert(hoursBankEntries).values(entry).returning();
+    return created;
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async getNotificationsForRecipient(recipientId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]> {
+    const conditions = [sql`(${notifications.recipientId} = ${recipientId} OR ${notifications.recipientId} IS NULL)`];
+    if (options?.unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+    return db.select().from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options?.limit || 50);
+  }
+
+  async markNotificationRead(id: string, recipientId: string): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.id, id),
+        sql`(${notifications.recipientId} = ${recipientId} OR ${notifications.recipientId} IS NULL)`
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getBreakPolicies(): Promise<BreakPolicy[]> {
+    return db.select().from(breakPolicies).orderBy(desc(breakPolicies.isDefault), breakPolicies.name);
+  }
+
+  async getBreakPolicy(id: string): Promise<BreakPolicy | undefined> {
+    const [policy] = await db.select().from(breakPolicies).where(eq(breakPolicies.id, id));
+    return policy || undefined;
+  }
+
+  // Employee assignment first, then the employee's site, then the default policy
+  async getBreakPolicyForEmployee(employeeId: string): Promise<BreakPolicy | undefined> {
+    const [employee] = await db.select({ breakPolicyId: employees.breakPolicyId, siteBreakPolicyId: sites.breakPolicyId })
+      .from(employees)
+      .leftJoin(sites, eq(employees.siteId, sites.id))
+      .where(eq(employees.id, employeeId));
+    const policies = await this.getBreakPolicies();
+    return resolveBreakPolicy(policies, employee?.breakPolicyId, employee?.siteBreakPolicyId);
+  }
+
+  async createBreakPolicy(policy: BreakPolicyInput): Promise<BreakPolicy> {
+    return db.transaction(async (tx) => {
+      if (policy.isDefault) {
+        await tx.update(breakPolicies).set({ isDefault: false }).where(eq(breakPolicies.isDefault, true));
+      }
+      const [created] = await tx.insert(breakPolicies).values(policy).returning();
+      return created;
+    });
+  }
+
+  async updateBreakPolicy(id: string, data: Partial<BreakPolicyInput>): Promise<BreakPolicy | undefined> {
+    return db.transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.update(breakPolicies).set({ isDefault: false }).where(eq(breakPolicies.isDefault, true));
+      }
+      const [updated] = await tx.update(breakPolicies)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(breakPolicies.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  async deleteBreakPolicy(id: string): Promise<BreakPolicy | undefined> {
+    const [deleted] = await db.delete(breakPolicies).where(eq(breakPolicies.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async setEmployeeBreakPolicy(employeeId: string, breakPolicyId: string | null): Promise<Employee | undefined> {
+    const [updated] = await db.update(employees).set({ breakPolicyId }).where(eq(employees.id, employeeId)).returning();
+    return updated || undefined;
+  }
+
+  async setSiteBreakPolicy(siteId: string, breakPolicyId: string | null): Promise<Site | undefined> {
+    const [updated] = await db.update(sites).set({ breakPolicyId, updatedAt: new Date() }).where(eq(sites.id, siteId)).returning();
+    return updated || undefined;
+  }
+
+  async getSites(): Promise<Site[]> {
+    return db.select().from(sites).orderBy(sites.name);
+  }
+
+  async getSite(id: string): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.id, id));
+    return site || undefined;
+  }
+
+  async createSite(site: SiteInput): Promise<Site> {
+    const [created] = await db.insert(sites).values({
+      ...site,
+      latitude: site.latitude.toString(),
+      longitude: site.longitude.toString(),
+    }).returning();
+    return created;
+  }
+
+  async updateSite(id: string, data: Partial<SiteInput>): Promise<Site | undefined> {
+    const { latitude, longitude, ...rest } = data;
+    const [updated] = await db.update(sites)
+      .set({
+        ...rest,
+        ...(latitude !== undefined && { latitude: latitude.toString() }),
+        ...(longitude !== undefined && { longitude: longitude.toString() }),
+        updatedAt: new Date(),
+      })
+      .where(eq(sites.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSite(id: string): Promise<Site | undefined> {
+    const [deleted] = await db.delete(sites).where(eq(sites.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async setEmployeeSite(employeeId: string, siteId: string | null): Promise<Employee | undefined> {
+    const [updated] = await db.update(employees).set({ siteId }).where(eq(employees.id, employeeId)).returning();
+    return updated || undefined;
+  }
+
+  async getRolePermissions(role: Role): Promise<RolePermissions | undefined> {
+    const [row] = await db.select().from(rolePermissions).where(eq(rolePermissions.role, role));
+    return row || undefined;
+  }
+
+  async setRolePermissions(role: Role, permissions: Permission[]): Promise<RolePermissions> {
+    const [row] = await db.insert(rolePermissions)
+      .values({ role, permissions })
+      .onConflictDoUpdate({
+        target: rolePermissions.role,
+        set: { permissions, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async setEmployeeSupervisor(employeeId: string, supervisorId: string | null): Promise<Employee | undefined> {
+    const [updated] = await db.update(employees).set({ supervisorId }).where(eq(employees.id, employeeId)).returning();
+    return updated || undefined;
+  }
+
+  async getNotificationByTarget(kind: string, targetId: string): Promise<Notification | undefined> {
+    const [row] = await db.select().from(notifications)
+      .where(and(eq(notifications.kind, kind), eq(notifications.targetId, targetId)))
+      .limit(1);
+    return row || undefined;
+  }
+
+  async createCorrectionRequest(request: InsertPortalCorrectionRequest): Promise<PortalCorrectionRequest> {
+    const [created] = await db.insert(correctionRequests).values(request).returning();
+    return created;
+  }
+
+  async getCorrectionRequest(id: string): Promise<PortalCorrectionRequest | undefined> {
+    const [request] = await db.select().from(correctionRequests).where(eq(correctionRequests.id, id));
+    return request || undefined;
+  }
+
+  async updateCorrectionRequest(id: string, data: Partial<InsertPortalCorrectionRequest> & { reviewedAt?: Date }): Promise<PortalCorrectionRequest | undefined> {
+    const [updated] = await db.update(correctionRequests).set(data).where(eq(correctionRequests.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getCorrectionRequests(options?: { status?: PortalCorrectionRequestStatus; employeeId?: string; supervisorId?: string; siteId?: string; limit?: number }): Promise<PortalCorrectionRequestWithDetails[]> {
+    const conditions = [];
+    if (options?.status) {
+      conditions.push(eq(correctionRequests.status, options.status));
+    }
+    if (options?.employeeId) {
+      conditions.push(eq(correctionRequests.employeeId, options.employeeId));
+    }
+    if (options?.supervisorId) {
+      conditions.push(supervisedBy(options.supervisorId));
+    }
+    if (options?.siteId) {
+      conditions.push(eq(employees.siteId, options.siteId));
+    }
+
+    const results = await db
+      .select({
+        request: correctionRequests,
+        employee: {
+          id: employees.id,
+          firstName: employees.firstName,
+          lastName: employees.lastName,
+          supervisorId: employees.supervisorId,
+        },
+        punchType: punches.type,
+        punchTimestamp: punches.timestamp,
+      })
+      .from(correctionRequests)
+      .innerJoin(employees, eq(correctionRequests.employeeId, employees.id))
+      .leftJoin(punches, eq(correctionRequests.punchId, punches.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(correctionRequests.createdAt))
+      .limit(options?.limit || 500);
+
+    return results.map(r => ({
+      ...r.request,
+      employee: r.employee,
+      punch: r.punchType && r.punchTimestamp ? { type: r.punchType, timestamp: r.punchTimestamp } : null,
+    }));
+  }
+
+  // A missing punch is inserted as a manual punch first so the correction has an original to point at
+  async approveCorrectionRequest(request: PortalCorrectionRequest, reviewerId: string, comment: string): Promise<{ request: PortalCorrectionRequest; correction: PunchCorrection; createdPunch: Punch | null }> {
+    const result = await db.transaction(async (tx) => {
+      let createdPunch: Punch | null = null;
+      let punchId = request.punchId;
+
+      if (request.kind === "missing_punch") {
+        const [employee] = await tx.select({ siteId: employees.siteId }).from(employees).where(eq(employees.id, request.employeeId));
+        [createdPunch] = await tx.insert(punches).values({
+          employeeId: request.employeeId,
+          type: request.requestedType!,
+          timestamp: request.requestedTimestamp!,
+          source: "manual",
+          siteId: employee?.siteId ?? null,
+          manualReason: request.reason,
+          createdById: reviewerId,
+        }).returning();
+        punchId = createdPunch.id;
+      }
+
+      const [correction] = await tx.insert(punchCorrections).values({
+        originalPunchId: punchId!,
+        correctedById: reviewerId,
+        reason: request.reason,
+        newTimestamp: request.kind === "correction" ? request.requestedTimestamp : null,
+        newType: request.kind === "correction" ? request.requestedType : null,
+      }).returning();
+
+      const [updated] = await tx.update(correctionRequests)
+        .set({
+          status: "approved",
+          punchId,
+          reviewerId,
+          reviewerComment: comment,
+          reviewedAt: new Date(),
+          correctionId: correction.id,
+        })
+        .where(eq(correctionRequests.id, request.id))
+        .returning();
+
+      return { request: updated, correction, createdPunch };
+    });
+
+    if (result.createdPunch) {
+      await sealPunches();
+    }
+    return result;
+  }
+
+  async sealHashChains(): Promise<void> {
+    await sealPunches();
+    await sealAuditLog();
+  }
+
+  async getChainHead(chain: ChainName): Promise<ChainHead | null> {
+    const table = chain === "punches" ? punches : auditLog;
+    const [head] = await db.select({ chainSeq: table.chainSeq, hash: table.hash }).from(table)
+      .where(sql`${table.chainSeq} IS NOT NULL`)
+      .orderBy(desc(table.chainSeq))
+      .limit(1);
+    return head ? { chainSeq: head.chainSeq!, hash: head.hash! } : null;
+  }
+
+  async verifyHashChain(chain: ChainName): Promise<ChainVerification> {
+    const result: ChainVerification = { chain, checked: 0, unsealed: 0, head: null, breaks: [] };
+    let previousHash = GENESIS_HASH;
+    let afterSeq = 0;
+
+    while (true) {
+      const page = chain === "punches"
+        ? await db.select().from(punches)
+            .where(sql`${punches.chainSeq} > ${afterSeq}`)
+            .orderBy(punches.chainSeq)
+            .limit(CHAIN_VERIFY_PAGE)
+        : await db.select().from(auditLog)
+            .where(sql`${auditLog.chainSeq} > ${afterSeq}`)
+            .orderBy(auditLog.chainSeq)
+            .limit(CHAIN_VERIFY_PAGE);
+      if (page.length === 0) break;
+
+      const segment = chain === "punches"
+        ? verifyChainSegment(page as Punch[], punchChainFields, previousHash)
+        : verifyChainSegment(page as AuditLog[], auditChainFields, previousHash);
+      result.breaks.push(...segment.breaks);
+      result.checked += page.length;
+      previousHash = segment.lastHash;
+
+      const last = page[page.length - 1];
+      afterSeq = last.chainSeq!;
+      result.head = { chainSeq: last.chainSeq!, hash: last.hash! };
+      if (page.length < CHAIN_VERIFY_PAGE) break;
+    }
+
+    const table = chain === "punches" ? punches : auditLog;
+    const [unsealed] = await db.select({ count: sql<number>`count(*)` }).from(table).where(isNull(table.chainSeq));
+    result.unsealed = Number(unsealed?.count || 0);
+    return result;
+  }
+
+  async createReportRegistration(registration: InsertReportRegistration): Promise<ReportRegistration> {
+    const [created] = await db.insert(reportRegistrations).values(registration).returning();
+    return created;
+  }
+
+  async getReportRegistration(id: string): Promise<ReportRegistration | undefined> {
+    const [registration] = await db.select().from(reportRegistrations).where(eq(reportRegistrations.id, id));
+    return registration || undefined;
+  }
+
+  async createArchivedReport(report: InsertArchivedReport): Promise<ArchivedReport> {
+    const [created] = await db.insert(archivedReports).values(report).returning();
+    return created;
+  }
+
+  async getArchivedReport(id: string): Promise<ArchivedReport | undefined> {
+    const [report] = await db.select().from(archivedReports).where(eq(archivedReports.id, id));
+    return report || undefined;
+  }
+
+  async getArchivedReports(options?: { kind?: ArchivedReportKind; from?: Date; to?: Date; employeeId?: string; siteId?: string; limit?: number }): Promise<ArchivedReportWithDetails[]> {
+    const subject = alias(employees, "subject");
+    const generator = alias(employees, "generator");
+    const conditions = [];
+
+    if (options?.kind) {
+      conditions.push(eq(archivedReports.kind, options.kind));
+    }
+    // Overlap rather than containment, so a yearly report shows up when browsing any of its months
+    if (options?.from) {
+      conditions.push(gte(archivedReports.periodEnd, options.from));
+    }
+    if (options?.to) {
+      conditions.push(lte(archivedReports.periodStart, options.to));
+    }
+    if (options?.employeeId) {
+      conditions.push(eq(archivedReports.employeeId, options.employeeId));
+    }
+    if (options?.siteId) {
+      conditions.push(eq(archivedReports.siteId, options.siteId));
+    }
+
+    const results = await db
+      .select({
+        report: archivedReports,
+        subjectId: subject.id,
+        subjectFirstName: subject.firstName,
+        subjectLastName: subject.lastName,
+        generatorId: generator.id,
+        generatorFirstName: generator.firstName,
+        generatorLastName: generator.lastName,
+      })
+      .from(archivedReports)
+      .leftJoin(subject, eq(archivedReports.employeeId, subject.id))
+      .leftJoin(generator, eq(archivedReports.generatedById, generator.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(archivedReports.generatedAt))
+      .limit(options?.limit || 500);
+
+    return results.map(r => ({
+      ...r.report,
+      employee: r.subjectId ? { id: r.subjectId, firstName: r.subjectFirstName!, lastName: r.subjectLastName! } : null,
+      generatedBy: r.generatorId ? { id: r.generatorId, firstName: r.generatorFirstName!, lastName: r.generatorLastName! } : null,
+    }));
+  }
+
+  async getLastPunchAt(employeeId: string): Promise<Date | null> {
+    const [last] = await db.select({ timestamp: punches.timestamp }).from(punches)
+      .where(eq(punches.employeeId, employeeId))
+      .orderBy(desc(punches.timestamp))
+      .limit(1);
+    return last ? last.timestamp : null;
+  }
+
+  async createLegalHold(hold: InsertLegalHold): Promise<LegalHold> {
+    const [created] = await db.insert(legalHolds).values(hold).returning();
+    return created;
+  }
+
+  async getLegalHold(id: string): Promise<LegalHold | undefined> {
+    const [hold] = await db.select().from(legalHolds).where(eq(legalHolds.id, id));
+    return hold || undefined;
+  }
+
+  async getActiveLegalHold(employeeId: string): Promise<LegalHold | undefined> {
+    const [hold] = await db.select().from(legalHolds)
+      .where(and(eq(legalHolds.employeeId, employeeId), isNull(legalHolds.releasedAt)))
+      .orderBy(desc(legalHolds.placedAt))
+      .limit(1);
+    return hold || undefined;
+  }
+
+  async getLegalHolds(options?: { activeOnly?: boolean }): Promise<LegalHoldWithDetails[]> {
+    const placer = alias(employees, "placer");
+    const releaser = alias(employees, "releaser");
+
+    const results = await db
+      .select({
+        hold: legalHolds,
+        employeeFirstName: employees.firstName,
+        employeeLastName: employees.lastName,
+        placerId: placer.id,
+        placerFirstName: placer.firstName,
+        placerLastName: placer.lastName,
+        releaserId: releaser.id,
+        releaserFirstName: releaser.firstName,
+        releaserLastName: releaser.lastName,
+      })
+      .from(legalHolds)
+      .innerJoin(employees, eq(legalHolds.employeeId, employees.id))
+      .leftJoin(placer, eq(legalHolds.placedById, placer.id))
+      .leftJoin(releaser, eq(legalHolds.releasedById, releaser.id))
+      .where(options?.activeOnly ? isNull(legalHolds.releasedAt) : undefined)
+      .orderBy(desc(legalHolds.placedAt));
+
+    return results.map(r => ({
+      ...r.hold,
+      employee: { id: r.hold.employeeId, firstName: r.employeeFirstName, lastName: r.employeeLastName },
+      placedBy: r.placerId ? { id: r.placerId, firstName: r.placerFirstName!, lastName: r.placerLastName! } : null,
+      releasedBy: r.releaserId ? { id: r.releaserId, firstName: r.releaserFirstName!, lastName: r.releaserLastName! } : null,
+    }));
+  }
+
+  async releaseLegalHold(id: string, releasedById: string, reason: string): Promise<LegalHold | undefined> {
+    const [released] = await db.update(legalHolds)
+      .set({ releasedById, releasedAt: new Date(), releaseReason: reason })
+      .where(and(eq(legalHolds.id, id), isNull(legalHolds.releasedAt)))
+      .returning();
+    return released || undefined;
+  }
+
+  async countExpiredRecords(cutoff: Date): Promise<{ punches: number; employees: number }> {
+    const [punchResult] = await db.select({ count: sql<number>`count(*)` }).from(punches)
+      .where(and(lt(punches.timestamp, cutoff), isNull(punches.anonymizedAt), notOnLegalHold(punches.employeeId)));
+    const due = await this.getEmployeesDueForAnonymization(cutoff);
+    return { punches: Number(punchResult?.count || 0), employees: due.length };
+  }
+
+  // Only unsealed columns are cleared, so the hash chain still verifies after anonymisation
+  async anonymizeExpiredPunches(cutoff: Date, limit: number): Promise<{ id: string; signatureUrl: string | null }[]> {
+    return db.transaction(async (tx) => {
+      const expired = await tx.select({ id: punches.id, signatureUrl: punches.signatureUrl }).from(punches)
+        .where(and(lt(punches.timestamp, cutoff), isNull(punches.anonymizedAt), notOnLegalHold(punches.employeeId)))
+        .orderBy(punches.timestamp)
+        .limit(limit)
+        .for("update");
+      if (expired.length === 0) {
+        return [];
+      }
+
+      await tx.update(punches)
+        .set({ signatureData: null, signatureUrl: null, kioskUserAgent: null, kioskIp: null, anonymizedAt: new Date() })
+        .where(inArray(punches.id, expired.map(p => p.id)));
+      return expired;
+    });
+  }
+
+  // Former staff whose last record has left the retention period; linked and admin accounts are left alone
+  async getEmployeesDueForAnonymization(cutoff: Date): Promise<Employee[]> {
+    return db.select().from(employees).where(and(
+      eq(employees.isActive, false),
+      eq(employees.role, "employee"),
+      isNull(employees.anonymizedAt),
+      isNull(employees.monitorId),
+      isNull(employees.gestionUserId),
+      lt(employees.createdAt, cutoff),
+      notExists(db.select({ id: punches.id }).from(punches).where(and(eq(punches.employeeId, employees.id), gte(punches.timestamp, cutoff)))),
+      notOnLegalHold(employees.id),
+    ));
+  }
+
+  async anonymizeEmployee(id: string, identity: { firstName: string; lastName: string; email: string }): Promise<Employee | undefined> {
+    const [employee] = await db.update(employees)
+      .set({ ...identity, pin: null, anonymizedAt: new Date() })
+      .where(and(eq(employees.id, id), isNull(employees.anonymizedAt)))
+      .returning();
+    return employee || undefined;
+  }
+
+  async getDataSubjectRecords(employeeId: string): Promise<{ punches: Punch[]; corrections: PunchCorrection[]; reviews: PunchReview[]; auditEntries: AuditLog[] }> {
+    const ownPunchIds = db.select({ id: punches.id }).from(punches).where(eq(punches.employeeId, employeeId));
+
+    const [punchRows, corrections, reviews, auditEntries] = await Promise.all([
+      db.select().from(punches).where(eq(punches.employeeId, employeeId)).orderBy(punches.timestamp, punches.id),
+      db.select().from(punchCorrections).where(inArray(punchCorrections.originalPunchId, ownPunchIds)).orderBy(punchCorrections.createdAt),
+      db.select().from(punchReviews).where(inArray(punchReviews.punchId, ownPunchIds)).orderBy(punchReviews.reviewedAt),
+      db.select().from(auditLog).where(or(
+        eq(auditLog.actorId, employeeId),
+        and(eq(auditLog.targetType, "employee"), eq(auditLog.targetId, employeeId)),
+        and(eq(auditLog.targetType, "punch"), inArray(auditLog.targetId, ownPunchIds)),
+      )).orderBy(auditLog.createdAt, auditLog.id),
+    ]);
+
+    return { punches: punchRows, corrections, reviews, auditEntries };
+  }
+
+  async createReportSubscription(subscription: InsertReportSubscription): Promise<ReportSubscription> {
+    const [created] = await db.insert(reportSubscriptions).values(subscription).returning();
+    return created;
+  }
+
+  async getReportSubscription(id: string): Promise<ReportSubscription | undefined> {
+    const [subscription] = await db.select().from(reportSubscriptions).where(eq(reportSubscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async getReportSubscriptions(options?: { siteId?: string; enabledOnly?: boolean }): Promise<ReportSubscriptionWithDetails[]> {
+    const conditions = [];
+    if (options?.siteId) {
+      conditions.push(eq(reportSubscriptions.siteId, options.siteId));
+    }
+    if (options?.enabledOnly) {
+      conditions.push(eq(reportSubscriptions.enabled, true));
+    }
+
+    const results = await db
+      .select({
+        subscription: reportSubscriptions,
+        siteName: sites.name,
+        creatorFirstName: employees.firstName,
+        creatorLastName: employees.lastName,
+      })
+      .from(reportSubscriptions)
+      .leftJoin(sites, eq(reportSubscriptions.siteId, sites.id))
+      .innerJoin(employees, eq(reportSubscriptions.createdById, employees.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(reportSubscriptions.name);
+
+    return results.map(r => ({
+      ...r.subscription,
+      site: r.subscription.siteId ? { id: r.subscription.siteId, name: r.siteName! } : null,
+      createdBy: { id: r.subscription.createdById, firstName: r.creatorFirstName, lastName: r.creatorLastName },
+    }));
+  }
+
+  async updateReportSubscription(id: string, data: Partial<InsertReportSubscription>): Promise<ReportSubscription | undefined> {
+    const [updated] = await db.update(reportSubscriptions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(reportSubscriptions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteReportSubscription(id: string): Promise<boolean> {
+    const deleted = await db.delete(reportSubscriptions).where(eq(reportSubscriptions.id, id)).returning({ id: reportSubscriptions.id });
+    return deleted.length > 0;
+  }
+
+  // A failed run keeps lastPeriod untouched so the scheduler retries the same month
+  async recordReportSubscriptionRun(id: string, run: { period: string; error: string | null }): Promise<void> {
+    await db.update(reportSubscriptions)
+      .set(run.error
+        ? { lastError: run.error }
+        : { lastPeriod: run.period, lastSentAt: new Date(), lastError: null })
+      .where(eq(reportSubscriptions.id, id));
+  }
+
+  async getPunchByClientId(clientId: string): Promise<Punch | undefined> {
+    const [punch] = await db.select().from(punches).where(eq(punches.clientId, clientId));
+    return punch || undefined;
+  }
+
+  async getLastPunchBefore(employeeId: string, before: Date): Promise<Punch | undefined> {
+    const [punch] = await db.select().from(punches)
+      .where(and(eq(punches.employeeId, employeeId), lt(punches.timestamp, before)))
+      .orderBy(desc(punches.timestamp))
+      .limit(1);
+    return punch || undefined;
+  }
+
+  // Returns nothing when the key is already taken, so two concurrent retries cannot both proceed
+  async claimIdempotencyKey(entry: InsertIdempotencyKey): Promise<IdempotencyKey | undefined> {
+    const [claimed] = await db.insert(idempotencyKeys).values(entry).onConflictDoNothing().returning();
+    return claimed || undefined;
+  }
+
+  async getIdempotencyKey(scope: string, key: string): Promise<IdempotencyKey | undefined> {
+    const [entry] = await db.select().from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.scope, scope), eq(idempotencyKeys.key, key)));
+    return entry || undefined;
+  }
+
+  async completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void> {
+    await db.update(idempotencyKeys).set({ statusCode, responseBody }).where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async getPresenceBoard(siteId?: string): Promise<PresenceEntry[]> {
+    const activeEmployees = await db.select({
+      id: employees.id,
+      firstName: employees.firstName,
+      lastName: employees.lastName,
+      siteId: employees.siteId,
+    }).from(employees)
+      .where(siteId ? and(eq(employees.isActive, true), eq(employees.siteId, siteId)) : eq(employees.isActive, true));
+    if (activeEmployees.length === 0) {
+      return [];
+    }
+
+    const ids = activeEmployees.map(e => e.id);
+    const lastPunchOf = (workOnly: boolean) => db
+      .selectDistinctOn([punches.employeeId], {
+        employeeId: punches.employeeId,
+        type: punches.type,
+        timestamp: punches.timestamp,
+      })
+      .from(punches)
+      .where(and(inArray(punches.employeeId, ids), workOnly ? sql`${punches.type} IN ('IN', 'OUT')` : undefined))
+      .orderBy(punches.employeeId, desc(punches.timestamp));
+
+    const [lastPunches, lastWorkPunches] = await Promise.all([lastPunchOf(false), lastPunchOf(true)]);
+    return buildPresenceBoard(
+      activeEmployees,
+      new Map(lastPunches.map(p => [p.employeeId, p])),
+      new Map(lastWorkPunches.map(p => [p.employeeId, p])),
+    );
+  }
+
+  async createKioskPairing(pairing: InsertKioskPairing): Promise<KioskPairing> {
+    const [created] = await db.insert(kioskPairings).values(pairing).returning();
+    return created;
+  }
+
+  async getKioskPairingBySecretHash(secretHash: string): Promise<KioskPairing | undefined> {
+    const [pairing] = await db.select().from(kioskPairings).where(eq(kioskPairings.secretHash, secretHash));
+    return pairing || undefined;
+  }
+
+  async getPendingKioskPairingByCode(code: string): Promise<KioskPairing | undefined> {
+    const [pairing] = await db.select().from(kioskPairings).where(and(
+      eq(kioskPairings.code, code),
+      isNull(kioskPairings.deviceId),
+      gte(kioskPairings.expiresAt, new Date())
+    ));
+    return pairing || undefined;
+  }
+
+  // Conditional on the pairing still being unclaimed, so two admins approving the same code cannot both win
+  async approveKioskPairing(id: string, deviceId: string, approvedById: string): Promise<KioskPairing | undefined> {
+    const [approved] = await db.update(kioskPairings)
+      .set({ deviceId, approvedById, approvedAt: new Date() })
+      .where(and(eq(kioskPairings.id, id), isNull(kioskPairings.deviceId)))
+      .returning();
+    return approved || undefined;
+  }
+
+  async markKioskPairingDelivered(id: string): Promise<boolean> {
+    const delivered = await db.update(kioskPairings)
+      .set({ deliveredAt: new Date() })
+      .where(and(eq(kioskPairings.id, id), isNull(kioskPairings.deliveredAt)))
+      .returning({ id: kioskPairings.id });
+    return delivered.length > 0;
+  }
+
+  async createKioskTokenEvent(event: InsertKioskTokenEvent): Promise<void> {
+    await db.insert(kioskTokenEvents).values(event);
+  }
+
+  async getKioskTokenEvents(deviceId: string): Promise<KioskTokenEventWithActor[]> {
+    const results = await db
+      .select({
+        event: kioskTokenEvents,
+        actorId: employees.id,
+        actorFirstName: employees.firstName,
+        actorLastName: employees.lastName,
+      })
+      .from(kioskTokenEvents)
+      .leftJoin(employees, eq(kioskTokenEvents.actorId, employees.id))
+      .where(eq(kioskTokenEvents.deviceId, deviceId))
+      .orderBy(desc(kioskTokenEvents.createdAt));
+
+    return results.map(r => ({
+      ...r.event,
+      actor: r.actorId ? { id: r.actorId, firstName: r.actorFirstName!, lastName: r.actorLastName! } : null,
+    }));
+  }
+
+  async recordKioskHeartbeat(id: string): Promise<void> {
+    await db.update(kioskDevices).set({ lastHeartbeatAt: new Date(), offlineAlertedAt: null }).where(eq(kioskDevices.id, id));
+  }
+
+  async createKioskHeartbeat(heartbeat: InsertKioskHeartbeat): Promise<KioskHeartbeat> {
+    const [created] = await db.insert(kioskHeartbeats).values(heartbeat).returning();
+    return created;
+  }
+
+  async getLatestKioskHeartbeats(): Promise<KioskHeartbeat[]> {
+    return db
+      .selectDistinctOn([kioskHeartbeats.deviceId])
+      .from(kioskHeartbeats)
+      .orderBy(kioskHeartbeats.deviceId, desc(kioskHeartbeats.createdAt));
+  }
+
+  async getKioskHeartbeats(deviceId: string, since: Date): Promise<KioskHeartbeat[]> {
+    return db.select().from(kioskHeartbeats)
+      .where(and(eq(kioskHeartbeats.deviceId, deviceId), gte(kioskHeartbeats.createdAt, since)))
+      .orderBy(desc(kioskHeartbeats.createdAt));
+  }
+
+  async markKioskOfflineAlerted(id: string): Promise<void> {
+    await db.update(kioskDevices).set({ offlineAlertedAt: new Date() }).where(eq(kioskDevices.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -96,6 +96,15 @@ export function toSpainDateKey(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+export function getSpainWeekday(date: Date): number {
+  const weekday = new Intl.DateTimeFormat("en-US", {
+    timeZone: TIMEZONE,
+    weekday: "short",
+  }).format(date);
+  const isoWeekdays: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+  return isoWeekdays[weekday];
+}
+
 export function startOfDayInSpain(date: Date): Date {
   const dateKey = toSpainDateKey(date);
   const [year, month, day] = dateKey.split("-").map(Number);
@@ -112,6 +121,13 @@ export function endOfDayInSpain(date: Date): Date {
   return new Date(utcEnd.getTime() + offsetMs);
 }
 
+export function spainLocalTimeToDate(dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const utcGuess = new Date(Date.UTC(year, month - 1, day, hours, minutes, 0, 0));
+  return new Date(utcGuess.getTime() + getSpainOffsetMs(utcGuess));
+}
+
 function getSpainOffsetMs(date: Date): number {
   const utcStr = date.toLocaleString("en-US", { timeZone: "UTC" });
   const spainStr = date.toLocaleString("en-US", { timeZone: TIMEZONE });
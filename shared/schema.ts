@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, decimal, integer, serial, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, decimal, integer, serial, pgEnum, jsonb, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,7 +18,44 @@ export const employees = pgTable("employees", {
   monitorId: integer("monitor_id").unique(),
   gestionUserId: integer("gestion_user_id").unique(),
   syncDisabled: boolean("sync_disabled").notNull().default(false),
+  breakPolicyId: varchar("break_policy_id").references((): AnyPgColumn => breakPolicies.id, { onDelete: "set null" }),
+  siteId: varchar("site_id").references((): AnyPgColumn => sites.id, { onDelete: "set null" }),
+  supervisorId: varchar("supervisor_id").references((): AnyPgColumn => employees.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Set once the retention period has ended and the identity fields were overwritten
+  anonymizedAt: timestamp("anonymized_at"),
+});
+
+// durationMinutes null disables the automatic close; mandatoryAfterMinutes null disables the "Sin pausa" incident
+export const breakPolicies = pgTable("break_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  durationMinutes: integer("duration_minutes"),
+  paid: boolean("paid").notNull().default(true),
+  mandatoryAfterMinutes: integer("mandatory_after_minutes"),
+  maxBreaksPerDay: integer("max_breaks_per_day"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const geofenceModeEnum = pgEnum("geofence_mode", ["off", "flag", "reject"]);
+
+// The geofence is a polygon of [latitude, longitude] vertices when set, otherwise a circle around the centre
+export const sites = pgTable("sites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  address: text("address"),
+  latitude: decimal("latitude", { precision: 9, scale: 6 }).notNull(),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }).notNull(),
+  radiusMeters: integer("radius_meters").notNull().default(150),
+  polygon: jsonb("polygon").$type<[number, number][]>(),
+  geofenceMode: geofenceModeEnum("geofence_mode").notNull().default("flag"),
+  // Applies to the site's employees who have no break policy of their own
+  breakPolicyId: varchar("break_policy_id").references((): AnyPgColumn => breakPolicies.id, { onDelete: "set null" }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const punchStatusEnum = pgEnum("punch_status", ["PENDING_SIGNATURE", "SIGNED"]);
@@ -42,15 +79,83 @@ export const punches = pgTable("punches", {
   kioskIp: text("kiosk_ip"),
   status: punchStatusEnum("status").notNull().default("SIGNED"),
   isAuto: boolean("is_auto"),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "set null" }),
+  geofenceDistanceMeters: integer("geofence_distance_meters"),
+  outsideGeofence: boolean("outside_geofence").notNull().default(false),
+  // Set only on retroactive punches entered by an admin (source "manual")
+  manualReason: text("manual_reason"),
+  createdById: varchar("created_by_id").references(() => employees.id, { onDelete: "set null" }),
+  // Tamper-evident chain, filled in by the storage layer right after insert (see server/hash-chain.ts)
+  chainSeq: integer("chain_seq").unique(),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
+  // Signature and kiosk traces are cleared once retention ends; sealed fields are kept as they are
+  anonymizedAt: timestamp("anonymized_at"),
+  // Punches queued by an offline kiosk: the device's id makes replays idempotent, and the
+  // gap between device time and arrival is kept so reviewers can judge the recorded time
+  clientId: varchar("client_id").unique(),
+  deviceTimestamp: timestamp("device_timestamp"),
+  receivedAt: timestamp("received_at"),
+  clockDriftSeconds: integer("clock_drift_seconds"),
 });
 
 export const kioskDevices = pgTable("kiosk_devices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  tokenHash: text("token_hash").notNull(),
+  // Null until a pairing is collected by the kiosk, and again after the token is revoked
+  tokenHash: text("token_hash"),
   enabled: boolean("enabled").notNull().default(true),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastUsedAt: timestamp("last_used_at"),
+  tokenIssuedAt: timestamp("token_issued_at"),
+  previousTokenHash: text("previous_token_hash"),
+  previousTokenValidUntil: timestamp("previous_token_valid_until"),
+  lastHeartbeatAt: timestamp("last_heartbeat_at"),
+  // Set once the kiosk has been reported offline, cleared by its next heartbeat, so each silence raises a single alert
+  offlineAlertedAt: timestamp("offline_alerted_at"),
+});
+
+// A kiosk asking to be paired: it shows the code, an admin approves it, and only the kiosk holding the secret can collect the token
+export const kioskPairings = pgTable("kiosk_pairings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(),
+  secretHash: text("secret_hash").notNull().unique(),
+  deviceId: varchar("device_id").references(() => kioskDevices.id, { onDelete: "cascade" }),
+  approvedById: varchar("approved_by_id").references(() => employees.id),
+  approvedAt: timestamp("approved_at"),
+  deliveredAt: timestamp("delivered_at"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const kioskTokenEventEnum = pgEnum("kiosk_token_event", ["paired", "rotated", "revoked"]);
+
+export const kioskTokenEvents = pgTable("kiosk_token_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => kioskDevices.id, { onDelete: "cascade" }),
+  event: kioskTokenEventEnum("event").notNull(),
+  actorId: varchar("actor_id").references(() => employees.id),
+  tokenFingerprint: text("token_fingerprint"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// What the kiosk reports about itself every minute; the latest one per device feeds the health view
+export const kioskHeartbeats = pgTable("kiosk_heartbeats", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => kioskDevices.id, { onDelete: "cascade" }),
+  appVersion: text("app_version"),
+  batteryLevel: integer("battery_level"),
+  batteryCharging: boolean("battery_charging"),
+  connectionType: text("connection_type"),
+  effectiveType: text("effective_type"),
+  pendingPunches: integer("pending_punches").notNull().default(0),
+  // Device clock minus server clock at arrival: positive when the tablet runs ahead
+  clockSkewSeconds: integer("clock_skew_seconds").notNull(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const punchCorrections = pgTable("punch_corrections", {
@@ -88,7 +193,21 @@ export const ssoNonces = pgTable("sso_nonces", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const auditActionEnum = pgEnum("audit_action", ["correction", "review", "create", "login", "export", "overtime_create", "overtime_review", "purge", "sso_login"]);
+// Stored answers to punch-creating requests, keyed per employee or kiosk so a retried request replays instead of punching twice
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(),
+  key: text("key").notNull(),
+  requestHash: text("request_hash").notNull(),
+  statusCode: integer("status_code"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  unique("idempotency_keys_scope_key_unique").on(table.scope, table.key),
+]);
+
+export const auditActionEnum = pgEnum("audit_action", ["correction", "review", "create", "login", "export", "overtime_create", "overtime_review", "purge", "sso_login", "schedule_update", "absence_create", "absence_review", "hours_bank_entry", "auto_clockout", "permissions_update", "correction_request", "correction_request_review", "manual_punch", "legal_hold", "legal_hold_release", "anonymize", "settings_update"]);
 
 export const overtimeStatusEnum = pgEnum("overtime_status", ["pending", "approved", "rejected"]);
 
@@ -105,6 +224,179 @@ export const overtimeRequests = pgTable("overtime_requests", {
   reviewedAt: timestamp("reviewed_at"),
 });
 
+export const workSchedules = pgTable("work_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().unique().references(() => employees.id),
+  weeklyMinutes: integer("weekly_minutes"),
+  source: text("source").notNull().default("manual"),
+  updatedById: varchar("updated_by_id").references(() => employees.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const workScheduleDays = pgTable("work_schedule_days", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => workSchedules.id, { onDelete: "cascade" }),
+  weekday: integer("weekday").notNull(),
+  expectedMinutes: integer("expected_minutes").notNull().default(0),
+  startTime: varchar("start_time", { length: 5 }),
+  endTime: varchar("end_time", { length: 5 }),
+});
+
+export const holidays = pgTable("holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: varchar("date", { length: 10 }).notNull(),
+  name: text("name").notNull(),
+  scope: text("scope").notNull().default("national"),
+  // Null applies to every site; a local holiday or closure names the one site it applies to
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "cascade" }),
+  createdById: varchar("created_by_id").references(() => employees.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const absenceStatusEnum = pgEnum("absence_status", ["pending", "approved", "rejected", "cancelled"]);
+
+export const absenceTypes = pgTable("absence_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  paid: boolean("paid").notNull().default(true),
+  annualAllowanceDays: integer("annual_allowance_days"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const absences = pgTable("absences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  typeId: varchar("type_id").notNull().references(() => absenceTypes.id),
+  startDate: varchar("start_date", { length: 10 }).notNull(),
+  endDate: varchar("end_date", { length: 10 }).notNull(),
+  days: integer("days").notNull(),
+  comment: text("comment"),
+  status: absenceStatusEnum("status").notNull().default("pending"),
+  reviewerId: varchar("reviewer_id").references(() => employees.id),
+  reviewerComment: text("reviewer_comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+export const correctionRequestKindEnum = pgEnum("correction_request_kind", ["correction", "missing_punch"]);
+export const correctionRequestStatusEnum = pgEnum("correction_request_status", ["pending", "approved", "rejected", "cancelled"]);
+
+// Filed by the employee from the portal; approval materialises it as a punch_corrections row
+export const correctionRequests = pgTable("correction_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  kind: correctionRequestKindEnum("kind").notNull(),
+  punchId: varchar("punch_id").references(() => punches.id),
+  requestedType: punchTypeEnum("requested_type"),
+  requestedTimestamp: timestamp("requested_timestamp"),
+  reason: text("reason").notNull(),
+  status: correctionRequestStatusEnum("status").notNull().default("pending"),
+  reviewerId: varchar("reviewer_id").references(() => employees.id),
+  reviewerComment: text("reviewer_comment"),
+  correctionId: varchar("correction_id").references(() => punchCorrections.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// One row per authorities PDF handed out; the id is the document id printed (and QR-encoded) on the cover
+export const reportRegistrations = pgTable("report_registrations", {
+  id: varchar("id").primaryKey(),
+  scope: text("scope").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  employeeId: varchar("employee_id").references(() => employees.id, { onDelete: "set null" }),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "set null" }),
+  datasetHash: text("dataset_hash").notNull(),
+  pdfSha256: text("pdf_sha256").notNull(),
+  chainSeq: integer("chain_seq"),
+  chainHash: text("chain_hash"),
+  generatedById: varchar("generated_by_id").references(() => employees.id, { onDelete: "set null" }),
+  generatedAt: timestamp("generated_at").notNull().defaultNow(),
+});
+
+export const archivedReportKindEnum = pgEnum("archived_report_kind", ["authorities", "employee"]);
+
+// Every official PDF handed out is stored once and never rewritten; rows have no update path
+export const archivedReports = pgTable("archived_reports", {
+  id: varchar("id").primaryKey(),
+  kind: archivedReportKindEnum("kind").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  employeeId: varchar("employee_id").references(() => employees.id, { onDelete: "set null" }),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "set null" }),
+  fileName: text("file_name").notNull(),
+  storageBackend: text("storage_backend").notNull(),
+  storageKey: text("storage_key").notNull(),
+  sha256: text("sha256").notNull(),
+  byteSize: integer("byte_size").notNull(),
+  generatedById: varchar("generated_by_id").references(() => employees.id, { onDelete: "set null" }),
+  generatedAt: timestamp("generated_at").notNull().defaultNow(),
+});
+
+// A hold keeps every record of the employee out of purges and anonymisation until it is released
+export const legalHolds = pgTable("legal_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  reason: text("reason").notNull(),
+  // Nulled, like releasedById, when the admin who placed the hold is purged
+  placedById: varchar("placed_by_id").references(() => employees.id),
+  placedAt: timestamp("placed_at").notNull().defaultNow(),
+  releasedById: varchar("released_by_id").references(() => employees.id),
+  releasedAt: timestamp("released_at"),
+  releaseReason: text("release_reason"),
+});
+
+export const reportSubscriptionKindEnum = pgEnum("report_subscription_kind", ["general", "authorities"]);
+
+// Monthly email delivery of a report; lastPeriod ("YYYY-MM") is the last closed month already sent
+export const reportSubscriptions = pgTable("report_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: reportSubscriptionKindEnum("kind").notNull(),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "cascade" }),
+  includeAnnexes: boolean("include_annexes").notNull().default(true),
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdById: varchar("created_by_id").notNull().references(() => employees.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  lastPeriod: text("last_period"),
+  lastSentAt: timestamp("last_sent_at"),
+  lastError: text("last_error"),
+});
+
+export const hoursBankEntryKindEnum = pgEnum("hours_bank_entry_kind", ["credit", "time_off", "payout", "adjustment"]);
+
+// Signed ledger: credits are positive, time off and payouts are negative
+export const hoursBankEntries = pgTable("hours_bank_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  kind: hoursBankEntryKindEnum("kind").notNull(),
+  minutes: integer("minutes").notNull(),
+  date: varchar("date", { length: 10 }).notNull(),
+  expiresOn: varchar("expires_on", { length: 10 }),
+  overtimeRequestId: varchar("overtime_request_id").unique().references(() => overtimeRequests.id),
+  comment: text("comment"),
+  createdById: varchar("created_by_id").references(() => employees.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// recipientId null means the notification is addressed to every admin and manager
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recipientId: varchar("recipient_id").references(() => employees.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  targetType: text("target_type"),
+  targetId: varchar("target_id"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const auditLog = pgTable("audit_log", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   action: auditActionEnum("action").notNull(),
@@ -114,6 +406,9 @@ export const auditLog = pgTable("audit_log", {
   details: text("details"),
   ipAddress: text("ip_address"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  chainSeq: integer("chain_seq").unique(),
+  prevHash: text("prev_hash"),
+  hash: text("hash"),
 });
 
 export const gestionAdminLinks = pgTable("gestion_admin_links", {
@@ -128,6 +423,32 @@ export const gestionAdminLinks = pgTable("gestion_admin_links", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const PERMISSIONS = [
+  "employees.view",
+  "employees.manage",
+  "settings.manage",
+  "punches.view",
+  "punches.review",
+  "punches.correct",
+  "punches.export",
+  "overtime.review",
+  "absences.manage",
+  "hours_bank.manage",
+  "reports.view",
+  "reports.authorities",
+  "kiosk.manage",
+  "cleanup.purge",
+  "retention.manage",
+  "system.status",
+  "roles.manage",
+] as const;
+
+export const rolePermissions = pgTable("role_permissions", {
+  role: roleEnum("role").primaryKey(),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 export const gestionAdminLinksRelations = relations(gestionAdminLinks, ({ one }) => ({
   employee: one(employees, {
     fields: [gestionAdminLinks.employeeId],
@@ -158,6 +479,21 @@ export const overtimeRequestsRelations = relations(overtimeRequests, ({ one }) =
   }),
 }));
 
+export const workSchedulesRelations = relations(workSchedules, ({ one, many }) => ({
+  employee: one(employees, {
+    fields: [workSchedules.employeeId],
+    references: [employees.id],
+  }),
+  days: many(workScheduleDays),
+}));
+
+export const workScheduleDaysRelations = relations(workScheduleDays, ({ one }) => ({
+  schedule: one(workSchedules, {
+    fields: [workScheduleDays.scheduleId],
+    references: [workSchedules.id],
+  }),
+}));
+
 export const punchesRelations = relations(punches, ({ one, many }) => ({
   employee: one(employees, {
     fields: [punches.employeeId],
@@ -211,6 +547,7 @@ export const insertEmployeeSchema = createInsertSchema(employees).omit({
   createdAt: true,
   monitorId: true,
   gestionUserId: true,
+  anonymizedAt: true,
 }).extend({
   pin: z.string().length(6, "El PIN debe tener exactamente 6 dígitos").regex(/^\d{6}$/, "El PIN debe contener solo números"),
 });
@@ -226,6 +563,10 @@ export const employeeLoginSchema = z.object({
 
 export const insertPunchSchema = createInsertSchema(punches).omit({
   id: true,
+  chainSeq: true,
+  prevHash: true,
+  hash: true,
+  anonymizedAt: true,
 });
 
 export const insertPunchCorrectionSchema = createInsertSchema(punchCorrections).omit({
@@ -263,6 +604,9 @@ export const insertPunchReviewSchema = createInsertSchema(punchReviews).omit({
 export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
   id: true,
   createdAt: true,
+  chainSeq: true,
+  prevHash: true,
+  hash: true,
 });
 
 export const reviewRequestSchema = z.object({
@@ -286,6 +630,36 @@ export const insertKioskDeviceSchema = createInsertSchema(kioskDevices).omit({
   lastUsedAt: true,
 });
 
+export const insertKioskPairingSchema = createInsertSchema(kioskPairings).omit({
+  id: true,
+  createdAt: true,
+  deviceId: true,
+  approvedById: true,
+  approvedAt: true,
+  deliveredAt: true,
+});
+
+export const insertKioskTokenEventSchema = createInsertSchema(kioskTokenEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertKioskHeartbeatSchema = createInsertSchema(kioskHeartbeats).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Every field but the device time is optional: browsers expose battery and connection details unevenly
+export const kioskHeartbeatRequestSchema = z.object({
+  deviceTime: z.string().datetime(),
+  appVersion: z.string().max(64).optional(),
+  batteryLevel: z.number().int().min(0).max(100).nullable().optional(),
+  batteryCharging: z.boolean().nullable().optional(),
+  connectionType: z.string().max(32).nullable().optional(),
+  effectiveType: z.string().max(16).nullable().optional(),
+  pendingPunches: z.number().int().min(0).optional(),
+});
+
 export const kioskPunchRequestSchema = z.object({
   type: z.enum(["IN", "OUT"]),
   latitude: z.number().optional(),
@@ -294,6 +668,23 @@ export const kioskPunchRequestSchema = z.object({
   signatureData: z.string().min(1, "La firma es obligatoria"),
 });
 
+export const offlineKioskPunchSchema = kioskPunchRequestSchema.extend({
+  clientId: z.string().uuid(),
+  pin: z.string().length(6),
+  deviceTimestamp: z.string().datetime(),
+});
+
+export const kioskPunchSyncSchema = z.object({
+  punches: z.array(offlineKioskPunchSchema).min(1).max(200),
+});
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).omit({
+  id: true,
+  createdAt: true,
+  statusCode: true,
+  responseBody: true,
+});
+
 export const signatureUploadSchema = z.object({
   punchId: z.string().uuid(),
 });
@@ -314,13 +705,31 @@ export const correctPunchSchema = z.object({
   newType: z.enum(["IN", "OUT"]).optional(),
 });
 
+export const manualPunchSchema = z.object({
+  employeeId: z.string().uuid(),
+  type: z.enum(["IN", "OUT"]),
+  timestamp: z.string().datetime({ message: "Formato de fecha/hora inválido" }),
+  reason: z.string().min(10, "El motivo debe tener al menos 10 caracteres").max(500),
+});
+
 export const kioskDeviceSchema = z.object({
   name: z.string().min(1, "El nombre es obligatorio").max(100, "El nombre es demasiado largo"),
+  siteId: z.string().uuid().nullable().optional(),
 });
 
+// Either pairs a new device (name required) or re-pairs an existing one after its token was revoked
+export const kioskPairingApprovalSchema = kioskDeviceSchema.partial({ name: true }).extend({
+  code: z.string().min(1, "El código es obligatorio"),
+  deviceId: z.string().uuid().optional(),
+}).refine(
+  (data) => data.deviceId || data.name,
+  { message: "Indique el nombre del dispositivo", path: ["name"] }
+);
+
 export const updateKioskDeviceSchema = z.object({
   name: z.string().min(1, "El nombre es obligatorio").max(100).optional(),
   enabled: z.boolean().optional(),
+  siteId: z.string().uuid().nullable().optional(),
 });
 
 export const employeePortalLoginSchema = z.object({
@@ -339,6 +748,230 @@ export const pauseRequestSchema = z.object({
   accuracy: z.number().optional(),
 });
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Formato: HH:MM");
+
+export const workScheduleDaySchema = z.object({
+  weekday: z.number().int().min(1).max(7),
+  expectedMinutes: z.number().int().min(0, "Los minutos no pueden ser negativos").max(24 * 60, "Máximo 24 horas por día"),
+  startTime: timeOfDaySchema.nullable().optional(),
+  endTime: timeOfDaySchema.nullable().optional(),
+});
+
+export const updateWorkScheduleSchema = z.object({
+  weeklyMinutes: z.number().int().min(0).max(7 * 24 * 60).nullable().optional(),
+  days: z.array(workScheduleDaySchema).max(7),
+}).refine(
+  (data) => new Set(data.days.map(d => d.weekday)).size === data.days.length,
+  { message: "Día de la semana duplicado", path: ["days"] }
+);
+
+export const holidayScopeEnum = z.enum(["national", "regional", "local", "closure"]);
+
+export const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato: YYYY-MM-DD"),
+  name: z.string().min(1, "El nombre es obligatorio").max(200),
+  scope: holidayScopeEnum.default("national"),
+  siteId: z.string().uuid().nullable().optional(),
+});
+
+export const updateHolidaySchema = holidaySchema.partial();
+
+export const holidayImportSchema = z.object({
+  ics: z.string().min(1, "El fichero iCal está vacío"),
+  scope: holidayScopeEnum.default("regional"),
+  siteId: z.string().uuid().nullable().optional(),
+});
+
+export const insertAbsenceTypeSchema = createInsertSchema(absenceTypes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAbsenceSchema = createInsertSchema(absences).omit({
+  id: true,
+  createdAt: true,
+  reviewedAt: true,
+});
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato: YYYY-MM-DD");
+
+export const absenceTypeSchema = z.object({
+  code: z.string().min(2).max(40).regex(/^[a-z0-9_]+$/, "Solo minúsculas, números y _"),
+  name: z.string().min(1, "El nombre es obligatorio").max(100),
+  paid: z.boolean().default(true),
+  annualAllowanceDays: z.number().int().min(0).max(366).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateAbsenceTypeSchema = absenceTypeSchema.omit({ code: true }).partial();
+
+export const absenceRequestSchema = z.object({
+  typeId: z.string().uuid(),
+  startDate: dateKeySchema,
+  endDate: dateKeySchema,
+  comment: z.string().max(500).optional(),
+}).refine((data) => data.startDate <= data.endDate, {
+  message: "La fecha de fin debe ser posterior a la de inicio",
+  path: ["endDate"],
+});
+
+export const adminAbsenceSchema = z.object({
+  employeeId: z.string().uuid(),
+  typeId: z.string().uuid(),
+  startDate: dateKeySchema,
+  endDate: dateKeySchema,
+  comment: z.string().max(500).optional(),
+}).refine((data) => data.startDate <= data.endDate, {
+  message: "La fecha de fin debe ser posterior a la de inicio",
+  path: ["endDate"],
+});
+
+export const absenceReviewRequestSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  comment: z.string().min(5, "El comentario debe contener al menos 5 caracteres"),
+});
+
+export const insertPortalCorrectionRequestSchema = createInsertSchema(correctionRequests).omit({
+  id: true,
+  createdAt: true,
+  reviewedAt: true,
+});
+
+export const insertReportRegistrationSchema = createInsertSchema(reportRegistrations);
+
+export const insertArchivedReportSchema = createInsertSchema(archivedReports);
+
+export const archivedReportQuerySchema = z.object({
+  kind: z.enum(["authorities", "employee"]).optional(),
+  from: dateKeySchema.optional(),
+  to: dateKeySchema.optional(),
+  employeeId: z.string().optional(),
+});
+
+export const insertLegalHoldSchema = createInsertSchema(legalHolds).omit({
+  id: true,
+  placedAt: true,
+  releasedById: true,
+  releasedAt: true,
+  releaseReason: true,
+});
+
+export const legalHoldRequestSchema = z.object({
+  employeeId: z.string().uuid(),
+  reason: z.string().min(5, "El motivo debe tener al menos 5 caracteres").max(500),
+});
+
+export const legalHoldReleaseSchema = z.object({
+  reason: z.string().min(5, "El motivo debe tener al menos 5 caracteres").max(500),
+});
+
+export const insertReportSubscriptionSchema = createInsertSchema(reportSubscriptions, {
+  recipients: z.array(z.string().email()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  lastSentAt: true,
+  lastError: true,
+});
+
+export const reportSubscriptionRequestSchema = z.object({
+  name: z.string().min(1, "El nombre es obligatorio").max(100),
+  kind: z.enum(["general", "authorities"]),
+  siteId: z.string().uuid().nullable().optional(),
+  includeAnnexes: z.boolean().optional(),
+  recipients: z.array(z.string().email("Email inválido")).min(1, "Indica al menos un destinatario").max(20),
+  enabled: z.boolean().optional(),
+});
+
+export const reportSubscriptionUpdateSchema = reportSubscriptionRequestSchema.partial();
+
+export const portalCorrectionRequestSchema = z.object({
+  kind: z.enum(["correction", "missing_punch"]),
+  punchId: z.string().uuid().optional(),
+  requestedType: z.enum(["IN", "OUT"]).optional(),
+  requestedTimestamp: z.string().datetime({ message: "Formato de fecha/hora inválido" }).optional(),
+  reason: z.string().min(10, "El motivo debe tener al menos 10 caracteres").max(500),
+}).refine((data) => data.kind !== "correction" || data.punchId, {
+  message: "Debe indicar el fichaje a corregir",
+  path: ["punchId"],
+}).refine((data) => data.kind !== "correction" || data.requestedType || data.requestedTimestamp, {
+  message: "Debe indicar la nueva hora o el nuevo tipo",
+  path: ["requestedTimestamp"],
+}).refine((data) => data.kind !== "missing_punch" || (data.requestedType && data.requestedTimestamp), {
+  message: "Debe indicar el tipo y la hora del fichaje olvidado",
+  path: ["requestedTimestamp"],
+});
+
+export const correctionRequestReviewSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  comment: z.string().min(5, "El comentario debe contener al menos 5 caracteres"),
+});
+
+export const insertHoursBankEntrySchema = createInsertSchema(hoursBankEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const breakPolicySchema = z.object({
+  name: z.string().min(1, "El nombre es obligatorio").max(100),
+  durationMinutes: z.number().int().min(1).max(240).nullable(),
+  paid: z.boolean().default(true),
+  mandatoryAfterMinutes: z.number().int().min(60).max(720).nullable(),
+  maxBreaksPerDay: z.number().int().min(1).max(10).nullable(),
+  isDefault: z.boolean().default(false),
+});
+
+export const updateBreakPolicySchema = breakPolicySchema.partial();
+
+export const assignBreakPolicySchema = z.object({
+  breakPolicyId: z.string().uuid().nullable(),
+});
+
+const coordinateSchema = z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]);
+
+export const siteSchema = z.object({
+  name: z.string().min(1, "El nombre es obligatorio").max(100),
+  address: z.string().max(200).nullable().optional(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusMeters: z.number().int().min(10, "El radio mínimo es de 10 m").max(5000).default(150),
+  polygon: z.array(coordinateSchema).min(3, "El polígono necesita al menos 3 vértices").max(100).nullable().optional(),
+  geofenceMode: z.enum(["off", "flag", "reject"]).default("flag"),
+  isActive: z.boolean().default(true),
+});
+
+export const updateSiteSchema = siteSchema.partial();
+
+export const assignSiteSchema = z.object({
+  siteId: z.string().uuid().nullable(),
+});
+
+export const assignSupervisorSchema = z.object({
+  supervisorId: z.string().uuid().nullable(),
+});
+
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const hoursBankEntryRequestSchema = z.object({
+  employeeId: z.string().uuid(),
+  kind: z.enum(["time_off", "payout", "adjustment"]),
+  minutes: z.number().int().min(-100000).max(100000),
+  date: dateKeySchema,
+  comment: z.string().min(5, "El comentario debe contener al menos 5 caracteres").max(500),
+}).refine((data) => data.kind === "adjustment" ? data.minutes !== 0 : data.minutes > 0, {
+  message: "Indique los minutos a descontar (positivos); los ajustes admiten signo",
+  path: ["minutes"],
+});
+
 export type EmployeePortalLoginInput = z.infer<typeof employeePortalLoginSchema>;
 export type ShiftsQuery = z.infer<typeof shiftsQuerySchema>;
 export type PauseRequest = z.infer<typeof pauseRequestSchema>;
@@ -357,6 +990,7 @@ export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type EmployeeLoginInput = z.infer<typeof employeeLoginSchema>;
 export type PunchRequest = z.infer<typeof punchRequestSchema>;
+export type ManualPunchRequest = z.infer<typeof manualPunchSchema>;
 export type CorrectionRequest = z.infer<typeof correctionRequestSchema>;
 export type ExportQuery = z.infer<typeof exportQuerySchema>;
 export type ReviewRequest = z.infer<typeof reviewRequestSchema>;
@@ -365,8 +999,90 @@ export type InsertOvertimeRequest = z.infer<typeof insertOvertimeRequestSchema>;
 export type OvertimeReviewRequest = z.infer<typeof overtimeReviewRequestSchema>;
 export type KioskDevice = typeof kioskDevices.$inferSelect;
 export type InsertKioskDevice = z.infer<typeof insertKioskDeviceSchema>;
+export type KioskPairing = typeof kioskPairings.$inferSelect;
+export type InsertKioskPairing = z.infer<typeof insertKioskPairingSchema>;
+export type KioskTokenEvent = typeof kioskTokenEvents.$inferSelect;
+export type InsertKioskTokenEvent = z.infer<typeof insertKioskTokenEventSchema>;
+export type KioskTokenEventKind = KioskTokenEvent["event"];
+export type KioskTokenEventWithActor = KioskTokenEvent & {
+  actor: { id: string; firstName: string; lastName: string } | null;
+};
+export type KioskHeartbeat = typeof kioskHeartbeats.$inferSelect;
+export type InsertKioskHeartbeat = z.infer<typeof insertKioskHeartbeatSchema>;
+export type KioskHeartbeatRequest = z.infer<typeof kioskHeartbeatRequestSchema>;
 export type KioskPunchRequest = z.infer<typeof kioskPunchRequestSchema>;
+export type OfflineKioskPunch = z.infer<typeof offlineKioskPunchSchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
 export type GestionAdminLink = typeof gestionAdminLinks.$inferSelect;
+export type WorkSchedule = typeof workSchedules.$inferSelect;
+export type WorkScheduleDay = typeof workScheduleDays.$inferSelect;
+export type WorkScheduleWithDays = WorkSchedule & { days: WorkScheduleDay[] };
+export type WorkScheduleDayInput = z.infer<typeof workScheduleDaySchema>;
+export type UpdateWorkScheduleRequest = z.infer<typeof updateWorkScheduleSchema>;
+export type Holiday = typeof holidays.$inferSelect;
+export type HolidayScope = z.infer<typeof holidayScopeEnum>;
+export type HolidayInput = z.infer<typeof holidaySchema>;
+export type AbsenceType = typeof absenceTypes.$inferSelect;
+export type InsertAbsenceType = z.infer<typeof insertAbsenceTypeSchema>;
+export type Absence = typeof absences.$inferSelect;
+export type InsertAbsence = z.infer<typeof insertAbsenceSchema>;
+export type AbsenceStatus = Absence["status"];
+export type AbsenceWithDetails = Absence & {
+  employee: { id: string; firstName: string; lastName: string };
+  type: { id: string; code: string; name: string; paid: boolean };
+};
+
+export type PortalCorrectionRequest = typeof correctionRequests.$inferSelect;
+export type InsertPortalCorrectionRequest = z.infer<typeof insertPortalCorrectionRequestSchema>;
+export type PortalCorrectionRequestStatus = PortalCorrectionRequest["status"];
+export type PortalCorrectionRequestInput = z.infer<typeof portalCorrectionRequestSchema>;
+export type PortalCorrectionRequestWithDetails = PortalCorrectionRequest & {
+  employee: { id: string; firstName: string; lastName: string; supervisorId: string | null };
+  punch: { type: Punch["type"]; timestamp: Date } | null;
+};
+
+export type ReportRegistration = typeof reportRegistrations.$inferSelect;
+export type InsertReportRegistration = z.infer<typeof insertReportRegistrationSchema>;
+
+export type ArchivedReport = typeof archivedReports.$inferSelect;
+export type InsertArchivedReport = z.infer<typeof insertArchivedReportSchema>;
+export type ArchivedReportKind = ArchivedReport["kind"];
+export type ArchivedReportWithDetails = ArchivedReport & {
+  employee: { id: string; firstName: string; lastName: string } | null;
+  generatedBy: { id: string; firstName: string; lastName: string } | null;
+};
+
+export type LegalHold = typeof legalHolds.$inferSelect;
+export type InsertLegalHold = z.infer<typeof insertLegalHoldSchema>;
+export type LegalHoldWithDetails = LegalHold & {
+  employee: { id: string; firstName: string; lastName: string };
+  placedBy: { id: string; firstName: string; lastName: string } | null;
+  releasedBy: { id: string; firstName: string; lastName: string } | null;
+};
+
+export type ReportSubscription = typeof reportSubscriptions.$inferSelect;
+export type InsertReportSubscription = z.infer<typeof insertReportSubscriptionSchema>;
+export type ReportSubscriptionKind = ReportSubscription["kind"];
+export type ReportSubscriptionWithDetails = ReportSubscription & {
+  site: { id: string; name: string } | null;
+  createdBy: { id: string; firstName: string; lastName: string };
+};
+
+export type HoursBankEntry = typeof hoursBankEntries.$inferSelect;
+export type InsertHoursBankEntry = z.infer<typeof insertHoursBankEntrySchema>;
+export type HoursBankEntryKind = HoursBankEntry["kind"];
+export type HoursBankEntryRequest = z.infer<typeof hoursBankEntryRequestSchema>;
+export type BreakPolicy = typeof breakPolicies.$inferSelect;
+export type BreakPolicyInput = z.infer<typeof breakPolicySchema>;
+export type Site = typeof sites.$inferSelect;
+export type SiteInput = z.infer<typeof siteSchema>;
+export type GeofenceMode = Site["geofenceMode"];
+export type Permission = typeof PERMISSIONS[number];
+export type RolePermissions = typeof rolePermissions.$inferSelect;
+export type Role = Employee["role"];
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
 export const adminLoginSchema = z.object({
   identifier: z.string().min(1, "El nombre de usuario es obligatorio"),
@@ -0,0 +1,92 @@
+// Worked-time arithmetic shared by the server (overtime, reports, CSV) and the client duration helpers,
+// so a pause is deducted the same way everywhere it is counted
+
+export interface WorkTimePunch {
+  type: string;
+  timestamp: Date | string | null;
+}
+
+function toMinute(value: Date | string | null | undefined): number | null {
+  if (!value) return null;
+  const ms = (typeof value === "string" ? new Date(value) : value).getTime();
+  return isNaN(ms) ? null : Math.floor(ms / 60000);
+}
+
+function sortedByTime<T extends WorkTimePunch>(punches: T[]): T[] {
+  return [...punches].sort((a, b) => (toMinute(a.timestamp) ?? 0) - (toMinute(b.timestamp) ?? 0));
+}
+
+/**
+ * Minutes spent on pause between an entry and an exit.
+ * A pause still open at the exit runs until the exit.
+ */
+export function breakMinutesBetween(
+  punches: WorkTimePunch[],
+  entryAt: Date | string,
+  exitAt: Date | string
+): number {
+  const entry = toMinute(entryAt);
+  const exit = toMinute(exitAt);
+  if (entry === null || exit === null || exit <= entry) return 0;
+
+  let total = 0;
+  let breakStart: number | null = null;
+
+  for (const punch of sortedByTime(punches)) {
+    const at = toMinute(punch.timestamp);
+    if (at === null || at < entry || at > exit) continue;
+
+    if (punch.type === "BREAK_START") {
+      breakStart = at;
+    } else if (punch.type === "BREAK_END" && breakStart !== null) {
+      total += at - breakStart;
+      breakStart = null;
+    }
+  }
+
+  if (breakStart !== null) {
+    total += exit - breakStart;
+  }
+
+  return total;
+}
+
+/**
+ * Worked minutes of one IN → OUT session.
+ * Unpaid pauses are deducted; paid pauses count as working time.
+ * @returns null if the session is still open or the timestamps are invalid
+ */
+export function sessionWorkedMinutes(
+  entryAt: Date | string | null | undefined,
+  exitAt: Date | string | null | undefined,
+  punches: WorkTimePunch[],
+  breaksPaid: boolean
+): number | null {
+  const entry = toMinute(entryAt);
+  const exit = toMinute(exitAt);
+  if (entry === null || exit === null || exit < entry) return null;
+
+  const gross = exit - entry;
+  if (breaksPaid) return gross;
+  return Math.max(0, gross - breakMinutesBetween(punches, entryAt!, exitAt!));
+}
+
+/**
+ * Worked minutes over a list of punches (typically one day of one employee).
+ * Only closed IN → OUT sessions are counted.
+ */
+export function dailyWorkedMinutes(punches: WorkTimePunch[], breaksPaid: boolean): number {
+  let total = 0;
+  let lastIn: WorkTimePunch | null = null;
+
+  for (const punch of sortedByTime(punches)) {
+    if (punch.type === "IN") {
+      lastIn = punch;
+    } else if (punch.type === "OUT" && lastIn) {
+      total += sessionWorkedMinutes(lastIn.timestamp, punch.timestamp, punches, breaksPaid) ?? 0;
+      lastIn = null;
+    }
+  }
+
+  return total;
+}